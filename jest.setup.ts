@@ -0,0 +1,4 @@
+// The server config requires these at import; tests never connect to the database
+process.env.DATABASE_URL ??= 'postgresql://localhost:5432/chromavault_test';
+process.env.JWT_SECRET ??= 'test-secret';
+process.env.JWT_REFRESH_SECRET ??= 'test-refresh-secret';
@@ -0,0 +1,50 @@
+-- ChromaVault Migration: Palette revision history
+-- Database: PostgreSQL 15
+
+-- ==================== TABLES ====================
+
+-- Palette revisions (one snapshot per palette version)
+CREATE TABLE palette_revisions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    version INTEGER NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    colors JSONB NOT NULL,
+    tags TEXT[] DEFAULT '{}',
+    palette_id UUID NOT NULL REFERENCES palettes(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(palette_id, version)
+);
+
+-- ==================== INDEXES ====================
+
+CREATE INDEX idx_palette_revisions_palette_id ON palette_revisions(palette_id);
+CREATE INDEX idx_palette_revisions_user_id ON palette_revisions(user_id);
+
+-- ==================== BACKFILL ====================
+
+-- Snapshot every existing palette at its current version, so it can be diffed and restored
+-- before its next edit
+INSERT INTO palette_revisions (version, name, description, colors, tags, palette_id, user_id, created_at)
+SELECT
+    COALESCE(p.version, 1),
+    p.name,
+    p.description,
+    COALESCE(
+        (SELECT jsonb_agg(jsonb_build_object('hex', c.hex, 'name', c.name, 'position', c.position) ORDER BY c.position)
+         FROM colors c
+         WHERE c.palette_id = p.id),
+        '[]'::jsonb
+    ),
+    COALESCE(
+        (SELECT array_agg(t.name ORDER BY t.name)
+         FROM palette_tags pt
+         JOIN tags t ON t.id = pt.tag_id
+         WHERE pt.palette_id = p.id),
+        '{}'
+    ),
+    p.id,
+    p.user_id,
+    COALESCE(p.updated_at, p.created_at, CURRENT_TIMESTAMP)
+FROM palettes p;
@@ -0,0 +1,11 @@
+-- ChromaVault Migration: Palette forking and remix lineage
+-- Database: PostgreSQL 15
+
+-- ==================== COLUMNS ====================
+
+ALTER TABLE palettes
+    ADD COLUMN forked_from_id UUID REFERENCES palettes(id) ON DELETE SET NULL;
+
+-- ==================== INDEXES ====================
+
+CREATE INDEX idx_palettes_forked_from_id ON palettes(forked_from_id);
@@ -0,0 +1,40 @@
+-- ChromaVault Migration: Denormalized like count for palette sorting
+-- Database: PostgreSQL 15
+
+-- ==================== COLUMNS ====================
+
+ALTER TABLE palettes
+    ADD COLUMN like_count INTEGER NOT NULL DEFAULT 0;
+
+-- view_count is the other keyset sort key; NULLs would sort ahead of every count
+UPDATE palettes SET view_count = 0 WHERE view_count IS NULL;
+ALTER TABLE palettes
+    ALTER COLUMN view_count SET NOT NULL;
+
+-- Backfill from existing favorites
+UPDATE palettes p
+SET like_count = (SELECT COUNT(*) FROM favorites f WHERE f.palette_id = p.id);
+
+-- ==================== INDEXES ====================
+
+-- Keyset pagination indexes (sort key + id tie-breaker)
+CREATE INDEX idx_palettes_view_count_id ON palettes(view_count DESC, id);
+CREATE INDEX idx_palettes_like_count_id ON palettes(like_count DESC, id);
+
+-- ==================== TRIGGERS ====================
+
+-- Keep like_count in sync with favorites
+CREATE OR REPLACE FUNCTION update_palette_like_count()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        UPDATE palettes SET like_count = like_count + 1 WHERE id = NEW.palette_id;
+    ELSIF TG_OP = 'DELETE' THEN
+        UPDATE palettes SET like_count = GREATEST(like_count - 1, 0) WHERE id = OLD.palette_id;
+    END IF;
+    RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER update_palettes_like_count AFTER INSERT OR DELETE ON favorites
+    FOR EACH ROW EXECUTE FUNCTION update_palette_like_count();
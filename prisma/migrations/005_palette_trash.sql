@@ -0,0 +1,10 @@
+-- ChromaVault Migration: Palette trash
+-- Database: PostgreSQL 15
+
+-- ==================== INDEXES ====================
+
+-- Per-user trash listing
+CREATE INDEX idx_palettes_user_deleted_at ON palettes(user_id, deleted_at);
+
+-- Scheduled purge scans only trashed rows
+CREATE INDEX idx_palettes_trashed ON palettes(deleted_at) WHERE deleted_at IS NOT NULL;
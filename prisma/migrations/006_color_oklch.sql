@@ -0,0 +1,93 @@
+-- ChromaVault Migration: OKLCH color values and corrected CIELAB
+-- Database: PostgreSQL 15
+
+-- ==================== COLUMNS ====================
+
+ALTER TABLE colors
+    ADD COLUMN oklch JSONB;
+
+-- ==================== BACKFILL ====================
+
+-- Mirrors colorValues() in src/lib/color: CIELAB relative to D50 (Bradford-adapted) and
+-- OKLCH, rounded to 0.01 and 0.0001/0.01. Existing lab values came from a simplified
+-- formula and are recomputed from hex.
+CREATE OR REPLACE FUNCTION chromavault_color_values(hex TEXT)
+RETURNS TABLE (lab JSONB, oklch JSONB) AS $$
+DECLARE
+    channel DOUBLE PRECISION;
+    rgb DOUBLE PRECISION[] := ARRAY[]::DOUBLE PRECISION[];
+    r DOUBLE PRECISION;
+    g DOUBLE PRECISION;
+    b DOUBLE PRECISION;
+    x DOUBLE PRECISION;
+    y DOUBLE PRECISION;
+    z DOUBLE PRECISION;
+    f DOUBLE PRECISION[] := ARRAY[]::DOUBLE PRECISION[];
+    t DOUBLE PRECISION;
+    lms_l DOUBLE PRECISION;
+    lms_m DOUBLE PRECISION;
+    lms_s DOUBLE PRECISION;
+    ok_l DOUBLE PRECISION;
+    ok_a DOUBLE PRECISION;
+    ok_b DOUBLE PRECISION;
+    chroma DOUBLE PRECISION;
+    hue DOUBLE PRECISION;
+BEGIN
+    FOR i IN 0..2 LOOP
+        channel := ('x' || substr(hex, 2 + i * 2, 2))::BIT(8)::INTEGER / 255.0;
+        rgb := rgb || CASE
+            WHEN channel <= 0.04045 THEN channel / 12.92
+            ELSE power((channel + 0.055) / 1.055, 2.4)
+        END;
+    END LOOP;
+    r := rgb[1];
+    g := rgb[2];
+    b := rgb[3];
+
+    -- Linear sRGB to XYZ D50, divided by the D50 white
+    x := (0.4360657469 * r + 0.3851515096 * g + 0.1430784200 * b) / 0.9642956764;
+    y := 0.2224931771 * r + 0.7168870131 * g + 0.0606198098 * b;
+    z := (0.0139239215 * r + 0.0970813242 * g + 0.7140993568 * b) / 0.8251046025;
+
+    FOREACH t IN ARRAY ARRAY[x, y, z] LOOP
+        f := f || CASE
+            WHEN t > 216.0 / 24389.0 THEN cbrt(t)
+            ELSE (24389.0 / 27.0 * t + 16) / 116
+        END;
+    END LOOP;
+
+    lab := jsonb_build_object(
+        'l', round((116 * f[2] - 16)::NUMERIC, 2),
+        'a', round((500 * (f[1] - f[2]))::NUMERIC, 2),
+        'b', round((200 * (f[2] - f[3]))::NUMERIC, 2)
+    );
+
+    lms_l := cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+    lms_m := cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+    lms_s := cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+    ok_l := 0.2104542553 * lms_l + 0.7936177850 * lms_m - 0.0040720468 * lms_s;
+    ok_a := 1.9779984951 * lms_l - 2.4285922050 * lms_m + 0.4505937099 * lms_s;
+    ok_b := 0.0259040371 * lms_l + 0.7827717662 * lms_m - 0.8086757660 * lms_s;
+
+    chroma := sqrt(ok_a * ok_a + ok_b * ok_b);
+    hue := CASE
+        WHEN chroma < 0.0001 THEN 0
+        ELSE mod((degrees(atan2(ok_b, ok_a)) + 360)::NUMERIC, 360)
+    END;
+
+    oklch := jsonb_build_object(
+        'l', round(ok_l::NUMERIC, 4),
+        'c', round(chroma::NUMERIC, 4),
+        'h', round(hue::NUMERIC, 2)
+    );
+
+    RETURN NEXT;
+END;
+$$ language 'plpgsql' IMMUTABLE;
+
+UPDATE colors
+SET (lab, oklch) = (SELECT v.lab, v.oklch FROM chromavault_color_values(colors.hex) v)
+WHERE hex ~ '^#[0-9A-Fa-f]{6}$';
+
+DROP FUNCTION chromavault_color_values(TEXT);
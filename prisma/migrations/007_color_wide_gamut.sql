@@ -0,0 +1,9 @@
+-- ChromaVault Migration: Display P3 and Rec. 2020 colors
+-- Database: PostgreSQL 15
+
+-- ==================== COLUMNS ====================
+
+-- Colors entered as color(display-p3 ...) or color(rec2020 ...) keep their original channels;
+-- hex holds the gamut-mapped sRGB fallback. NULL for plain sRGB colors.
+ALTER TABLE colors
+    ADD COLUMN wide_gamut JSONB;
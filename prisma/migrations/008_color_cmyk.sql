@@ -0,0 +1,9 @@
+-- ChromaVault Migration: CMYK separations for print
+-- Database: PostgreSQL 15
+
+-- ==================== COLUMNS ====================
+
+-- Ink percentages for the default print condition (FOGRA39, relative colorimetric), written
+-- when colors are saved. Exports separate colors saved before this migration on the fly.
+ALTER TABLE colors
+    ADD COLUMN cmyk JSONB;
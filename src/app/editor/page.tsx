@@ -19,16 +19,30 @@ import {
 import { Button } from '@/components/ui/button';
 import { ColorSwatch } from '@/components/color/color-swatch';
 import { ColorPicker, QuickColorPicker } from '@/components/color/color-picker';
+import { ColorAnalyzer } from '@/components/color/color-analyzer';
+import { ContrastMatrixPanel } from '@/components/palette/contrast-matrix-panel';
+import { TonalRampPanel } from '@/components/palette/tonal-ramp-panel';
+import { PrintPreviewPanel } from '@/components/palette/print-preview-panel';
+import { WideGamutInput } from '@/components/color/wide-gamut-input';
 import { Color } from '@/types';
 import { 
+  createColor,
   generateRandomColor, 
   generateComplementaryColor,
   generateAnalogousColors,
-  generateTriadicColors 
+  generateTriadicColors,
+  toCssColor
 } from '@/lib/utils/color-utils';
 import { cn, copyToClipboard, downloadFile } from '@/lib/utils';
 import { usePaletteStore } from '@/lib/stores/palette-store';
 import { useUIStore } from '@/lib/stores/ui-store';
+import {
+  PaletteExportClient,
+  PaletteExportFormat,
+  isPaletteExportFormat,
+  paletteExportLabels
+} from '@/lib/export/palette-export';
+import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
 
 const harmonies = [
   { 
@@ -98,6 +112,17 @@ export default function EditorPage() {
     saveToHistory(newColors);
   };
 
+  const handleAddShade = (hex: string) => {
+    if (editorColors.length >= 10) {
+      showToast('최대 10개의 색상까지 추가할 수 있습니다', 'warning');
+      return;
+    }
+
+    const newColors = [...editorColors, createColor(hex)];
+    setEditorColors(newColors);
+    saveToHistory(newColors);
+  };
+
   const handleRemoveColor = (index: number) => {
     if (editorColors.length <= 2) {
       showToast('최소 2개의 색상이 필요합니다', 'warning');
@@ -116,6 +141,11 @@ export default function EditorPage() {
     saveToHistory(newColors);
   };
 
+  const handleColorsChange = (newColors: Color[]) => {
+    setEditorColors(newColors);
+    saveToHistory(newColors);
+  };
+
   const handleGenerateHarmony = (type: string) => {
     if (editorColors.length === 0) return;
     
@@ -171,7 +201,24 @@ export default function EditorPage() {
     showToast('팔레트가 저장되었습니다', 'success');
   };
 
-  const handleExport = (format: 'json' | 'css' | 'scss' | 'aco') => {
+  const handleExport = async (format: 'json' | 'css' | 'scss' | PaletteExportFormat) => {
+    // Swatch files are encoded by the API so every export path produces the same bytes
+    if (isPaletteExportFormat(format)) {
+      try {
+        await PaletteExportClient.downloadColors(
+          paletteName || 'palette',
+          editorColors.map(c => ({ hex: c.hex, color: c.wideGamut ? toCssColor(c) : undefined, name: c.name })),
+          format,
+          {},
+          paletteDescription || undefined
+        );
+        showToast('파일이 다운로드되었습니다', 'success');
+      } catch {
+        showToast('내보내기에 실패했습니다', 'error');
+      }
+      return;
+    }
+
     let content = '';
     let filename = `${paletteName || 'palette'}.${format}`;
     
@@ -182,6 +229,7 @@ export default function EditorPage() {
           description: paletteDescription,
           colors: editorColors.map(c => ({
             hex: c.hex,
+            ...(c.wideGamut && { color: toCssColor(c) }),
             rgb: c.rgb,
             hsl: c.hsl,
           }))
@@ -191,10 +239,18 @@ export default function EditorPage() {
         content = `:root {\n${editorColors.map((c, i) => 
           `  --color-${i + 1}: ${c.hex};`
         ).join('\n')}\n}`;
+        // Wide-gamut screens get the original colors; everything else keeps the sRGB fallback
+        if (editorColors.some(c => c.wideGamut)) {
+          content += `\n\n@media (color-gamut: p3) {\n  :root {\n${editorColors.map((c, i) =>
+            c.wideGamut ? `    --color-${i + 1}: ${toCssColor(c)};` : ''
+          ).filter(Boolean).join('\n')}\n  }\n}`;
+        }
         break;
       case 'scss':
         content = editorColors.map((c, i) => 
-          `$color-${i + 1}: ${c.hex};`
+          c.wideGamut
+            ? `$color-${i + 1}: ${c.hex};\n$color-${i + 1}-wide: ${toCssColor(c)};`
+            : `$color-${i + 1}: ${c.hex};`
         ).join('\n');
         break;
     }
@@ -338,12 +394,31 @@ export default function EditorPage() {
                   <Share2 size={16} />
                 </Button>
                 
-                <div className="relative">
-                  <Button variant="outline" size="sm">
-                    <Download size={16} />
-                  </Button>
-                  {/* Export dropdown would go here */}
-                </div>
+                <DropdownMenu.Root>
+                  <DropdownMenu.Trigger asChild>
+                    <Button variant="outline" size="sm">
+                      <Download size={16} />
+                    </Button>
+                  </DropdownMenu.Trigger>
+                  <DropdownMenu.Portal>
+                    <DropdownMenu.Content className="bg-popover border rounded-md shadow-md p-1 min-w-[180px]">
+                      {([
+                        ['css', 'CSS 변수'],
+                        ['scss', 'SCSS 변수'],
+                        ['json', 'JSON 데이터'],
+                        ...Object.entries(paletteExportLabels),
+                      ] as [Parameters<typeof handleExport>[0], string][]).map(([format, label]) => (
+                        <DropdownMenu.Item
+                          key={format}
+                          className="flex items-center gap-2 px-2 py-1.5 text-sm rounded hover:bg-accent cursor-pointer"
+                          onClick={() => handleExport(format)}
+                        >
+                          {label}
+                        </DropdownMenu.Item>
+                      ))}
+                    </DropdownMenu.Content>
+                  </DropdownMenu.Portal>
+                </DropdownMenu.Root>
               </div>
             </div>
 
@@ -437,6 +512,37 @@ export default function EditorPage() {
               </div>
             </div>
 
+            {/* Contrast Matrix */}
+            <div className="bg-card rounded-lg border p-6">
+              <ContrastMatrixPanel colors={editorColors.map(c => c.hex)} />
+            </div>
+
+            {/* Color Analysis */}
+            <div className="bg-card rounded-lg border p-6">
+              <ColorAnalyzer
+                colors={editorColors}
+                onColorChange={handleColorChange}
+                onColorsChange={handleColorsChange}
+              />
+            </div>
+
+            {/* Tonal Ramp */}
+            {editorColors.length > 0 && (
+              <div className="bg-card rounded-lg border p-6">
+                <TonalRampPanel
+                  color={editorColors[selectedColorIndex ?? 0]?.hex ?? editorColors[0].hex}
+                  onSelectShade={handleAddShade}
+                />
+              </div>
+            )}
+
+            {/* Print Preview */}
+            {editorColors.length > 0 && (
+              <div className="bg-card rounded-lg border p-6">
+                <PrintPreviewPanel colors={editorColors.map(c => toCssColor(c))} />
+              </div>
+            )}
+
             {/* Quick Colors */}
             <div className="bg-card rounded-lg border p-6">
               <h3 className="text-lg font-semibold mb-4">빠른 색상 선택</h3>
@@ -476,6 +582,12 @@ export default function EditorPage() {
                           </div>
                         </div>
                         
+                        <WideGamutInput
+                          key={color.id}
+                          color={color}
+                          onChange={(newColor) => handleColorChange(selectedColorIndex, newColor)}
+                        />
+
                         <div>
                           <label className="text-sm font-medium">RGB</label>
                           <div className="flex items-center gap-2 mt-1">
@@ -0,0 +1,67 @@
+import type { Metadata } from "next";
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+
+interface PaletteSummary {
+  name: string;
+  description?: string | null;
+  colors: { hex: string }[];
+  user?: { name: string | null } | null;
+}
+
+// Cached so link previews and page renders don't each count as a palette view
+async function fetchPalette(id: string): Promise<PaletteSummary | null> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/v1/palettes/${id}`, {
+      next: { revalidate: 3600 },
+    });
+    if (!response.ok) return null;
+
+    const result = await response.json();
+    return result.data ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}): Promise<Metadata> {
+  const { id } = await params;
+  const palette = await fetchPalette(id);
+
+  if (!palette) {
+    return { title: "팔레트 - ChromaVault" };
+  }
+
+  const title = `${palette.name} - ChromaVault`;
+  const description = palette.description ||
+    `${palette.user?.name ? `${palette.user.name}님의 ` : ''}${palette.colors.length}색 팔레트: ` +
+    palette.colors.map((color) => color.hex.toUpperCase()).join(', ');
+
+  // The card itself comes from opengraph-image.ts in this folder
+  return {
+    title,
+    description,
+    openGraph: {
+      title: palette.name,
+      description,
+      type: "website",
+    },
+    twitter: {
+      card: "summary_large_image",
+      title: palette.name,
+      description,
+    },
+  };
+}
+
+export default function PaletteLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return children;
+}
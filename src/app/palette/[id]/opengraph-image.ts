@@ -0,0 +1,25 @@
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+
+export const alt = "ChromaVault 팔레트";
+export const size = { width: 1200, height: 630 };
+export const contentType = "image/png";
+
+// The API renders the card so link previews match the image endpoint byte for byte
+export default async function Image({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  const response = await fetch(`${API_BASE_URL}/api/v1/palettes/${id}/image/og.png`, {
+    next: { revalidate: 3600 },
+  });
+
+  if (!response.ok) {
+    return new Response(null, { status: response.status });
+  }
+
+  return new Response(await response.arrayBuffer(), {
+    headers: {
+      'Content-Type': contentType,
+      'Cache-Control': 'public, max-age=3600',
+    },
+  });
+}
@@ -15,7 +15,8 @@ import {
   Calendar,
   Tag,
   ArrowLeft,
-  MoreHorizontal
+  MoreHorizontal,
+  GitFork
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { ColorSwatch } from '@/components/color/color-swatch';
@@ -24,6 +25,13 @@ import { Palette, Color } from '@/types';
 import { cn, formatRelativeTime, copyToClipboard, downloadFile } from '@/lib/utils';
 import { useUIStore } from '@/lib/stores/ui-store';
 import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
+import {
+  PaletteExportClient,
+  PaletteExportFormat,
+  isPaletteExportFormat,
+  paletteExportLabels
+} from '@/lib/export/palette-export';
+import { PaletteForkClient, PaletteLineage } from '@/lib/palette/fork-client';
 
 // Mock data
 const mockPalette: Palette = {
@@ -118,6 +126,22 @@ export default function PaletteDetailPage() {
   const { showToast } = useUIStore();
   const [isLiked, setIsLiked] = React.useState(false);
   const [likesCount, setLikesCount] = React.useState(mockPalette.likesCount);
+  const [lineage, setLineage] = React.useState<PaletteLineage | null>(null);
+  const paletteId = typeof params.id === 'string' ? params.id : '';
+
+  React.useEffect(() => {
+    if (!paletteId) return;
+
+    // Ignore the response if the user has already moved on to another palette
+    let current = true;
+    PaletteForkClient.getLineage(paletteId)
+      .then((result) => current && setLineage(result))
+      .catch(() => current && setLineage(null));
+
+    return () => {
+      current = false;
+    };
+  }, [paletteId]);
 
   const handleLike = () => {
     setIsLiked(!isLiked);
@@ -134,7 +158,7 @@ export default function PaletteDetailPage() {
           text: mockPalette.description,
           url,
         });
-      } catch (err) {
+      } catch {
         copyToClipboard(url);
         showToast('링크가 클립보드에 복사되었습니다', 'success');
       }
@@ -152,7 +176,18 @@ export default function PaletteDetailPage() {
     }
   };
 
-  const handleExport = (format: 'css' | 'scss' | 'json') => {
+  const handleExport = async (format: 'css' | 'scss' | 'json' | PaletteExportFormat) => {
+    // Swatch files come from the API export endpoint
+    if (isPaletteExportFormat(format)) {
+      try {
+        await PaletteExportClient.downloadPalette(mockPalette.id, format);
+        showToast('파일이 다운로드되었습니다', 'success');
+      } catch {
+        showToast('내보내기에 실패했습니다', 'error');
+      }
+      return;
+    }
+
     let content = '';
     let filename = `${mockPalette.name.toLowerCase().replace(/\s+/g, '-')}.${format}`;
     
@@ -205,6 +240,21 @@ export default function PaletteDetailPage() {
               <div className="flex items-start justify-between mb-4">
                 <div className="flex-1">
                   <h1 className="text-2xl font-bold mb-2">{mockPalette.name}</h1>
+                  {lineage?.forkedFrom && (
+                    <p className="flex items-center gap-1.5 text-sm text-muted-foreground mb-2">
+                      <GitFork size={14} />
+                      <span>리믹스 원본:</span>
+                      <Link
+                        href={`/palette/${lineage.forkedFrom.id}`}
+                        className="font-medium text-foreground hover:text-primary transition-colors"
+                      >
+                        {lineage.forkedFrom.name}
+                      </Link>
+                      {lineage.forkedFrom.user?.name && (
+                        <span>by {lineage.forkedFrom.user.name}</span>
+                      )}
+                    </p>
+                  )}
                   <p className="text-muted-foreground leading-relaxed">
                     {mockPalette.description}
                   </p>
@@ -277,24 +327,20 @@ export default function PaletteDetailPage() {
                   </DropdownMenu.Trigger>
                   <DropdownMenu.Portal>
                     <DropdownMenu.Content className="bg-popover border rounded-md shadow-md p-1 min-w-[160px]">
-                      <DropdownMenu.Item 
-                        className="flex items-center gap-2 px-2 py-1.5 text-sm rounded hover:bg-accent cursor-pointer"
-                        onClick={() => handleExport('css')}
-                      >
-                        CSS 변수
-                      </DropdownMenu.Item>
-                      <DropdownMenu.Item 
-                        className="flex items-center gap-2 px-2 py-1.5 text-sm rounded hover:bg-accent cursor-pointer"
-                        onClick={() => handleExport('scss')}
-                      >
-                        SCSS 변수
-                      </DropdownMenu.Item>
-                      <DropdownMenu.Item 
-                        className="flex items-center gap-2 px-2 py-1.5 text-sm rounded hover:bg-accent cursor-pointer"
-                        onClick={() => handleExport('json')}
-                      >
-                        JSON 데이터
-                      </DropdownMenu.Item>
+                      {([
+                        ['css', 'CSS 변수'],
+                        ['scss', 'SCSS 변수'],
+                        ['json', 'JSON 데이터'],
+                        ...Object.entries(paletteExportLabels),
+                      ] as [Parameters<typeof handleExport>[0], string][]).map(([format, label]) => (
+                        <DropdownMenu.Item
+                          key={format}
+                          className="flex items-center gap-2 px-2 py-1.5 text-sm rounded hover:bg-accent cursor-pointer"
+                          onClick={() => handleExport(format)}
+                        >
+                          {label}
+                        </DropdownMenu.Item>
+                      ))}
                     </DropdownMenu.Content>
                   </DropdownMenu.Portal>
                 </DropdownMenu.Root>
@@ -454,6 +500,12 @@ export default function PaletteDetailPage() {
                   <span>{likesCount.toLocaleString()}개</span>
                 </div>
                 
+                <div className="flex items-center gap-2">
+                  <GitFork size={16} className="text-muted-foreground" />
+                  <span className="text-muted-foreground">리믹스:</span>
+                  <span>{lineage ? `${lineage.forksCount.toLocaleString()}개` : '-'}</span>
+                </div>
+                
                 <div className="flex items-center gap-2">
                   <Tag size={16} className="text-muted-foreground" />
                   <span className="text-muted-foreground">태그:</span>
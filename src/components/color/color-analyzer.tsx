@@ -3,15 +3,22 @@
 import React from 'react';
 import { ColorSwatch } from './color-swatch';
 import { Color } from '@/types';
-import { hexToRgb, hexToHsl, getContrastRatio, getLuminance } from '@/lib/utils/color';
-import { Eye, Palette, BarChart3, Zap } from 'lucide-react';
+import { ContrastTarget, contrastRatio, relativeLuminance, suggestContrastFixes, fixPaletteContrast } from '@/lib/color';
+import { createColor } from '@/lib/utils/color-utils';
+import { Eye, Palette, BarChart3, Zap, Wand2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface ColorAnalyzerProps {
   colors: Color[];
   className?: string;
+  // Enables the "make this pass" buttons
+  onColorChange?: (index: number, color: Color) => void;
+  onColorsChange?: (colors: Color[]) => void;
 }
 
+// Body text under WCAG 2.1 AA, the level the analyzer reports first
+const FIX_TARGET: ContrastTarget = { standard: 'wcag', level: 'AA' };
+
 interface ColorAnalysis {
   accessibility: {
     wcagAA: boolean;
@@ -55,14 +62,14 @@ const analyzeColor = (color: Color, backgroundColor: Color = {
   rgb: { r: 255, g: 255, b: 255 }, 
   hsl: { h: 0, s: 0, l: 100 } 
 }): ColorAnalysis => {
-  const contrastRatio = getContrastRatio(color.hex, backgroundColor.hex);
-  const luminance = getLuminance(color.rgb.r, color.rgb.g, color.rgb.b);
+  const ratio = contrastRatio(color.rgb, backgroundColor.rgb);
+  const luminance = relativeLuminance(color.rgb);
   
   return {
     accessibility: {
-      wcagAA: contrastRatio >= 4.5,
-      wcagAAA: contrastRatio >= 7,
-      contrastRatio
+      wcagAA: ratio >= 4.5,
+      wcagAAA: ratio >= 7,
+      contrastRatio: ratio
     },
     psychology: {
       mood: getMoodFromHue(color.hsl.h),
@@ -78,7 +85,7 @@ const analyzeColor = (color: Color, backgroundColor: Color = {
   };
 };
 
-export function ColorAnalyzer({ colors, className }: ColorAnalyzerProps) {
+export function ColorAnalyzer({ colors, className, onColorChange, onColorsChange }: ColorAnalyzerProps) {
   const [selectedColorIndex, setSelectedColorIndex] = React.useState(0);
   const [backgroundMode, setBackgroundMode] = React.useState<'light' | 'dark'>('light');
   
@@ -97,7 +104,35 @@ export function ColorAnalyzer({ colors, className }: ColorAnalyzerProps) {
     dark: { id: 'dark', hex: '#000000', rgb: { r: 0, g: 0, b: 0 }, hsl: { h: 0, s: 0, l: 0 } }
   };
   
-  const analysis = analyzeColor(selectedColor, backgroundColors[backgroundMode]);
+  const background = backgroundColors[backgroundMode];
+  const analysis = analyzeColor(selectedColor, background);
+  const [suggestedFix] = analysis.accessibility.wcagAA
+    ? []
+    : suggestContrastFixes(selectedColor.hex, background.hex, FIX_TARGET, 'foreground');
+  const failingCount = colors.filter((color) => contrastRatio(color.rgb, background.rgb) < 4.5).length;
+
+  const handleFixSelected = () => {
+    if (suggestedFix && onColorChange) {
+      onColorChange(selectedColorIndex, { ...createColor(suggestedFix.foreground), id: selectedColor.id, name: selectedColor.name });
+    }
+  };
+
+  // Every color as text on the test background; the background itself stays put
+  const handleFixAll = () => {
+    if (!onColorsChange) return;
+
+    const result = fixPaletteContrast(
+      [background.hex, ...colors.map((color) => color.hex)],
+      colors.map((_, index) => ({ foreground: index + 1, background: 0 })),
+      FIX_TARGET,
+      'foreground'
+    );
+
+    onColorsChange(colors.map((color, index) => {
+      const hex = result.colors[index + 1];
+      return hex === color.hex.toUpperCase() ? color : { ...createColor(hex), id: color.id, name: color.name };
+    }));
+  };
 
   return (
     <div className={cn('space-y-6', className)}>
@@ -199,6 +234,40 @@ export function ColorAnalyzer({ colors, className }: ColorAnalyzerProps) {
             </div>
           </div>
 
+          {/* One-click fixes */}
+          {!analysis.accessibility.wcagAA && onColorChange && (
+            suggestedFix ? (
+              <button
+                onClick={handleFixSelected}
+                className="w-full flex items-center gap-2 px-3 py-2 text-sm rounded-lg border border-border hover:bg-accent transition-colors"
+              >
+                <Wand2 size={14} />
+                <span
+                  className="w-4 h-4 rounded border"
+                  style={{ backgroundColor: suggestedFix.foreground }}
+                />
+                <span className="flex-1 text-left">AA 통과하도록 수정</span>
+                <span className="font-mono text-xs text-muted-foreground">
+                  {suggestedFix.foreground} · ΔE {suggestedFix.deltaE.toFixed(1)}
+                </span>
+              </button>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                이 색조로는 AA 기준을 만족하는 색상을 찾을 수 없습니다
+              </p>
+            )
+          )}
+
+          {failingCount > 0 && onColorsChange && (
+            <button
+              onClick={handleFixAll}
+              className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm rounded-lg border border-border hover:bg-accent transition-colors"
+            >
+              <Wand2 size={14} />
+              팔레트 전체 수정 ({failingCount}개 색상)
+            </button>
+          )}
+
           {/* Contrast Preview */}
           <div className="space-y-2">
             <span className="text-xs text-muted-foreground">미리보기</span>
@@ -6,6 +6,7 @@ import { Color } from '@/types';
 import { Badge } from '@/components/ui/badge';
 import { Eye, AlertCircle } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { ColorVisionDeficiency, colorVisionReport } from '@/lib/color';
 
 interface ColorBlindnessSimulatorProps {
   colors: Color[];
@@ -13,64 +14,12 @@ interface ColorBlindnessSimulatorProps {
 }
 
 type ColorBlindnessType = {
-  id: string;
+  id: 'normal' | ColorVisionDeficiency;
   name: string;
+  // Name of the milder, anomalous form shown below full severity
+  partialName?: string;
   description: string;
   prevalence: string;
-  simulate: (hex: string) => string;
-};
-
-// Simplified color blindness simulation functions
-const simulateProtanopia = (hex: string): string => {
-  // Convert hex to RGB
-  const r = parseInt(hex.slice(1, 3), 16);
-  const g = parseInt(hex.slice(3, 5), 16);
-  const b = parseInt(hex.slice(5, 7), 16);
-
-  // Protanopia transformation matrix (simplified)
-  const newR = Math.round(0.567 * r + 0.433 * g);
-  const newG = Math.round(0.558 * r + 0.442 * g);
-  const newB = Math.round(0.242 * g + 0.758 * b);
-
-  // Convert back to hex
-  return `#${newR.toString(16).padStart(2, '0')}${newG.toString(16).padStart(2, '0')}${newB.toString(16).padStart(2, '0')}`;
-};
-
-const simulateDeuteranopia = (hex: string): string => {
-  const r = parseInt(hex.slice(1, 3), 16);
-  const g = parseInt(hex.slice(3, 5), 16);
-  const b = parseInt(hex.slice(5, 7), 16);
-
-  // Deuteranopia transformation matrix (simplified)
-  const newR = Math.round(0.625 * r + 0.375 * g);
-  const newG = Math.round(0.700 * r + 0.300 * g);
-  const newB = Math.round(0.300 * g + 0.700 * b);
-
-  return `#${newR.toString(16).padStart(2, '0')}${newG.toString(16).padStart(2, '0')}${newB.toString(16).padStart(2, '0')}`;
-};
-
-const simulateTritanopia = (hex: string): string => {
-  const r = parseInt(hex.slice(1, 3), 16);
-  const g = parseInt(hex.slice(3, 5), 16);
-  const b = parseInt(hex.slice(5, 7), 16);
-
-  // Tritanopia transformation matrix (simplified)
-  const newR = Math.round(0.950 * r + 0.050 * g);
-  const newG = Math.round(0.433 * g + 0.567 * b);
-  const newB = Math.round(0.475 * g + 0.525 * b);
-
-  return `#${newR.toString(16).padStart(2, '0')}${newG.toString(16).padStart(2, '0')}${newB.toString(16).padStart(2, '0')}`;
-};
-
-const simulateMonochromacy = (hex: string): string => {
-  const r = parseInt(hex.slice(1, 3), 16);
-  const g = parseInt(hex.slice(3, 5), 16);
-  const b = parseInt(hex.slice(5, 7), 16);
-
-  // Convert to grayscale using luminance formula
-  const gray = Math.round(0.299 * r + 0.587 * g + 0.114 * b);
-
-  return `#${gray.toString(16).padStart(2, '0')}${gray.toString(16).padStart(2, '0')}${gray.toString(16).padStart(2, '0')}`;
 };
 
 const colorBlindnessTypes: ColorBlindnessType[] = [
@@ -78,41 +27,41 @@ const colorBlindnessTypes: ColorBlindnessType[] = [
     id: 'normal',
     name: '정상 시야',
     description: '일반적인 색각',
-    prevalence: '대부분',
-    simulate: (hex) => hex
+    prevalence: '대부분'
   },
   {
-    id: 'protanopia',
+    id: 'protan',
     name: '적색맹',
+    partialName: '적색약',
     description: '빨간색을 구별하기 어려움',
-    prevalence: '남성 1%, 여성 0.01%',
-    simulate: simulateProtanopia
+    prevalence: '남성 1%, 여성 0.01%'
   },
   {
-    id: 'deuteranopia',
+    id: 'deutan',
     name: '녹색맹',
+    partialName: '녹색약',
     description: '초록색을 구별하기 어려움',
-    prevalence: '남성 1%, 여성 0.01%',
-    simulate: simulateDeuteranopia
+    prevalence: '남성 5%, 여성 0.4%'
   },
   {
-    id: 'tritanopia',
+    id: 'tritan',
     name: '청색맹',
+    partialName: '청색약',
     description: '파란색을 구별하기 어려움',
-    prevalence: '남녀 0.01%',
-    simulate: simulateTritanopia
+    prevalence: '남녀 0.01%'
   },
   {
-    id: 'monochromacy',
-    name: '단색시',
+    id: 'achromatopsia',
+    name: '전색맹',
+    partialName: '부분 색맹',
     description: '색상을 구별할 수 없음',
-    prevalence: '매우 드묾',
-    simulate: simulateMonochromacy
+    prevalence: '매우 드묾'
   }
 ];
 
 export function ColorBlindnessSimulator({ colors, className }: ColorBlindnessSimulatorProps) {
-  const [selectedType, setSelectedType] = React.useState('normal');
+  const [selectedType, setSelectedType] = React.useState<ColorBlindnessType['id']>('normal');
+  const [severity, setSeverity] = React.useState(1);
   
   if (!colors || colors.length === 0) {
     return (
@@ -124,21 +73,22 @@ export function ColorBlindnessSimulator({ colors, className }: ColorBlindnessSim
   }
 
   const selectedSimulation = colorBlindnessTypes.find(type => type.id === selectedType);
-  const simulatedColors = colors.map(color => ({
+  const selectedName = selectedSimulation?.partialName && severity < 1
+    ? selectedSimulation.partialName
+    : selectedSimulation?.name;
+
+  const simulation = selectedType === 'normal'
+    ? null
+    : colorVisionReport(colors.map(color => color.hex), { deficiencies: [selectedType], severity })[0];
+
+  const simulatedColors = colors.map((color, index) => ({
     ...color,
-    simulatedHex: selectedSimulation?.simulate(color.hex) || color.hex
+    simulatedHex: simulation?.colors[index] ?? color.hex
   }));
 
-  // Check for potential issues
-  const hasIssues = selectedType !== 'normal' && simulatedColors.some((color, index) => {
-    if (index === 0) return false;
-    const prevColor = simulatedColors[index - 1];
-    // Simple check for similar colors (this could be more sophisticated)
-    return Math.abs(
-      parseInt(color.simulatedHex.slice(1), 16) - 
-      parseInt(prevColor.simulatedHex.slice(1), 16)
-    ) < 100000; // Threshold for "too similar"
-  });
+  // Pairs that are distinct with typical vision but collapse together under the deficiency
+  const confusablePairs = simulation?.confusablePairs ?? [];
+  const hasIssues = confusablePairs.length > 0;
 
   return (
     <div className={cn('space-y-6', className)}>
@@ -176,6 +126,25 @@ export function ColorBlindnessSimulator({ colors, className }: ColorBlindnessSim
         </div>
       </div>
 
+      {/* Severity: below 100% models anomalous trichromacy (e.g. 녹색약) */}
+      {selectedType !== 'normal' && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium">강도</label>
+            <span className="text-sm text-muted-foreground">{Math.round(severity * 100)}%</span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.1}
+            value={severity}
+            onChange={(e) => setSeverity(Number(e.target.value))}
+            className="w-full"
+          />
+        </div>
+      )}
+
       {/* Issues Warning */}
       {hasIssues && (
         <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 dark:bg-yellow-950 dark:border-yellow-800">
@@ -186,9 +155,18 @@ export function ColorBlindnessSimulator({ colors, className }: ColorBlindnessSim
                 접근성 경고
               </h4>
               <p className="text-sm text-yellow-700 dark:text-yellow-300 mt-1">
-                {selectedSimulation?.name} 사용자에게 일부 색상이 구별하기 어려울 수 있습니다. 
+                {selectedName} 사용자에게 일부 색상이 구별하기 어려울 수 있습니다. 
                 색상 외에 다른 시각적 구분 요소를 추가하는 것을 권장합니다.
               </p>
+              <div className="flex flex-wrap gap-2 mt-2">
+                {confusablePairs.map(({ a, b, distance }) => (
+                  <div key={`${a}-${b}`} className="flex items-center gap-1 text-xs text-yellow-800 dark:text-yellow-200">
+                    <span className="w-4 h-4 rounded border" style={{ backgroundColor: colors[a].hex }} />
+                    <span className="w-4 h-4 rounded border" style={{ backgroundColor: colors[b].hex }} />
+                    <span>ΔE {distance.toFixed(1)}</span>
+                  </div>
+                ))}
+              </div>
             </div>
           </div>
         </div>
@@ -201,7 +179,7 @@ export function ColorBlindnessSimulator({ colors, className }: ColorBlindnessSim
             시뮬레이션 결과
             {selectedSimulation && (
               <Badge variant="outline" size="sm" className="ml-2">
-                {selectedSimulation.name}
+                {selectedName}
               </Badge>
             )}
           </label>
@@ -278,7 +256,7 @@ export function ColorBlindnessSimulator({ colors, className }: ColorBlindnessSim
       {selectedType !== 'normal' && (
         <div className="text-center text-sm text-muted-foreground">
           <p>
-            전 세계 인구의 약 {selectedSimulation?.prevalence}이(가) {selectedSimulation?.name}을(를) 경험합니다
+            전 세계 인구의 약 {selectedSimulation?.prevalence}이(가) {selectedName}을(를) 경험합니다
           </p>
         </div>
       )}
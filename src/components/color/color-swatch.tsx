@@ -4,7 +4,7 @@ import React from 'react';
 import { Copy, Check, Palette } from 'lucide-react';
 import { Color } from '@/types';
 import { cn, copyToClipboard } from '@/lib/utils';
-import { getReadableTextColor } from '@/lib/utils/color-utils';
+import { getReadableTextColor, toCssColor } from '@/lib/utils/color-utils';
 import { useUIStore } from '@/lib/stores/ui-store';
 
 interface ColorSwatchProps {
@@ -70,7 +70,7 @@ export function ColorSwatch({
       {/* Color Display */}
       <div
         className={cn(sizeClasses[size], 'relative flex items-center justify-center')}
-        style={{ backgroundColor: color.hex }}
+        style={{ backgroundColor: toCssColor(color) }}
       >
         {/* Color Info Overlay */}
         {(showHex || showCopy) && (
@@ -114,6 +114,11 @@ export function ColorSwatch({
           <div className="text-center">
             <p className="text-sm font-mono font-semibold text-gray-900 dark:text-gray-100">
               {color.hex.toUpperCase()}
+              {color.wideGamut && (
+                <span className="ml-1 px-1 rounded bg-gray-900 text-white text-[10px] align-middle" title={toCssColor(color)}>
+                  {color.wideGamut.space === 'rec2020' ? '2020' : 'P3'}
+                </span>
+              )}
             </p>
             <p className="text-xs text-gray-500 dark:text-gray-400">
               RGB({color.rgb.r}, {color.rgb.g}, {color.rgb.b})
@@ -0,0 +1,116 @@
+'use client';
+
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Color } from '@/types';
+import { cn } from '@/lib/utils';
+import { createColorFromCss } from '@/lib/utils/color-utils';
+import {
+  ColorGamut,
+  GamutColor,
+  convertGamutColor,
+  formatCssColor,
+  hexToGamutColor,
+  parseCssColor,
+  smallestGamut,
+} from '@/lib/color';
+
+interface WideGamutInputProps {
+  color: Color;
+  onChange: (color: Color) => void;
+  className?: string;
+}
+
+const GAMUT_LABELS: Record<ColorGamut, string> = {
+  srgb: 'sRGB',
+  'display-p3': 'Display P3',
+  rec2020: 'Rec.2020',
+};
+
+const EDITABLE_GAMUTS: ColorGamut[] = ['display-p3', 'rec2020'];
+
+// The color as the user wrote it, or its sRGB hex
+const sourceColor = (color: Color): GamutColor => (color.wideGamut ? color.wideGamut : hexToGamutColor(color.hex));
+
+export function WideGamutInput({ color, onChange, className }: WideGamutInputProps) {
+  const [space, setSpace] = React.useState<ColorGamut>(
+    color.wideGamut && color.wideGamut.space !== 'srgb' ? color.wideGamut.space : 'display-p3'
+  );
+  const value = formatCssColor(convertGamutColor(sourceColor(color), space));
+  const [draft, setDraft] = React.useState(value);
+  const [invalid, setInvalid] = React.useState(false);
+
+  React.useEffect(() => {
+    setDraft(value);
+    setInvalid(false);
+  }, [value]);
+
+  const gamut = smallestGamut(sourceColor(color));
+
+  const commit = () => {
+    if (draft.trim() === value) return;
+    if (!parseCssColor(draft)) {
+      setInvalid(true);
+      return;
+    }
+    onChange({ ...createColorFromCss(draft), id: color.id, name: color.name });
+  };
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium">넓은 색역</label>
+        <div className="flex border rounded-lg overflow-hidden">
+          {EDITABLE_GAMUTS.map((option) => (
+            <button
+              key={option}
+              onClick={() => setSpace(option)}
+              className={cn(
+                'px-2 py-0.5 text-xs',
+                space === option ? 'bg-primary text-primary-foreground' : 'bg-background'
+              )}
+            >
+              {GAMUT_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <input
+        type="text"
+        value={draft}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          setInvalid(false);
+        }}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === 'Enter' && commit()}
+        className={cn(
+          'w-full p-2 rounded text-sm font-mono bg-muted border',
+          invalid ? 'border-red-500' : 'border-transparent'
+        )}
+        placeholder="color(display-p3 1 0.2 0.1)"
+        spellCheck={false}
+      />
+      {invalid && (
+        <p className="text-xs text-red-600">#RRGGBB 또는 color(display-p3 r g b) 형식으로 입력하세요</p>
+      )}
+
+      {/* Left: the color itself on wide-gamut screens, right: what sRGB screens and hex exports show */}
+      <div className="flex h-8 rounded overflow-hidden border">
+        <div className="flex-1" style={{ backgroundColor: formatCssColor(sourceColor(color)) }} title={formatCssColor(sourceColor(color))} />
+        <div className="flex-1" style={{ backgroundColor: color.hex }} title={color.hex} />
+      </div>
+
+      {gamut !== 'srgb' && (
+        <div className="flex items-start gap-2 text-xs text-muted-foreground">
+          <AlertTriangle size={14} className="mt-0.5 shrink-0 text-yellow-600" />
+          <span>
+            {gamut ? `${GAMUT_LABELS[gamut]} 색상입니다.` : 'Rec.2020 범위를 벗어난 색상입니다.'}{' '}
+            sRGB 화면과 HEX 내보내기에는 가장 가까운 대체색 {color.hex}이(가) 쓰입니다.
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
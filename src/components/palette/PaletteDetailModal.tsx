@@ -262,6 +262,20 @@ export function PaletteDetailModal({ isOpen, onClose, palette }: PaletteDetailMo
                           </div>
                           <span className="text-2xl font-bold text-white">{analysis.harmony.score}%</span>
                         </div>
+                        <p className="text-sm text-gray-400 mt-3">{analysis.harmony.description}</p>
+                        {analysis.harmony.offenders.length > 0 && (
+                          <div className="flex items-center gap-2 mt-3 text-sm text-gray-400">
+                            <span>조화에서 벗어난 색상</span>
+                            {analysis.harmony.offenders.map((offender) => (
+                              <div
+                                key={offender.index}
+                                className="w-6 h-6 rounded border border-gray-700"
+                                style={{ backgroundColor: offender.color }}
+                                title={`${offender.color} · 색상각 ${offender.deviation}° 벗어남`}
+                              />
+                            ))}
+                          </div>
+                        )}
                       </div>
 
                       {/* Emotions & Industries */}
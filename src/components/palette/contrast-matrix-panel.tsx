@@ -0,0 +1,169 @@
+'use client';
+
+import React from 'react';
+import { AlertTriangle, Grid3x3 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  APCA_MINIMUMS,
+  CONTRAST_USES,
+  ContrastCell,
+  ContrastUse,
+  WCAG_MINIMUMS,
+  contrastMatrix
+} from '@/lib/color';
+
+interface ContrastMatrixPanelProps {
+  colors: string[];
+  className?: string;
+}
+
+type Standard = 'wcag' | 'apca';
+
+const USE_LABELS: Record<ContrastUse, string> = {
+  bodyText: '본문 텍스트',
+  largeText: '큰 텍스트',
+  uiComponents: 'UI 요소',
+};
+
+const cellValue = (cell: ContrastCell, standard: Standard) =>
+  standard === 'wcag' ? cell.ratio.toFixed(1) : Math.abs(cell.lc).toFixed(0);
+
+// Strongest use a pair passes, for the badge in each cell
+const cellBadge = (cell: ContrastCell, standard: Standard) => {
+  if (cell[standard].bodyText) return { label: standard === 'wcag' ? cell.wcag.grade : 'Body', tone: 'pass' };
+  if (cell[standard].largeText) return { label: standard === 'wcag' ? 'AA18' : 'Large', tone: 'partial' };
+  if (cell[standard].uiComponents) return { label: 'UI', tone: 'partial' };
+  return { label: '—', tone: 'fail' };
+};
+
+export function ContrastMatrixPanel({ colors, className }: ContrastMatrixPanelProps) {
+  const [standard, setStandard] = React.useState<Standard>('wcag');
+
+  const matrix = React.useMemo(() => contrastMatrix(colors), [colors]);
+  const minimums = standard === 'wcag' ? WCAG_MINIMUMS : APCA_MINIMUMS;
+  const hasTextColor = matrix.textColors[standard].length > 0;
+  const hasLargeText = matrix.pairings[standard].largeText.length > 0;
+
+  if (matrix.colors.length < 2) return null;
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <Grid3x3 size={20} />
+          대비 매트릭스
+        </h3>
+        <div className="flex border rounded-lg overflow-hidden">
+          {(['wcag', 'apca'] as Standard[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setStandard(option)}
+              className={cn(
+                'px-3 py-1 text-sm',
+                standard === option ? 'bg-primary text-primary-foreground' : 'bg-background'
+              )}
+            >
+              {option === 'wcag' ? 'WCAG 2' : 'APCA'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!hasTextColor && (
+        <div className="flex items-start gap-2 p-3 rounded-lg bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-200 text-sm">
+          <AlertTriangle size={16} className="mt-0.5 shrink-0" />
+          <span>
+            {hasLargeText
+              ? '본문 텍스트로 쓸 수 있는 색상 조합이 없습니다. 더 어둡거나 밝은 색상을 추가하세요.'
+              : '큰 텍스트나 UI 요소에 쓸 수 있는 조합도 없습니다. 팔레트 밖의 색상이 필요합니다.'}
+          </span>
+        </div>
+      )}
+
+      {/* Rows are text colors, columns are backgrounds */}
+      <div className="overflow-x-auto">
+        <table className="border-separate border-spacing-1 text-xs">
+          <thead>
+            <tr>
+              <th className="text-muted-foreground font-normal text-left pr-1">글자 \ 배경</th>
+              {matrix.colors.map((hex, index) => (
+                <th key={index}>
+                  <div className="w-10 h-4 rounded border mx-auto" style={{ backgroundColor: hex }} title={hex} />
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {matrix.cells.map((row, foreground) => (
+              <tr key={foreground}>
+                <th>
+                  <div className="w-4 h-10 rounded border" style={{ backgroundColor: matrix.colors[foreground] }} title={matrix.colors[foreground]} />
+                </th>
+                {row.map((cell) => {
+                  if (cell.foreground === cell.background) {
+                    return <td key={cell.background} className="w-10 h-10 rounded bg-muted" />;
+                  }
+
+                  const badge = cellBadge(cell, standard);
+                  return (
+                    <td
+                      key={cell.background}
+                      className="w-10 h-10 rounded text-center align-middle"
+                      style={{ backgroundColor: matrix.colors[cell.background], color: matrix.colors[cell.foreground] }}
+                      title={`${matrix.colors[cell.foreground]} / ${matrix.colors[cell.background]}: ${cell.ratio}:1, Lc ${cell.lc}`}
+                    >
+                      <div className="font-semibold">{cellValue(cell, standard)}</div>
+                      <div
+                        className={cn(
+                          'mx-auto w-fit px-1 rounded text-[10px] leading-tight',
+                          badge.tone === 'pass' && 'bg-green-600 text-white',
+                          badge.tone === 'partial' && 'bg-yellow-500 text-white',
+                          badge.tone === 'fail' && 'bg-gray-500/70 text-white'
+                        )}
+                      >
+                        {badge.label}
+                      </div>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Valid pairings per use */}
+      <div className="space-y-3">
+        {CONTRAST_USES.map((use) => {
+          const pairings = matrix.pairings[standard][use];
+          return (
+            <div key={use}>
+              <div className="flex items-center justify-between text-sm mb-1">
+                <span className="font-medium">{USE_LABELS[use]}</span>
+                <span className="text-muted-foreground text-xs">
+                  {standard === 'wcag' ? `${minimums[use]}:1 이상` : `Lc ${minimums[use]} 이상`} · {pairings.length}개
+                </span>
+              </div>
+              {pairings.length === 0 ? (
+                <div className="text-xs text-muted-foreground">통과하는 조합이 없습니다</div>
+              ) : (
+                <div className="flex flex-wrap gap-1">
+                  {pairings.map(({ foreground, background }) => (
+                    <div
+                      key={`${foreground}-${background}`}
+                      className="px-2 py-1 rounded border text-xs font-medium"
+                      style={{ backgroundColor: matrix.colors[background], color: matrix.colors[foreground] }}
+                      title={`${matrix.colors[foreground]} / ${matrix.colors[background]}`}
+                    >
+                      가나 Aa
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -7,6 +7,8 @@ import { Button } from '@/components/ui/button';
 import { RotateCcw, Eye, Copy, Download } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { getContrastRatio } from '@/lib/utils/color';
+import { PaletteExportClient } from '@/lib/export/palette-export';
+import { useUIStore } from '@/lib/stores/ui-store';
 
 interface PaletteComparisonProps {
   palettes: Palette[];
@@ -58,7 +60,7 @@ const calculatePaletteMetrics = (palette: Palette): ComparisonMetrics => {
   };
 };
 
-const exportPalette = (palette: Palette, format: 'css' | 'json' | 'ase') => {
+const exportPalette = async (palette: Palette, format: 'css' | 'json' | 'ase') => {
   let content = '';
   let filename = '';
   
@@ -82,6 +84,15 @@ const exportPalette = (palette: Palette, format: 'css' | 'json' | 'ase') => {
       }, null, 2);
       filename = `${palette.name.replace(/\s+/g, '-')}.json`;
       break;
+
+    case 'ase':
+      // Binary swatch files are encoded by the API
+      await PaletteExportClient.downloadColors(
+        palette.name,
+        palette.colors.map(color => ({ hex: color.hex, name: color.name })),
+        'ase'
+      );
+      return;
   }
   
   if (content) {
@@ -105,6 +116,7 @@ export function PaletteComparison({
   onPaletteRemove,
   className 
 }: PaletteComparisonProps) {
+  const { showToast } = useUIStore();
   const [selectedPalettes, setSelectedPalettes] = React.useState<string[]>([]);
   const [viewMode, setViewMode] = React.useState<'grid' | 'list'>('grid');
   
@@ -312,6 +324,20 @@ export function PaletteComparison({
                   >
                     <Download size={14} />
                   </Button>
+
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      exportPalette(palette, 'ase')
+                        .catch(() => showToast('ASE 내보내기에 실패했습니다', 'error'));
+                    }}
+                    className="h-8 px-2 text-xs"
+                    title="Adobe Swatch Exchange (.ase)"
+                  >
+                    ASE
+                  </Button>
                   
                   {onPaletteRemove && (
                     <Button
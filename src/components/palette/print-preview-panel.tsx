@@ -0,0 +1,164 @@
+'use client';
+
+import React from 'react';
+import { AlertTriangle, Loader2, Printer } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  CmykSeparationResult,
+  PrintClient,
+  PrintCondition,
+  PrintWarning,
+  RenderingIntent,
+  printConditions,
+  renderingIntents
+} from '@/lib/print/cmyk-client';
+
+interface PrintPreviewPanelProps {
+  // #RRGGBB or color(display-p3 ...) per palette color
+  colors: string[];
+  className?: string;
+}
+
+const CONDITION_LABELS: Record<PrintCondition, string> = {
+  fogra39: 'FOGRA39 (유럽 코팅지)',
+  gracol: 'GRACoL 2013 (미국 매엽)',
+  swop: 'SWOP 2006 (미국 윤전)',
+};
+
+const INTENT_LABELS: Record<RenderingIntent, string> = {
+  perceptual: '지각적',
+  relative: '상대 색도',
+  saturation: '채도',
+  absolute: '절대 색도',
+};
+
+const WARNING_LABELS: Record<PrintWarning, string> = {
+  'out-of-gamut': '인쇄 색역 밖',
+  'ink-limit': '총 잉크량 초과',
+  'heavy-coverage': '잉크량 많음',
+};
+
+// ΔE2000 up to which most viewers accept a print as matching the screen
+const ACCEPTABLE_DELTA_E = 3;
+
+export function PrintPreviewPanel({ colors, className }: PrintPreviewPanelProps) {
+  const [condition, setCondition] = React.useState<PrintCondition>('fogra39');
+  const [intent, setIntent] = React.useState<RenderingIntent>('relative');
+  const [result, setResult] = React.useState<CmykSeparationResult | null>(null);
+  const [loading, setLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  // The colors array is rebuilt on every render; only refetch when its contents change
+  const colorKey = colors.join('|');
+
+  React.useEffect(() => {
+    if (!colorKey) return;
+
+    // Ignore responses for colors or settings that have changed since the request
+    let current = true;
+    setLoading(true);
+    setError(null);
+
+    PrintClient.separate(colorKey.split('|'), condition, intent)
+      .then((separated) => current && setResult(separated))
+      .catch((err: Error) => current && setError(err.message))
+      .finally(() => current && setLoading(false));
+
+    return () => {
+      current = false;
+    };
+  }, [colorKey, condition, intent]);
+
+  if (colors.length === 0) return null;
+
+  const separations = result?.colors ?? [];
+  const flagged = separations.filter((separation) => separation.warnings.length > 0).length;
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <Printer size={20} />
+          인쇄 미리보기
+        </h3>
+        {loading && <Loader2 size={16} className="animate-spin text-muted-foreground" />}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-sm">
+        <select
+          value={condition}
+          onChange={(e) => setCondition(e.target.value as PrintCondition)}
+          className="px-2 py-1 border rounded bg-background"
+          aria-label="인쇄 조건"
+        >
+          {printConditions.map((option) => (
+            <option key={option} value={option}>{CONDITION_LABELS[option]}</option>
+          ))}
+        </select>
+        <select
+          value={intent}
+          onChange={(e) => setIntent(e.target.value as RenderingIntent)}
+          className="px-2 py-1 border rounded bg-background"
+          aria-label="렌더링 인텐트"
+        >
+          {renderingIntents.map((option) => (
+            <option key={option} value={option}>{INTENT_LABELS[option]}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {result?.source === 'characterization' && (
+        <p className="text-xs text-muted-foreground">
+          서버에 ICC 프로필이 설치되어 있지 않아 인쇄 특성 데이터로 계산한 근사값입니다.
+        </p>
+      )}
+
+      {flagged > 0 && (
+        <div className="flex items-start gap-2 p-3 rounded-lg bg-yellow-50 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-200 text-sm">
+          <AlertTriangle size={16} className="mt-0.5 shrink-0" />
+          <span>{flagged}개 색상은 인쇄 전에 확인이 필요합니다. 교정 인쇄로 확인하세요.</span>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {separations.map((separation, index) => (
+          <div key={index} className="flex items-center gap-3 text-xs">
+            {/* Left: screen color, right: simulated print */}
+            <div className="flex h-10 w-16 shrink-0 rounded overflow-hidden border">
+              <div className="flex-1" style={{ backgroundColor: separation.color }} title={separation.color} />
+              <div className="flex-1" style={{ backgroundColor: separation.printed.hex }} title={`인쇄 시 ${separation.printed.hex}`} />
+            </div>
+            <div className="flex-1 min-w-0 space-y-0.5">
+              <div className="font-mono">
+                C{separation.cmyk.c} M{separation.cmyk.m} Y{separation.cmyk.y} K{separation.cmyk.k}
+              </div>
+              <div className="text-muted-foreground">
+                총 {separation.totalInk}% · ΔE{' '}
+                <span className={cn(separation.deltaE > ACCEPTABLE_DELTA_E && 'text-red-600 font-semibold')}>
+                  {separation.deltaE.toFixed(1)}
+                </span>
+              </div>
+              {separation.warnings.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {separation.warnings.map((warning) => (
+                    <span
+                      key={warning}
+                      className={cn(
+                        'px-1 rounded text-[10px] text-white',
+                        warning === 'heavy-coverage' ? 'bg-yellow-500' : 'bg-red-600'
+                      )}
+                    >
+                      {WARNING_LABELS[warning]}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+'use client';
+
+import React from 'react';
+import { Copy, Layers } from 'lucide-react';
+import { cn, copyToClipboard } from '@/lib/utils';
+import { getReadableTextColor } from '@/lib/utils/color-utils';
+import { useUIStore } from '@/lib/stores/ui-store';
+import { TONAL_RAMP_PRESETS, TONAL_RAMP_STEPS, TonalRampPreset, generateTonalRamp } from '@/lib/color';
+
+interface TonalRampPanelProps {
+  color: string;
+  // Called with a shade the user clicks, e.g. to add it to the palette
+  onSelectShade?: (hex: string) => void;
+  className?: string;
+}
+
+const PRESET_LABELS: Record<TonalRampPreset, string> = {
+  tailwind: '50–950',
+  material: '0–100',
+};
+
+export function TonalRampPanel({ color, onSelectShade, className }: TonalRampPanelProps) {
+  const { showToast } = useUIStore();
+  const [preset, setPreset] = React.useState<TonalRampPreset>('tailwind');
+  // undefined pins the base color to the step closest to its lightness
+  const [pinStep, setPinStep] = React.useState<number | undefined>(undefined);
+
+  const shades = React.useMemo(() => generateTonalRamp(color, { preset, pinStep }), [color, preset, pinStep]);
+
+  const handlePresetChange = (next: TonalRampPreset) => {
+    setPreset(next);
+    setPinStep(undefined);
+  };
+
+  const handleCopyCss = async () => {
+    const css = `:root {\n${shades.map((shade) => `  --color-${shade.step}: ${shade.hex};`).join('\n')}\n}`;
+    const copied = await copyToClipboard(css);
+    showToast(copied ? 'CSS 변수가 클립보드에 복사되었습니다' : '복사에 실패했습니다', copied ? 'success' : 'error');
+  };
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <Layers size={20} />
+          톤 스케일
+        </h3>
+        <div className="flex border rounded-lg overflow-hidden">
+          {TONAL_RAMP_PRESETS.map((option) => (
+            <button
+              key={option}
+              onClick={() => handlePresetChange(option)}
+              className={cn(
+                'px-3 py-1 text-sm',
+                preset === option ? 'bg-primary text-primary-foreground' : 'bg-background'
+              )}
+            >
+              {PRESET_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 text-sm">
+        <div className="w-6 h-6 rounded border" style={{ backgroundColor: color }} title={color} />
+        <label htmlFor="tonal-ramp-pin" className="text-muted-foreground">기준 단계</label>
+        <select
+          id="tonal-ramp-pin"
+          value={pinStep ?? ''}
+          onChange={(e) => setPinStep(e.target.value === '' ? undefined : Number(e.target.value))}
+          className="flex-1 px-2 py-1 border rounded bg-background"
+        >
+          <option value="">자동 (명도 기준)</option>
+          {TONAL_RAMP_STEPS[preset].map((step) => (
+            <option key={step} value={step}>{step}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-1">
+        {shades.map((shade) => (
+          <button
+            key={shade.step}
+            onClick={() => onSelectShade?.(shade.hex)}
+            className={cn(
+              'w-full flex items-center justify-between px-3 py-2 rounded text-xs font-mono',
+              shade.base && 'ring-2 ring-primary ring-offset-1'
+            )}
+            style={{ backgroundColor: shade.hex, color: getReadableTextColor(shade.hex) }}
+            title={onSelectShade ? `${shade.hex} 팔레트에 추가` : shade.hex}
+          >
+            <span className="font-semibold">{shade.step}{shade.base && ' · 기준'}</span>
+            <span>{shade.hex}</span>
+          </button>
+        ))}
+      </div>
+
+      <button
+        onClick={handleCopyCss}
+        className="w-full flex items-center justify-center gap-2 px-3 py-2 border rounded-lg text-sm hover:bg-accent transition-colors"
+      >
+        <Copy size={16} />
+        CSS 변수 복사
+      </button>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState, useCallback } from 'react';
 import { colorAnalyzer } from '@/lib/ai/colorAnalyzer';
+import { HarmonyOffender } from '@/lib/color';
 import { colorExtractor } from '@/lib/ai/colorExtractor';
 import { paletteGenerator, PaletteMood, PaletteStyle } from '@/lib/ai/paletteGenerator';
 
@@ -8,6 +9,7 @@ export interface AIAnalysisResult {
     score: number;
     type: string;
     description: string;
+    offenders: HarmonyOffender[];
   };
   accessibility: {
     aa: boolean;
@@ -57,6 +59,7 @@ export function usePaletteAI() {
           score: harmony.score,
           type: harmony.type,
           description: harmony.description,
+          offenders: harmony.offenders,
         },
         accessibility: betterAccessibility,
         emotions: emotions.emotions,
@@ -1,9 +1,36 @@
+import {
+  HarmonyFit,
+  HarmonyOffender,
+  HarmonyTemplate,
+  contrastRatio,
+  detectHarmony,
+  hexToRgb,
+  hslToRgb,
+  rgbToHex,
+  rgbToHsl
+} from '@/lib/color';
+
 export interface ColorHarmony {
   score: number;
-  type: 'monochromatic' | 'analogous' | 'complementary' | 'triadic' | 'tetradic' | 'custom';
+  type: HarmonyTemplate | 'custom';
   description: string;
+  // Colors outside the best-fitting template
+  offenders: HarmonyOffender[];
+  // Fit per template, best first
+  fits: HarmonyFit[];
 }
 
+const HARMONY_DESCRIPTIONS: Record<ColorHarmony['type'], string> = {
+  monochromatic: '단색 조화 - 통일감 있고 차분한 조합',
+  analogous: '유사색 조화 - 자연스럽고 편안한 조합',
+  complementary: '보색 조화 - 강렬하고 다이나믹한 대비',
+  'split-complementary': '분보색 조화 - 대비가 있으면서도 부드러운 조합',
+  triadic: '삼원색 조화 - 균형잡힌 활기찬 조합',
+  tetradic: '사각 조화 - 풍부하고 다채로운 조합',
+  square: '정사각 조화 - 고르게 분포된 대담한 조합',
+  custom: '커스텀 조화 - 독특하고 창의적인 조합',
+};
+
 export interface AccessibilityScore {
   aa: boolean;
   aaa: boolean;
@@ -30,131 +57,27 @@ export interface ColorSuggestion {
 }
 
 export class ColorAnalyzer {
-  // Convert hex to RGB
-  private hexToRgb(hex: string): { r: number; g: number; b: number } {
-    const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-    return result
-      ? {
-          r: parseInt(result[1], 16),
-          g: parseInt(result[2], 16),
-          b: parseInt(result[3], 16),
-        }
-      : { r: 0, g: 0, b: 0 };
-  }
-
-  // Convert RGB to HSL
-  private rgbToHsl(r: number, g: number, b: number): { h: number; s: number; l: number } {
-    r /= 255;
-    g /= 255;
-    b /= 255;
-
-    const max = Math.max(r, g, b);
-    const min = Math.min(r, g, b);
-    let h = 0;
-    let s = 0;
-    const l = (max + min) / 2;
-
-    if (max !== min) {
-      const d = max - min;
-      s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
-
-      switch (max) {
-        case r:
-          h = ((g - b) / d + (g < b ? 6 : 0)) / 6;
-          break;
-        case g:
-          h = ((b - r) / d + 2) / 6;
-          break;
-        case b:
-          h = ((r - g) / d + 4) / 6;
-          break;
-      }
-    }
-
-    return {
-      h: Math.round(h * 360),
-      s: Math.round(s * 100),
-      l: Math.round(l * 100),
-    };
+  // Whole-number HSL keeps the hue-difference heuristics stable
+  private hexToHsl(hex: string): { h: number; s: number; l: number } {
+    const { h, s, l } = rgbToHsl(hexToRgb(hex));
+    return { h: Math.round(h) % 360, s: Math.round(s), l: Math.round(l) };
   }
 
-  // Calculate contrast ratio
   private getContrastRatio(color1: string, color2: string): number {
-    const rgb1 = this.hexToRgb(color1);
-    const rgb2 = this.hexToRgb(color2);
-
-    const l1 = this.getRelativeLuminance(rgb1);
-    const l2 = this.getRelativeLuminance(rgb2);
-
-    const lighter = Math.max(l1, l2);
-    const darker = Math.min(l1, l2);
-
-    return (lighter + 0.05) / (darker + 0.05);
-  }
-
-  private getRelativeLuminance(rgb: { r: number; g: number; b: number }): number {
-    const sRGB = [rgb.r / 255, rgb.g / 255, rgb.b / 255];
-    const linearRGB = sRGB.map((val) => {
-      if (val <= 0.03928) {
-        return val / 12.92;
-      }
-      return Math.pow((val + 0.055) / 1.055, 2.4);
-    });
-
-    return linearRGB[0] * 0.2126 + linearRGB[1] * 0.7152 + linearRGB[2] * 0.0722;
+    return contrastRatio(hexToRgb(color1), hexToRgb(color2));
   }
 
-  // Analyze color harmony
+  // Analyze color harmony with the same template fit as the palette analysis API
   analyzeHarmony(colors: string[]): ColorHarmony {
-    if (colors.length < 2) {
-      return {
-        score: 100,
-        type: 'monochromatic',
-        description: '단일 색상 팔레트',
-      };
-    }
-
-    const hslColors = colors.map((color) => {
-      const rgb = this.hexToRgb(color);
-      return this.rgbToHsl(rgb.r, rgb.g, rgb.b);
-    });
-
-    // Simple harmony detection based on hue differences
-    const hueDiffs = [];
-    for (let i = 0; i < hslColors.length - 1; i++) {
-      for (let j = i + 1; j < hslColors.length; j++) {
-        const diff = Math.abs(hslColors[i].h - hslColors[j].h);
-        hueDiffs.push(Math.min(diff, 360 - diff));
-      }
-    }
-
-    const avgDiff = hueDiffs.reduce((a, b) => a + b, 0) / hueDiffs.length;
+    const { type, score, offenders, fits } = detectHarmony(colors);
 
-    if (avgDiff < 30) {
-      return {
-        score: 95,
-        type: 'analogous',
-        description: '유사색 조화 - 자연스럽고 편안한 조합',
-      };
-    } else if (avgDiff > 150 && avgDiff < 210) {
-      return {
-        score: 90,
-        type: 'complementary',
-        description: '보색 조화 - 강렬하고 다이나믹한 대비',
-      };
-    } else if (avgDiff > 110 && avgDiff < 130) {
-      return {
-        score: 85,
-        type: 'triadic',
-        description: '삼원색 조화 - 균형잡힌 활기찬 조합',
-      };
-    } else {
-      return {
-        score: 75,
-        type: 'custom',
-        description: '커스텀 조화 - 독특하고 창의적인 조합',
-      };
-    }
+    return {
+      score,
+      type,
+      description: HARMONY_DESCRIPTIONS[type],
+      offenders,
+      fits,
+    };
   }
 
   // Check accessibility
@@ -176,8 +99,7 @@ export class ColorAnalyzer {
     let totalEnergy = 0;
 
     colors.forEach((color) => {
-      const rgb = this.hexToRgb(color);
-      const hsl = this.rgbToHsl(rgb.r, rgb.g, rgb.b);
+      const hsl = this.hexToHsl(color);
 
       // Analyze based on hue
       if (hsl.h >= 0 && hsl.h < 30) {
@@ -272,8 +194,7 @@ export class ColorAnalyzer {
 
   // Generate color suggestions
   generateSuggestions(baseColor: string): ColorSuggestion[] {
-    const rgb = this.hexToRgb(baseColor);
-    const hsl = this.rgbToHsl(rgb.r, rgb.g, rgb.b);
+    const hsl = this.hexToHsl(baseColor);
     const suggestions: ColorSuggestion[] = [];
 
     // Complementary
@@ -311,48 +232,7 @@ export class ColorAnalyzer {
   }
 
   private hslToHex(h: number, s: number, l: number): string {
-    s /= 100;
-    l /= 100;
-
-    const c = (1 - Math.abs(2 * l - 1)) * s;
-    const x = c * (1 - Math.abs(((h / 60) % 2) - 1));
-    const m = l - c / 2;
-    let r = 0;
-    let g = 0;
-    let b = 0;
-
-    if (h >= 0 && h < 60) {
-      r = c;
-      g = x;
-      b = 0;
-    } else if (h >= 60 && h < 120) {
-      r = x;
-      g = c;
-      b = 0;
-    } else if (h >= 120 && h < 180) {
-      r = 0;
-      g = c;
-      b = x;
-    } else if (h >= 180 && h < 240) {
-      r = 0;
-      g = x;
-      b = c;
-    } else if (h >= 240 && h < 300) {
-      r = x;
-      g = 0;
-      b = c;
-    } else {
-      r = c;
-      g = 0;
-      b = x;
-    }
-
-    const toHex = (n: number) => {
-      const hex = Math.round((n + m) * 255).toString(16);
-      return hex.length === 1 ? '0' + hex : hex;
-    };
-
-    return `#${toHex(r)}${toHex(g)}${toHex(b)}`.toUpperCase();
+    return rgbToHex(hslToRgb({ h, s: Math.min(s, 100), l: Math.min(l, 100) }));
   }
 }
 
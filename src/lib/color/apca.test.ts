@@ -0,0 +1,69 @@
+import {
+  apcaContrast,
+  apcaFontSizes,
+  apcaFontWeight,
+  apcaLevel,
+  apcaMinimumFontSize,
+  apcaPolarity,
+} from './apca';
+
+// Reference values from the apca-w3 0.0.98G-4g test suite: text, background, Lc
+const REFERENCE_PAIRS: [string, string, number][] = [
+  ['#000000', '#FFFFFF', 106.04067321268862],
+  ['#FFFFFF', '#000000', -107.88473318309848],
+  ['#888888', '#FFFFFF', 63.056469930209424],
+  ['#FFFFFF', '#888888', -68.54146436644962],
+  ['#000000', '#AAAAAA', 58.146262578561334],
+  ['#AAAAAA', '#000000', -56.24113336839742],
+  ['#112233', '#DDEEFF', 91.66830811481631],
+  ['#DDEEFF', '#112233', -93.06770049484275],
+];
+
+describe('APCA contrast', () => {
+  it.each(REFERENCE_PAIRS)('matches the reference Lc for %s on %s', (text, background, expected) => {
+    expect(apcaContrast(text, background)).toBeCloseTo(expected, 6);
+  });
+
+  it('is zero for nearly identical colors', () => {
+    expect(apcaContrast('#777777', '#787878')).toBe(0);
+    expect(apcaContrast({ r: 30, g: 30, b: 30 }, '#1E1E1E')).toBe(0);
+  });
+
+  it('reports polarity from the sign', () => {
+    expect(apcaPolarity(apcaContrast('#000000', '#FFFFFF'))).toBe('dark-on-light');
+    expect(apcaPolarity(apcaContrast('#FFFFFF', '#000000'))).toBe('light-on-dark');
+  });
+});
+
+describe('APCA font lookup', () => {
+  it('rounds |Lc| down to a row of the lookup table', () => {
+    expect(apcaMinimumFontSize(75, 400)).toBe(18);
+    expect(apcaMinimumFontSize(-79.9, 400)).toBe(18);
+    expect(apcaMinimumFontSize(90, 'bold')).toBe(14);
+  });
+
+  it('has no text sizes below Lc 25 and only heavy weights up to Lc 30', () => {
+    expect(Object.values(apcaFontSizes(20)).every((size) => size === null)).toBe(true);
+    expect(apcaFontSizes(27)[300]).toBeNull();
+    expect(apcaFontSizes(27)[700]).toBe(96);
+  });
+
+  it('resolves named and in-between weights', () => {
+    expect(apcaFontWeight('normal')).toBe(400);
+    expect(apcaFontWeight('bold')).toBe(700);
+    expect(apcaFontWeight(449)).toBe(400);
+    expect(apcaFontWeight(1000)).toBe(900);
+    expect(apcaFontWeight(50)).toBe(100);
+  });
+});
+
+describe('APCA levels', () => {
+  it('maps |Lc| to the conformance levels', () => {
+    expect(apcaLevel(106)).toBe('body');
+    expect(apcaLevel(-63)).toBe('content');
+    expect(apcaLevel(45)).toBe('large');
+    expect(apcaLevel(30)).toBe('spot');
+    expect(apcaLevel(-15)).toBe('non-text');
+    expect(apcaLevel(14.9)).toBe('fail');
+  });
+});
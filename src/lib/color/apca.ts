@@ -0,0 +1,146 @@
+/**
+ * APCA (Accessible Perceptual Contrast Algorithm), the contrast method drafted for WCAG 3
+ */
+
+import { Rgb, hexToRgb } from './conversions';
+
+export type ApcaPolarity = 'dark-on-light' | 'light-on-dark';
+
+// APCA-W3 0.0.98G-4g constants
+const MAIN_TRC = 2.4;
+const R_CO = 0.2126729;
+const G_CO = 0.7151522;
+const B_CO = 0.0721750;
+
+const NORM_BG = 0.56;
+const NORM_TXT = 0.57;
+const REV_TXT = 0.62;
+const REV_BG = 0.65;
+
+const BLACK_THRESHOLD = 0.022;
+const BLACK_CLAMP = 1.414;
+const SCALE = 1.14;
+const LOW_OFFSET = 0.027;
+const LOW_CLIP = 0.1;
+const DELTA_Y_MIN = 0.0005;
+
+const toRgb = (color: string | Rgb): Rgb => (typeof color === 'string' ? hexToRgb(color) : color);
+
+/**
+ * Screen luminance as APCA estimates it: a plain 2.4 power curve, not the piecewise sRGB one
+ */
+export const apcaLuminance = (color: string | Rgb): number => {
+  const { r, g, b } = toRgb(color);
+  return R_CO * (r / 255) ** MAIN_TRC + G_CO * (g / 255) ** MAIN_TRC + B_CO * (b / 255) ** MAIN_TRC;
+};
+
+// Soft clamp that models flare near black
+const clampBlack = (y: number) => (y > BLACK_THRESHOLD ? y : y + (BLACK_THRESHOLD - y) ** BLACK_CLAMP);
+
+/**
+ * Lightness contrast (Lc) of text on a background, roughly -108 to 106.
+ * Positive for dark text on a light background, negative for light text on dark.
+ * Order matters: swapping text and background changes the value.
+ */
+export const apcaContrast = (text: string | Rgb, background: string | Rgb): number => {
+  const yText = clampBlack(apcaLuminance(text));
+  const yBackground = clampBlack(apcaLuminance(background));
+
+  if (Math.abs(yBackground - yText) < DELTA_Y_MIN) return 0;
+
+  if (yBackground > yText) {
+    const sapc = (yBackground ** NORM_BG - yText ** NORM_TXT) * SCALE;
+    return sapc < LOW_CLIP ? 0 : (sapc - LOW_OFFSET) * 100;
+  }
+
+  const sapc = (yBackground ** REV_BG - yText ** REV_TXT) * SCALE;
+  return sapc > -LOW_CLIP ? 0 : (sapc + LOW_OFFSET) * 100;
+};
+
+export const apcaPolarity = (lc: number): ApcaPolarity => (lc < 0 ? 'light-on-dark' : 'dark-on-light');
+
+// ==================== FONT LOOKUP ====================
+
+export const APCA_FONT_WEIGHTS = [100, 200, 300, 400, 500, 600, 700, 800, 900] as const;
+
+export type ApcaFontWeight = typeof APCA_FONT_WEIGHTS[number];
+
+// Marks in the lookup table below
+const NOT_READABLE = 999;
+const NON_TEXT_ONLY = 777;
+
+/**
+ * Minimum font size in CSS px per weight (100-900) at each |Lc|, after APCA's font lookup table.
+ * 999: not usable at all; 777: only for non-text elements such as dividers and icons.
+ */
+const FONT_LOOKUP: [number, number[]][] = [
+  [0, [999, 999, 999, 999, 999, 999, 999, 999, 999]],
+  [15, [777, 777, 777, 777, 777, 777, 777, 777, 777]],
+  [25, [777, 777, 777, 120, 120, 108, 96, 96, 96]],
+  [30, [777, 777, 120, 108, 108, 96, 72, 72, 72]],
+  [35, [777, 120, 108, 96, 72, 60, 48, 48, 48]],
+  [40, [120, 108, 96, 60, 48, 42, 32, 32, 32]],
+  [45, [108, 96, 72, 42, 32, 28, 24, 24, 24]],
+  [50, [96, 72, 60, 32, 28, 24, 21, 21, 21]],
+  [55, [80, 60, 48, 28, 24, 21, 18, 18, 18]],
+  [60, [72, 48, 42, 24, 21, 18, 16, 16, 18]],
+  [65, [68, 46, 32, 21.75, 19, 17, 15, 16, 18]],
+  [70, [64, 44, 28, 19.5, 18, 16, 14.5, 16, 18]],
+  [75, [60, 42, 24, 18, 16, 15, 14, 16, 18]],
+  [80, [56, 38.25, 23, 17.25, 15.81, 14.81, 14, 16, 18]],
+  [85, [52, 34.5, 22, 16.5, 15.625, 14.625, 14, 16, 18]],
+  [90, [48, 32, 21, 16, 15.5, 14.5, 14, 16, 18]],
+  [95, [45, 28, 19.5, 15.5, 15, 14, 13.5, 16, 18]],
+  [100, [42, 26.5, 18.5, 15, 14.5, 13.5, 13, 16, 18]],
+  [105, [39, 25, 18, 14.5, 14, 13, 12, 16, 18]],
+];
+
+/**
+ * Smallest usable text size in px for each weight at a given Lc; null where the contrast is
+ * too low for text of that weight at any size. Polarity does not matter, only |Lc|.
+ */
+export const apcaFontSizes = (lc: number): Record<ApcaFontWeight, number | null> => {
+  const magnitude = Math.abs(lc);
+  // Round down to the nearest row so the lookup never overstates readability
+  let row = FONT_LOOKUP[0][1];
+  for (const [threshold, sizes] of FONT_LOOKUP) {
+    if (magnitude >= threshold) row = sizes;
+  }
+
+  return Object.fromEntries(APCA_FONT_WEIGHTS.map((weight, i) => [
+    weight,
+    row[i] === NOT_READABLE || row[i] === NON_TEXT_ONLY ? null : row[i],
+  ])) as Record<ApcaFontWeight, number | null>;
+};
+
+// Nearest weight in the lookup table, so 'bold' (700) and 450 both resolve
+export const apcaFontWeight = (weight: number | 'normal' | 'bold'): ApcaFontWeight => {
+  const numeric = weight === 'bold' ? 700 : weight === 'normal' ? 400 : weight;
+  const clamped = Math.min(900, Math.max(100, Math.round(numeric / 100) * 100));
+  return clamped as ApcaFontWeight;
+};
+
+export const apcaMinimumFontSize = (lc: number, weight: number | 'normal' | 'bold'): number | null =>
+  apcaFontSizes(lc)[apcaFontWeight(weight)];
+
+// ==================== LEVELS ====================
+
+export type ApcaLevel = 'body' | 'content' | 'large' | 'spot' | 'non-text' | 'fail';
+
+/**
+ * APCA's simple conformance levels by |Lc|:
+ * 75 body text, 60 other content text, 45 large or bold headings, 30 spot text such as
+ * placeholders and disabled labels, 15 non-text elements.
+ */
+export const APCA_LEVELS: [ApcaLevel, number][] = [
+  ['body', 75],
+  ['content', 60],
+  ['large', 45],
+  ['spot', 30],
+  ['non-text', 15],
+];
+
+export const apcaLevel = (lc: number): ApcaLevel => {
+  const magnitude = Math.abs(lc);
+  return APCA_LEVELS.find(([, threshold]) => magnitude >= threshold)?.[0] ?? 'fail';
+};
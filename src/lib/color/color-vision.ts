@@ -0,0 +1,257 @@
+/**
+ * Color vision deficiency simulation in linear-light sRGB.
+ * Machado, Oliveira & Fernandes (2009) for anomalous trichromacy and dichromacy at any severity,
+ * Brettel, Viénot & Mollon (1997) as the alternative model (and the default for tritan, where
+ * Machado's model is least accurate), and luminance-only vision for achromatopsia.
+ */
+
+import { LinearRgb, Rgb, hexToRgb, linearToRgb, rgbToHex, rgbToLab, rgbToLinear } from './conversions';
+import { deltaE2000 } from './delta-e';
+
+export type ColorVisionDeficiency = 'protan' | 'deutan' | 'tritan' | 'achromatopsia';
+
+export const COLOR_VISION_DEFICIENCIES: ColorVisionDeficiency[] = ['protan', 'deutan', 'tritan', 'achromatopsia'];
+
+export type ColorVisionModel = 'machado' | 'brettel';
+
+export const COLOR_VISION_MODELS: ColorVisionModel[] = ['machado', 'brettel'];
+
+export interface ColorVisionOptions {
+  // 0 (typical vision) to 1 (dichromacy: protanopia, deuteranopia, tritanopia)
+  severity?: number;
+  model?: ColorVisionModel;
+}
+
+type Matrix = number[][];
+
+const IDENTITY: Matrix = [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
+
+/**
+ * Machado 2009 matrices for severity 0.1 to 1.0 in steps of 0.1 (severity 0 is the identity).
+ * Intermediate severities interpolate between neighbouring matrices.
+ */
+const MACHADO_MATRICES: Record<'protan' | 'deutan' | 'tritan', Matrix[]> = {
+  protan: [
+    [[0.856167, 0.182038, -0.038205], [0.029342, 0.955115, 0.015544], [-0.002880, -0.001563, 1.004443]],
+    [[0.734766, 0.334872, -0.069637], [0.051840, 0.919198, 0.028963], [-0.004928, -0.004209, 1.009137]],
+    [[0.630323, 0.465641, -0.095964], [0.069181, 0.890046, 0.040773], [-0.006308, -0.007724, 1.014032]],
+    [[0.539009, 0.579343, -0.118352], [0.082546, 0.866121, 0.051332], [-0.007136, -0.011959, 1.019095]],
+    [[0.458064, 0.679578, -0.137642], [0.092785, 0.846313, 0.060902], [-0.007494, -0.016807, 1.024301]],
+    [[0.385450, 0.769005, -0.154455], [0.100526, 0.829802, 0.069673], [-0.007442, -0.022190, 1.029632]],
+    [[0.319627, 0.849633, -0.169261], [0.106241, 0.815969, 0.077790], [-0.007025, -0.028051, 1.035076]],
+    [[0.259411, 0.923008, -0.182420], [0.110296, 0.804340, 0.085364], [-0.006276, -0.034346, 1.040622]],
+    [[0.203876, 0.990338, -0.194214], [0.112975, 0.794542, 0.092483], [-0.005222, -0.041043, 1.046265]],
+    [[0.152286, 1.052583, -0.204868], [0.114503, 0.786281, 0.099216], [-0.003882, -0.048116, 1.051998]],
+  ],
+  deutan: [
+    [[0.866435, 0.177704, -0.044139], [0.049567, 0.939063, 0.011370], [-0.003453, 0.007233, 0.996220]],
+    [[0.760729, 0.319078, -0.079807], [0.090568, 0.889315, 0.020117], [-0.006027, 0.013325, 0.992702]],
+    [[0.675425, 0.433850, -0.109275], [0.125303, 0.847755, 0.026942], [-0.007950, 0.018572, 0.989378]],
+    [[0.605511, 0.528560, -0.134071], [0.155318, 0.812366, 0.032316], [-0.009376, 0.023176, 0.986200]],
+    [[0.547494, 0.607765, -0.155259], [0.181692, 0.781742, 0.036566], [-0.010410, 0.027275, 0.983136]],
+    [[0.498864, 0.674741, -0.173604], [0.205199, 0.754872, 0.039929], [-0.011131, 0.030969, 0.980162]],
+    [[0.457771, 0.731899, -0.189670], [0.226409, 0.731012, 0.042579], [-0.011595, 0.034333, 0.977261]],
+    [[0.422823, 0.781057, -0.203881], [0.245752, 0.709602, 0.044646], [-0.011843, 0.037423, 0.974421]],
+    [[0.392952, 0.823610, -0.216562], [0.263559, 0.690210, 0.046232], [-0.011910, 0.040281, 0.971630]],
+    [[0.367322, 0.860646, -0.227968], [0.280085, 0.672501, 0.047413], [-0.011820, 0.042940, 0.968881]],
+  ],
+  tritan: [
+    [[0.926670, 0.092514, -0.019184], [0.021191, 0.964503, 0.014306], [0.008437, 0.054813, 0.936750]],
+    [[0.895720, 0.133330, -0.029050], [0.029997, 0.945400, 0.024603], [0.013027, 0.104707, 0.882266]],
+    [[0.905871, 0.127791, -0.033662], [0.026856, 0.941251, 0.031893], [0.013410, 0.148296, 0.838294]],
+    [[0.948035, 0.089490, -0.037526], [0.014364, 0.946792, 0.038844], [0.010853, 0.193991, 0.795156]],
+    [[1.017277, 0.027029, -0.044306], [-0.006113, 0.958479, 0.047634], [0.006379, 0.248708, 0.744913]],
+    [[1.104996, -0.046633, -0.058363], [-0.032137, 0.971635, 0.060503], [0.001336, 0.317922, 0.680742]],
+    [[1.193214, -0.109812, -0.083402], [-0.058496, 0.979410, 0.079086], [-0.002346, 0.403492, 0.598854]],
+    [[1.257728, -0.139648, -0.118081], [-0.078003, 0.975409, 0.102594], [-0.003316, 0.501214, 0.502102]],
+    [[1.278864, -0.125333, -0.153531], [-0.084748, 0.957674, 0.127074], [-0.000989, 0.601151, 0.399838]],
+    [[1.255528, -0.076749, -0.178779], [-0.078411, 0.930809, 0.147602], [0.004733, 0.691367, 0.303900]],
+  ],
+};
+
+/**
+ * Brettel 1997 dichromat projection expressed in linear sRGB (Viénot 1999 LMS, Smith & Pokorny
+ * cone fundamentals). Colors are projected onto one of two half-planes through the neutral axis,
+ * chosen by the side of the separation plane they fall on. Anchors: 475/575nm for protan and
+ * deutan, 485/660nm for tritan.
+ */
+const BRETTEL_PARAMETERS: Record<'protan' | 'deutan' | 'tritan', { normal: number[]; positive: Matrix; negative: Matrix }> = {
+  protan: {
+    normal: [0.00048, 0.00416, -0.00464],
+    positive: [[0.14510, 1.20165, -0.34675], [0.10447, 0.85316, 0.04237], [0.00429, -0.00603, 1.00174]],
+    negative: [[0.14115, 1.16782, -0.30897], [0.10495, 0.85730, 0.03776], [0.00431, -0.00586, 1.00155]],
+  },
+  deutan: {
+    normal: [-0.00293, -0.00645, 0.00938],
+    positive: [[0.36198, 0.86755, -0.22953], [0.26099, 0.64512, 0.09389], [-0.01975, 0.02686, 0.99289]],
+    negative: [[0.37009, 0.88540, -0.25549], [0.25767, 0.63782, 0.10451], [-0.01950, 0.02741, 0.99209]],
+  },
+  tritan: {
+    normal: [0.03960, -0.02831, -0.01129],
+    positive: [[1.01354, 0.14268, -0.15622], [-0.01181, 0.87561, 0.13619], [0.07707, 0.81208, 0.11085]],
+    negative: [[0.93337, 0.19999, -0.13336], [0.05809, 0.82565, 0.11626], [-0.37923, 1.13825, 0.24098]],
+  },
+};
+
+export const DEFAULT_COLOR_VISION_MODELS: Record<ColorVisionDeficiency, ColorVisionModel> = {
+  protan: 'machado',
+  deutan: 'machado',
+  tritan: 'brettel',
+  // Achromatopsia is luminance only; the model does not apply
+  achromatopsia: 'machado',
+};
+
+const clampUnit = (value: number) => Math.min(1, Math.max(0, value));
+
+const clampSeverity = (severity: number) => Math.min(1, Math.max(0, severity));
+
+const apply = (matrix: Matrix, { r, g, b }: LinearRgb): LinearRgb => {
+  const [sr, sg, sb] = matrix.map((row) => row[0] * r + row[1] * g + row[2] * b);
+  return { r: sr, g: sg, b: sb };
+};
+
+// (1 - t) * identity + t * matrix
+const blend = (matrix: Matrix, t: number): Matrix =>
+  matrix.map((row, i) => row.map((value, j) => IDENTITY[i][j] + (value - IDENTITY[i][j]) * t));
+
+const LUMINANCE_ROW = [0.2126, 0.7152, 0.0722];
+
+const machadoMatrix = (deficiency: 'protan' | 'deutan' | 'tritan', severity: number): Matrix => {
+  const position = severity * 10;
+  const step = Math.floor(position);
+  const lower = step === 0 ? IDENTITY : MACHADO_MATRICES[deficiency][step - 1];
+  if (step >= 10) return lower;
+
+  const upper = MACHADO_MATRICES[deficiency][step];
+  const t = position - step;
+  return lower.map((row, i) => row.map((value, j) => value + (upper[i][j] - value) * t));
+};
+
+export interface ColorVisionTransform {
+  // Colors on the non-negative side of this plane use `positive`, the rest `negative`
+  normal: number[];
+  positive: number[][];
+  negative: number[][];
+}
+
+const NO_SPLIT = [0, 0, 0];
+
+/**
+ * The simulation as matrices on linear RGB, so it can be applied to many pixels without
+ * recomputing them. Machado and achromatopsia use a single matrix; Brettel uses two.
+ */
+export const colorVisionTransform = (
+  deficiency: ColorVisionDeficiency,
+  { severity = 1, model = DEFAULT_COLOR_VISION_MODELS[deficiency] }: ColorVisionOptions = {}
+): ColorVisionTransform => {
+  const amount = clampSeverity(severity);
+
+  if (deficiency === 'achromatopsia') {
+    const matrix = blend([LUMINANCE_ROW, LUMINANCE_ROW, LUMINANCE_ROW], amount);
+    return { normal: NO_SPLIT, positive: matrix, negative: matrix };
+  }
+
+  if (model === 'machado') {
+    const matrix = machadoMatrix(deficiency, amount);
+    return { normal: NO_SPLIT, positive: matrix, negative: matrix };
+  }
+
+  const { normal, positive, negative } = BRETTEL_PARAMETERS[deficiency];
+  return { normal, positive: blend(positive, amount), negative: blend(negative, amount) };
+};
+
+/**
+ * Simulated linear RGB, unclamped. Severity 0 returns the input; Brettel and achromatopsia
+ * blend between the input and the full deficiency, Machado uses its per-severity matrices.
+ */
+export const simulateColorVisionLinear = (
+  linear: LinearRgb,
+  deficiency: ColorVisionDeficiency,
+  options: ColorVisionOptions = {}
+): LinearRgb => {
+  const { normal, positive, negative } = colorVisionTransform(deficiency, options);
+  const side = normal[0] * linear.r + normal[1] * linear.g + normal[2] * linear.b;
+  return apply(side >= 0 ? positive : negative, linear);
+};
+
+export const simulateColorVision = (rgb: Rgb, deficiency: ColorVisionDeficiency, options: ColorVisionOptions = {}): Rgb => {
+  const { r, g, b } = simulateColorVisionLinear(rgbToLinear(rgb), deficiency, options);
+  return linearToRgb({ r: clampUnit(r), g: clampUnit(g), b: clampUnit(b) });
+};
+
+export const simulateColorVisionHex = (hex: string, deficiency: ColorVisionDeficiency, options: ColorVisionOptions = {}): string =>
+  rgbToHex(simulateColorVision(hexToRgb(hex), deficiency, options));
+
+// ==================== PALETTE REPORT ====================
+
+/**
+ * ΔE2000 below which two palette colors are treated as indistinguishable. Higher than the
+ * just noticeable difference, since swatches in charts and UI are small and rarely side by side.
+ */
+export const DEFAULT_CONFUSION_THRESHOLD = 10;
+
+export interface ConfusablePair {
+  // Palette indexes
+  a: number;
+  b: number;
+  // ΔE2000 with typical vision and as simulated
+  originalDistance: number;
+  distance: number;
+}
+
+export interface ColorVisionSimulation {
+  deficiency: ColorVisionDeficiency;
+  severity: number;
+  model: ColorVisionModel;
+  colors: string[];
+  // Pairs that are distinguishable with typical vision but not under this deficiency
+  confusablePairs: ConfusablePair[];
+}
+
+export interface ColorVisionReportOptions extends ColorVisionOptions {
+  deficiencies?: ColorVisionDeficiency[];
+  threshold?: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Simulated palette per deficiency, with the color pairs that collapse together
+ */
+export const colorVisionReport = (
+  colors: string[],
+  {
+    deficiencies = COLOR_VISION_DEFICIENCIES,
+    severity = 1,
+    model,
+    threshold = DEFAULT_CONFUSION_THRESHOLD,
+  }: ColorVisionReportOptions = {}
+): ColorVisionSimulation[] => {
+  const original = colors.map(hexToRgb);
+  const originalLab = original.map((rgb) => rgbToLab(rgb));
+
+  return deficiencies.map((deficiency) => {
+    const resolvedModel = model ?? DEFAULT_COLOR_VISION_MODELS[deficiency];
+    const simulated = original.map((rgb) => simulateColorVision(rgb, deficiency, { severity, model: resolvedModel }));
+    const simulatedLab = simulated.map((rgb) => rgbToLab(rgb));
+
+    const confusablePairs: ConfusablePair[] = [];
+    for (let a = 0; a < colors.length; a++) {
+      for (let b = a + 1; b < colors.length; b++) {
+        const originalDistance = deltaE2000(originalLab[a], originalLab[b]);
+        const distance = deltaE2000(simulatedLab[a], simulatedLab[b]);
+        if (originalDistance >= threshold && distance < threshold) {
+          confusablePairs.push({ a, b, originalDistance: round(originalDistance), distance: round(distance) });
+        }
+      }
+    }
+
+    return {
+      deficiency,
+      severity: clampSeverity(severity),
+      model: resolvedModel,
+      colors: simulated.map(rgbToHex),
+      confusablePairs,
+    };
+  });
+};
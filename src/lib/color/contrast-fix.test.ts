@@ -0,0 +1,123 @@
+import {
+  ContrastTarget,
+  contrastScore,
+  fixPaletteContrast,
+  meetsContrastTarget,
+  requiredContrast,
+  suggestContrastFixes,
+} from './contrast-fix';
+import { hexToRgb, rgbToOklch } from './conversions';
+
+const AA: ContrastTarget = { standard: 'wcag', level: 'AA' };
+const AAA: ContrastTarget = { standard: 'wcag', level: 'AAA' };
+
+const isGray = (hex: string) => {
+  const { r, g, b } = hexToRgb(hex);
+  return r === g && g === b;
+};
+
+describe('contrast targets', () => {
+  it('asks for the WCAG ratios and the APCA Lc', () => {
+    expect(requiredContrast(AA)).toBe(4.5);
+    expect(requiredContrast({ ...AA, largeText: true })).toBe(3);
+    expect(requiredContrast(AAA)).toBe(7);
+    expect(requiredContrast({ ...AAA, largeText: true })).toBe(4.5);
+    expect(requiredContrast({ standard: 'apca', lc: 75 })).toBe(75);
+  });
+
+  it('scores APCA by |Lc| with the foreground as text', () => {
+    expect(contrastScore('#FFFFFF', '#000000', { standard: 'apca', lc: 60 })).toBeCloseTo(107.88, 2);
+    expect(meetsContrastTarget('#777777', '#FFFFFF', AA)).toBe(false);
+    expect(meetsContrastTarget('#767676', '#FFFFFF', AA)).toBe(true);
+  });
+});
+
+describe('suggestContrastFixes', () => {
+  it('returns nothing for a passing pair', () => {
+    expect(suggestContrastFixes('#000000', '#FFFFFF', AAA)).toEqual([]);
+  });
+
+  it('darkens gray text just enough and keeps it gray', () => {
+    const [fix] = suggestContrastFixes('#777777', '#FFFFFF', AA, 'foreground');
+
+    expect(fix.role).toBe('foreground');
+    expect(fix.background).toBe('#FFFFFF');
+    expect(isGray(fix.foreground)).toBe(true);
+    expect(fix.score).toBeGreaterThanOrEqual(4.5);
+    expect(fix.score).toBeLessThan(4.6);
+    expect(fix.deltaE).toBeLessThan(1);
+  });
+
+  it('keeps the hue of colored text', () => {
+    const [fix] = suggestContrastFixes('#6A8CFF', '#FFFFFF', AA, 'foreground');
+
+    expect(meetsContrastTarget(fix.foreground, fix.background, AA)).toBe(true);
+    expect(rgbToOklch(hexToRgb(fix.foreground)).h).toBeCloseTo(rgbToOklch(hexToRgb('#6A8CFF')).h, 0);
+  });
+
+  it('offers both single-color fixes, closest first', () => {
+    const fixes = suggestContrastFixes('#6A8CFF', '#F0F0F0', AA);
+
+    expect(fixes.map((fix) => fix.role).sort()).toEqual(['background', 'foreground']);
+    expect(fixes[0].deltaE).toBeLessThanOrEqual(fixes[1].deltaE);
+    expect(fixes.every((fix) => meetsContrastTarget(fix.foreground, fix.background, AA))).toBe(true);
+  });
+
+  it('only changes the requested color', () => {
+    const [fix] = suggestContrastFixes('#777777', '#CCCCCC', AA, 'background');
+
+    expect(fix.role).toBe('background');
+    expect(fix.foreground).toBe('#777777');
+  });
+
+  it('moves both colors when neither alone can reach the target', () => {
+    const fixes = suggestContrastFixes('#777777', '#888888', AAA);
+
+    expect(fixes).toHaveLength(1);
+    expect(fixes[0].role).toBe('both');
+    expect(fixes[0].score).toBeGreaterThanOrEqual(7);
+  });
+
+  it('gives up when the requested color cannot reach the target', () => {
+    expect(suggestContrastFixes('#777777', '#888888', AAA, 'foreground')).toEqual([]);
+  });
+
+  it('reaches APCA targets', () => {
+    const target: ContrastTarget = { standard: 'apca', lc: 75 };
+    const [fix] = suggestContrastFixes('#888888', '#FFFFFF', target, 'foreground');
+
+    expect(fix.score).toBeGreaterThanOrEqual(75);
+    expect(fix.score).toBeLessThan(76);
+  });
+});
+
+describe('fixPaletteContrast', () => {
+  it('fixes every failing pair and reports the changes', () => {
+    const result = fixPaletteContrast(['#ffffff', '#999999', '#6A8CFF'], [
+      { foreground: 1, background: 0 },
+      { foreground: 2, background: 0 },
+    ], AA);
+
+    expect(result.colors[0]).toBe('#FFFFFF');
+    expect(result.changes.map((change) => change.index)).toEqual([1, 2]);
+    expect(result.changes[0].from).toBe('#999999');
+    expect(result.pairs.every((pair) => pair.before < 4.5 && pair.after >= 4.5 && pair.passes)).toBe(true);
+    expect(result.unresolved).toEqual([]);
+  });
+
+  it('re-checks a color used as text on several backgrounds', () => {
+    const pairs = [{ foreground: 2, background: 0 }, { foreground: 2, background: 1 }];
+    const result = fixPaletteContrast(['#FFFFFF', '#000000', '#999999'], pairs, AA);
+
+    expect(result.unresolved).toEqual([]);
+    expect(result.pairs.every((pair) => pair.passes)).toBe(true);
+  });
+
+  it('leaves unfixable pairs unresolved', () => {
+    const pairs = [{ foreground: 0, background: 1 }];
+    const result = fixPaletteContrast(['#777777', '#888888'], pairs, AAA);
+
+    expect(result.changes).toEqual([]);
+    expect(result.unresolved).toEqual(pairs);
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Nearest accessible colors: adjust a foreground or background until a pair reaches
+ * a WCAG 2 or APCA contrast target, changing as little as possible
+ */
+
+import {
+  Rgb,
+  contrastRatio,
+  hexToRgb,
+  isInSrgbGamut,
+  clampRgb,
+  linearToSrgb,
+  oklchToRgb,
+  rgbToHex,
+  rgbToLab,
+  rgbToOklch
+} from './conversions';
+import { apcaContrast } from './apca';
+import { deltaE2000 } from './delta-e';
+
+export type ContrastTarget =
+  | { standard: 'wcag'; level: 'AA' | 'AAA'; largeText?: boolean }
+  | { standard: 'apca'; lc: number };
+
+export type ContrastRole = 'foreground' | 'background';
+
+export type ContrastAdjustment = ContrastRole | 'either';
+
+export interface ContrastFix {
+  // Which color of the pair was changed
+  role: ContrastRole | 'both';
+  foreground: string;
+  background: string;
+  // ΔE2000 between the original and the adjusted color
+  deltaE: number;
+  score: number;
+}
+
+export interface PalettePair {
+  foreground: number;
+  background: number;
+}
+
+export interface PaletteContrastFix {
+  colors: string[];
+  changes: { index: number; from: string; to: string; deltaE: number }[];
+  pairs: (PalettePair & { before: number; after: number; passes: boolean })[];
+  unresolved: PalettePair[];
+}
+
+/**
+ * Contrast ratio the target asks for, or the |Lc| for APCA
+ */
+export const requiredContrast = (target: ContrastTarget): number => {
+  if (target.standard === 'apca') return target.lc;
+  if (target.level === 'AAA') return target.largeText ? 4.5 : 7;
+  return target.largeText ? 3 : 4.5;
+};
+
+// WCAG ratio, or APCA |Lc| with the foreground as text
+export const contrastScore = (foreground: string, background: string, target: ContrastTarget): number =>
+  target.standard === 'apca'
+    ? Math.abs(apcaContrast(foreground, background))
+    : contrastRatio(hexToRgb(foreground), hexToRgb(background));
+
+export const meetsContrastTarget = (foreground: string, background: string, target: ContrastTarget): boolean =>
+  contrastScore(foreground, background, target) >= requiredContrast(target);
+
+const clamp255 = (value: number) => Math.min(255, Math.max(0, value));
+
+// Largest chroma at this lightness and hue that still fits in sRGB
+const toGamut = (l: number, c: number, h: number): Rgb => {
+  // OKLab grays have equal linear channels of l³; going through the matrices would tint them
+  if (c === 0) {
+    const gray = clamp255(linearToSrgb(l ** 3));
+    return { r: gray, g: gray, b: gray };
+  }
+
+  const rgb = oklchToRgb({ l, c, h });
+  if (isInSrgbGamut(rgb)) return rgb;
+
+  let low = 0;
+  let high = c;
+  for (let i = 0; i < 20; i++) {
+    const mid = (low + high) / 2;
+    if (isInSrgbGamut(oklchToRgb({ l, c: mid, h }))) low = mid;
+    else high = mid;
+  }
+  return clampRgb(oklchToRgb({ l, c: low, h }));
+};
+
+const SEARCH_STEPS = 24;
+const NEUTRAL_CHROMA = 0.001;
+
+// Color at step t (0-1) of a move along OKLCH lightness towards black (0) or white (1),
+// keeping hue and as much chroma as sRGB allows
+const lightnessPath = (hex: string, limit: number) => {
+  const { l, c, h } = rgbToOklch(hexToRgb(hex));
+  // Grays carry rounding noise as chroma; keep them neutral
+  const chroma = c < NEUTRAL_CHROMA ? 0 : c;
+  return (t: number) => rgbToHex(toGamut(l + (limit - l) * t, chroma, h));
+};
+
+// Smallest step that passes, given that the start fails. Passing steps form one run
+// up to the end of the path, so bisection finds its start.
+const firstPassingStep = (passes: (t: number) => boolean): number | null => {
+  if (!passes(1)) return null;
+
+  let low = 0;
+  let high = 1;
+  for (let i = 0; i < SEARCH_STEPS; i++) {
+    const mid = (low + high) / 2;
+    if (passes(mid)) high = mid;
+    else low = mid;
+  }
+  return high;
+};
+
+const colorDifference = (from: string, to: string) => deltaE2000(rgbToLab(hexToRgb(from)), rgbToLab(hexToRgb(to)));
+
+const closest = (fixes: (ContrastFix | null)[]): ContrastFix[] =>
+  fixes
+    .filter((fix): fix is ContrastFix => fix !== null)
+    .sort((a, b) => a.deltaE - b.deltaE);
+
+/**
+ * Move one color of the pair along OKLCH lightness to the first lightness that reaches
+ * the target. Darker and lighter are both tried and the one closer to the original by
+ * ΔE2000 wins. Null when even black or white fails.
+ */
+export const suggestAccessibleColor = (
+  color: string,
+  other: string,
+  role: ContrastRole,
+  target: ContrastTarget
+): ContrastFix | null => {
+  const pairFor = (hex: string) => (role === 'foreground' ? [hex, other] : [other, hex]) as [string, string];
+
+  const fixes = [0, 1].map((limit) => {
+    const path = lightnessPath(color, limit);
+    const t = firstPassingStep((step) => meetsContrastTarget(...pairFor(path(step)), target));
+    if (t === null) return null;
+
+    const [foreground, background] = pairFor(path(t));
+    return {
+      role,
+      foreground,
+      background,
+      deltaE: colorDifference(color, path(t)),
+      score: contrastScore(foreground, background, target),
+    };
+  });
+
+  return closest(fixes)[0] ?? null;
+};
+
+/**
+ * Move both colors apart at once, one towards black and the other towards white, for pairs
+ * too close for either color alone (mid-gray on mid-gray at AAA). deltaE is the larger change.
+ */
+const suggestAccessiblePair = (foreground: string, background: string, target: ContrastTarget): ContrastFix | null => {
+  const fixes = [[0, 1], [1, 0]].map(([foregroundLimit, backgroundLimit]) => {
+    const foregroundPath = lightnessPath(foreground, foregroundLimit);
+    const backgroundPath = lightnessPath(background, backgroundLimit);
+    const t = firstPassingStep((step) => meetsContrastTarget(foregroundPath(step), backgroundPath(step), target));
+    if (t === null) return null;
+
+    return {
+      role: 'both' as const,
+      foreground: foregroundPath(t),
+      background: backgroundPath(t),
+      deltaE: Math.max(colorDifference(foreground, foregroundPath(t)), colorDifference(background, backgroundPath(t))),
+      score: contrastScore(foregroundPath(t), backgroundPath(t), target),
+    };
+  });
+
+  return closest(fixes)[0] ?? null;
+};
+
+/**
+ * Fixes for a failing pair, closest first. With `either`, changing both colors is only
+ * offered when neither color alone can reach the target. Empty when the pair already passes
+ * or cannot be fixed.
+ */
+export const suggestContrastFixes = (
+  foreground: string,
+  background: string,
+  target: ContrastTarget,
+  adjust: ContrastAdjustment = 'either'
+): ContrastFix[] => {
+  if (meetsContrastTarget(foreground, background, target)) return [];
+
+  const fixes = closest([
+    adjust === 'background' ? null : suggestAccessibleColor(foreground, background, 'foreground', target),
+    adjust === 'foreground' ? null : suggestAccessibleColor(background, foreground, 'background', target),
+  ]);
+
+  if (fixes.length === 0 && adjust === 'either') {
+    return closest([suggestAccessiblePair(foreground, background, target)]);
+  }
+
+  return fixes;
+};
+
+const MAX_PASSES = 3;
+
+/**
+ * Fix every failing pair of a palette at once. Pairs are index-based; a color changed for
+ * one pair is used as changed by the following ones, and pairs are re-checked until stable
+ * since a color may serve as text on several backgrounds.
+ */
+export const fixPaletteContrast = (
+  colors: string[],
+  pairs: PalettePair[],
+  target: ContrastTarget,
+  adjust: ContrastAdjustment = 'foreground'
+): PaletteContrastFix => {
+  const fixed = colors.map((hex) => rgbToHex(hexToRgb(hex)));
+  const failing = (pair: PalettePair) => !meetsContrastTarget(fixed[pair.foreground], fixed[pair.background], target);
+
+  for (let pass = 0; pass < MAX_PASSES && pairs.some(failing); pass++) {
+    for (const pair of pairs) {
+      if (!failing(pair)) continue;
+
+      const [fix] = suggestContrastFixes(fixed[pair.foreground], fixed[pair.background], target, adjust);
+      if (!fix) continue;
+
+      fixed[pair.foreground] = fix.foreground;
+      fixed[pair.background] = fix.background;
+    }
+  }
+
+  const changes = colors
+    .map((hex, index) => ({ index, from: rgbToHex(hexToRgb(hex)), to: fixed[index] }))
+    .filter(({ from, to }) => from !== to)
+    .map((change) => ({ ...change, deltaE: colorDifference(change.from, change.to) }));
+
+  return {
+    colors: fixed,
+    changes,
+    pairs: pairs.map((pair) => ({
+      ...pair,
+      before: contrastScore(colors[pair.foreground], colors[pair.background], target),
+      after: contrastScore(fixed[pair.foreground], fixed[pair.background], target),
+      passes: !failing(pair),
+    })),
+    unresolved: pairs.filter(failing),
+  };
+};
@@ -0,0 +1,122 @@
+/**
+ * Contrast of every ordered pair in a palette under WCAG 2 and APCA,
+ * and which pairs are usable for body text, large text and UI components
+ */
+
+import { contrastRatio, hexToRgb, rgbToHex } from './conversions';
+import { apcaContrast } from './apca';
+
+export type ContrastUse = 'bodyText' | 'largeText' | 'uiComponents';
+
+export const CONTRAST_USES: ContrastUse[] = ['bodyText', 'largeText', 'uiComponents'];
+
+export type WcagGrade = 'AAA' | 'AA' | 'AA Large' | 'Fail';
+
+/**
+ * Minimum WCAG 2.1 ratio per use: 1.4.3 for text (large text is 24px, or 18.66px bold),
+ * 1.4.11 for UI components and graphics
+ */
+export const WCAG_MINIMUMS: Record<ContrastUse, number> = {
+  bodyText: 4.5,
+  largeText: 3,
+  uiComponents: 3,
+};
+
+/**
+ * Minimum APCA |Lc| per use: body text columns, large or bold headings, and spot elements
+ * such as icons, borders and focus rings
+ */
+export const APCA_MINIMUMS: Record<ContrastUse, number> = {
+  bodyText: 75,
+  largeText: 45,
+  uiComponents: 30,
+};
+
+export const wcagGrade = (ratio: number): WcagGrade => {
+  if (ratio >= 7) return 'AAA';
+  if (ratio >= 4.5) return 'AA';
+  if (ratio >= 3) return 'AA Large';
+  return 'Fail';
+};
+
+export interface ContrastCell {
+  // Palette indexes; the foreground is the text or icon color
+  foreground: number;
+  background: number;
+  ratio: number;
+  lc: number;
+  wcag: Record<ContrastUse, boolean> & { grade: WcagGrade };
+  apca: Record<ContrastUse, boolean>;
+}
+
+export interface ContrastPairing {
+  foreground: number;
+  background: number;
+}
+
+export interface ContrastMatrix {
+  colors: string[];
+  // cells[foreground][background]; APCA is asymmetric, so both orders are kept
+  cells: ContrastCell[][];
+  pairings: Record<'wcag' | 'apca', Record<ContrastUse, ContrastPairing[]>>;
+  // Colors that work as body text on at least one other palette color, per standard
+  textColors: Record<'wcag' | 'apca', number[]>;
+  warnings: string[];
+}
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+export const contrastCell = (colors: string[], foreground: number, background: number): ContrastCell => {
+  const text = hexToRgb(colors[foreground]);
+  const surface = hexToRgb(colors[background]);
+  const ratio = contrastRatio(text, surface);
+  const lc = apcaContrast(text, surface);
+
+  const passes = (minimums: Record<ContrastUse, number>, value: number) =>
+    Object.fromEntries(CONTRAST_USES.map((use) => [use, value >= minimums[use]])) as Record<ContrastUse, boolean>;
+
+  return {
+    foreground,
+    background,
+    ratio: round(ratio, 2),
+    lc: round(lc, 1),
+    wcag: { ...passes(WCAG_MINIMUMS, ratio), grade: wcagGrade(ratio) },
+    apca: passes(APCA_MINIMUMS, Math.abs(lc)),
+  };
+};
+
+/**
+ * N×N matrix for a palette. The diagonal (a color on itself) is included for a square
+ * table but never counts as a pairing.
+ */
+export const contrastMatrix = (colors: string[]): ContrastMatrix => {
+  const hexes = colors.map((hex) => rgbToHex(hexToRgb(hex)));
+  const cells = hexes.map((_, foreground) => hexes.map((__, background) => contrastCell(hexes, foreground, background)));
+  const offDiagonal = cells.flat().filter((cell) => cell.foreground !== cell.background);
+
+  const pairingsFor = (standard: 'wcag' | 'apca') =>
+    Object.fromEntries(CONTRAST_USES.map((use) => [
+      use,
+      offDiagonal
+        .filter((cell) => cell[standard][use])
+        .map(({ foreground, background }) => ({ foreground, background })),
+    ])) as Record<ContrastUse, ContrastPairing[]>;
+
+  const pairings = { wcag: pairingsFor('wcag'), apca: pairingsFor('apca') };
+  const textColorsFor = (standard: 'wcag' | 'apca') =>
+    [...new Set(pairings[standard].bodyText.map((pair) => pair.foreground))].sort((a, b) => a - b);
+  const textColors = { wcag: textColorsFor('wcag'), apca: textColorsFor('apca') };
+
+  const warnings: string[] = [];
+  if (hexes.length > 1 && textColors.wcag.length === 0) {
+    warnings.push('No color in this palette can be used as body text on another under WCAG 2 AA');
+  }
+  if (hexes.length > 1 && textColors.apca.length === 0) {
+    warnings.push(`No color in this palette reaches APCA Lc ${APCA_MINIMUMS.bodyText} for body text on another`);
+  }
+  if (hexes.length > 1 && pairings.wcag.largeText.length === 0) {
+    warnings.push('No pair reaches 3:1, so even large text and UI components need colors from outside the palette');
+  }
+
+  return { colors: hexes, cells, pairings, textColors, warnings };
+};
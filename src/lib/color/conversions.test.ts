@@ -0,0 +1,127 @@
+import {
+  colorValues,
+  contrastRatio,
+  hexToRgb,
+  hsbToRgb,
+  hslToRgb,
+  labToRgb,
+  oklchToRgb,
+  parseHex,
+  rgbToHex,
+  rgbToHsb,
+  rgbToHsl,
+  rgbToLab,
+  rgbToOklch,
+  rgbToXyz,
+} from './conversions';
+
+const red = { r: 255, g: 0, b: 0 };
+
+const SAMPLES = ['#000000', '#FFFFFF', '#FF0000', '#00FF00', '#0000FF', '#1E6FD9', '#E8D3A2', '#808080', '#7F3FBF'];
+
+describe('hex', () => {
+  it('parses #RGB and #RRGGBB with or without #', () => {
+    expect(parseHex('#f00')).toEqual(red);
+    expect(parseHex('FF0000')).toEqual(red);
+    expect(parseHex(' #1e6fd9 ')).toEqual({ r: 30, g: 111, b: 217 });
+    expect(parseHex('#12')).toBeNull();
+    expect(parseHex('red')).toBeNull();
+  });
+
+  it('formats uppercase hex, rounding and clamping channels', () => {
+    expect(rgbToHex({ r: 30.4, g: 110.6, b: 217 })).toBe('#1E6FD9');
+    expect(rgbToHex({ r: -3, g: 300, b: 0 })).toBe('#00FF00');
+    expect(hexToRgb('not a color')).toEqual({ r: 0, g: 0, b: 0 });
+  });
+});
+
+describe('HSL and HSB', () => {
+  it('converts primaries', () => {
+    expect(rgbToHsl(red)).toEqual({ h: 0, s: 100, l: 50 });
+    expect(rgbToHsb({ r: 0, g: 0, b: 255 })).toEqual({ h: 240, s: 100, b: 100 });
+  });
+
+  it('round-trips through HSL and HSB', () => {
+    for (const hex of SAMPLES) {
+      expect(rgbToHex(hslToRgb(rgbToHsl(hexToRgb(hex))))).toBe(hex);
+      expect(rgbToHex(hsbToRgb(rgbToHsb(hexToRgb(hex))))).toBe(hex);
+    }
+  });
+});
+
+describe('XYZ and CIELAB', () => {
+  it('matches the CSS Color 4 values for sRGB red', () => {
+    const xyz = rgbToXyz(red);
+    expect(xyz.x).toBeCloseTo(0.4124, 4);
+    expect(xyz.y).toBeCloseTo(0.2126, 4);
+    expect(xyz.z).toBeCloseTo(0.0193, 4);
+
+    const lab = rgbToLab(red);
+    expect(lab.l).toBeCloseTo(54.29, 2);
+    expect(lab.a).toBeCloseTo(80.80, 1);
+    expect(lab.b).toBeCloseTo(69.89, 1);
+  });
+
+  it('uses D65 when asked', () => {
+    const lab = rgbToLab(red, 'D65');
+    expect(lab.l).toBeCloseTo(53.24, 2);
+    expect(lab.a).toBeCloseTo(80.09, 1);
+    expect(lab.b).toBeCloseTo(67.20, 1);
+  });
+
+  it('puts white at L 100 and grays on the neutral axis', () => {
+    const white = rgbToLab({ r: 255, g: 255, b: 255 });
+    expect(white.l).toBeCloseTo(100, 4);
+    expect(white.a).toBeCloseTo(0, 4);
+    expect(white.b).toBeCloseTo(0, 4);
+
+    const gray = rgbToLab(hexToRgb('#808080'));
+    expect(gray.a).toBeCloseTo(0, 4);
+    expect(gray.b).toBeCloseTo(0, 4);
+  });
+
+  it('round-trips through Lab', () => {
+    for (const hex of SAMPLES) {
+      expect(rgbToHex(labToRgb(rgbToLab(hexToRgb(hex))))).toBe(hex);
+    }
+  });
+});
+
+describe('OKLCH', () => {
+  it('matches the reference values for sRGB red', () => {
+    const oklch = rgbToOklch(red);
+    expect(oklch.l).toBeCloseTo(0.628, 3);
+    expect(oklch.c).toBeCloseTo(0.2577, 4);
+    expect(oklch.h).toBeCloseTo(29.23, 2);
+  });
+
+  it('reports hue 0 for neutral colors', () => {
+    expect(rgbToOklch(hexToRgb('#808080')).h).toBe(0);
+  });
+
+  it('round-trips through OKLCH', () => {
+    for (const hex of SAMPLES) {
+      expect(rgbToHex(oklchToRgb(rgbToOklch(hexToRgb(hex))))).toBe(hex);
+    }
+  });
+});
+
+describe('stored values', () => {
+  it('rounds every representation', () => {
+    expect(colorValues('#1e6fd9')).toEqual({
+      hex: '#1E6FD9',
+      rgb: { r: 30, g: 111, b: 217 },
+      hsl: { h: 214, s: 75.7, l: 48.4 },
+      lab: { l: 46.83, a: 7.41, b: -62.16 },
+      oklch: { l: 0.555, c: 0.1794, h: 257.44 },
+    });
+  });
+});
+
+describe('WCAG contrast', () => {
+  it('spans 1:1 to 21:1', () => {
+    expect(contrastRatio({ r: 0, g: 0, b: 0 }, { r: 255, g: 255, b: 255 })).toBeCloseTo(21, 6);
+    expect(contrastRatio(red, red)).toBe(1);
+    expect(contrastRatio(hexToRgb('#777777'), hexToRgb('#FFFFFF'))).toBeCloseTo(4.48, 2);
+  });
+});
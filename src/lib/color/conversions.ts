@@ -0,0 +1,397 @@
+/**
+ * Color science core shared by the web app and the API server
+ *
+ * Spaces: sRGB (0..255), linear-light sRGB (0..1), CIE XYZ (Y 0..1) relative to D65 or D50,
+ * CIELAB and LCh (D50 by default, as in CSS Color 4 and ICC), OKLab and OKLCH, HSL and HSB.
+ * Conversions never round or clamp, so chains like hex -> OKLCH -> hex are lossless;
+ * rounding happens once, in rgbToHex and colorValues.
+ *
+ * This module is imported by both the Next.js app and the Express server, so it must stay
+ * free of DOM, Node and path-alias imports.
+ */
+
+export interface Rgb {
+  r: number;
+  g: number;
+  b: number;
+}
+
+// Linear-light sRGB channels, 0..1 inside the gamut
+export type LinearRgb = Rgb;
+
+export interface Xyz {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface Lab {
+  l: number;
+  a: number;
+  b: number;
+}
+
+export interface Lch {
+  l: number;
+  c: number;
+  h: number;
+}
+
+// OKLab lightness is 0..1
+export type Oklab = Lab;
+export type Oklch = Lch;
+
+// Hue 0..360, saturation and lightness 0..100 (CSS hsl())
+export interface Hsl {
+  h: number;
+  s: number;
+  l: number;
+}
+
+// Hue 0..360, saturation and brightness 0..100
+export interface Hsb {
+  h: number;
+  s: number;
+  b: number;
+}
+
+export type WhitePoint = 'D50' | 'D65';
+
+type Matrix = number[][];
+
+// ==================== HELPERS ====================
+
+const multiply = (matrix: Matrix, [a, b, c]: number[]): number[] =>
+  matrix.map((row) => row[0] * a + row[1] * b + row[2] * c);
+
+const multiplyMatrices = (left: Matrix, right: Matrix): Matrix =>
+  left.map((row) => [0, 1, 2].map((column) => row[0] * right[0][column] + row[1] * right[1][column] + row[2] * right[2][column]));
+
+const invert = (m: Matrix): Matrix => {
+  const [[a, b, c], [d, e, f], [g, h, i]] = m;
+  const det = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+  return [
+    [(e * i - f * h) / det, (c * h - b * i) / det, (b * f - c * e) / det],
+    [(f * g - d * i) / det, (a * i - c * g) / det, (c * d - a * f) / det],
+    [(d * h - e * g) / det, (b * g - a * h) / det, (a * e - b * d) / det],
+  ];
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Hue in degrees normalized to 0..360
+export const normalizeHue = (hue: number): number => ((hue % 360) + 360) % 360;
+
+// Polar hue is meaningless for (nearly) neutral colors; report 0 like CSS serializers do
+const ACHROMATIC_CHROMA = 1e-4;
+
+// ==================== sRGB ====================
+
+/**
+ * Parse #RGB or #RRGGBB (the # is optional); null when the value is not a hex color
+ */
+export const parseHex = (value: string): Rgb | null => {
+  const match = /^#?([a-f\d]{3}|[a-f\d]{6})$/i.exec(value.trim());
+  if (!match) return null;
+
+  const digits = match[1].length === 3 ? match[1].replace(/./g, '$&$&') : match[1];
+  const number = parseInt(digits, 16);
+  return { r: (number >> 16) & 255, g: (number >> 8) & 255, b: number & 255 };
+};
+
+// Black for invalid input; callers validate hex strings at the boundary
+export const hexToRgb = (hex: string): Rgb => parseHex(hex) ?? { r: 0, g: 0, b: 0 };
+
+// Uppercase #RRGGBB; channels are rounded and clamped to the gamut
+export const rgbToHex = ({ r, g, b }: Rgb): string => {
+  const toHex = (channel: number) => clamp(Math.round(channel), 0, 255).toString(16).padStart(2, '0');
+  return `#${toHex(r)}${toHex(g)}${toHex(b)}`.toUpperCase();
+};
+
+export const srgbToLinear = (channel: number): number => {
+  const c = channel / 255;
+  const magnitude = Math.abs(c);
+  return magnitude <= 0.04045 ? c / 12.92 : Math.sign(c) * Math.pow((magnitude + 0.055) / 1.055, 2.4);
+};
+
+export const linearToSrgb = (channel: number): number => {
+  const magnitude = Math.abs(channel);
+  const c = magnitude <= 0.0031308 ? channel * 12.92 : Math.sign(channel) * (1.055 * Math.pow(magnitude, 1 / 2.4) - 0.055);
+  return c * 255;
+};
+
+export const rgbToLinear = ({ r, g, b }: Rgb): LinearRgb => ({
+  r: srgbToLinear(r),
+  g: srgbToLinear(g),
+  b: srgbToLinear(b),
+});
+
+export const linearToRgb = ({ r, g, b }: LinearRgb): Rgb => ({
+  r: linearToSrgb(r),
+  g: linearToSrgb(g),
+  b: linearToSrgb(b),
+});
+
+export const isInSrgbGamut = ({ r, g, b }: Rgb, tolerance = 0.5): boolean =>
+  [r, g, b].every((channel) => channel >= -tolerance && channel <= 255 + tolerance);
+
+export const clampRgb = ({ r, g, b }: Rgb): Rgb => ({
+  r: clamp(r, 0, 255),
+  g: clamp(g, 0, 255),
+  b: clamp(b, 0, 255),
+});
+
+// ==================== HSL / HSB ====================
+
+const hueFromRgb = (r: number, g: number, b: number, max: number, delta: number) => {
+  if (delta === 0) return 0;
+  if (max === r) return normalizeHue(((g - b) / delta) * 60);
+  if (max === g) return ((b - r) / delta + 2) * 60;
+  return ((r - g) / delta + 4) * 60;
+};
+
+export const rgbToHsl = ({ r, g, b }: Rgb): Hsl => {
+  const [rn, gn, bn] = [r / 255, g / 255, b / 255];
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const delta = max - min;
+  const l = (max + min) / 2;
+  const s = delta === 0 ? 0 : delta / (1 - Math.abs(2 * l - 1));
+
+  return { h: hueFromRgb(rn, gn, bn, max, delta), s: s * 100, l: l * 100 };
+};
+
+export const hslToRgb = ({ h, s, l }: Hsl): Rgb => {
+  const sn = s / 100;
+  const ln = l / 100;
+  const a = sn * Math.min(ln, 1 - ln);
+  const f = (n: number) => {
+    const k = (n + normalizeHue(h) / 30) % 12;
+    return 255 * (ln - a * Math.max(-1, Math.min(k - 3, 9 - k, 1)));
+  };
+  return { r: f(0), g: f(8), b: f(4) };
+};
+
+export const rgbToHsb = ({ r, g, b }: Rgb): Hsb => {
+  const [rn, gn, bn] = [r / 255, g / 255, b / 255];
+  const max = Math.max(rn, gn, bn);
+  const delta = max - Math.min(rn, gn, bn);
+
+  return { h: hueFromRgb(rn, gn, bn, max, delta), s: max === 0 ? 0 : (delta / max) * 100, b: max * 100 };
+};
+
+export const hsbToRgb = ({ h, s, b }: Hsb): Rgb => {
+  const sn = s / 100;
+  const v = b / 100;
+  const f = (n: number) => {
+    const k = (n + normalizeHue(h) / 60) % 6;
+    return 255 * (v - v * sn * Math.max(0, Math.min(k, 4 - k, 1)));
+  };
+  return { r: f(5), g: f(3), b: f(1) };
+};
+
+// ==================== XYZ ====================
+
+// CSS Color 4 white point chromaticities, as XYZ with Y = 1
+export const WHITE_POINTS: Record<WhitePoint, Xyz> = {
+  D50: { x: 0.3457 / 0.3585, y: 1, z: (1 - 0.3457 - 0.3585) / 0.3585 },
+  D65: { x: 0.3127 / 0.3290, y: 1, z: (1 - 0.3127 - 0.3290) / 0.3290 },
+};
+
+const LINEAR_SRGB_TO_XYZ_D65: Matrix = [
+  [0.41239079926595934, 0.357584339383878, 0.1804807884018343],
+  [0.21263900587151027, 0.715168678767756, 0.07219231536073371],
+  [0.01933081871559182, 0.11919477979462598, 0.9505321522496606],
+];
+
+const XYZ_D65_TO_LINEAR_SRGB = invert(LINEAR_SRGB_TO_XYZ_D65);
+
+export const linearRgbToXyz = ({ r, g, b }: LinearRgb): Xyz => {
+  const [x, y, z] = multiply(LINEAR_SRGB_TO_XYZ_D65, [r, g, b]);
+  return { x, y, z };
+};
+
+export const xyzToLinearRgb = ({ x, y, z }: Xyz): LinearRgb => {
+  const [r, g, b] = multiply(XYZ_D65_TO_LINEAR_SRGB, [x, y, z]);
+  return { r, g, b };
+};
+
+// Bradford cone response matrix
+const BRADFORD: Matrix = [
+  [0.8951, 0.2664, -0.1614],
+  [-0.7502, 1.7135, 0.0367],
+  [0.0389, -0.0685, 1.0296],
+];
+
+const BRADFORD_INVERSE = invert(BRADFORD);
+
+const adaptationMatrix = (from: WhitePoint, to: WhitePoint): Matrix => {
+  const source = multiply(BRADFORD, [WHITE_POINTS[from].x, WHITE_POINTS[from].y, WHITE_POINTS[from].z]);
+  const target = multiply(BRADFORD, [WHITE_POINTS[to].x, WHITE_POINTS[to].y, WHITE_POINTS[to].z]);
+  const scale = [
+    [target[0] / source[0], 0, 0],
+    [0, target[1] / source[1], 0],
+    [0, 0, target[2] / source[2]],
+  ];
+  return multiplyMatrices(BRADFORD_INVERSE, multiplyMatrices(scale, BRADFORD));
+};
+
+const ADAPTATIONS: Record<string, Matrix> = {
+  'D65>D50': adaptationMatrix('D65', 'D50'),
+  'D50>D65': adaptationMatrix('D50', 'D65'),
+};
+
+/**
+ * Bradford chromatic adaptation between reference whites
+ */
+export const adaptXyz = (xyz: Xyz, from: WhitePoint, to: WhitePoint): Xyz => {
+  if (from === to) return xyz;
+  const [x, y, z] = multiply(ADAPTATIONS[`${from}>${to}`], [xyz.x, xyz.y, xyz.z]);
+  return { x, y, z };
+};
+
+// sRGB to XYZ relative to the given white (D65 is sRGB's own white)
+export const rgbToXyz = (rgb: Rgb, white: WhitePoint = 'D65'): Xyz =>
+  adaptXyz(linearRgbToXyz(rgbToLinear(rgb)), 'D65', white);
+
+export const xyzToRgb = (xyz: Xyz, white: WhitePoint = 'D65'): Rgb =>
+  linearToRgb(xyzToLinearRgb(adaptXyz(xyz, white, 'D65')));
+
+// ==================== CIELAB / LCh ====================
+
+const EPSILON = 216 / 24389;
+const KAPPA = 24389 / 27;
+
+export const xyzToLab = (xyz: Xyz, white: WhitePoint = 'D50'): Lab => {
+  const reference = WHITE_POINTS[white];
+  const [fx, fy, fz] = [xyz.x / reference.x, xyz.y / reference.y, xyz.z / reference.z]
+    .map((t) => (t > EPSILON ? Math.cbrt(t) : (KAPPA * t + 16) / 116));
+
+  return { l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+};
+
+export const labToXyz = ({ l, a, b }: Lab, white: WhitePoint = 'D50'): Xyz => {
+  const reference = WHITE_POINTS[white];
+  const fy = (l + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+
+  return {
+    x: (fx ** 3 > EPSILON ? fx ** 3 : (116 * fx - 16) / KAPPA) * reference.x,
+    y: (l > KAPPA * EPSILON ? fy ** 3 : l / KAPPA) * reference.y,
+    z: (fz ** 3 > EPSILON ? fz ** 3 : (116 * fz - 16) / KAPPA) * reference.z,
+  };
+};
+
+// Cartesian a/b to polar chroma/hue; shared by LCh and OKLCH
+const toPolar = ({ l, a, b }: Lab): Lch => {
+  const c = Math.sqrt(a * a + b * b);
+  return { l, c, h: c < ACHROMATIC_CHROMA ? 0 : normalizeHue((Math.atan2(b, a) * 180) / Math.PI) };
+};
+
+const fromPolar = ({ l, c, h }: Lch): Lab => {
+  const radians = (h * Math.PI) / 180;
+  return { l, a: c * Math.cos(radians), b: c * Math.sin(radians) };
+};
+
+export const labToLch = (lab: Lab): Lch => toPolar(lab);
+export const lchToLab = (lch: Lch): Lab => fromPolar(lch);
+
+export const rgbToLab = (rgb: Rgb, white: WhitePoint = 'D50'): Lab => xyzToLab(rgbToXyz(rgb, white), white);
+export const labToRgb = (lab: Lab, white: WhitePoint = 'D50'): Rgb => xyzToRgb(labToXyz(lab, white), white);
+
+export const rgbToLch = (rgb: Rgb, white: WhitePoint = 'D50'): Lch => labToLch(rgbToLab(rgb, white));
+export const lchToRgb = (lch: Lch, white: WhitePoint = 'D50'): Rgb => labToRgb(lchToLab(lch), white);
+
+// ==================== OKLab / OKLCH ====================
+
+// Björn Ottosson's OKLab, directly from linear sRGB
+const LINEAR_SRGB_TO_LMS: Matrix = [
+  [0.4122214708, 0.5363325363, 0.0514459929],
+  [0.2119034982, 0.6806995451, 0.1073969566],
+  [0.0883024619, 0.2817188376, 0.6299787005],
+];
+
+const LMS_TO_OKLAB: Matrix = [
+  [0.2104542553, 0.7936177850, -0.0040720468],
+  [1.9779984951, -2.4285922050, 0.4505937099],
+  [0.0259040371, 0.7827717662, -0.8086757660],
+];
+
+// Inverted numerically so hex -> OKLab -> hex round-trips exactly
+const LMS_TO_LINEAR_SRGB = invert(LINEAR_SRGB_TO_LMS);
+const OKLAB_TO_LMS = invert(LMS_TO_OKLAB);
+
+export const linearRgbToOklab = ({ r, g, b }: LinearRgb): Oklab => {
+  const lms = multiply(LINEAR_SRGB_TO_LMS, [r, g, b]).map(Math.cbrt);
+  const [l, a, bb] = multiply(LMS_TO_OKLAB, lms);
+  return { l, a, b: bb };
+};
+
+export const oklabToLinearRgb = ({ l, a, b }: Oklab): LinearRgb => {
+  const lms = multiply(OKLAB_TO_LMS, [l, a, b]).map((value) => value ** 3);
+  const [r, g, bb] = multiply(LMS_TO_LINEAR_SRGB, lms);
+  return { r, g, b: bb };
+};
+
+export const xyzToOklab = (xyz: Xyz): Oklab => linearRgbToOklab(xyzToLinearRgb(xyz));
+export const oklabToXyz = (oklab: Oklab): Xyz => linearRgbToXyz(oklabToLinearRgb(oklab));
+
+export const oklabToOklch = (oklab: Oklab): Oklch => toPolar(oklab);
+export const oklchToOklab = (oklch: Oklch): Oklab => fromPolar(oklch);
+
+export const rgbToOklab = (rgb: Rgb): Oklab => linearRgbToOklab(rgbToLinear(rgb));
+export const oklabToRgb = (oklab: Oklab): Rgb => linearToRgb(oklabToLinearRgb(oklab));
+
+export const rgbToOklch = (rgb: Rgb): Oklch => oklabToOklch(rgbToOklab(rgb));
+
+// Channels are not clamped, so out-of-gamut results can be detected with isInSrgbGamut
+export const oklchToRgb = (oklch: Oklch): Rgb => oklabToRgb(oklchToOklab(oklch));
+
+// ==================== LUMINANCE ====================
+
+// WCAG 2.x relative luminance, 0 (black) .. 1 (white)
+export const relativeLuminance = (rgb: Rgb): number => {
+  const { r, g, b } = rgbToLinear(rgb);
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+// WCAG 2.x contrast ratio, 1..21
+export const contrastRatio = (a: Rgb, b: Rgb): number => {
+  const [lighter, darker] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (lighter + 0.05) / (darker + 0.05);
+};
+
+// ==================== STORED VALUES ====================
+
+export interface ColorValues {
+  hex: string;
+  rgb: Rgb;
+  hsl: Hsl;
+  lab: Lab;
+  oklch: Oklch;
+}
+
+const round = (value: number, digits: number) => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor || 0;
+};
+
+/**
+ * Every representation stored with a color, rounded the same way wherever colors are saved:
+ * rgb to integers, hsl to 0.1, Lab (D50) to 0.01, OKLCH lightness and chroma to 0.0001 and hue to 0.01.
+ */
+export const colorValues = (hex: string): ColorValues => {
+  const rgb = hexToRgb(hex);
+  const hsl = rgbToHsl(rgb);
+  const lab = rgbToLab(rgb);
+  const oklch = rgbToOklch(rgb);
+
+  return {
+    hex: rgbToHex(rgb),
+    rgb,
+    hsl: { h: round(hsl.h, 1), s: round(hsl.s, 1), l: round(hsl.l, 1) },
+    lab: { l: round(lab.l, 2), a: round(lab.a, 2), b: round(lab.b, 2) },
+    oklch: { l: round(oklch.l, 4), c: round(oklch.c, 4), h: round(oklch.h, 2) },
+  };
+};
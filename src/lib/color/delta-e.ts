@@ -0,0 +1,164 @@
+/**
+ * Perceptual color difference (ΔE) metrics
+ */
+
+import { Lab, Oklab, Rgb, hexToRgb, rgbToLab, rgbToOklab } from './conversions';
+
+export type DeltaEMetric = 'ciede2000' | 'cie94' | 'cie76' | 'oklab';
+
+export const DELTA_E_METRICS: DeltaEMetric[] = ['ciede2000', 'cie94', 'cie76', 'oklab'];
+
+/**
+ * Smallest difference most viewers notice side by side, per metric.
+ * OKLab distances are on a 0-1 lightness scale, the CIE metrics on 0-100.
+ */
+export const JUST_NOTICEABLE_DIFFERENCE: Record<DeltaEMetric, number> = {
+  ciede2000: 1,
+  cie94: 1,
+  cie76: 2.3,
+  oklab: 0.02,
+};
+
+// Distance treated as "nothing in common" when turning ΔE into a 0-1 similarity
+const DELTA_E_RANGE: Record<DeltaEMetric, number> = {
+  ciede2000: 100,
+  cie94: 100,
+  cie76: 100,
+  oklab: 1,
+};
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// ==================== CIE76 ====================
+
+export const deltaE76 = (lab1: Lab, lab2: Lab): number =>
+  Math.sqrt((lab1.l - lab2.l) ** 2 + (lab1.a - lab2.a) ** 2 + (lab1.b - lab2.b) ** 2);
+
+// ==================== CIE94 ====================
+
+export interface Cie94Weights {
+  kL: number;
+  k1: number;
+  k2: number;
+}
+
+export const CIE94_GRAPHIC_ARTS: Cie94Weights = { kL: 1, k1: 0.045, k2: 0.015 };
+export const CIE94_TEXTILES: Cie94Weights = { kL: 2, k1: 0.048, k2: 0.014 };
+
+/**
+ * CIE94, with lab1 as the reference color (the metric is not symmetric)
+ */
+export const deltaE94 = (lab1: Lab, lab2: Lab, weights: Cie94Weights = CIE94_GRAPHIC_ARTS): number => {
+  const c1 = Math.sqrt(lab1.a ** 2 + lab1.b ** 2);
+  const c2 = Math.sqrt(lab2.a ** 2 + lab2.b ** 2);
+  const dL = lab1.l - lab2.l;
+  const dC = c1 - c2;
+  const dA = lab1.a - lab2.a;
+  const dB = lab1.b - lab2.b;
+  // ΔH² can dip below zero from rounding when the hues match
+  const dH2 = Math.max(0, dA ** 2 + dB ** 2 - dC ** 2);
+
+  const sC = 1 + weights.k1 * c1;
+  const sH = 1 + weights.k2 * c1;
+
+  return Math.sqrt((dL / weights.kL) ** 2 + (dC / sC) ** 2 + dH2 / sH ** 2);
+};
+
+// ==================== CIEDE2000 ====================
+
+/**
+ * CIEDE2000 after Sharma, Wu and Dalal (2005), with parametric factors kL = kC = kH = 1
+ */
+export const deltaE2000 = (lab1: Lab, lab2: Lab): number => {
+  const c1 = Math.sqrt(lab1.a ** 2 + lab1.b ** 2);
+  const c2 = Math.sqrt(lab2.a ** 2 + lab2.b ** 2);
+  const cMean7 = ((c1 + c2) / 2) ** 7;
+  const g = 0.5 * (1 - Math.sqrt(cMean7 / (cMean7 + 25 ** 7)));
+
+  const a1 = (1 + g) * lab1.a;
+  const a2 = (1 + g) * lab2.a;
+  const cp1 = Math.sqrt(a1 ** 2 + lab1.b ** 2);
+  const cp2 = Math.sqrt(a2 ** 2 + lab2.b ** 2);
+  const hp1 = cp1 === 0 ? 0 : (toDegrees(Math.atan2(lab1.b, a1)) + 360) % 360;
+  const hp2 = cp2 === 0 ? 0 : (toDegrees(Math.atan2(lab2.b, a2)) + 360) % 360;
+
+  const dL = lab2.l - lab1.l;
+  const dC = cp2 - cp1;
+
+  let dh = 0;
+  if (cp1 * cp2 !== 0) {
+    dh = hp2 - hp1;
+    if (dh > 180) dh -= 360;
+    else if (dh < -180) dh += 360;
+  }
+  const dH = 2 * Math.sqrt(cp1 * cp2) * Math.sin(toRadians(dh / 2));
+
+  const lMean = (lab1.l + lab2.l) / 2;
+  const cMean = (cp1 + cp2) / 2;
+
+  let hMean = hp1 + hp2;
+  if (cp1 * cp2 !== 0) {
+    if (Math.abs(hp1 - hp2) <= 180) hMean /= 2;
+    else if (hp1 + hp2 < 360) hMean = (hMean + 360) / 2;
+    else hMean = (hMean - 360) / 2;
+  }
+
+  const t = 1
+    - 0.17 * Math.cos(toRadians(hMean - 30))
+    + 0.24 * Math.cos(toRadians(2 * hMean))
+    + 0.32 * Math.cos(toRadians(3 * hMean + 6))
+    - 0.20 * Math.cos(toRadians(4 * hMean - 63));
+
+  const lOffset = (lMean - 50) ** 2;
+  const sL = 1 + (0.015 * lOffset) / Math.sqrt(20 + lOffset);
+  const sC = 1 + 0.045 * cMean;
+  const sH = 1 + 0.015 * cMean * t;
+
+  const cMeanP7 = cMean ** 7;
+  const rC = 2 * Math.sqrt(cMeanP7 / (cMeanP7 + 25 ** 7));
+  const dTheta = 30 * Math.exp(-(((hMean - 275) / 25) ** 2));
+  const rT = -Math.sin(toRadians(2 * dTheta)) * rC;
+
+  return Math.sqrt(
+    (dL / sL) ** 2 + (dC / sC) ** 2 + (dH / sH) ** 2 + rT * (dC / sC) * (dH / sH)
+  );
+};
+
+// ==================== OKLab ====================
+
+// Euclidean distance in OKLab, as used by CSS Color 4 gamut mapping
+export const deltaEOk = (oklab1: Oklab, oklab2: Oklab): number =>
+  Math.sqrt((oklab1.l - oklab2.l) ** 2 + (oklab1.a - oklab2.a) ** 2 + (oklab1.b - oklab2.b) ** 2);
+
+// ==================== DISPATCH ====================
+
+const toRgb = (color: string | Rgb): Rgb => (typeof color === 'string' ? hexToRgb(color) : color);
+
+/**
+ * ΔE between two sRGB colors (hex strings or RGB objects). Lab metrics use D50 CIELAB.
+ */
+export const deltaE = (color1: string | Rgb, color2: string | Rgb, metric: DeltaEMetric = 'ciede2000'): number => {
+  const rgb1 = toRgb(color1);
+  const rgb2 = toRgb(color2);
+
+  switch (metric) {
+    case 'cie76':
+      return deltaE76(rgbToLab(rgb1), rgbToLab(rgb2));
+    case 'cie94':
+      return deltaE94(rgbToLab(rgb1), rgbToLab(rgb2));
+    case 'oklab':
+      return deltaEOk(rgbToOklab(rgb1), rgbToOklab(rgb2));
+    default:
+      return deltaE2000(rgbToLab(rgb1), rgbToLab(rgb2));
+  }
+};
+
+/**
+ * Map a ΔE to 0-1, where 1 is identical
+ */
+export const deltaESimilarity = (distance: number, metric: DeltaEMetric): number =>
+  Math.max(0, 1 - distance / DELTA_E_RANGE[metric]);
+
+export const isVisuallyIdentical = (distance: number, metric: DeltaEMetric): boolean =>
+  distance < JUST_NOTICEABLE_DIFFERENCE[metric];
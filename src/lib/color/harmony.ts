@@ -0,0 +1,188 @@
+/**
+ * Harmony detection: palette hues in OKLCH are fitted against hue templates (sectors on the
+ * hue wheel at fixed offsets, rotated to the palette), scoring how well each template explains
+ * the palette and which colors fall outside it
+ */
+
+import { hexToRgb, normalizeHue, rgbToOklch } from './conversions';
+
+export type HarmonyTemplate =
+  | 'monochromatic'
+  | 'analogous'
+  | 'complementary'
+  | 'split-complementary'
+  | 'triadic'
+  | 'tetradic'
+  | 'square';
+
+// Most specific first; on equal scores the earlier template wins
+export const HARMONY_TEMPLATES: HarmonyTemplate[] = [
+  'monochromatic',
+  'analogous',
+  'complementary',
+  'split-complementary',
+  'triadic',
+  'tetradic',
+  'square',
+];
+
+interface TemplateShape {
+  // Sector centers relative to the template rotation, in degrees
+  offsets: number[];
+  // Half the sector width; hues within it fit the sector exactly
+  tolerance: number;
+}
+
+const TEMPLATE_SHAPES: Record<HarmonyTemplate, TemplateShape> = {
+  monochromatic: { offsets: [0], tolerance: 10 },
+  analogous: { offsets: [0], tolerance: 30 },
+  complementary: { offsets: [0, 180], tolerance: 15 },
+  'split-complementary': { offsets: [0, 150, 210], tolerance: 15 },
+  triadic: { offsets: [0, 120, 240], tolerance: 15 },
+  tetradic: { offsets: [0, 60, 180, 240], tolerance: 15 },
+  square: { offsets: [0, 90, 180, 270], tolerance: 15 },
+};
+
+// Minimum score for a template to name the palette's harmony; below it the palette is custom
+export const HARMONY_MATCH_SCORE = 70;
+
+// Colors below this OKLCH chroma have no meaningful hue and are left out of the fit
+const NEUTRAL_CHROMA = 0.03;
+
+// Chroma at which a color counts fully; muted colors weigh less in the score
+const FULL_WEIGHT_CHROMA = 0.08;
+
+// Degrees outside a sector at which a color stops contributing to the fit
+const FIT_FALLOFF = 30;
+
+export interface HarmonyOffender {
+  // Palette index
+  index: number;
+  color: string;
+  // Degrees outside the nearest sector of the template
+  deviation: number;
+}
+
+export interface HarmonyFit {
+  template: HarmonyTemplate;
+  // 0-100: chroma-weighted hue fit, scaled by the share of sectors the palette fills
+  score: number;
+  // OKLCH hue of the template's first sector at the best rotation
+  rotation: number;
+  offenders: HarmonyOffender[];
+}
+
+export interface HarmonyAnalysis {
+  type: HarmonyTemplate | 'custom';
+  // Score of the best-fitting template, also when the palette is custom
+  score: number;
+  // Colors outside the best-fitting template
+  offenders: HarmonyOffender[];
+  // Every template, best first
+  fits: HarmonyFit[];
+  // Palette indexes of near-neutral colors, which fit any template
+  neutrals: number[];
+}
+
+interface ChromaticColor {
+  index: number;
+  color: string;
+  hue: number;
+  weight: number;
+}
+
+const hueDistance = (a: number, b: number): number => {
+  const diff = Math.abs(normalizeHue(a) - normalizeHue(b));
+  return Math.min(diff, 360 - diff);
+};
+
+const fitAtRotation = (shape: TemplateShape, colors: ChromaticColor[], rotation: number) => {
+  const covered = new Set<number>();
+  let fit = 0;
+  let totalWeight = 0;
+  // Tie-break between equally scoring rotations: prefer hues near the sector centers
+  let spread = 0;
+  const deviations: number[] = [];
+
+  colors.forEach(({ hue, weight }) => {
+    let nearest = 0;
+    let distance = Infinity;
+    shape.offsets.forEach((offset, sector) => {
+      const d = hueDistance(hue, rotation + offset);
+      if (d < distance) {
+        distance = d;
+        nearest = sector;
+      }
+    });
+
+    const deviation = Math.max(0, distance - shape.tolerance);
+    if (deviation === 0) covered.add(nearest);
+
+    fit += weight * Math.max(0, 1 - deviation / FIT_FALLOFF);
+    totalWeight += weight;
+    spread += weight * distance;
+    deviations.push(deviation);
+  });
+
+  const score = (fit / totalWeight) * (covered.size / shape.offsets.length) * 100;
+  return { score, spread, deviations };
+};
+
+const fitTemplate = (template: HarmonyTemplate, colors: ChromaticColor[]): HarmonyFit => {
+  const shape = TEMPLATE_SHAPES[template];
+
+  // Without hues there is nothing to spread over several sectors
+  if (colors.length === 0) {
+    return { template, score: shape.offsets.length === 1 ? 100 : 0, rotation: 0, offenders: [] };
+  }
+
+  let best = fitAtRotation(shape, colors, 0);
+  let bestRotation = 0;
+  for (let rotation = 1; rotation < 360; rotation++) {
+    const candidate = fitAtRotation(shape, colors, rotation);
+    if (
+      candidate.score > best.score + 1e-9 ||
+      (Math.abs(candidate.score - best.score) <= 1e-9 && candidate.spread < best.spread)
+    ) {
+      best = candidate;
+      bestRotation = rotation;
+    }
+  }
+
+  const offenders = colors
+    .map(({ index, color }, i) => ({ index, color, deviation: Math.round(best.deviations[i] * 10) / 10 }))
+    .filter((offender) => offender.deviation > 0);
+
+  return { template, score: Math.round(best.score), rotation: bestRotation, offenders };
+};
+
+/**
+ * Fit a palette (#RRGGBB colors) against every harmony template
+ */
+export const detectHarmony = (colors: string[]): HarmonyAnalysis => {
+  const neutrals: number[] = [];
+  const chromatic: ChromaticColor[] = [];
+
+  colors.forEach((color, index) => {
+    const { c, h } = rgbToOklch(hexToRgb(color));
+    if (c < NEUTRAL_CHROMA) {
+      neutrals.push(index);
+    } else {
+      chromatic.push({ index, color, hue: h, weight: Math.min(1, c / FULL_WEIGHT_CHROMA) });
+    }
+  });
+
+  // Stable sort keeps HARMONY_TEMPLATES order between equal scores
+  const fits = HARMONY_TEMPLATES
+    .map((template) => fitTemplate(template, chromatic))
+    .sort((a, b) => b.score - a.score);
+  const [best] = fits;
+
+  return {
+    type: best.score >= HARMONY_MATCH_SCORE ? best.template : 'custom',
+    score: best.score,
+    offenders: best.offenders,
+    fits,
+    neutrals,
+  };
+};
@@ -0,0 +1,13 @@
+/**
+ * Shared color science for the web app and the API server
+ */
+
+export * from './conversions';
+export * from './delta-e';
+export * from './apca';
+export * from './contrast-fix';
+export * from './contrast-matrix';
+export * from './color-vision';
+export * from './tonal-ramp';
+export * from './wide-gamut';
+export * from './harmony';
@@ -0,0 +1,134 @@
+/**
+ * Tonal ramps: a base color expanded into shades that are evenly spaced in OKLCH lightness,
+ * either Tailwind-style 50-950 steps or Material-style 0-100 tones. Chroma tapers towards
+ * white and black and is mapped into sRGB per step, keeping the base hue throughout.
+ */
+
+import { Oklch, hexToRgb, isInSrgbGamut, linearToSrgb, oklchToRgb, rgbToHex, rgbToOklch } from './conversions';
+
+export type TonalRampPreset = 'tailwind' | 'material';
+
+export const TONAL_RAMP_PRESETS: TonalRampPreset[] = ['tailwind', 'material'];
+
+export const TONAL_RAMP_STEPS: Record<TonalRampPreset, number[]> = {
+  tailwind: [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950],
+  material: [0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 95, 99, 100],
+};
+
+// OKLCH lightness at the first and last step; steps in between are linear in the step value
+const PRESET_LIGHTNESS: Record<TonalRampPreset, [number, number]> = {
+  tailwind: [0.971, 0.258],
+  material: [0, 1],
+};
+
+export interface TonalRampShade {
+  step: number;
+  hex: string;
+  // OKLCH coordinates after gamut mapping
+  oklch: Oklch;
+  // True for the step that holds the input color unchanged
+  base: boolean;
+}
+
+export interface TonalRampOptions {
+  preset?: TonalRampPreset;
+  // Step that holds the base color; the step closest to its lightness when omitted
+  pinStep?: number;
+}
+
+// Colors below this chroma are treated as neutrals
+const NEUTRAL_CHROMA = 0.02;
+
+// Chroma of pure grays after a round trip through OKLab
+const GRAY_CHROMA = 0.001;
+
+// Floor on the chroma share used to extrapolate the peak chroma from the input color
+const MIN_CHROMA_SHARE = 0.5;
+
+// Lightness kept between a pinned base and the ends of the ramp, so shades never reverse
+const MIN_END_GAP = 0.05;
+
+/**
+ * Share of the peak chroma kept at a lightness: full through the mid tones, fading
+ * linearly to 0 at white and more gently towards black, like hand-tuned design system ramps
+ */
+const chromaShare = (lightness: number) =>
+  Math.max(0, Math.min(1, (1 - lightness) / 0.3, lightness / 0.55));
+
+// Largest chroma at this lightness and hue that stays inside sRGB
+const mapToGamut = (lightness: number, chroma: number, hue: number): number => {
+  if (isInSrgbGamut(oklchToRgb({ l: lightness, c: chroma, h: hue }))) return chroma;
+
+  let low = 0;
+  let high = chroma;
+  while (high - low > 0.0005) {
+    const mid = (low + high) / 2;
+    if (isInSrgbGamut(oklchToRgb({ l: lightness, c: mid, h: hue }))) low = mid;
+    else high = mid;
+  }
+  return low;
+};
+
+// OKLab grays have equal linear channels of l³; going through the matrices would tint them
+const toHex = (l: number, c: number, h: number) => {
+  if (c >= GRAY_CHROMA) return rgbToHex(oklchToRgb({ l, c, h }));
+  const gray = linearToSrgb(l ** 3);
+  return rgbToHex({ r: gray, g: gray, b: gray });
+};
+
+const presetLightness = (preset: TonalRampPreset, step: number) => {
+  const steps = TONAL_RAMP_STEPS[preset];
+  const [from, to] = PRESET_LIGHTNESS[preset];
+  return from + ((step - steps[0]) / (steps[steps.length - 1] - steps[0])) * (to - from);
+};
+
+const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+
+export const isTonalRampStep = (preset: TonalRampPreset, step: number): boolean =>
+  TONAL_RAMP_STEPS[preset].includes(step);
+
+/**
+ * Generate a ramp for a color. The base color sits unchanged at the pinned step; the steps on
+ * either side are spread evenly in lightness between it and the ends of the preset.
+ */
+export const generateTonalRamp = (
+  hex: string,
+  { preset = 'tailwind', pinStep }: TonalRampOptions = {}
+): TonalRampShade[] => {
+  const steps = TONAL_RAMP_STEPS[preset];
+  const base = rgbToOklch(hexToRgb(hex));
+
+  const pinned = pinStep !== undefined && steps.includes(pinStep)
+    ? pinStep
+    : steps.reduce((closest, step) =>
+      Math.abs(presetLightness(preset, step) - base.l) < Math.abs(presetLightness(preset, closest) - base.l) ? step : closest
+    );
+
+  // Ends move out of the way when the base is pinned beyond them (a dark color at step 50)
+  let [first, last] = PRESET_LIGHTNESS[preset];
+  const ascending = last > first;
+  if (pinned !== steps[0]) {
+    first = ascending ? Math.max(0, Math.min(first, base.l - MIN_END_GAP)) : Math.min(1, Math.max(first, base.l + MIN_END_GAP));
+  }
+  if (pinned !== steps[steps.length - 1]) {
+    last = ascending ? Math.min(1, Math.max(last, base.l + MIN_END_GAP)) : Math.max(0, Math.min(last, base.l - MIN_END_GAP));
+  }
+
+  const lightnessAt = (step: number) => (step < pinned
+    ? lerp(first, base.l, (step - steps[0]) / (pinned - steps[0]))
+    : lerp(base.l, last, (step - pinned) / (steps[steps.length - 1] - pinned)));
+
+  // Near-grays keep their tiny chroma instead of being pushed toward a hue.
+  // Pastels near white are not extrapolated into neon mid tones.
+  const peak = base.c < NEUTRAL_CHROMA ? base.c : base.c / Math.max(chromaShare(base.l), MIN_CHROMA_SHARE);
+
+  return steps.map((step) => {
+    if (step === pinned) {
+      return { step, hex: rgbToHex(hexToRgb(hex)), oklch: base, base: true };
+    }
+
+    const l = lightnessAt(step);
+    const c = mapToGamut(l, base.c < NEUTRAL_CHROMA ? base.c : peak * chromaShare(l), base.h);
+    return { step, hex: toHex(l, c, base.h), oklch: { l, c, h: base.h }, base: false };
+  });
+};
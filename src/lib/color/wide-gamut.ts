@@ -0,0 +1,295 @@
+/**
+ * Wide-gamut RGB: Display P3 and Rec. 2020 as in CSS Color 4 color(), and the CSS Color 4
+ * gamut-mapping algorithm that finds the closest color a narrower gamut (sRGB) can show.
+ *
+ * Channels are 0..1 as written in color(); values outside 0..1 are out of that gamut.
+ */
+
+import {
+  ColorValues,
+  Lab,
+  LinearRgb,
+  Oklch,
+  Xyz,
+  adaptXyz,
+  colorValues,
+  hexToRgb,
+  linearRgbToOklab,
+  linearRgbToXyz,
+  linearToSrgb,
+  oklabToOklch,
+  oklabToXyz,
+  oklchToOklab,
+  parseHex,
+  rgbToHex,
+  srgbToLinear,
+  xyzToLab,
+  xyzToLinearRgb,
+} from './conversions';
+
+export type ColorGamut = 'srgb' | 'display-p3' | 'rec2020';
+
+// Narrowest first
+export const COLOR_GAMUTS: ColorGamut[] = ['srgb', 'display-p3', 'rec2020'];
+
+export interface GamutColor {
+  space: ColorGamut;
+  r: number;
+  g: number;
+  b: number;
+}
+
+type Matrix = number[][];
+
+const multiply = (matrix: Matrix, [a, b, c]: number[]): number[] =>
+  matrix.map((row) => row[0] * a + row[1] * b + row[2] * c);
+
+// ==================== SPACES ====================
+
+// Rec. 2020 transfer constants
+const ALPHA = 1.09929682680944;
+const BETA = 0.018053968510807;
+
+interface RgbSpace {
+  toLinear: (channel: number) => number;
+  fromLinear: (channel: number) => number;
+  // Linear channels to XYZ D65 and back; sRGB goes through the shared conversions instead
+  toXyz?: Matrix;
+  fromXyz?: Matrix;
+}
+
+// sRGB and Display P3 share the sRGB transfer curve
+const srgbTransfer = {
+  toLinear: (channel: number) => srgbToLinear(channel * 255),
+  fromLinear: (channel: number) => linearToSrgb(channel) / 255,
+};
+
+const SPACES: Record<ColorGamut, RgbSpace> = {
+  srgb: srgbTransfer,
+  'display-p3': {
+    ...srgbTransfer,
+    toXyz: [
+      [0.4865709486482162, 0.26566769316909306, 0.1982172852343625],
+      [0.2289745640697488, 0.6917385218365064, 0.079286914093745],
+      [0, 0.04511338185890264, 1.043944368900976],
+    ],
+    fromXyz: [
+      [2.493496911941425, -0.9313836179191239, -0.40271078445071684],
+      [-0.8294889695615747, 1.7626640603183463, 0.023624685841943577],
+      [0.03584583024378447, -0.07617238926804182, 0.9568845240076872],
+    ],
+  },
+  rec2020: {
+    toLinear: (channel) => {
+      const magnitude = Math.abs(channel);
+      return magnitude < BETA * 4.5 ? channel / 4.5 : Math.sign(channel) * ((magnitude + ALPHA - 1) / ALPHA) ** (1 / 0.45);
+    },
+    fromLinear: (channel) => {
+      const magnitude = Math.abs(channel);
+      return magnitude > BETA ? Math.sign(channel) * (ALPHA * magnitude ** 0.45 - (ALPHA - 1)) : channel * 4.5;
+    },
+    toXyz: [
+      [0.6369580483012914, 0.14461690358620832, 0.1688809751641721],
+      [0.2627002120112671, 0.6779980715188708, 0.05930171646986196],
+      [0, 0.028072693049087428, 1.060985057710791],
+    ],
+    fromXyz: [
+      [1.7166511879712674, -0.35567078377639233, -0.25336628137365974],
+      [-0.6666843518324892, 1.6164812366349395, 0.01576854581391113],
+      [0.017639857445310783, -0.042770613257808524, 0.9421031212354738],
+    ],
+  },
+};
+
+const toXyz = ({ space, r, g, b }: GamutColor): Xyz => {
+  const { toLinear, toXyz: matrix } = SPACES[space];
+  const linear = { r: toLinear(r), g: toLinear(g), b: toLinear(b) };
+  if (!matrix) return linearRgbToXyz(linear);
+
+  const [x, y, z] = multiply(matrix, [linear.r, linear.g, linear.b]);
+  return { x, y, z };
+};
+
+const fromXyz = (xyz: Xyz, space: ColorGamut): GamutColor => {
+  const { fromLinear, fromXyz: matrix } = SPACES[space];
+  let linear: LinearRgb;
+  if (matrix) {
+    const [r, g, b] = multiply(matrix, [xyz.x, xyz.y, xyz.z]);
+    linear = { r, g, b };
+  } else {
+    linear = xyzToLinearRgb(xyz);
+  }
+  return { space, r: fromLinear(linear.r), g: fromLinear(linear.g), b: fromLinear(linear.b) };
+};
+
+// ==================== CONVERSIONS ====================
+
+export const gamutColorToOklch = (color: GamutColor): Oklch =>
+  oklabToOklch(linearRgbToOklab(xyzToLinearRgb(toXyz(color))));
+
+// CIELAB (D50) of the color itself, not of its sRGB fallback
+export const gamutColorToLab = (color: GamutColor): Lab => xyzToLab(adaptXyz(toXyz(color), 'D65', 'D50'));
+
+// Channels are not clamped; check the result with isInGamut
+export const oklchToGamutColor = (oklch: Oklch, space: ColorGamut): GamutColor =>
+  fromXyz(oklabToXyz(oklchToOklab(oklch)), space);
+
+// Same color in another space, without gamut mapping
+export const convertGamutColor = (color: GamutColor, space: ColorGamut): GamutColor =>
+  color.space === space ? color : fromXyz(toXyz(color), space);
+
+export const hexToGamutColor = (hex: string): GamutColor => {
+  const { r, g, b } = hexToRgb(hex);
+  return { space: 'srgb', r: r / 255, g: g / 255, b: b / 255 };
+};
+
+// Uppercase #RRGGBB of an sRGB color; use toSrgbHex for colors from other spaces
+const srgbHex = ({ r, g, b }: GamutColor) => rgbToHex({ r: r * 255, g: g * 255, b: b * 255 });
+
+// Rounding noise of the conversions, well below one 8-bit step
+const GAMUT_EPSILON = 0.00005;
+
+export const isInGamut = (color: GamutColor, space: ColorGamut = color.space): boolean => {
+  const { r, g, b } = convertGamutColor(color, space);
+  return [r, g, b].every((channel) => channel >= -GAMUT_EPSILON && channel <= 1 + GAMUT_EPSILON);
+};
+
+// Narrowest of sRGB, Display P3 and Rec. 2020 that holds the color; null beyond Rec. 2020
+export const smallestGamut = (color: GamutColor): ColorGamut | null =>
+  COLOR_GAMUTS.find((space) => isInGamut(color, space)) ?? null;
+
+// ==================== GAMUT MAPPING ====================
+
+const clip = (color: GamutColor): GamutColor => ({
+  space: color.space,
+  r: Math.min(1, Math.max(0, color.r)),
+  g: Math.min(1, Math.max(0, color.g)),
+  b: Math.min(1, Math.max(0, color.b)),
+});
+
+const deltaEOK = (a: Oklch, b: Oklch) => {
+  const [x, y] = [oklchToOklab(a), oklchToOklab(b)];
+  return Math.hypot(x.l - y.l, x.a - y.a, x.b - y.b);
+};
+
+// Just noticeable difference in OKLab, and the chroma precision of the search
+const JND = 0.02;
+const CHROMA_EPSILON = 0.0001;
+
+/**
+ * CSS Color 4 gamut mapping: reduce OKLCH chroma at constant lightness and hue until clipping
+ * the color into the destination changes it by less than a just noticeable difference.
+ */
+export const mapToGamut = (color: GamutColor, space: ColorGamut): GamutColor => {
+  const origin = gamutColorToOklch(color);
+  if (origin.l >= 1) return { space, r: 1, g: 1, b: 1 };
+  if (origin.l <= 0) return { space, r: 0, g: 0, b: 0 };
+
+  const converted = convertGamutColor(color, space);
+  if (isInGamut(converted)) return converted;
+
+  let clipped = clip(converted);
+  if (deltaEOK(gamutColorToOklch(clipped), origin) < JND) return clipped;
+
+  let min = 0;
+  let max = origin.c;
+  let minInGamut = true;
+
+  while (max - min > CHROMA_EPSILON) {
+    const chroma = (min + max) / 2;
+    const current = { ...origin, c: chroma };
+    const candidate = oklchToGamutColor(current, space);
+
+    if (minInGamut && isInGamut(candidate)) {
+      min = chroma;
+      continue;
+    }
+
+    clipped = clip(candidate);
+    const error = deltaEOK(gamutColorToOklch(clipped), current);
+    if (error < JND) {
+      if (JND - error < CHROMA_EPSILON) return clipped;
+      minInGamut = false;
+      min = chroma;
+    } else {
+      max = chroma;
+    }
+  }
+
+  return clipped;
+};
+
+// sRGB fallback of any color, as #RRGGBB
+export const toSrgbHex = (color: GamutColor): string => srgbHex(mapToGamut(color, 'srgb'));
+
+// ==================== CSS ====================
+
+const COLOR_FUNCTION_PATTERN = /^color\(\s*(srgb|display-p3|rec2020)\s+([^\s/)]+)\s+([^\s/)]+)\s+([^\s/)]+)\s*(?:\/\s*[^\s)]+\s*)?\)$/i;
+
+const parseChannel = (value: string): number | null => {
+  if (/^-?(\d+\.?\d*|\.\d+)%$/.test(value)) return parseFloat(value) / 100;
+  if (/^-?(\d+\.?\d*|\.\d+)(e-?\d+)?$/i.test(value)) return parseFloat(value);
+  if (value.toLowerCase() === 'none') return 0;
+  return null;
+};
+
+/**
+ * Parse #RGB/#RRGGBB or color(srgb | display-p3 | rec2020 r g b [/ alpha]) with numbers or
+ * percentages; null for anything else. Alpha is accepted and ignored.
+ */
+export const parseCssColor = (value: string): GamutColor | null => {
+  const trimmed = value.trim();
+  if (parseHex(trimmed) && trimmed.startsWith('#')) return hexToGamutColor(trimmed);
+
+  const match = COLOR_FUNCTION_PATTERN.exec(trimmed);
+  if (!match) return null;
+
+  const [r, g, b] = match.slice(2, 5).map(parseChannel);
+  if (r === null || g === null || b === null) return null;
+  return { space: match[1].toLowerCase() as ColorGamut, r, g, b };
+};
+
+const formatChannel = (value: number, digits: number) => String(Number(value.toFixed(digits)) || 0);
+
+// color(display-p3 1 0.2 0.1), channels rounded to `digits` decimals
+export const formatCssColor = ({ space, r, g, b }: GamutColor, digits = 4): string =>
+  `color(${space} ${formatChannel(r, digits)} ${formatChannel(g, digits)} ${formatChannel(b, digits)})`;
+
+// ==================== STORED VALUES ====================
+
+// A wideGamut value read back from JSON; null unless it names a known space with finite channels
+export const toGamutColor = (value: unknown): GamutColor | null => {
+  if (typeof value !== 'object' || value === null) return null;
+
+  const { space, r, g, b } = value as Record<string, unknown>;
+  if (!COLOR_GAMUTS.includes(space as ColorGamut)) return null;
+  if (typeof r !== 'number' || typeof g !== 'number' || typeof b !== 'number') return null;
+  if (![r, g, b].every(Number.isFinite)) return null;
+  return { space: space as ColorGamut, r, g, b };
+};
+
+export interface CssColorValues extends ColorValues {
+  // Channels as entered for Display P3 and Rec. 2020 colors, null for sRGB
+  wideGamut: GamutColor | null;
+}
+
+const round = (value: number, digits: number) => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor || 0;
+};
+
+/**
+ * colorValues() for a CSS color. Wide-gamut colors store their sRGB fallback as hex, rgb, hsl
+ * and lab, while oklch describes the color itself; channels are rounded to 0.000001.
+ */
+export const cssColorValues = (value: string): CssColorValues => {
+  const color = parseCssColor(value) ?? hexToGamutColor(value);
+  if (color.space === 'srgb') return { ...colorValues(srgbHex(color)), wideGamut: null };
+
+  const oklch = gamutColorToOklch(color);
+  return {
+    ...colorValues(toSrgbHex(color)),
+    oklch: { l: round(oklch.l, 4), c: round(oklch.c, 4), h: oklch.c < 0.0001 ? 0 : round(oklch.h, 2) },
+    wideGamut: { space: color.space, r: round(color.r, 6), g: round(color.g, 6), b: round(color.b, 6) },
+  };
+};
@@ -0,0 +1,123 @@
+// Formats rendered by the API export endpoints
+export const paletteExportFormats = [
+  'ase',
+  'aco',
+  'gpl',
+  'kpl',
+  'paintnet',
+  'procreate',
+  'dtcg',
+  'style-dictionary',
+  'tailwind',
+  'tailwind-v4',
+  'android',
+  'xcassets',
+  'flutter',
+  'compose',
+  'pdf',
+] as const;
+
+export type PaletteExportFormat = typeof paletteExportFormats[number];
+
+// Menu labels, in the order export menus list them
+export const paletteExportLabels: Record<PaletteExportFormat, string> = {
+  aco: 'Photoshop 스와치 (.aco)',
+  ase: 'Adobe 스와치 (.ase)',
+  gpl: 'GIMP / Inkscape (.gpl)',
+  kpl: 'Krita (.kpl)',
+  paintnet: 'Paint.NET (.txt)',
+  procreate: 'Procreate (.swatches)',
+  dtcg: '디자인 토큰 (DTCG)',
+  'style-dictionary': 'Style Dictionary',
+  tailwind: 'Tailwind 설정 (v3)',
+  'tailwind-v4': 'Tailwind 테마 (v4)',
+  android: 'Android (colors.xml)',
+  xcassets: 'iOS 에셋 카탈로그',
+  flutter: 'Flutter (Dart)',
+  compose: 'Jetpack Compose (Kotlin)',
+  pdf: '스타일 가이드 (PDF)',
+};
+
+export const isPaletteExportFormat = (format: string): format is PaletteExportFormat =>
+  (paletteExportFormats as readonly string[]).includes(format);
+
+export interface PaletteExportColor {
+  hex: string;
+  // color(display-p3 ...) or color(rec2020 ...); hex is then the sRGB fallback
+  color?: string;
+  name?: string;
+}
+
+export type PaletteExportOptions = Record<string, string | boolean>;
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+
+const toQueryString = (options: PaletteExportOptions) => {
+  const params = new URLSearchParams(
+    Object.entries(options).map(([key, value]) => [key, String(value)])
+  ).toString();
+  return params ? `?${params}` : '';
+};
+
+// File name from the server's Content-Disposition header
+const getFilename = (response: Response, fallback: string) => {
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const encoded = /filename\*=UTF-8''([^;]+)/i.exec(disposition);
+  if (encoded) return decodeURIComponent(encoded[1]);
+  const plain = /filename="?([^";]+)"?/i.exec(disposition);
+  return plain ? plain[1] : fallback;
+};
+
+const saveResponse = async (response: Response, fallbackName: string) => {
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || 'Palette export failed');
+  }
+
+  const blob = await response.blob();
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = getFilename(response, fallbackName);
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+export class PaletteExportClient {
+  /**
+   * Download a saved palette in a swatch file format
+   */
+  static async downloadPalette(
+    paletteId: string,
+    format: PaletteExportFormat,
+    options: PaletteExportOptions = {}
+  ): Promise<void> {
+    const response = await fetch(
+      `${API_BASE_URL}/api/v1/palettes/${paletteId}/export/${format}${toQueryString(options)}`
+    );
+
+    await saveResponse(response, `palette.${format}`);
+  }
+
+  /**
+   * Download colors that are not saved as a palette (e.g. the editor).
+   * `description` becomes the usage notes of the pdf style guide.
+   */
+  static async downloadColors(
+    name: string,
+    colors: PaletteExportColor[],
+    format: PaletteExportFormat,
+    options: PaletteExportOptions = {},
+    description?: string
+  ): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/api/v1/palettes/export/${format}${toQueryString(options)}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ name, description, colors }),
+    });
+
+    await saveResponse(response, `${name || 'palette'}.${format}`);
+  }
+}
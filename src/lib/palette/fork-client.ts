@@ -0,0 +1,35 @@
+import type { PaletteForkSource } from '@/types';
+
+export interface PaletteLineage {
+  // Null when the palette is not a remix or its source is not visible to the viewer
+  forkedFrom: PaletteForkSource | null;
+  forksCount: number;
+}
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+
+const getData = async (path: string) => {
+  const response = await fetch(`${API_BASE_URL}/api/v1${path}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || 'Failed to load palette lineage');
+  }
+
+  const result = await response.json();
+  return result.data;
+};
+
+export class PaletteForkClient {
+  /**
+   * Source palette and remix count of a palette
+   */
+  static async getLineage(paletteId: string): Promise<PaletteLineage> {
+    const lineage = await getData(`/palettes/${paletteId}/lineage`);
+
+    return {
+      forkedFrom: lineage.forkedFrom,
+      forksCount: lineage.forksCount,
+    };
+  }
+}
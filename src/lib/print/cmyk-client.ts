@@ -0,0 +1,85 @@
+// Printing conditions and rendering intents supported by the print endpoints
+export const printConditions = ['fogra39', 'gracol', 'swop'] as const;
+export const renderingIntents = ['perceptual', 'relative', 'saturation', 'absolute'] as const;
+
+export type PrintCondition = typeof printConditions[number];
+export type RenderingIntent = typeof renderingIntents[number];
+
+export type PrintWarning = 'out-of-gamut' | 'ink-limit' | 'heavy-coverage';
+
+// icc when the server has the condition's ICC profile, characterization when its press model
+// approximates the profile
+export type PrintSource = 'icc' | 'characterization';
+
+export interface PrintConditionInfo {
+  id: PrintCondition;
+  name: string;
+  standard: string;
+  totalInkLimit: number;
+  source: PrintSource;
+  profile: string | null;
+}
+
+export interface CmykSeparation {
+  color: string;
+  // Ink percentages
+  cmyk: { c: number; m: number; y: number; k: number };
+  totalInk: number;
+  printed: { lab: { l: number; a: number; b: number }; hex: string };
+  // CIEDE2000 between the screen color and its print
+  deltaE: number;
+  inGamut: boolean;
+  warnings: PrintWarning[];
+}
+
+export interface CmykSeparationResult {
+  condition: PrintCondition;
+  intent: RenderingIntent;
+  source: PrintSource;
+  profile: string | null;
+  colors: CmykSeparation[];
+}
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+
+export class PrintClient {
+  /**
+   * Printing conditions with their ink limits
+   */
+  static async getConditions(): Promise<{ conditions: PrintConditionInfo[]; intents: RenderingIntent[] }> {
+    const response = await fetch(`${API_BASE_URL}/api/v1/print/conditions`);
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.message || 'Failed to load print conditions');
+    }
+
+    const result = await response.json();
+    return result.data;
+  }
+
+  /**
+   * Separate colors (#RRGGBB or color(display-p3 ...)) into CMYK for a printing condition
+   */
+  static async separate(
+    colors: string[],
+    condition: PrintCondition,
+    intent: RenderingIntent
+  ): Promise<CmykSeparationResult> {
+    const response = await fetch(`${API_BASE_URL}/api/v1/print/cmyk`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ colors, condition, intent }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.message || 'CMYK separation failed');
+    }
+
+    const result = await response.json();
+    return result.data;
+  }
+}
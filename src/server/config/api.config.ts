@@ -4,6 +4,7 @@
  */
 
 import { z } from 'zod';
+import { parseCssColor } from '../../lib/color';
 
 // Environment variable schema
 const envSchema = z.object({
@@ -34,6 +35,13 @@ const envSchema = z.object({
   RATE_LIMIT_WINDOW_MS: z.string().default('900000').transform((val) => parseInt(val, 10)), // 15 minutes
   RATE_LIMIT_MAX_REQUESTS: z.string().default('100').transform((val) => parseInt(val, 10)),
   
+  // Trash
+  TRASH_RETENTION_DAYS: z.string().default('30').transform((val) => parseInt(val, 10)),
+  TRASH_PURGE_INTERVAL_MS: z.string().default('3600000').transform((val) => parseInt(val, 10)), // 1 hour
+
+  // Print
+  ICC_PROFILE_DIR: z.string().default('assets/icc/'),
+  
   // Email (optional, for future use)
   SMTP_HOST: z.string().optional(),
   SMTP_PORT: z.string().transform((val) => parseInt(val, 10)).optional(),
@@ -111,13 +119,26 @@ export const uploadConfig = {
   },
 };
 
+// Trash configuration
+export const trashConfig = {
+  retentionDays: apiConfig.TRASH_RETENTION_DAYS,
+  purgeIntervalMs: apiConfig.TRASH_PURGE_INTERVAL_MS,
+  purgeBatchSize: 100,
+};
+
+// Print configuration
+export const printConfig = {
+  // CMYK output profiles for the print conditions; conditions without one use the press model
+  iccProfileDir: apiConfig.ICC_PROFILE_DIR,
+};
+
 // CORS configuration
 export const corsConfig = {
   origin: apiConfig.FRONTEND_URL,
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
-  exposedHeaders: ['X-Total-Count', 'X-Page-Count'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'If-Match'],
+  exposedHeaders: ['X-Total-Count', 'X-Page-Count', 'ETag', 'Content-Disposition'],
 };
 
 // Socket.io configuration
@@ -156,6 +177,9 @@ export const validationSchemas = {
   }),
   
   colorHex: z.string().regex(/^#[0-9A-Fa-f]{6}$/, 'Invalid hex color format'),
+
+  // Hex or CSS color(srgb | display-p3 | rec2020 r g b)
+  cssColor: z.string().max(100).refine((val) => parseCssColor(val) !== null, 'Invalid CSS color'),
   
   uuid: z.string().uuid('Invalid UUID format'),
   
@@ -201,6 +201,40 @@ export const swaggerOptions: Options = {
                 b: { type: 'number', minimum: -128, maximum: 127 },
               },
             },
+            oklch: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                l: { type: 'number', minimum: 0, maximum: 1 },
+                c: { type: 'number', minimum: 0 },
+                h: { type: 'number', minimum: 0, maximum: 360 },
+              },
+            },
+            wideGamut: {
+              type: 'object',
+              nullable: true,
+              description: 'Display P3 or Rec. 2020 channels; hex is the gamut-mapped sRGB fallback',
+              properties: {
+                space: { type: 'string', enum: ['display-p3', 'rec2020'] },
+                r: { type: 'number' },
+                g: { type: 'number' },
+                b: { type: 'number' },
+              },
+            },
+            cmyk: {
+              type: 'object',
+              nullable: true,
+              description: 'Ink percentages for the print condition, separated through its ICC profile or, without one, the press model',
+              properties: {
+                c: { type: 'number', minimum: 0, maximum: 100 },
+                m: { type: 'number', minimum: 0, maximum: 100 },
+                y: { type: 'number', minimum: 0, maximum: 100 },
+                k: { type: 'number', minimum: 0, maximum: 100 },
+                condition: { type: 'string', enum: ['fogra39', 'gracol', 'swop'] },
+                intent: { type: 'string', enum: ['perceptual', 'relative', 'saturation', 'absolute'] },
+                source: { type: 'string', enum: ['icc', 'characterization'], description: 'characterization when approximated without the ICC profile' },
+              },
+            },
             name: { type: 'string', nullable: true },
             position: { type: 'integer' },
             paletteId: { type: 'string', format: 'uuid' },
@@ -208,9 +242,15 @@ export const swaggerOptions: Options = {
         },
         ColorInput: {
           type: 'object',
-          required: ['hex', 'position'],
+          required: ['position'],
+          description: 'Either hex or color is required',
           properties: {
             hex: { type: 'string', pattern: '^#[0-9A-Fa-f]{6}$' },
+            color: {
+              type: 'string',
+              description: 'CSS color such as color(display-p3 1 0.2 0.1); takes precedence over hex',
+              example: 'color(display-p3 1 0.2 0.1)',
+            },
             name: { type: 'string' },
             position: { type: 'integer', minimum: 0 },
           },
@@ -365,10 +405,45 @@ export const swaggerOptions: Options = {
             },
           },
         },
+        HarmonyOffender: {
+          type: 'object',
+          properties: {
+            index: { type: 'integer' },
+            color: { type: 'string', pattern: '^#[0-9A-Fa-f]{6}$' },
+            deviation: { type: 'number', description: 'Degrees of hue outside the nearest template sector' },
+          },
+        },
         PaletteAnalysis: {
           type: 'object',
           properties: {
-            harmony: { type: 'string', enum: ['monochromatic', 'analogous', 'complementary', 'triadic', 'tetradic', 'custom'] },
+            harmony: {
+              type: 'object',
+              description: 'Fit of the palette hues (OKLCH) against each harmony template',
+              properties: {
+                type: {
+                  type: 'string',
+                  enum: ['monochromatic', 'analogous', 'complementary', 'split-complementary', 'triadic', 'tetradic', 'square', 'custom'],
+                },
+                score: { type: 'number', minimum: 0, maximum: 100 },
+                offenders: { type: 'array', items: { $ref: '#/components/schemas/HarmonyOffender' } },
+                fits: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      template: {
+                        type: 'string',
+                        enum: ['monochromatic', 'analogous', 'complementary', 'split-complementary', 'triadic', 'tetradic', 'square'],
+                      },
+                      score: { type: 'number', minimum: 0, maximum: 100 },
+                      rotation: { type: 'number', description: 'OKLCH hue of the first template sector' },
+                      offenders: { type: 'array', items: { $ref: '#/components/schemas/HarmonyOffender' } },
+                    },
+                  },
+                },
+                neutrals: { type: 'array', items: { type: 'integer' }, description: 'Indexes of near-neutral colors left out of the fit' },
+              },
+            },
             temperature: { type: 'string', enum: ['warm', 'cool', 'neutral', 'mixed'] },
             mood: { type: 'string' },
             suggestions: {
@@ -555,6 +630,18 @@ export const swaggerOptions: Options = {
         name: 'Collections',
         description: 'Palette collections and organization',
       },
+      {
+        name: 'Similarity',
+        description: 'Perceptual color difference metrics',
+      },
+      {
+        name: 'Color Vision',
+        description: 'Color vision deficiency simulation for palettes and images',
+      },
+      {
+        name: 'Print',
+        description: 'CMYK separation for offset printing conditions',
+      },
       {
         name: 'Collaboration',
         description: 'Real-time collaboration features',
@@ -0,0 +1,89 @@
+import { decodeAco, encodeAco, isAco } from './aco';
+import { SwatchDocument } from './types';
+
+const document: SwatchDocument = {
+  colors: [
+    { name: 'Ocean', hex: '#1E6FD9' },
+    { name: 'Black', hex: '#000000' },
+  ],
+  groups: [
+    { name: 'Brand', colors: [{ name: 'Coral', hex: '#FF7F50' }] },
+  ],
+};
+
+// Version 1 section with a single color in the given space
+const legacyColor = (space: number, w: number, x = 0, y = 0, z = 0) => {
+  const buffer = Buffer.alloc(14);
+  buffer.writeUInt16BE(1, 0);
+  buffer.writeUInt16BE(1, 2);
+  [space, w, x, y, z].forEach((value, i) => buffer.writeUInt16BE(value, 4 + i * 2));
+  return buffer;
+};
+
+describe('ACO round trip', () => {
+  it('keeps names and RGB colors, with grouped colors after the rest', () => {
+    const decoded = decodeAco(encodeAco(document));
+
+    expect(decoded.groups).toEqual([]);
+    expect(decoded.colors.map((color) => [color.name, color.hex])).toEqual([
+      ['Ocean', '#1E6FD9'],
+      ['Black', '#000000'],
+      ['Coral', '#FF7F50'],
+    ]);
+  });
+
+  it('reads unnamed version 1 files', () => {
+    const decoded = decodeAco(encodeAco(document, { version: 1 }));
+
+    expect(decoded.colors.map((color) => [color.name, color.hex])).toEqual([
+      [null, '#1E6FD9'],
+      [null, '#000000'],
+      [null, '#FF7F50'],
+    ]);
+  });
+
+  it('keeps colors within a step in the other color spaces', () => {
+    for (const model of ['HSB', 'CMYK', 'LAB'] as const) {
+      const [color] = decodeAco(encodeAco({ colors: [{ name: 'Ocean', hex: '#1E6FD9' }], groups: [] }, { model })).colors;
+      expect(color.model).toBe(model);
+      expect(color.hex).toBe('#1E6FD9');
+    }
+
+    const [gray] = decodeAco(encodeAco({ colors: [{ name: 'Gray', hex: '#808080' }], groups: [] }, { model: 'Gray' })).colors;
+    expect(gray.hex).toBe('#808080');
+  });
+
+  it('reads wide CMYK as ink coverage', () => {
+    const [color] = decodeAco(legacyColor(9, 0, 0, 0, 10000)).colors;
+
+    expect(color).toMatchObject({ model: 'CMYK', values: [0, 0, 0, 1], hex: '#000000' });
+  });
+});
+
+describe('malformed ACO files', () => {
+  it('detects version 1 and 2 headers with enough color data', () => {
+    expect(isAco(encodeAco(document))).toBe(true);
+    expect(isAco(Buffer.from([0, 1, 0, 5, 0, 0]))).toBe(false);
+    expect(isAco(Buffer.from('ASEF'))).toBe(false);
+  });
+
+  it('rejects short headers and unknown versions', () => {
+    expect(() => decodeAco(Buffer.from([0, 1]))).toThrow('truncated header');
+    expect(() => decodeAco(Buffer.from([0, 3, 0, 0]))).toThrow('unsupported version 3');
+  });
+
+  it('rejects truncated colors and names', () => {
+    const file = encodeAco(document);
+
+    expect(() => decodeAco(file.subarray(0, 20))).toThrow('truncated color data');
+    expect(() => decodeAco(file.subarray(0, file.length - 2))).toThrow('truncated name');
+  });
+
+  it('skips proprietary spaces but rejects files with nothing else', () => {
+    const pantone = legacyColor(3, 100);
+    expect(() => decodeAco(pantone)).toThrow('only unsupported color spaces');
+
+    const mixed = Buffer.concat([Buffer.from([0, 1, 0, 2]), pantone.subarray(4), legacyColor(0, 65535).subarray(4)]);
+    expect(decodeAco(mixed).colors.map((color) => color.hex)).toEqual(['#FF0000']);
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Photoshop Color Swatches (.aco)
+ *
+ * Layout (all values big-endian uint16 unless noted):
+ *   Version 1 section: version (1), count, then per color:
+ *     color space, w, x, y, z
+ *   Optional version 2 section with the same colors plus names:
+ *     version (2), count, then per color:
+ *     color space, w, x, y, z, name length (uint32, UTF-16 code units including the terminator),
+ *     UTF-16BE name, 0x0000
+ * Photoshop writes both sections so that old readers still see the colors.
+ *
+ * Color spaces and channel ranges:
+ *   0 RGB   w,x,y = 0..65535
+ *   1 HSB   w = hue 0..65535 (0..360 degrees), x,y = 0..65535
+ *   2 CMYK  w,x,y,z = 0..65535 where 0 is 100% ink
+ *   7 Lab   w = L 0..10000, x,y = a,b as signed int16 x 100
+ *   8 Gray  w = 0..10000 ink coverage (10000 = black)
+ *   9 Wide CMYK w,x,y,z = 0..10000 ink coverage
+ */
+
+import { createError } from '../middleware/error-handler';
+import { hexToRgb, hsbToRgb, labToRgb, rgbToHex, rgbToHsb, rgbToLab } from '../../lib/color';
+import { cmykToRgb, grayToRgb, rgbToCmyk, rgbToGray } from './color-models';
+import { SwatchColor, SwatchColorModel, SwatchDocument } from './types';
+
+const SPACE_RGB = 0;
+const SPACE_HSB = 1;
+const SPACE_CMYK = 2;
+const SPACE_LAB = 7;
+const SPACE_GRAY = 8;
+const SPACE_WIDE_CMYK = 9;
+
+export interface AcoEncodeOptions {
+  // 1 writes only the unnamed legacy section; 2 also writes the named section
+  version?: 1 | 2;
+  model?: SwatchColorModel;
+}
+
+// ==================== ENCODING ====================
+
+const round = (value: number, max: number) => Math.min(max, Math.max(0, Math.round(value)));
+
+const encodeChannels = (color: SwatchColor, model: SwatchColorModel): Buffer => {
+  const buffer = Buffer.alloc(10);
+  const rgb = hexToRgb(color.hex);
+
+  switch (model) {
+    case 'HSB': {
+      const { h, s, b } = rgbToHsb(rgb);
+      buffer.writeUInt16BE(SPACE_HSB, 0);
+      buffer.writeUInt16BE(round((h / 360) * 65535, 65535), 2);
+      buffer.writeUInt16BE(round((s / 100) * 65535, 65535), 4);
+      buffer.writeUInt16BE(round((b / 100) * 65535, 65535), 6);
+      break;
+    }
+    case 'CMYK': {
+      const cmyk = color.model === 'CMYK' && color.values?.length === 4 ? color.values : rgbToCmyk(rgb);
+      buffer.writeUInt16BE(SPACE_CMYK, 0);
+      cmyk.forEach((ink, i) => buffer.writeUInt16BE(round((1 - ink) * 65535, 65535), 2 + i * 2));
+      break;
+    }
+    case 'LAB': {
+      const { l, a, b } = rgbToLab(rgb);
+      buffer.writeUInt16BE(SPACE_LAB, 0);
+      buffer.writeUInt16BE(round(l * 100, 10000), 2);
+      buffer.writeInt16BE(Math.max(-12800, Math.min(12700, Math.round(a * 100))), 4);
+      buffer.writeInt16BE(Math.max(-12800, Math.min(12700, Math.round(b * 100))), 6);
+      break;
+    }
+    case 'Gray':
+      buffer.writeUInt16BE(SPACE_GRAY, 0);
+      buffer.writeUInt16BE(round((1 - rgbToGray(rgb)) * 10000, 10000), 2);
+      break;
+    default:
+      buffer.writeUInt16BE(SPACE_RGB, 0);
+      buffer.writeUInt16BE(rgb.r * 257, 2);
+      buffer.writeUInt16BE(rgb.g * 257, 4);
+      buffer.writeUInt16BE(rgb.b * 257, 6);
+  }
+
+  return buffer;
+};
+
+const encodeName = (name: string): Buffer => {
+  const buffer = Buffer.alloc(4 + (name.length + 1) * 2);
+  buffer.writeUInt32BE(name.length + 1, 0);
+  for (let i = 0; i < name.length; i++) {
+    buffer.writeUInt16BE(name.charCodeAt(i), 4 + i * 2);
+  }
+  return buffer;
+};
+
+const sectionHeader = (version: number, count: number) => {
+  const header = Buffer.alloc(4);
+  header.writeUInt16BE(version, 0);
+  header.writeUInt16BE(count, 2);
+  return header;
+};
+
+// ACO has no groups, so grouped colors are written after ungrouped ones in order
+export const encodeAco = (document: SwatchDocument, options: AcoEncodeOptions = {}): Buffer => {
+  const colors = [...document.colors, ...document.groups.flatMap((group) => group.colors)];
+  const model = options.model || 'RGB';
+
+  const parts = [
+    sectionHeader(1, colors.length),
+    ...colors.map((color) => encodeChannels(color, model)),
+  ];
+
+  if ((options.version || 2) === 2) {
+    parts.push(sectionHeader(2, colors.length));
+    for (const color of colors) {
+      parts.push(encodeChannels(color, model), encodeName(color.name || color.hex));
+    }
+  }
+
+  return Buffer.concat(parts);
+};
+
+// ==================== DECODING ====================
+
+const invalid = (reason: string) => createError.validation(`Invalid ACO file: ${reason}`);
+
+// Version 1 header followed by a plausible color count; used for format detection
+export const isAco = (buffer: Buffer): boolean => {
+  if (buffer.length < 4) return false;
+
+  const version = buffer.readUInt16BE(0);
+  const count = buffer.readUInt16BE(2);
+
+  return (version === 1 || version === 2) && buffer.length >= 4 + count * 10;
+};
+
+const decodeChannels = (buffer: Buffer, offset: number): SwatchColor | null => {
+  const space = buffer.readUInt16BE(offset);
+  const w = buffer.readUInt16BE(offset + 2);
+  const x = buffer.readUInt16BE(offset + 4);
+  const y = buffer.readUInt16BE(offset + 6);
+  const z = buffer.readUInt16BE(offset + 8);
+
+  switch (space) {
+    case SPACE_RGB: {
+      const values = [w / 257, x / 257, y / 257];
+      return { name: null, hex: rgbToHex({ r: values[0], g: values[1], b: values[2] }), model: 'RGB', values };
+    }
+    case SPACE_HSB: {
+      const values = [(w / 65535) * 360, x / 65535, y / 65535];
+      return { name: null, hex: rgbToHex(hsbToRgb({ h: values[0], s: values[1] * 100, b: values[2] * 100 })), model: 'HSB', values };
+    }
+    case SPACE_CMYK: {
+      const values = [w, x, y, z].map((channel) => 1 - channel / 65535);
+      return { name: null, hex: rgbToHex(cmykToRgb(values[0], values[1], values[2], values[3])), model: 'CMYK', values };
+    }
+    case SPACE_WIDE_CMYK: {
+      const values = [w, x, y, z].map((channel) => channel / 10000);
+      return { name: null, hex: rgbToHex(cmykToRgb(values[0], values[1], values[2], values[3])), model: 'CMYK', values };
+    }
+    case SPACE_LAB: {
+      const values = [w / 100, buffer.readInt16BE(offset + 4) / 100, buffer.readInt16BE(offset + 6) / 100];
+      return { name: null, hex: rgbToHex(labToRgb({ l: values[0], a: values[1], b: values[2] })), model: 'LAB', values };
+    }
+    case SPACE_GRAY: {
+      const values = [1 - w / 10000];
+      return { name: null, hex: rgbToHex(grayToRgb(values[0])), model: 'Gray', values };
+    }
+    default:
+      // Pantone, Focoltone and other proprietary spaces cannot be converted
+      return null;
+  }
+};
+
+export const decodeAco = (buffer: Buffer): SwatchDocument => {
+  if (buffer.length < 4) throw invalid('truncated header');
+
+  let offset = 0;
+  let version = buffer.readUInt16BE(offset);
+  let count = buffer.readUInt16BE(offset + 2);
+  offset += 4;
+
+  if (version !== 1 && version !== 2) throw invalid(`unsupported version ${version}`);
+
+  // Skip the legacy section when the named version 2 section follows it
+  if (version === 1) {
+    const legacyEnd = offset + count * 10;
+    if (legacyEnd > buffer.length) throw invalid('truncated color data');
+
+    if (legacyEnd + 4 <= buffer.length && buffer.readUInt16BE(legacyEnd) === 2) {
+      offset = legacyEnd;
+      version = 2;
+      count = buffer.readUInt16BE(offset + 2);
+      offset += 4;
+    }
+  }
+
+  const colors: SwatchColor[] = [];
+  let skipped = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 10 > buffer.length) throw invalid('truncated color data');
+
+    const color = decodeChannels(buffer, offset);
+    offset += 10;
+
+    if (version === 2) {
+      if (offset + 4 > buffer.length) throw invalid('truncated name');
+
+      const length = buffer.readUInt32BE(offset);
+      offset += 4;
+      if (offset + length * 2 > buffer.length) throw invalid('truncated name');
+
+      let name = '';
+      for (let c = 0; c < length; c++) {
+        const code = buffer.readUInt16BE(offset + c * 2);
+        if (code === 0) break;
+        name += String.fromCharCode(code);
+      }
+      offset += length * 2;
+
+      if (color) color.name = name || null;
+    }
+
+    if (color) colors.push(color);
+    else skipped++;
+  }
+
+  if (colors.length === 0 && skipped > 0) {
+    throw invalid('only unsupported color spaces (e.g. Pantone) were found');
+  }
+
+  return { colors, groups: [] };
+};
@@ -0,0 +1,93 @@
+import { decodeAse, encodeAse, isAse } from './ase';
+import { SwatchDocument } from './types';
+
+const document: SwatchDocument = {
+  colors: [
+    { name: 'Ocean', hex: '#1E6FD9' },
+    { name: null, hex: '#000000' },
+  ],
+  groups: [
+    { name: 'Brand', colors: [{ name: 'Coral', hex: '#FF7F50', type: 'spot' }] },
+  ],
+};
+
+// A file with a single color block: name "X", the given model code and channels, global type
+const singleColor = (model: string, channels: number[]) => {
+  const body = Buffer.alloc(4 + 4 + channels.length * 4 + 2);
+  body.writeUInt16BE(2, 0);
+  body.writeUInt16BE('X'.charCodeAt(0), 2);
+  body.write(model, 6, 'ascii');
+  channels.forEach((value, i) => body.writeFloatBE(value, 10 + i * 4));
+
+  const header = Buffer.alloc(18);
+  header.write('ASEF', 0, 'ascii');
+  header.writeUInt16BE(1, 4);
+  header.writeUInt32BE(1, 8);
+  header.writeUInt16BE(0x0001, 12);
+  header.writeUInt32BE(body.length, 14);
+  return Buffer.concat([header, body]);
+};
+
+describe('ASE round trip', () => {
+  it('keeps names, groups and RGB colors', () => {
+    const decoded = decodeAse(encodeAse(document));
+
+    expect(decoded.colors.map((color) => [color.name, color.hex])).toEqual([
+      ['Ocean', '#1E6FD9'],
+      ['#000000', '#000000'],
+    ]);
+    expect(decoded.groups).toHaveLength(1);
+    expect(decoded.groups[0].name).toBe('Brand');
+    expect(decoded.groups[0].colors[0]).toMatchObject({ name: 'Coral', hex: '#FF7F50', type: 'spot' });
+  });
+
+  it('keeps colors within a step when written as CMYK, Lab or gray', () => {
+    for (const model of ['CMYK', 'LAB'] as const) {
+      const [color] = decodeAse(encodeAse({ colors: [{ name: 'Ocean', hex: '#1E6FD9' }], groups: [] }, { model })).colors;
+      expect(color.model).toBe(model);
+      expect(color.hex).toBe('#1E6FD9');
+    }
+
+    const [gray] = decodeAse(encodeAse({ colors: [{ name: 'Gray', hex: '#808080' }], groups: [] }, { model: 'Gray' })).colors;
+    expect(gray.hex).toBe('#808080');
+  });
+
+  it('writes the original channels when the model matches', () => {
+    const cmyk = { name: 'Black', hex: '#000000', model: 'CMYK' as const, values: [0.6, 0.4, 0.4, 1] };
+    const [color] = decodeAse(encodeAse({ colors: [cmyk], groups: [] }, { model: 'CMYK' })).colors;
+
+    color.values?.forEach((value, i) => expect(value).toBeCloseTo(cmyk.values[i], 5));
+  });
+});
+
+describe('malformed ASE files', () => {
+  it('recognizes the signature', () => {
+    expect(isAse(encodeAse(document))).toBe(true);
+    expect(isAse(Buffer.from('GIMP Palette'))).toBe(false);
+  });
+
+  it('rejects a wrong signature or version', () => {
+    expect(() => decodeAse(Buffer.from('ACOF0000000000'))).toThrow('missing ASEF signature');
+
+    const file = encodeAse(document);
+    file.writeUInt16BE(2, 4);
+    expect(() => decodeAse(file)).toThrow('unsupported version 2');
+  });
+
+  it('rejects truncated files', () => {
+    const file = encodeAse(document);
+
+    expect(() => decodeAse(file.subarray(0, 8))).toThrow('truncated header');
+    expect(() => decodeAse(file.subarray(0, 14))).toThrow('truncated block header');
+    expect(() => decodeAse(file.subarray(0, file.length - 4))).toThrow('Invalid ASE file');
+  });
+
+  it('rejects unknown color models', () => {
+    expect(() => decodeAse(singleColor('HSB ', [0, 0, 0]))).toThrow('unsupported color model "HSB"');
+  });
+
+  it('rejects NaN and infinite channels', () => {
+    expect(() => decodeAse(singleColor('RGB ', [NaN, 0, 0]))).toThrow('non-finite channel');
+    expect(() => decodeAse(singleColor('CMYK', [0, Infinity, 0, 0]))).toThrow('non-finite channel');
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Adobe Swatch Exchange (.ase)
+ *
+ * Layout (all values big-endian):
+ *   "ASEF", version 1.0 (2 x uint16), block count (uint32), then blocks of
+ *   type (uint16) + length (uint32) + payload.
+ *   0xC001 group start: name
+ *   0xC002 group end: empty
+ *   0x0001 color: name, model ("RGB ", "CMYK", "LAB ", "Gray"), float32 channels, type (uint16)
+ * Names are uint16 length (UTF-16 code units including the terminator) + UTF-16BE text + 0x0000.
+ */
+
+import { createError } from '../middleware/error-handler';
+import { hexToRgb, labToRgb, rgbToHex, rgbToLab } from '../../lib/color';
+import { cmykToRgb, grayToRgb, rgbToCmyk, rgbToGray } from './color-models';
+import { SwatchColor, SwatchColorModel, SwatchColorType, SwatchDocument } from './types';
+
+const SIGNATURE = 'ASEF';
+
+const BLOCK_GROUP_START = 0xc001;
+const BLOCK_GROUP_END = 0xc002;
+const BLOCK_COLOR = 0x0001;
+
+// ASE has no HSB model
+export type AseColorModel = Exclude<SwatchColorModel, 'HSB'>;
+
+const MODEL_CODES: Record<AseColorModel, string> = {
+  RGB: 'RGB ',
+  CMYK: 'CMYK',
+  LAB: 'LAB ',
+  Gray: 'Gray',
+};
+
+const CHANNEL_COUNTS: Record<AseColorModel, number> = {
+  RGB: 3,
+  CMYK: 4,
+  LAB: 3,
+  Gray: 1,
+};
+
+const COLOR_TYPES: SwatchColorType[] = ['global', 'spot', 'process'];
+
+export interface AseEncodeOptions {
+  model?: AseColorModel;
+  colorType?: SwatchColorType;
+}
+
+// ==================== ENCODING ====================
+
+const encodeName = (name: string): Buffer => {
+  const buffer = Buffer.alloc(2 + (name.length + 1) * 2);
+  buffer.writeUInt16BE(name.length + 1, 0);
+  for (let i = 0; i < name.length; i++) {
+    buffer.writeUInt16BE(name.charCodeAt(i), 2 + i * 2);
+  }
+  return buffer;
+};
+
+const block = (type: number, payload: Buffer): Buffer => {
+  const header = Buffer.alloc(6);
+  header.writeUInt16BE(type, 0);
+  header.writeUInt32BE(payload.length, 2);
+  return Buffer.concat([header, payload]);
+};
+
+// Channel values as ASE stores them: 0..1 except Lab a/b; Lab L is stored as a fraction of 100
+const channelValues = (color: SwatchColor, model: AseColorModel): number[] => {
+  if (color.model === model && color.values?.length === CHANNEL_COUNTS[model]) {
+    return model === 'LAB' ? [color.values[0] / 100, color.values[1], color.values[2]] : color.values;
+  }
+
+  const rgb = hexToRgb(color.hex);
+
+  switch (model) {
+    case 'CMYK':
+      return rgbToCmyk(rgb);
+    case 'LAB': {
+      const { l, a, b } = rgbToLab(rgb);
+      return [l / 100, a, b];
+    }
+    case 'Gray':
+      return [rgbToGray(rgb)];
+    default:
+      return [rgb.r / 255, rgb.g / 255, rgb.b / 255];
+  }
+};
+
+const colorBlock = (color: SwatchColor, options: AseEncodeOptions): Buffer => {
+  const model = options.model || 'RGB';
+  const values = channelValues(color, model);
+
+  const body = Buffer.alloc(4 + values.length * 4 + 2);
+  body.write(MODEL_CODES[model], 0, 'ascii');
+  values.forEach((value, i) => body.writeFloatBE(value, 4 + i * 4));
+  body.writeUInt16BE(COLOR_TYPES.indexOf(color.type || options.colorType || 'global'), 4 + values.length * 4);
+
+  return block(BLOCK_COLOR, Buffer.concat([encodeName(color.name || color.hex), body]));
+};
+
+export const encodeAse = (document: SwatchDocument, options: AseEncodeOptions = {}): Buffer => {
+  const blocks: Buffer[] = [];
+
+  for (const color of document.colors) {
+    blocks.push(colorBlock(color, options));
+  }
+
+  for (const group of document.groups) {
+    blocks.push(block(BLOCK_GROUP_START, encodeName(group.name)));
+    for (const color of group.colors) {
+      blocks.push(colorBlock(color, options));
+    }
+    blocks.push(block(BLOCK_GROUP_END, Buffer.alloc(0)));
+  }
+
+  const header = Buffer.alloc(12);
+  header.write(SIGNATURE, 0, 'ascii');
+  header.writeUInt16BE(1, 4);
+  header.writeUInt16BE(0, 6);
+  header.writeUInt32BE(blocks.length, 8);
+
+  return Buffer.concat([header, ...blocks]);
+};
+
+// ==================== DECODING ====================
+
+export const isAse = (buffer: Buffer): boolean =>
+  buffer.length >= 4 && buffer.toString('ascii', 0, 4) === SIGNATURE;
+
+const invalid = (reason: string) => createError.validation(`Invalid ASE file: ${reason}`);
+
+const readName = (payload: Buffer): { name: string; size: number } => {
+  if (payload.length < 2) throw invalid('truncated name');
+
+  const length = payload.readUInt16BE(0);
+  const size = 2 + length * 2;
+  if (payload.length < size) throw invalid('truncated name');
+
+  let name = '';
+  for (let i = 0; i < length; i++) {
+    const code = payload.readUInt16BE(2 + i * 2);
+    if (code === 0) break;
+    name += String.fromCharCode(code);
+  }
+
+  return { name, size };
+};
+
+const toHex = (model: AseColorModel, values: number[]): string => {
+  switch (model) {
+    case 'CMYK':
+      return rgbToHex(cmykToRgb(values[0], values[1], values[2], values[3]));
+    case 'LAB':
+      return rgbToHex(labToRgb({ l: values[0], a: values[1], b: values[2] }));
+    case 'Gray':
+      return rgbToHex(grayToRgb(values[0]));
+    default:
+      return rgbToHex({ r: values[0] * 255, g: values[1] * 255, b: values[2] * 255 });
+  }
+};
+
+const readColor = (payload: Buffer): SwatchColor => {
+  const { name, size } = readName(payload);
+  if (payload.length < size + 4) throw invalid('truncated color');
+
+  const code = payload.toString('ascii', size, size + 4);
+  const model = (Object.keys(MODEL_CODES) as AseColorModel[])
+    .find((key) => MODEL_CODES[key] === code);
+
+  if (!model) throw invalid(`unsupported color model "${code.trim()}"`);
+
+  const channelCount = CHANNEL_COUNTS[model];
+  if (payload.length < size + 4 + channelCount * 4) throw invalid('truncated color');
+
+  const values: number[] = [];
+  for (let i = 0; i < channelCount; i++) {
+    const value = payload.readFloatBE(size + 4 + i * 4);
+    if (!Number.isFinite(value)) throw invalid(`color "${name}" has a non-finite channel value`);
+    values.push(value);
+  }
+
+  // Lab L is stored as 0..1; tolerate writers that store 0..100
+  if (model === 'LAB' && values[0] <= 1) {
+    values[0] *= 100;
+  }
+
+  const typeOffset = size + 4 + channelCount * 4;
+  const typeCode = payload.length >= typeOffset + 2 ? payload.readUInt16BE(typeOffset) : 2;
+
+  return {
+    name: name || null,
+    hex: toHex(model, values),
+    model,
+    values,
+    type: COLOR_TYPES[typeCode] || 'process',
+  };
+};
+
+export const decodeAse = (buffer: Buffer): SwatchDocument => {
+  if (!isAse(buffer)) throw invalid('missing ASEF signature');
+  if (buffer.length < 12) throw invalid('truncated header');
+
+  const majorVersion = buffer.readUInt16BE(4);
+  if (majorVersion !== 1) throw invalid(`unsupported version ${majorVersion}`);
+
+  const blockCount = buffer.readUInt32BE(8);
+  const document: SwatchDocument = { colors: [], groups: [] };
+  let currentGroup: SwatchDocument['groups'][number] | null = null;
+  let offset = 12;
+
+  for (let i = 0; i < blockCount; i++) {
+    if (offset + 6 > buffer.length) throw invalid('truncated block header');
+
+    const type = buffer.readUInt16BE(offset);
+    const length = buffer.readUInt32BE(offset + 2);
+    const start = offset + 6;
+    if (start + length > buffer.length) throw invalid('truncated block');
+
+    const payload = buffer.subarray(start, start + length);
+    offset = start + length;
+
+    switch (type) {
+      case BLOCK_GROUP_START:
+        currentGroup = { name: readName(payload).name, colors: [] };
+        document.groups.push(currentGroup);
+        break;
+      case BLOCK_GROUP_END:
+        currentGroup = null;
+        break;
+      case BLOCK_COLOR:
+        (currentGroup ? currentGroup.colors : document.colors).push(readColor(payload));
+        break;
+      default:
+        // Unknown block types are skipped
+        break;
+    }
+  }
+
+  return document;
+};
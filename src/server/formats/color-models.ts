@@ -0,0 +1,40 @@
+/**
+ * Device color models used only by swatch files
+ * Everything colorimetric (Lab, HSB, OKLCH, ...) comes from the shared core in src/lib/color.
+ */
+
+import { Rgb } from '../../lib/color';
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Naive device CMYK, channels 0..1
+export const rgbToCmyk = ({ r, g, b }: Rgb): [number, number, number, number] => {
+  const rn = r / 255;
+  const gn = g / 255;
+  const bn = b / 255;
+  const k = 1 - Math.max(rn, gn, bn);
+
+  if (k >= 1) return [0, 0, 0, 1];
+
+  return [
+    (1 - rn - k) / (1 - k),
+    (1 - gn - k) / (1 - k),
+    (1 - bn - k) / (1 - k),
+    k,
+  ];
+};
+
+export const cmykToRgb = (c: number, m: number, y: number, k: number): Rgb => ({
+  r: 255 * (1 - clamp(c, 0, 1)) * (1 - clamp(k, 0, 1)),
+  g: 255 * (1 - clamp(m, 0, 1)) * (1 - clamp(k, 0, 1)),
+  b: 255 * (1 - clamp(y, 0, 1)) * (1 - clamp(k, 0, 1)),
+});
+
+// Gray level 0 (black) .. 1 (white)
+export const rgbToGray = ({ r, g, b }: Rgb): number =>
+  (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255;
+
+export const grayToRgb = (gray: number): Rgb => {
+  const value = clamp(gray, 0, 1) * 255;
+  return { r: value, g: value, b: value };
+};
@@ -0,0 +1,194 @@
+/**
+ * Design Tokens
+ * Builds a color token tree from a palette and writes it as
+ * W3C Design Tokens (DTCG) JSON or Style Dictionary source files.
+ *
+ * Tree layout, shared by both formats:
+ *   <prefix>.base.<color>    one token per palette color
+ *   <prefix>.role.<role>     aliases to base colors (named roles, single theme)
+ *   <prefix>.light.<role>    aliases to base colors
+ *   <prefix>.dark.<role>     dark theme counterparts of the light values
+ */
+
+import { createError } from '../middleware/error-handler';
+import { GamutColor, formatCssColor, hexToRgb, labToRgb, rgbToHex, rgbToLab } from '../../lib/color';
+import { uniqueColorKeys } from './naming';
+import { createZip } from './zip';
+
+export interface TokenPaletteColor {
+  hex: string;
+  name?: string | null;
+  // Display P3 or Rec. 2020 original of the sRGB hex
+  wideGamut?: GamutColor | null;
+}
+
+export interface TokenPalette {
+  name: string;
+  description?: string | null;
+  colors: TokenPaletteColor[];
+}
+
+export interface RoleAssignment {
+  role: string;
+  // Palette color position; omitted means the color after the previous role
+  position?: number;
+}
+
+export interface DesignTokenOptions {
+  prefix: string;
+  roles: RoleAssignment[];
+  // Emit light and dark sets instead of a single role set
+  dark: boolean;
+}
+
+interface ColorToken {
+  name: string;
+  description: string;
+  hex: string;
+  wideGamut?: GamutColor;
+  // Name of the base token this token refers to
+  alias?: string;
+}
+
+interface TokenSet {
+  name: 'base' | 'role' | 'light' | 'dark';
+  tokens: ColorToken[];
+}
+
+// ==================== TOKEN TREE ====================
+
+// Dark theme value: mirror Lab lightness and keep hue and chroma
+export const toDarkThemeHex = (hex: string): string => {
+  const { l, a, b } = rgbToLab(hexToRgb(hex));
+  return rgbToHex(labToRgb({ l: 100 - l, a, b }));
+};
+
+/**
+ * Parse a role list such as "background:0,surface,primary:3,accent".
+ * A role without a position takes the color after the previous role.
+ */
+export const parseRoles = (value: string): RoleAssignment[] =>
+  value.split(',').map((entry) => entry.trim()).filter(Boolean).map((entry) => {
+    const [role, position] = entry.split(':');
+    return position === undefined ? { role } : { role, position: Number(position) };
+  });
+
+const resolveRoles = (roles: RoleAssignment[], base: ColorToken[]): Array<{ role: string; color: ColorToken }> => {
+  const seen = new Set<string>();
+  let next = 0;
+
+  return roles.map(({ role, position }) => {
+    const index = position ?? next;
+
+    if (index >= base.length) {
+      throw createError.validation(`Role "${role}" refers to color ${index}, but the palette has ${base.length} colors`);
+    }
+    if (seen.has(role)) {
+      throw createError.validation(`Role "${role}" is assigned more than once`);
+    }
+
+    seen.add(role);
+    next = index + 1;
+    return { role, color: base[index] };
+  });
+};
+
+const buildTokenSets = (palette: TokenPalette, options: DesignTokenOptions): TokenSet[] => {
+  const names = uniqueColorKeys(palette.colors);
+
+  const base: ColorToken[] = palette.colors.map((color, index) => {
+    const hex = color.hex.toUpperCase();
+    return {
+      name: names[index],
+      hex,
+      wideGamut: color.wideGamut ?? undefined,
+      description: `${color.name || hex} (${palette.name}, color ${index + 1} of ${palette.colors.length})`,
+    };
+  });
+
+  const sets: TokenSet[] = [{ name: 'base', tokens: base }];
+
+  // Without named roles, each base color is its own role in the theme sets
+  const roles = options.roles.length > 0
+    ? resolveRoles(options.roles, base)
+    : options.dark ? base.map((color) => ({ role: color.name, color })) : [];
+
+  if (roles.length === 0) return sets;
+
+  const aliases = roles.map(({ role, color }) => ({
+    name: role,
+    hex: color.hex,
+    wideGamut: color.wideGamut,
+    alias: color.name,
+    description: `${role} role, uses ${color.description}`,
+  }));
+
+  if (!options.dark) {
+    return [...sets, { name: 'role', tokens: aliases }];
+  }
+
+  return [
+    ...sets,
+    { name: 'light', tokens: aliases },
+    {
+      name: 'dark',
+      tokens: roles.map(({ role, color }) => ({
+        name: role,
+        hex: toDarkThemeHex(color.hex),
+        description: `${role} role, dark theme counterpart of ${color.hex}`,
+      })),
+    },
+  ];
+};
+
+// ==================== DTCG ====================
+
+// DTCG color value: wide-gamut colors as components in their own space, with the sRGB hex as fallback
+const dtcgColor = (token: ColorToken) => (token.wideGamut
+  ? {
+    colorSpace: token.wideGamut.space,
+    components: [token.wideGamut.r, token.wideGamut.g, token.wideGamut.b],
+    hex: token.hex,
+  }
+  : token.hex);
+
+/**
+ * Design Tokens Community Group format: $type is declared once on the top group
+ * and inherited; aliases use the {group.token} syntax.
+ */
+export const encodeDtcg = (palette: TokenPalette, options: DesignTokenOptions): string => {
+  const root: Record<string, unknown> = { $type: 'color' };
+  if (palette.description) root.$description = palette.description;
+
+  for (const set of buildTokenSets(palette, options)) {
+    root[set.name] = Object.fromEntries(set.tokens.map((token) => [token.name, {
+      $value: token.alias ? `{${options.prefix}.base.${token.alias}}` : dtcgColor(token),
+      $description: token.description,
+    }]));
+  }
+
+  return `${JSON.stringify({ [options.prefix]: root }, null, 2)}\n`;
+};
+
+// ==================== STYLE DICTIONARY ====================
+
+/**
+ * Style Dictionary source files, one per token set, zipped under tokens/<prefix>/.
+ * Uses the value/type/comment token keys and {path.value} references,
+ * which Style Dictionary 3 and 4 both read. value is the sRGB hex; wide-gamut colors add
+ * their color() value as wideGamut, for transforms that target Display P3 or Rec. 2020.
+ */
+export const encodeStyleDictionary = (palette: TokenPalette, options: DesignTokenOptions): Buffer =>
+  createZip(buildTokenSets(palette, options).map((set) => ({
+    path: `tokens/${options.prefix}/${set.name}.json`,
+    data: `${JSON.stringify({
+      [options.prefix]: {
+        [set.name]: Object.fromEntries(set.tokens.map((token) => [token.name, {
+          value: token.alias ? `{${options.prefix}.base.${token.alias}.value}` : token.hex,
+          ...(token.wideGamut ? { wideGamut: formatCssColor(token.wideGamut) } : {}),
+          type: 'color',
+          comment: token.description,
+        }])),
+      },
+    }, null, 2)}\n`,
+  })));
@@ -0,0 +1,49 @@
+import { decodeGpl, encodeGpl, isGpl } from './gpl';
+import { SwatchDocument } from './types';
+
+const document: SwatchDocument = {
+  name: 'Sea',
+  colors: [
+    { name: 'Ocean', hex: '#1E6FD9' },
+    { name: null, hex: '#000000' },
+  ],
+  groups: [
+    { name: 'Beach', colors: [{ name: 'Sand\nDune', hex: '#E8D3A2' }] },
+  ],
+};
+
+describe('GPL round trip', () => {
+  it('keeps the palette name and colors, with grouped colors after the rest', () => {
+    const decoded = decodeGpl(Buffer.from(encodeGpl(document)));
+
+    expect(decoded.name).toBe('Sea');
+    expect(decoded.groups).toEqual([]);
+    expect(decoded.colors).toEqual([
+      { name: 'Ocean', hex: '#1E6FD9' },
+      { name: null, hex: '#000000' },
+      { name: 'Sand Dune', hex: '#E8D3A2' },
+    ]);
+  });
+
+  it('reads files with a byte order mark, comments and CRLF line ends', () => {
+    const decoded = decodeGpl(Buffer.from('\uFEFFGIMP Palette\r\nName: Mono\r\n# gray\r\n128 128 128 Mid gray\r\n'));
+
+    expect(decoded).toEqual({ name: 'Mono', colors: [{ name: 'Mid gray', hex: '#808080' }], groups: [] });
+  });
+});
+
+describe('malformed GPL files', () => {
+  it('detects the header', () => {
+    expect(isGpl(Buffer.from(encodeGpl(document)))).toBe(true);
+    expect(isGpl(Buffer.from('; paint.net Palette File'))).toBe(false);
+  });
+
+  it('rejects files without the header', () => {
+    expect(() => decodeGpl(Buffer.from('255 0 0 Red\n'))).toThrow('missing "GIMP Palette" header');
+  });
+
+  it('rejects unreadable lines and channels above 255', () => {
+    expect(() => decodeGpl(Buffer.from('GIMP Palette\n255 red 0\n'))).toThrow('unreadable color on line 2');
+    expect(() => decodeGpl(Buffer.from('GIMP Palette\n#\n256 0 0 Red\n'))).toThrow('channel out of range on line 3');
+  });
+});
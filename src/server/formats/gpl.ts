@@ -0,0 +1,78 @@
+/**
+ * GIMP Palette (.gpl), also used by Inkscape, Krita and Aseprite
+ *
+ * Layout (UTF-8 text):
+ *   GIMP Palette
+ *   Name: <palette name>
+ *   Columns: <n>          optional
+ *   # comment lines
+ *   <r> <g> <b>  <name>   one color per line, channels 0..255, name optional
+ */
+
+import { createError } from '../middleware/error-handler';
+import { hexToRgb, rgbToHex } from '../../lib/color';
+import { SwatchColor, SwatchDocument } from './types';
+
+const HEADER = 'GIMP Palette';
+
+const singleLine = (text: string) => text.replace(/[\r\n]+/g, ' ').trim();
+
+// ==================== ENCODING ====================
+
+// GPL has no groups, so grouped colors are written after ungrouped ones in order
+export const encodeGpl = (document: SwatchDocument): string => {
+  const colors = [...document.colors, ...document.groups.flatMap((group) => group.colors)];
+
+  const lines = [HEADER];
+  if (document.name) lines.push(`Name: ${singleLine(document.name)}`);
+  lines.push(`Columns: ${Math.min(colors.length, 16)}`, '#');
+
+  for (const color of colors) {
+    const { r, g, b } = hexToRgb(color.hex);
+    const channels = [r, g, b].map((channel) => String(channel).padStart(3)).join(' ');
+    lines.push(color.name ? `${channels}\t${singleLine(color.name)}` : channels);
+  }
+
+  return `${lines.join('\n')}\n`;
+};
+
+// ==================== DECODING ====================
+
+const invalid = (reason: string) => createError.validation(`Invalid GPL file: ${reason}`);
+
+const toText = (buffer: Buffer) => buffer.toString('utf8').replace(/^﻿/, '');
+
+export const isGpl = (buffer: Buffer): boolean => toText(buffer.subarray(0, 64)).startsWith(HEADER);
+
+export const decodeGpl = (buffer: Buffer): SwatchDocument => {
+  const lines = toText(buffer).split(/\r?\n/);
+
+  if (!lines[0]?.startsWith(HEADER)) throw invalid('missing "GIMP Palette" header');
+
+  const document: SwatchDocument = { colors: [], groups: [] };
+
+  lines.slice(1).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) return;
+
+    const header = /^(Name|Columns):\s*(.*)$/i.exec(trimmed);
+    if (header) {
+      if (header[1].toLowerCase() === 'name' && header[2]) document.name = header[2];
+      return;
+    }
+
+    const match = /^(\d+)\s+(\d+)\s+(\d+)(?:\s+(.*))?$/.exec(trimmed);
+    if (!match) throw invalid(`unreadable color on line ${index + 2}`);
+
+    const values = [Number(match[1]), Number(match[2]), Number(match[3])];
+    if (values.some((value) => value > 255)) throw invalid(`channel out of range on line ${index + 2}`);
+
+    const color: SwatchColor = {
+      name: match[4]?.trim() || null,
+      hex: rgbToHex({ r: values[0], g: values[1], b: values[2] }),
+    };
+    document.colors.push(color);
+  });
+
+  return document;
+};
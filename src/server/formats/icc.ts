@@ -0,0 +1,244 @@
+/**
+ * ICC color profiles (.icc, .icm)
+ *
+ * Layout (all values big-endian):
+ *   128-byte header: size, CMM, version, device class, color space ("CMYK"), PCS ("Lab " or "XYZ "), ...
+ *   tag count (uint32), then tag entries of signature + offset + size (3 x uint32).
+ * Only what a CMYK output profile needs is read: the A2B0..2 / B2A0..2 lookup tables as lut8 ("mft1")
+ * or lut16 ("mft2"), the media white point ("wtpt") and the description ("desc").
+ * v4 "mAB " / "mBA " tables are not supported.
+ *
+ * Lookup tables work on normalized channels (0..1); labToDevice/deviceToLab apply the PCS encodings.
+ */
+
+import { createError } from '../middleware/error-handler';
+import { Lab, Xyz, labToXyz, xyzToLab } from '../../lib/color';
+
+export type IccLutTag = 'A2B0' | 'A2B1' | 'A2B2' | 'B2A0' | 'B2A1' | 'B2A2';
+
+const LUT_TAGS: IccLutTag[] = ['A2B0', 'A2B1', 'A2B2', 'B2A0', 'B2A1', 'B2A2'];
+
+export interface IccLut {
+  // 8 for lut8, 16 for lut16; decides the Lab PCS encoding
+  precision: 8 | 16;
+  inputChannels: number;
+  outputChannels: number;
+  gridPoints: number;
+  // 3x3, row-major; only applied to XYZ input
+  matrix: number[];
+  inputCurves: number[][];
+  // Normalized grid values, the first input channel varying slowest
+  clut: Float32Array;
+  outputCurves: number[][];
+}
+
+export interface IccProfile {
+  version: string;
+  deviceClass: string;
+  colorSpace: string;
+  pcs: 'Lab' | 'XYZ';
+  description: string | null;
+  mediaWhite: Xyz | null;
+  luts: Partial<Record<IccLutTag, IccLut>>;
+}
+
+const HEADER_SIZE = 128;
+
+const invalid = (reason: string) => createError.validation(`Invalid ICC profile: ${reason}`);
+
+// ==================== DECODING ====================
+
+const readS15Fixed16 = (buffer: Buffer, offset: number) => buffer.readInt32BE(offset) / 65536;
+
+const readSignature = (buffer: Buffer, offset: number) => buffer.toString('ascii', offset, offset + 4);
+
+const readLut = (buffer: Buffer, offset: number, size: number): IccLut => {
+  const type = readSignature(buffer, offset);
+  if (type !== 'mft1' && type !== 'mft2') {
+    throw invalid(`unsupported lookup table type "${type.trim()}"`);
+  }
+
+  const precision = type === 'mft1' ? 8 : 16;
+  const inputChannels = buffer.readUInt8(offset + 8);
+  const outputChannels = buffer.readUInt8(offset + 9);
+  const gridPoints = buffer.readUInt8(offset + 10);
+  const matrix = Array.from({ length: 9 }, (_, i) => readS15Fixed16(buffer, offset + 12 + i * 4));
+
+  const inputEntries = precision === 8 ? 256 : buffer.readUInt16BE(offset + 48);
+  const outputEntries = precision === 8 ? 256 : buffer.readUInt16BE(offset + 50);
+  const bytes = precision / 8;
+  const max = precision === 8 ? 255 : 65535;
+  const clutSize = gridPoints ** inputChannels * outputChannels;
+
+  let position = offset + (precision === 8 ? 48 : 52);
+  const end = position + (inputChannels * inputEntries + clutSize + outputChannels * outputEntries) * bytes;
+  if (end > offset + size || end > buffer.length) throw invalid('truncated lookup table');
+
+  const read = () => {
+    const value = bytes === 1 ? buffer.readUInt8(position) : buffer.readUInt16BE(position);
+    position += bytes;
+    return value / max;
+  };
+
+  const inputCurves = Array.from({ length: inputChannels }, () => Array.from({ length: inputEntries }, read));
+  const clut = new Float32Array(clutSize);
+  for (let i = 0; i < clutSize; i++) clut[i] = read();
+  const outputCurves = Array.from({ length: outputChannels }, () => Array.from({ length: outputEntries }, read));
+
+  return { precision, inputChannels, outputChannels, gridPoints, matrix, inputCurves, clut, outputCurves };
+};
+
+const readXyz = (buffer: Buffer, offset: number): Xyz => ({
+  x: readS15Fixed16(buffer, offset + 8),
+  y: readS15Fixed16(buffer, offset + 12),
+  z: readS15Fixed16(buffer, offset + 16),
+});
+
+// v2 "desc" (ASCII) or v4 "mluc" (first record, UTF-16BE)
+const readDescription = (buffer: Buffer, offset: number): string | null => {
+  const type = readSignature(buffer, offset);
+  if (type === 'desc') {
+    const length = buffer.readUInt32BE(offset + 8);
+    return buffer.toString('latin1', offset + 12, offset + 12 + length).replace(/\0+$/, '');
+  }
+  if (type === 'mluc' && buffer.readUInt32BE(offset + 8) > 0) {
+    const length = buffer.readUInt32BE(offset + 20);
+    const start = offset + buffer.readUInt32BE(offset + 24);
+    return buffer.subarray(start, start + length).swap16().toString('utf16le');
+  }
+  return null;
+};
+
+export const isIccProfile = (buffer: Buffer): boolean =>
+  buffer.length >= HEADER_SIZE && readSignature(buffer, 36) === 'acsp';
+
+export const parseIccProfile = (buffer: Buffer): IccProfile => {
+  if (!isIccProfile(buffer)) throw invalid('missing "acsp" signature');
+
+  const pcs = readSignature(buffer, 20);
+  if (pcs !== 'Lab ' && pcs !== 'XYZ ') throw invalid(`unsupported PCS "${pcs.trim()}"`);
+
+  const profile: IccProfile = {
+    version: `${buffer.readUInt8(8)}.${buffer.readUInt8(9) >> 4}`,
+    deviceClass: readSignature(buffer, 12).trim(),
+    colorSpace: readSignature(buffer, 16).trim(),
+    pcs: pcs === 'Lab ' ? 'Lab' : 'XYZ',
+    description: null,
+    mediaWhite: null,
+    luts: {},
+  };
+
+  const count = buffer.readUInt32BE(HEADER_SIZE);
+  if (HEADER_SIZE + 4 + count * 12 > buffer.length) throw invalid('truncated tag table');
+
+  for (let i = 0; i < count; i++) {
+    const entry = HEADER_SIZE + 4 + i * 12;
+    const signature = readSignature(buffer, entry);
+    const offset = buffer.readUInt32BE(entry + 4);
+    const size = buffer.readUInt32BE(entry + 8);
+    if (offset + size > buffer.length) throw invalid(`tag "${signature}" is out of bounds`);
+
+    if ((LUT_TAGS as string[]).includes(signature)) {
+      profile.luts[signature as IccLutTag] = readLut(buffer, offset, size);
+    } else if (signature === 'wtpt') {
+      profile.mediaWhite = readXyz(buffer, offset);
+    } else if (signature === 'desc') {
+      profile.description = readDescription(buffer, offset);
+    }
+  }
+
+  return profile;
+};
+
+// ==================== EVALUATION ====================
+
+// Linear interpolation in a 1D table over 0..1
+const curve = (table: number[], value: number) => {
+  if (table.length < 2) return value;
+  const position = Math.min(1, Math.max(0, value)) * (table.length - 1);
+  const index = Math.min(table.length - 2, Math.floor(position));
+  return table[index] + (table[index + 1] - table[index]) * (position - index);
+};
+
+// Multilinear interpolation between the 2^n grid points around the input
+const interpolateClut = (lut: IccLut, input: number[]): number[] => {
+  const { gridPoints, inputChannels, outputChannels, clut } = lut;
+  const cells = input.map((value) => {
+    const position = Math.min(1, Math.max(0, value)) * (gridPoints - 1);
+    const index = Math.min(gridPoints - 2, Math.floor(position));
+    return { index, fraction: position - index };
+  });
+
+  const output = new Array<number>(outputChannels).fill(0);
+  for (let corner = 0; corner < 1 << inputChannels; corner++) {
+    let weight = 1;
+    let offset = 0;
+    for (let channel = 0; channel < inputChannels; channel++) {
+      const upper = (corner >> (inputChannels - 1 - channel)) & 1;
+      weight *= upper ? cells[channel].fraction : 1 - cells[channel].fraction;
+      offset = offset * gridPoints + cells[channel].index + upper;
+    }
+    if (weight === 0) continue;
+    for (let out = 0; out < outputChannels; out++) {
+      output[out] += weight * clut[offset * outputChannels + out];
+    }
+  }
+  return output;
+};
+
+/**
+ * Run normalized channels through a lookup table: matrix (XYZ input only), input curves,
+ * grid, output curves
+ */
+const evaluateLut = (lut: IccLut, input: number[], xyzInput = false): number[] => {
+  const [a, b, c] = input;
+  const matrixed = xyzInput
+    ? [0, 1, 2].map((row) => lut.matrix[row * 3] * a + lut.matrix[row * 3 + 1] * b + lut.matrix[row * 3 + 2] * c)
+    : input;
+
+  const linearized = matrixed.map((value, channel) => curve(lut.inputCurves[channel], value));
+  return interpolateClut(lut, linearized).map((value, channel) => curve(lut.outputCurves[channel], value));
+};
+
+// ==================== PCS ENCODINGS ====================
+
+// lut16 uses the legacy 16-bit Lab encoding, where L* 100 is 0xFF00 and a*/b* 0 is 0x8000
+const labToPcs = ({ l, a, b }: Lab, precision: 8 | 16): number[] => (precision === 8
+  ? [l / 100, (a + 128) / 255, (b + 128) / 255]
+  : [(l / 100) * (0xff00 / 0xffff), ((a + 128) * 256) / 0xffff, ((b + 128) * 256) / 0xffff]);
+
+const pcsToLab = ([l, a, b]: number[], precision: 8 | 16): Lab => (precision === 8
+  ? { l: l * 100, a: a * 255 - 128, b: b * 255 - 128 }
+  : { l: ((l * 0xffff) / 0xff00) * 100, a: (a * 0xffff) / 256 - 128, b: (b * 0xffff) / 256 - 128 });
+
+// XYZ PCS values are u1Fixed15: 1.0 is 0x8000
+const xyzToPcs = ({ x, y, z }: Xyz): number[] => [x, y, z].map((value) => (value * 0x8000) / 0xffff);
+
+const pcsToXyz = ([x, y, z]: number[]): Xyz => ({
+  x: (x * 0xffff) / 0x8000,
+  y: (y * 0xffff) / 0x8000,
+  z: (z * 0xffff) / 0x8000,
+});
+
+// ==================== TRANSFORMS ====================
+
+const lookupTable = (profile: IccProfile, tag: IccLutTag): IccLut => {
+  const lut = profile.luts[tag];
+  if (!lut) throw invalid(`missing ${tag} table`);
+  return lut;
+};
+
+// CIELAB (D50, media-relative) through a B2A table to device channels 0..1
+export const labToDevice = (profile: IccProfile, tag: IccLutTag, lab: Lab): number[] => {
+  const lut = lookupTable(profile, tag);
+  return profile.pcs === 'Lab'
+    ? evaluateLut(lut, labToPcs(lab, lut.precision))
+    : evaluateLut(lut, xyzToPcs(labToXyz(lab)), true);
+};
+
+// Device channels 0..1 through an A2B table to CIELAB (D50, media-relative)
+export const deviceToLab = (profile: IccProfile, tag: IccLutTag, values: number[]): Lab => {
+  const lut = lookupTable(profile, tag);
+  const pcs = evaluateLut(lut, values);
+  return profile.pcs === 'Lab' ? pcsToLab(pcs, lut.precision) : xyzToLab(pcsToXyz(pcs));
+};
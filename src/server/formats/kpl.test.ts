@@ -0,0 +1,68 @@
+import { decodeKpl, encodeKpl, isKpl } from './kpl';
+import { SwatchDocument } from './types';
+import { createZip } from './zip';
+
+const document: SwatchDocument = {
+  name: 'Sea & Sand',
+  colors: [
+    { name: 'Ocean', hex: '#1E6FD9' },
+    { name: null, hex: '#000000' },
+  ],
+  groups: [
+    { name: 'Beach', colors: [{ name: 'Sand', hex: '#E8D3A2' }] },
+  ],
+};
+
+const kpl = (colorset: string) => createZip([
+  { path: 'mimetype', data: 'krita/x-colorset', store: true },
+  { path: 'colorset.xml', data: colorset },
+]);
+
+const entry = (color: string, position = '') =>
+  `<ColorSetEntry name="X" spot="false">${color}${position}</ColorSetEntry>`;
+
+describe('KPL round trip', () => {
+  it('keeps the palette name, color names and groups', () => {
+    const decoded = decodeKpl(encodeKpl(document));
+
+    expect(decoded.name).toBe('Sea & Sand');
+    expect(decoded.colors.map((color) => [color.name, color.hex])).toEqual([
+      ['Ocean', '#1E6FD9'],
+      [null, '#000000'],
+    ]);
+    expect(decoded.groups).toEqual([{ name: 'Beach', colors: [{ name: 'Sand', hex: '#E8D3A2' }] }]);
+  });
+
+  it('reads CMYK, Lab and gray entries in grid order', () => {
+    const decoded = decodeKpl(kpl(`<ColorSet name="Models" columns="2">
+      ${entry('<Gray g="1"/>', '<Position row="1" column="0"/>')}
+      ${entry('<CMYK c="0" m="0" y="0" k="1"/>', '<Position row="0" column="1"/>')}
+      ${entry('<Lab L="100" a="0" b="0"/>', '<Position row="0" column="0"/>')}
+    </ColorSet>`));
+
+    expect(decoded.colors.map((color) => [color.model, color.hex])).toEqual([
+      ['LAB', '#FFFFFF'],
+      ['CMYK', '#000000'],
+      ['Gray', '#FFFFFF'],
+    ]);
+  });
+});
+
+describe('malformed KPL files', () => {
+  it('detects the Krita mimetype', () => {
+    expect(isKpl(encodeKpl(document))).toBe(true);
+    expect(isKpl(createZip([{ path: 'mimetype', data: 'application/zip' }]))).toBe(false);
+    expect(isKpl(Buffer.from('GIMP Palette'))).toBe(false);
+  });
+
+  it('rejects archives without a color set', () => {
+    expect(() => decodeKpl(Buffer.from('GIMP Palette'))).toThrow('not a ZIP archive');
+    expect(() => decodeKpl(createZip([{ path: 'mimetype', data: 'krita/x-colorset' }]))).toThrow('missing colorset.xml');
+    expect(() => decodeKpl(kpl('<Palette/>'))).toThrow('missing ColorSet element');
+  });
+
+  it('rejects non-numeric channels', () => {
+    expect(() => decodeKpl(kpl(`<ColorSet>${entry('<RGB r="red" g="0" b="0"/>')}</ColorSet>`)))
+      .toThrow('channel r="red" is not a number');
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Krita Palette (.kpl)
+ *
+ * A ZIP archive with:
+ *   mimetype       "krita/x-colorset", stored first and uncompressed
+ *   colorset.xml   <ColorSet name columns rows ...> with <ColorSetEntry name spot bitdepth>
+ *                  entries, each holding one color element (<RGB r g b/>, <CMYK/>, <Lab/>, <Gray/>)
+ *                  and a <Position row column/>; <Group name rows> elements hold named groups
+ *   profiles.xml   embedded ICC profiles (none are written)
+ * RGB, CMYK and Gray channels are 0..1; Lab is L 0..100 with signed a/b.
+ */
+
+import { createError } from '../middleware/error-handler';
+import { hexToRgb, labToRgb, rgbToHex } from '../../lib/color';
+import { cmykToRgb, grayToRgb } from './color-models';
+import { SwatchColor, SwatchDocument, SwatchGroup } from './types';
+import { escapeXml, parseAttributes } from './xml';
+import { createZip, isZip, readZip } from './zip';
+
+const MIMETYPE = 'krita/x-colorset';
+
+const COLUMNS = 8;
+
+// ==================== ENCODING ====================
+
+const entryXml = (color: SwatchColor, index: number, indent: string) => {
+  const { r, g, b } = hexToRgb(color.hex);
+  const channel = (value: number) => Number((value / 255).toFixed(6));
+
+  return [
+    `${indent}<ColorSetEntry name="${escapeXml(color.name || '')}" id="" spot="false" bitdepth="U8">`,
+    `${indent} <RGB space="sRGB-elle-V2-srgbtrc.icc" r="${channel(r)}" g="${channel(g)}" b="${channel(b)}"/>`,
+    `${indent} <Position row="${Math.floor(index / COLUMNS)}" column="${index % COLUMNS}"/>`,
+    `${indent}</ColorSetEntry>`,
+  ];
+};
+
+const rowsFor = (count: number) => Math.max(1, Math.ceil(count / COLUMNS));
+
+export const encodeKpl = (document: SwatchDocument): Buffer => {
+  const colorset = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<ColorSet version="2.0" name="${escapeXml(document.name || '')}" comment="" columns="${COLUMNS}" `
+      + `rows="${rowsFor(document.colors.length)}" readonly="false">`,
+    ...document.colors.flatMap((color, index) => entryXml(color, index, ' ')),
+    ...document.groups.flatMap((group) => [
+      ` <Group name="${escapeXml(group.name)}" rows="${rowsFor(group.colors.length)}">`,
+      ...group.colors.flatMap((color, index) => entryXml(color, index, '  ')),
+      ' </Group>',
+    ]),
+    '</ColorSet>',
+    '',
+  ].join('\n');
+
+  return createZip([
+    { path: 'mimetype', data: MIMETYPE, store: true },
+    { path: 'colorset.xml', data: colorset },
+    { path: 'profiles.xml', data: '<?xml version="1.0" encoding="UTF-8"?>\n<Profiles/>\n' },
+  ]);
+};
+
+// ==================== DECODING ====================
+
+const invalid = (reason: string) => createError.validation(`Invalid KPL file: ${reason}`);
+
+export const isKpl = (buffer: Buffer): boolean => {
+  if (!isZip(buffer)) return false;
+  try {
+    return readZip(buffer).read('mimetype')?.toString('ascii').trim() === MIMETYPE;
+  } catch {
+    return false;
+  }
+};
+
+const number = (attributes: Record<string, string>, key: string) => {
+  const value = Number(attributes[key] ?? 0);
+  if (!Number.isFinite(value)) throw invalid(`channel ${key}="${attributes[key]}" is not a number`);
+  return value;
+};
+
+const readEntry = (xml: string): { color: SwatchColor; row: number; column: number } | null => {
+  const entry = parseAttributes(/<ColorSetEntry\b[^>]*>/.exec(xml)?.[0] || '');
+  const element = /<(RGB|sRGB|CMYK|Lab|Gray)\b[^>]*\/?>/.exec(xml);
+  if (!element) return null;
+
+  const attributes = parseAttributes(element[0]);
+  let color: SwatchColor;
+
+  switch (element[1]) {
+    case 'CMYK': {
+      const values = ['c', 'm', 'y', 'k'].map((key) => number(attributes, key));
+      color = { name: null, hex: rgbToHex(cmykToRgb(values[0], values[1], values[2], values[3])), model: 'CMYK', values };
+      break;
+    }
+    case 'Lab': {
+      const values = ['L', 'a', 'b'].map((key) => number(attributes, key));
+      color = { name: null, hex: rgbToHex(labToRgb({ l: values[0], a: values[1], b: values[2] })), model: 'LAB', values };
+      break;
+    }
+    case 'Gray': {
+      const values = [number(attributes, 'g')];
+      color = { name: null, hex: rgbToHex(grayToRgb(values[0])), model: 'Gray', values };
+      break;
+    }
+    default: {
+      const [r, g, b] = ['r', 'g', 'b'].map((key) => number(attributes, key) * 255);
+      color = { name: null, hex: rgbToHex({ r, g, b }) };
+    }
+  }
+
+  color.name = entry.name || null;
+  if (entry.spot === 'true') color.type = 'spot';
+
+  const position = parseAttributes(/<Position\b[^>]*\/?>/.exec(xml)?.[0] || '');
+  return {
+    color,
+    row: position.row === undefined ? Infinity : Number(position.row),
+    column: Number(position.column ?? 0),
+  };
+};
+
+// Entries in grid order; entries without a position keep their document order at the end
+const readEntries = (xml: string, columns: number): SwatchColor[] =>
+  [...xml.matchAll(/<ColorSetEntry\b[\s\S]*?<\/ColorSetEntry>/g)]
+    .map((match) => readEntry(match[0]))
+    .filter((entry): entry is NonNullable<ReturnType<typeof readEntry>> => entry !== null)
+    .map((entry, order) => ({ ...entry, order }))
+    .sort((a, b) => (a.row * columns + a.column) - (b.row * columns + b.column) || a.order - b.order)
+    .map((entry) => entry.color);
+
+export const decodeKpl = (buffer: Buffer): SwatchDocument => {
+  if (!isZip(buffer)) throw invalid('not a ZIP archive');
+
+  const xml = readZip(buffer).read('colorset.xml')?.toString('utf8');
+  if (!xml) throw invalid('missing colorset.xml');
+
+  const root = /<ColorSet\b[^>]*>/.exec(xml);
+  if (!root) throw invalid('missing ColorSet element');
+
+  const attributes = parseAttributes(root[0]);
+  const columns = Math.max(1, Number(attributes.columns) || COLUMNS);
+
+  const groups: SwatchGroup[] = [];
+  const ungrouped = xml.replace(/<Group\b([^>]*)>([\s\S]*?)<\/Group>/g, (_, groupAttributes: string, body: string) => {
+    groups.push({ name: parseAttributes(groupAttributes).name || '', colors: readEntries(body, columns) });
+    return '';
+  });
+
+  return {
+    name: attributes.name || undefined,
+    colors: readEntries(ungrouped, columns),
+    groups: groups.filter((group) => group.colors.length > 0),
+  };
+};
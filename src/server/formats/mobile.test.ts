@@ -0,0 +1,41 @@
+import { encodeAndroidColors, encodeComposeColors, encodeFlutterColors } from './mobile';
+
+const palette = {
+  name: 'Keywords',
+  colors: [
+    { hex: '#FF0000', name: 'new' },
+    { hex: '#00FF00', name: 'class' },
+    { hex: '#0000FF', name: 'values' },
+    { hex: '#FFFF00', name: 'color' },
+    { hex: '#00FFFF', name: '500' },
+  ],
+};
+
+describe('native color names', () => {
+  it('keeps Java keywords out of Android resource names', () => {
+    const xml = encodeAndroidColors(palette);
+
+    expect(xml).toContain('<color name="new_color">#FFFF0000</color>');
+    expect(xml).toContain('<color name="class_color">#FF00FF00</color>');
+    expect(xml).toContain('<color name="color_500">#FF00FFFF</color>');
+  });
+
+  it('keeps Dart keywords and the values list out of Flutter constants', () => {
+    const dart = encodeFlutterColors(palette, {});
+
+    expect(dart).toContain('static const Color newColor = Color(0xFFFF0000);');
+    expect(dart).toContain('static const Color classColor = Color(0xFF00FF00);');
+    expect(dart).toContain('static const Color valuesColor = Color(0xFF0000FF);');
+    expect(dart).toContain('static const Color color500 = Color(0xFF00FFFF);');
+    expect(dart).toContain('newColor,');
+  });
+
+  it('does not shadow the Color constructor in Compose', () => {
+    const kotlin = encodeComposeColors({ ...palette, colors: [...palette.colors, { hex: '#000000', name: 'val' }] }, {});
+
+    expect(kotlin).toContain('val ColorColor = Color(0xFFFFFF00)');
+    expect(kotlin).toContain('val Color500 = Color(0xFF00FFFF)');
+    expect(kotlin).toContain('val Val = Color(0xFF000000)');
+    expect(kotlin).not.toMatch(/val Color = /);
+  });
+});
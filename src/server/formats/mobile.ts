@@ -0,0 +1,253 @@
+/**
+ * Native platform exports
+ *
+ * Android: res/values/colors.xml
+ * iOS:     zipped Colors.xcassets with one .colorset per color, optionally with a dark appearance
+ * Flutter: Dart class of Color constants
+ * Compose: Kotlin object of Color values
+ *
+ * Every color is written as its sRGB hex. Wide-gamut colors also get their Display P3 value:
+ * a P3 variant in the asset catalog, a <name>P3 constant in Flutter and Compose, and a comment
+ * in colors.xml, whose <color> resources are sRGB only.
+ */
+
+import { GamutColor, convertGamutColor, formatCssColor, mapToGamut } from '../../lib/color';
+import { toDarkThemeHex } from './design-tokens';
+import { slugify, uniqueColorKeys } from './naming';
+import { escapeXml } from './xml';
+import { createZip } from './zip';
+
+export interface NativePalette {
+  name: string;
+  colors: Array<{ hex: string; name?: string | null; wideGamut?: GamutColor | null }>;
+}
+
+export interface XcassetsOptions {
+  // Add a dark appearance to every color set
+  dark: boolean;
+}
+
+export interface CodeOptions {
+  // Generated class or object name; defaults to the palette name + "Colors"
+  className?: string;
+  // Kotlin package
+  packageName?: string;
+}
+
+// AARRGGBB as used by Android resources and the Flutter/Compose Color constructors
+const argb = (hex: string) => `FF${hex.replace('#', '').toUpperCase()}`;
+
+// Display P3 channels of a wide-gamut color; Rec. 2020 colors are gamut mapped into P3
+const p3Channels = (color: GamutColor) => mapToGamut(convertGamutColor(color, 'display-p3'), 'display-p3');
+
+// Names of the P3 constants, e.g. oceanP3, kept clear of the color names
+const p3Names = (names: string[]) => {
+  const used = new Set(names);
+  return names.map((name) => {
+    let key = `${name}P3`;
+    for (let suffix = 2; used.has(key); suffix++) {
+      key = `${name}P3${suffix}`;
+    }
+    used.add(key);
+    return key;
+  });
+};
+
+const lineComment = (text: string) => text.replace(/\s+/g, ' ');
+
+// Resource names become fields of the generated Java R class
+const JAVA_RESERVED = new Set([
+  'abstract', 'assert', 'boolean', 'break', 'byte', 'case', 'catch', 'char', 'class', 'const',
+  'continue', 'default', 'do', 'double', 'else', 'enum', 'extends', 'false', 'final', 'finally',
+  'float', 'for', 'goto', 'if', 'implements', 'import', 'instanceof', 'int', 'interface', 'long',
+  'native', 'new', 'null', 'package', 'private', 'protected', 'public', 'return', 'short', 'static',
+  'strictfp', 'super', 'switch', 'synchronized', 'this', 'throw', 'throws', 'transient', 'true',
+  'try', 'void', 'volatile', 'while', '_',
+]);
+
+// Dart reserved words and built-in identifiers, plus the generated values list
+const DART_RESERVED = new Set([
+  'abstract', 'as', 'assert', 'async', 'await', 'base', 'break', 'case', 'catch', 'class', 'const',
+  'continue', 'covariant', 'default', 'deferred', 'do', 'dynamic', 'else', 'enum', 'export',
+  'extends', 'extension', 'external', 'factory', 'false', 'final', 'finally', 'for',
+  'get', 'hide', 'if', 'implements', 'import', 'in', 'interface', 'is', 'late', 'library', 'mixin',
+  'new', 'null', 'on', 'operator', 'part', 'required', 'rethrow', 'return', 'sealed', 'set',
+  'show', 'static', 'super', 'switch', 'sync', 'this', 'throw', 'true', 'try', 'typedef',
+  'var', 'void', 'when', 'while', 'with', 'yield', 'values',
+]);
+
+// Kotlin hard keywords, plus Color itself, which a property of that name would shadow
+const KOTLIN_RESERVED = new Set([
+  'as', 'break', 'class', 'continue', 'do', 'else', 'false', 'for', 'fun', 'if', 'in', 'interface',
+  'is', 'null', 'object', 'package', 'return', 'super', 'this', 'throw', 'true', 'try', 'typealias',
+  'typeof', 'val', 'var', 'when', 'while', 'Color',
+]);
+
+const defaultClassName = (palette: NativePalette) => {
+  const words = slugify(palette.name, true).split('-').filter(Boolean);
+  const stem = words.map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join('');
+  return /^[A-Z]/.test(stem) ? `${stem}Colors` : 'PaletteColors';
+};
+
+// ==================== ANDROID ====================
+
+export const encodeAndroidColors = (palette: NativePalette): string => {
+  const names = uniqueColorKeys(palette.colors, { ascii: true, style: 'snake', reserved: JAVA_RESERVED });
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    `<!-- ${escapeXml(palette.name).replace(/--/g, '- -')} -->`,
+    '<resources>',
+    ...palette.colors.map((color, index) => {
+      const notes = [
+        ...(color.name ? [escapeXml(color.name).replace(/--/g, '- -')] : []),
+        ...(color.wideGamut ? [formatCssColor(p3Channels(color.wideGamut))] : []),
+      ];
+      const comment = notes.length > 0 ? ` <!-- ${notes.join('; ')} -->` : '';
+      return `    <color name="${names[index]}">#${argb(color.hex)}</color>${comment}`;
+    }),
+    '</resources>',
+    '',
+  ].join('\n');
+};
+
+// ==================== XCODE ASSET CATALOG ====================
+
+// Xcode writes JSON with spaces around the colons
+const xcodeJson = (value: unknown) => `${JSON.stringify(value, null, 2).replace(/": /g, '" : ')}\n`;
+
+const XCODE_INFO = { author: 'xcode', version: 1 };
+
+const colorComponents = (hex: string) => {
+  const value = hex.replace('#', '').toUpperCase();
+  return {
+    alpha: '1.000',
+    blue: `0x${value.slice(4, 6)}`,
+    green: `0x${value.slice(2, 4)}`,
+    red: `0x${value.slice(0, 2)}`,
+  };
+};
+
+// Display P3 channels as decimal strings, the way Xcode writes them for that color space
+const p3Components = (color: GamutColor) => {
+  const { r, g, b } = p3Channels(color);
+  return { alpha: '1.000', blue: b.toFixed(3), green: g.toFixed(3), red: r.toFixed(3) };
+};
+
+// Wide-gamut colors get a Display P3 variant next to the sRGB fallback
+const colorSet = (hex: string, wideGamut: GamutColor | null | undefined, dark: boolean) => ({
+  colors: [
+    ...(wideGamut ? [
+      {
+        color: { 'color-space': 'srgb', components: colorComponents(hex) },
+        'display-gamut': 'sRGB',
+        idiom: 'universal',
+      },
+      {
+        color: { 'color-space': 'display-p3', components: p3Components(wideGamut) },
+        'display-gamut': 'display-P3',
+        idiom: 'universal',
+      },
+    ] : [{
+      color: { 'color-space': 'srgb', components: colorComponents(hex) },
+      idiom: 'universal',
+    }]),
+    ...(dark ? [{
+      appearances: [{ appearance: 'luminosity', value: 'dark' }],
+      color: { 'color-space': 'srgb', components: colorComponents(toDarkThemeHex(hex)) },
+      idiom: 'universal',
+    }] : []),
+  ],
+  info: XCODE_INFO,
+});
+
+/**
+ * Zip with Colors.xcassets/<Palette>/<Color>.colorset/Contents.json.
+ * The palette folder provides a namespace, so colors are referenced as "Palette/Color".
+ */
+export const encodeXcassets = (palette: NativePalette, options: XcassetsOptions): Buffer => {
+  const folder = defaultClassName(palette).replace(/Colors$/, '');
+  const names = uniqueColorKeys(palette.colors, { ascii: true, style: 'pascal' });
+  const root = 'Colors.xcassets';
+
+  return createZip([
+    { path: `${root}/Contents.json`, data: xcodeJson({ info: XCODE_INFO }) },
+    {
+      path: `${root}/${folder}/Contents.json`,
+      data: xcodeJson({ info: XCODE_INFO, properties: { 'provides-namespace': true } }),
+    },
+    ...palette.colors.map((color, index) => ({
+      path: `${root}/${folder}/${names[index]}.colorset/Contents.json`,
+      data: xcodeJson(colorSet(color.hex, color.wideGamut, options.dark)),
+    })),
+  ]);
+};
+
+// ==================== FLUTTER ====================
+
+export const encodeFlutterColors = (palette: NativePalette, options: CodeOptions): string => {
+  const className = options.className || defaultClassName(palette);
+  const names = uniqueColorKeys(palette.colors, { ascii: true, style: 'camel', reserved: DART_RESERVED });
+  const wideNames = p3Names(names);
+  const wide = palette.colors.some((color) => color.wideGamut);
+
+  // Color.from with a color space needs Flutter 3.27
+  const p3Color = (color: GamutColor) => {
+    const { r, g, b } = p3Channels(color);
+    return `Color.from(alpha: 1, red: ${r.toFixed(4)}, green: ${g.toFixed(4)}, blue: ${b.toFixed(4)}, `
+      + 'colorSpace: ColorSpace.displayP3)';
+  };
+
+  return [
+    ...(wide ? ["import 'dart:ui' show ColorSpace;", ''] : []),
+    "import 'package:flutter/painting.dart';",
+    '',
+    `/// ${lineComment(palette.name)}`,
+    `class ${className} {`,
+    `  ${className}._();`,
+    '',
+    ...palette.colors.flatMap((color, index) => [
+      ...(color.name ? [`  /// ${lineComment(color.name)}`] : []),
+      `  static const Color ${names[index]} = Color(0x${argb(color.hex)});`,
+      ...(color.wideGamut ? [`  static const Color ${wideNames[index]} = ${p3Color(color.wideGamut)};`] : []),
+    ]),
+    '',
+    '  static const List<Color> values = [',
+    ...names.map((name) => `    ${name},`),
+    '  ];',
+    '}',
+    '',
+  ].join('\n');
+};
+
+// ==================== JETPACK COMPOSE ====================
+
+export const encodeComposeColors = (palette: NativePalette, options: CodeOptions): string => {
+  const objectName = options.className || defaultClassName(palette);
+  const names = uniqueColorKeys(palette.colors, { ascii: true, style: 'pascal', reserved: KOTLIN_RESERVED });
+  const wideNames = p3Names(names);
+  const wide = palette.colors.some((color) => color.wideGamut);
+
+  const p3Color = (color: GamutColor) => {
+    const { r, g, b } = p3Channels(color);
+    return `Color(${r.toFixed(4)}f, ${g.toFixed(4)}f, ${b.toFixed(4)}f, colorSpace = ColorSpaces.DisplayP3)`;
+  };
+
+  return [
+    ...(options.packageName ? [`package ${options.packageName}`, ''] : []),
+    'import androidx.compose.ui.graphics.Color',
+    ...(wide ? ['import androidx.compose.ui.graphics.colorspace.ColorSpaces'] : []),
+    '',
+    `/** ${lineComment(palette.name).replace(/\*\//g, '* /')} */`,
+    `object ${objectName} {`,
+    ...palette.colors.flatMap((color, index) => [
+      ...(color.name ? [`    /** ${lineComment(color.name).replace(/\*\//g, '* /')} */`] : []),
+      `    val ${names[index]} = Color(0x${argb(color.hex)})`,
+      ...(color.wideGamut ? [`    val ${wideNames[index]} = ${p3Color(color.wideGamut)}`] : []),
+    ]),
+    '',
+    `    val values = listOf(${names.join(', ')})`,
+    '}',
+    '',
+  ].join('\n');
+};
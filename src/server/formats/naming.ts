@@ -0,0 +1,70 @@
+/**
+ * Identifier names for palette colors in generated code and token files
+ */
+
+export interface NamedColor {
+  name?: string | null;
+}
+
+export type IdentifierStyle = 'kebab' | 'snake' | 'camel' | 'pascal';
+
+export interface ColorKeyOptions {
+  // Restrict keys to a-z0-9 for targets such as CSS class names and source code
+  ascii?: boolean;
+  style?: IdentifierStyle;
+  // Keywords and member names of the target language; such keys get a "color" suffix
+  reserved?: ReadonlySet<string>;
+}
+
+export const slugify = (value: string, ascii = false) => {
+  const normalized = ascii
+    // Decompose and drop the accents so "crème" becomes "creme"
+    ? value.normalize('NFKD').replace(/\p{M}/gu, '')
+    : value.normalize('NFC');
+
+  return normalized
+    .toLowerCase()
+    .replace(ascii ? /[^a-z0-9]+/g : /[^\p{L}\p{M}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
+};
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+// Kebab-case slug in another style; code identifiers never start with a digit
+const restyle = (slug: string, style: IdentifierStyle) => {
+  const words = slug.split('-');
+  if (style !== 'kebab' && /^\d/.test(slug)) words.unshift('color');
+
+  switch (style) {
+    case 'snake':
+      return words.join('_');
+    case 'camel':
+      return words[0] + words.slice(1).map(capitalize).join('');
+    case 'pascal':
+      return words.map(capitalize).join('');
+    default:
+      return words.join('-');
+  }
+};
+
+/**
+ * Unique keys from color names, falling back to color-<n> (or colorN, Color<n>, ... by style).
+ */
+export const uniqueColorKeys = (colors: NamedColor[], options: ColorKeyOptions = {}): string[] => {
+  const style = options.style || 'kebab';
+  const separator = style === 'snake' ? '_' : style === 'kebab' ? '-' : '';
+  const used = new Set<string>();
+
+  return colors.map((color, index) => {
+    const slug = (color.name && slugify(color.name, options.ascii)) || `color-${index + 1}`;
+    const stem = options.reserved?.has(restyle(slug, style))
+      ? restyle(`${slug}-color`, style)
+      : restyle(slug, style);
+    let key = stem;
+    for (let suffix = 2; used.has(key); suffix++) {
+      key = `${stem}${separator}${suffix}`;
+    }
+    used.add(key);
+    return key;
+  });
+};
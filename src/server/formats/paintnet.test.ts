@@ -0,0 +1,51 @@
+import { decodePaintNet, encodePaintNet, isPaintNet } from './paintnet';
+import { SwatchDocument } from './types';
+
+const document: SwatchDocument = {
+  name: 'Sea',
+  colors: [
+    { name: 'Ocean', hex: '#1E6FD9' },
+    { name: null, hex: '#000000' },
+  ],
+  groups: [
+    { name: 'Beach', colors: [{ name: 'Sand', hex: '#E8D3A2' }] },
+  ],
+};
+
+describe('Paint.NET round trip', () => {
+  it('keeps the palette name and the names written as comments', () => {
+    expect(decodePaintNet(Buffer.from(encodePaintNet(document)))).toEqual({
+      name: 'Sea',
+      colors: [
+        { name: 'Ocean', hex: '#1E6FD9' },
+        { name: null, hex: '#000000' },
+        { name: 'Sand', hex: '#E8D3A2' },
+      ],
+      groups: [],
+    });
+  });
+
+  it('writes at most 96 colors', () => {
+    const colors = Array.from({ length: 100 }, () => ({ name: null, hex: '#FF0000' }));
+    expect(decodePaintNet(Buffer.from(encodePaintNet({ colors, groups: [] }))).colors).toHaveLength(96);
+  });
+
+  it('drops alpha and ignores comments separated by a blank line', () => {
+    const decoded = decodePaintNet(Buffer.from('; Notes\n\n80FF0000\n'));
+    expect(decoded.colors).toEqual([{ name: null, hex: '#FF0000' }]);
+  });
+});
+
+describe('malformed Paint.NET palettes', () => {
+  it('detects the header or bare color lines', () => {
+    expect(isPaintNet(Buffer.from(encodePaintNet(document)))).toBe(true);
+    expect(isPaintNet(Buffer.from('FFFF0000\nFF00FF00\n'))).toBe(true);
+    expect(isPaintNet(Buffer.from('; paint.net Palette File\n'))).toBe(false);
+    expect(isPaintNet(Buffer.from('GIMP Palette\n255 0 0\n'))).toBe(false);
+  });
+
+  it('rejects unreadable lines and files without colors', () => {
+    expect(() => decodePaintNet(Buffer.from('; paint.net Palette File\nFF0000\n'))).toThrow('unreadable color on line 2');
+    expect(() => decodePaintNet(Buffer.from('; paint.net Palette File\n'))).toThrow('no colors found');
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Paint.NET palette (.txt)
+ *
+ * Layout (UTF-8 text): lines starting with ";" are comments, every other non-empty
+ * line is one AARRGGBB hex color. Paint.NET shows up to 96 colors.
+ * The format has no color names, so each name is written as a comment on the line
+ * above its color; Paint.NET ignores it and we read it back on import.
+ */
+
+import { createError } from '../middleware/error-handler';
+import { SwatchDocument } from './types';
+
+const HEADER = '; paint.net Palette File';
+
+// Standard header comments written by Paint.NET; never color names
+const HEADER_COMMENTS = [
+  'paint.net Palette File',
+  'Lines that start with a semicolon are comments',
+  'Colors are written as 8-digit hexadecimal numbers: aarrggbb',
+].map((text) => text.toLowerCase());
+
+const MAX_COLORS = 96;
+
+const singleLine = (text: string) => text.replace(/[\r\n]+/g, ' ').trim();
+
+// ==================== ENCODING ====================
+
+export const encodePaintNet = (document: SwatchDocument): string => {
+  const colors = [...document.colors, ...document.groups.flatMap((group) => group.colors)].slice(0, MAX_COLORS);
+
+  const lines = [
+    HEADER,
+    '; Lines that start with a semicolon are comments',
+    '; Colors are written as 8-digit hexadecimal numbers: aarrggbb',
+  ];
+  if (document.name) lines.push(`; Palette: ${singleLine(document.name)}`);
+
+  for (const color of colors) {
+    if (color.name) lines.push(`; ${singleLine(color.name)}`);
+    lines.push(`FF${color.hex.replace('#', '').toUpperCase()}`);
+  }
+
+  return `${lines.join('\r\n')}\r\n`;
+};
+
+// ==================== DECODING ====================
+
+const invalid = (reason: string) => createError.validation(`Invalid Paint.NET palette: ${reason}`);
+
+const toText = (buffer: Buffer) => buffer.toString('utf8').replace(/^﻿/, '');
+
+const COLOR_LINE = /^[0-9a-f]{8}$/i;
+
+// Paint.NET header, or only comments and AARRGGBB lines
+export const isPaintNet = (buffer: Buffer): boolean => {
+  const lines = toText(buffer).split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+  return lines.length > 0 && (
+    lines[0].toLowerCase().startsWith(HEADER.toLowerCase())
+    || lines.every((line) => line.startsWith(';') || COLOR_LINE.test(line))
+  ) && lines.some((line) => COLOR_LINE.test(line));
+};
+
+export const decodePaintNet = (buffer: Buffer): SwatchDocument => {
+  const document: SwatchDocument = { colors: [], groups: [] };
+  // The comment directly above a color is its name
+  let comment: string | null = null;
+
+  toText(buffer).split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      comment = null;
+      return;
+    }
+
+    if (trimmed.startsWith(';')) {
+      const text = trimmed.slice(1).trim();
+      const palette = /^Palette:\s*(.+)$/.exec(text);
+      if (palette) document.name = palette[1];
+      comment = palette || HEADER_COMMENTS.includes(text.toLowerCase()) ? null : text || null;
+      return;
+    }
+
+    if (!COLOR_LINE.test(trimmed)) throw invalid(`unreadable color on line ${index + 1}`);
+
+    // Alpha is dropped; palettes store opaque colors
+    document.colors.push({ name: comment, hex: `#${trimmed.slice(2).toUpperCase()}` });
+    comment = null;
+  });
+
+  if (document.colors.length === 0) throw invalid('no colors found');
+
+  return document;
+};
@@ -0,0 +1,270 @@
+/**
+ * Minimal PDF 1.4 writer for generated documents
+ *
+ * Pages are drawn with filled rectangles, lines and text in a top-left coordinate system
+ * (points, 72 per inch). Text uses the standard Helvetica fonts with WinAnsiEncoding; runs
+ * with characters outside WinAnsi (Hangul, CJK) use the non-embedded Adobe-Korea1 font
+ * HYGoThic-Medium, which readers substitute with an installed Korean font.
+ */
+
+import { deflateSync } from 'zlib';
+import { Rgb } from '../../lib/color';
+
+export const PAPER_SIZES = {
+  a4: { width: 595.28, height: 841.89 },
+  letter: { width: 612, height: 792 },
+} as const;
+
+export type PaperSize = keyof typeof PAPER_SIZES;
+
+export interface TextStyle {
+  size: number;
+  bold?: boolean;
+  color?: Rgb;
+  align?: 'left' | 'center' | 'right';
+}
+
+// Helvetica advance widths for ASCII 32..126, in 1/1000 em (Adobe AFM)
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Windows-1252 code points that differ from Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88,
+  '‰': 0x89, 'Š': 0x8A, '‹': 0x8B, 'Œ': 0x8C, 'Ž': 0x8E, '‘': 0x91, '’': 0x92, '“': 0x93,
+  '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9A, '›': 0x9B,
+  'œ': 0x9C, 'ž': 0x9E, 'Ÿ': 0x9F,
+};
+
+const winAnsiCode = (char: string): number | undefined => {
+  const code = char.codePointAt(0)!;
+  if ((code >= 0x20 && code <= 0x7E) || (code >= 0xA0 && code <= 0xFF)) return code;
+  return WIN_ANSI_EXTRAS[char];
+};
+
+const charWidth = (char: string, bold: boolean) => {
+  const code = char.codePointAt(0)!;
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  return code >= 32 && code <= 126 ? widths[code - 32] : 556;
+};
+
+// Consecutive characters that share a font: Helvetica for WinAnsi, the Korean font otherwise
+const fontRuns = (text: string): Array<{ text: string; winAnsi: boolean }> => {
+  const runs: Array<{ text: string; winAnsi: boolean }> = [];
+  for (const char of text) {
+    // Spaces stay with the current run so a mixed string doesn't switch fonts at every word
+    const winAnsi = char === ' ' && runs.length ? runs[runs.length - 1].winAnsi : winAnsiCode(char) !== undefined;
+    const last = runs[runs.length - 1];
+    if (last && last.winAnsi === winAnsi) last.text += char;
+    else runs.push({ text: char, winAnsi });
+  }
+  return runs;
+};
+
+const runWidth = (run: { text: string; winAnsi: boolean }, size: number, bold: boolean) =>
+  ([...run.text].reduce((sum, char) => sum + (run.winAnsi ? charWidth(char, bold) : char === ' ' ? 500 : 1000), 0) * size) / 1000;
+
+/**
+ * Approximate rendered width of `text` in points
+ */
+export const measureText = (text: string, size: number, bold = false): number =>
+  fontRuns(text).reduce((sum, run) => sum + runWidth(run, size, bold), 0);
+
+/**
+ * Greedy word wrap to `width` points; words longer than a line are broken by character
+ */
+export const wrapText = (text: string, width: number, size: number, bold = false): string[] => {
+  const lines: string[] = [];
+
+  text.split(/\r?\n/).forEach((paragraph) => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach((word) => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measureText(candidate, size, bold) <= width) {
+        line = candidate;
+        return;
+      }
+      if (line) lines.push(line);
+      line = '';
+      for (const char of word) {
+        if (line && measureText(line + char, size, bold) > width) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    });
+    lines.push(line);
+  });
+
+  return lines;
+};
+
+/**
+ * Truncate `text` with an ellipsis so it fits in `width` points
+ */
+export const fitText = (text: string, width: number, size: number, bold = false): string => {
+  if (measureText(text, size, bold) <= width) return text;
+  const chars = [...text];
+  while (chars.length > 1 && measureText(`${chars.join('')}…`, size, bold) > width) chars.pop();
+  return `${chars.join('')}…`;
+};
+
+const num = (value: number) => Number(value.toFixed(2)).toString();
+
+const colorOperands = ({ r, g, b }: Rgb) => [r, g, b].map((channel) => num(channel / 255)).join(' ');
+
+const literalString = (text: string) => {
+  const bytes = [...text].map((char) => String.fromCharCode(winAnsiCode(char) ?? 0x3F)).join('');
+  return `(${bytes.replace(/[\\()]/g, (char) => `\\${char}`)})`;
+};
+
+// UCS-2 big-endian hex string for the UniKS-UCS2-H CMap; astral characters become '?'
+const ucs2String = (text: string) =>
+  `<${[...text].map((char) => {
+    const code = char.codePointAt(0)!;
+    return (code > 0xFFFF ? 0x3F : code).toString(16).padStart(4, '0');
+  }).join('')}>`;
+
+export class PdfPage {
+  private readonly operations: string[] = [];
+
+  constructor(readonly width: number, readonly height: number) {}
+
+  rect(x: number, y: number, width: number, height: number, fill: Rgb, stroke?: Rgb): this {
+    const path = `${num(x)} ${num(this.height - y - height)} ${num(width)} ${num(height)} re`;
+    if (stroke) {
+      this.operations.push(`${colorOperands(fill)} rg ${colorOperands(stroke)} RG 0.5 w ${path} B`);
+    } else {
+      this.operations.push(`${colorOperands(fill)} rg ${path} f`);
+    }
+    return this;
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color: Rgb, width = 0.5): this {
+    this.operations.push(
+      `${colorOperands(color)} RG ${num(width)} w ${num(x1)} ${num(this.height - y1)} m ${num(x2)} ${num(this.height - y2)} l S`
+    );
+    return this;
+  }
+
+  // `y` is the text baseline
+  text(x: number, y: number, text: string, style: TextStyle): this {
+    if (!text) return this;
+
+    const bold = style.bold || false;
+    const width = measureText(text, style.size, bold);
+    let left = style.align === 'center' ? x - width / 2 : style.align === 'right' ? x - width : x;
+
+    const shows = fontRuns(text).map((run) => {
+      const [font, encoded] = run.winAnsi
+        ? [bold ? 'F2' : 'F1', literalString(run.text)]
+        : ['F3', ucs2String(run.text)];
+      const show = `/${font} ${num(style.size)} Tf 1 0 0 1 ${num(left)} ${num(this.height - y)} Tm ${encoded} Tj`;
+      left += runWidth(run, style.size, bold);
+      return show;
+    });
+
+    this.operations.push(`BT ${colorOperands(style.color || { r: 0, g: 0, b: 0 })} rg ${shows.join(' ')} ET`);
+    return this;
+  }
+
+  get content(): string {
+    return this.operations.join('\n');
+  }
+}
+
+const FONT_OBJECTS = [
+  '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+  '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  '<< /Type /Font /Subtype /Type0 /BaseFont /HYGoThic-Medium /Encoding /UniKS-UCS2-H /DescendantFonts [6 0 R] >>',
+  '<< /Type /Font /Subtype /CIDFontType0 /BaseFont /HYGoThic-Medium '
+    + '/CIDSystemInfo << /Registry (Adobe) /Ordering (Korea1) /Supplement 1 >> '
+    + '/FontDescriptor 7 0 R /DW 1000 /W [1 95 500] >>',
+  '<< /Type /FontDescriptor /FontName /HYGoThic-Medium /Flags 6 /FontBBox [-6 -145 1003 880] '
+    + '/ItalicAngle 0 /Ascent 880 /Descent -120 /CapHeight 880 /StemV 59 >>',
+];
+
+// Document info strings are UTF-16BE with a byte order mark
+const infoString = (text: string) =>
+  `<FEFF${[...text].map((char) => {
+    const code = char.codePointAt(0)!;
+    return (code > 0xFFFF ? 0x3F : code).toString(16).padStart(4, '0');
+  }).join('')}>`.toUpperCase();
+
+/**
+ * Serialize pages as a PDF document
+ */
+export const encodePdf = (pages: PdfPage[], info: { title?: string } = {}): Buffer => {
+  // 1 catalog, 2 page tree, 3-7 fonts, 8 info, then a page and content stream per page
+  const firstPage = 9;
+  const objects: Buffer[] = [];
+  const add = (body: string | Buffer) => objects.push(typeof body === 'string' ? Buffer.from(body, 'latin1') : body);
+
+  add('<< /Type /Catalog /Pages 2 0 R >>');
+  add(`<< /Type /Pages /Kids [${pages.map((_, i) => `${firstPage + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  FONT_OBJECTS.forEach(add);
+  add(`<< /Producer (ChromaVault)${info.title ? ` /Title ${infoString(info.title)}` : ''} >>`);
+
+  pages.forEach((page, i) => {
+    const contentId = firstPage + i * 2 + 1;
+    add(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] `
+        + '/Resources << /Font << /F1 3 0 R /F2 4 0 R /F3 5 0 R >> >> '
+        + `/Contents ${contentId} 0 R >>`
+    );
+
+    const stream = deflateSync(Buffer.from(page.content, 'latin1'));
+    add(Buffer.concat([
+      Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+      stream,
+      Buffer.from('\nendstream', 'latin1'),
+    ]));
+  });
+
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n', 'latin1')];
+  let offset = chunks[0].length;
+  const offsets: number[] = [];
+
+  objects.forEach((body, i) => {
+    const object = Buffer.concat([
+      Buffer.from(`${i + 1} 0 obj\n`, 'latin1'),
+      body,
+      Buffer.from('\nendobj\n', 'latin1'),
+    ]);
+    offsets.push(offset);
+    offset += object.length;
+    chunks.push(object);
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map((value) => `${value.toString().padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info 8 0 R >>`,
+    'startxref',
+    offset.toString(),
+    '%%EOF',
+    '',
+  ].join('\n');
+
+  chunks.push(Buffer.from(xref, 'latin1'));
+  return Buffer.concat(chunks);
+};
@@ -0,0 +1,58 @@
+import { decodeProcreate, encodeProcreate, isProcreate } from './procreate';
+import { SwatchDocument } from './types';
+import { createZip } from './zip';
+
+const document: SwatchDocument = {
+  name: 'Sea',
+  colors: [
+    { name: 'Ocean', hex: '#1E6FD9' },
+    { name: null, hex: '#000000' },
+  ],
+  groups: [],
+};
+
+const swatches = (json: string) => createZip([{ path: 'Swatches.json', data: json }]);
+
+describe('Procreate round trip', () => {
+  it('keeps the palette name, colors and our swatch names', () => {
+    expect(decodeProcreate(encodeProcreate(document))).toEqual({
+      name: 'Sea',
+      colors: [{ name: 'Ocean', hex: '#1E6FD9' }, { name: null, hex: '#000000' }],
+      groups: [],
+    });
+  });
+
+  it('writes at most 30 swatches', () => {
+    const colors = Array.from({ length: 40 }, () => ({ name: null, hex: '#FF0000' }));
+    expect(decodeProcreate(encodeProcreate({ colors, groups: [] })).colors).toHaveLength(30);
+  });
+
+  it('reads single palette objects and skips empty slots', () => {
+    const decoded = decodeProcreate(swatches(JSON.stringify({
+      name: 'Old',
+      swatches: [null, { hue: 0, saturation: 1, brightness: 1 }],
+    })));
+
+    expect(decoded).toEqual({ name: 'Old', colors: [{ name: null, hex: '#FF0000' }], groups: [] });
+  });
+});
+
+describe('malformed Procreate swatches', () => {
+  it('detects the swatches entry', () => {
+    expect(isProcreate(encodeProcreate(document))).toBe(true);
+    expect(isProcreate(createZip([{ path: 'colorset.xml', data: '' }]))).toBe(false);
+    expect(isProcreate(Buffer.from('GIMP Palette'))).toBe(false);
+  });
+
+  it('rejects archives without valid swatches', () => {
+    expect(() => decodeProcreate(Buffer.from('{}'))).toThrow('not a ZIP archive');
+    expect(() => decodeProcreate(createZip([{ path: 'other.json', data: '[]' }]))).toThrow('missing Swatches.json');
+    expect(() => decodeProcreate(swatches('[{'))).toThrow('Swatches.json is not valid JSON');
+    expect(() => decodeProcreate(swatches('[{"name":"Sea"}]'))).toThrow('missing swatches');
+  });
+
+  it('reads non-numeric channels as zero', () => {
+    const decoded = decodeProcreate(swatches('[{"swatches":[{"hue":"red","saturation":null,"brightness":1}]}]'));
+    expect(decoded.colors).toEqual([{ name: null, hex: '#FFFFFF' }]);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Procreate Swatches (.swatches)
+ *
+ * A ZIP archive with Swatches.json:
+ *   [{ "name": <palette name>, "swatches": [{ "hue", "saturation", "brightness", "alpha", "colorSpace" } | null] }]
+ * HSB channels are 0..1 and null marks an empty slot in the 30-slot grid.
+ * Procreate has no swatch names; we add a "name" key to each swatch, which Procreate ignores.
+ */
+
+import { createError } from '../middleware/error-handler';
+import { hexToRgb, hsbToRgb, rgbToHex, rgbToHsb } from '../../lib/color';
+import { SwatchColor, SwatchDocument } from './types';
+import { createZip, isZip, readZip } from './zip';
+
+const ENTRY = 'Swatches.json';
+
+const MAX_SWATCHES = 30;
+
+interface ProcreateSwatch {
+  hue: number;
+  saturation: number;
+  brightness: number;
+  alpha?: number;
+  colorSpace?: number;
+  name?: string;
+}
+
+// ==================== ENCODING ====================
+
+const toSwatch = (color: SwatchColor): ProcreateSwatch => {
+  const { h, s, b } = rgbToHsb(hexToRgb(color.hex));
+  return {
+    hue: h / 360,
+    saturation: s / 100,
+    brightness: b / 100,
+    alpha: 1,
+    colorSpace: 0,
+    ...(color.name ? { name: color.name } : {}),
+  };
+};
+
+export const encodeProcreate = (document: SwatchDocument): Buffer => {
+  const colors = [...document.colors, ...document.groups.flatMap((group) => group.colors)].slice(0, MAX_SWATCHES);
+
+  return createZip([{
+    path: ENTRY,
+    data: JSON.stringify([{ name: document.name || 'Palette', swatches: colors.map(toSwatch) }]),
+  }]);
+};
+
+// ==================== DECODING ====================
+
+const invalid = (reason: string) => createError.validation(`Invalid Procreate swatches: ${reason}`);
+
+export const isProcreate = (buffer: Buffer): boolean => {
+  if (!isZip(buffer)) return false;
+  try {
+    return readZip(buffer).has(ENTRY);
+  } catch {
+    return false;
+  }
+};
+
+const channel = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+
+export const decodeProcreate = (buffer: Buffer): SwatchDocument => {
+  if (!isZip(buffer)) throw invalid('not a ZIP archive');
+
+  const json = readZip(buffer).read(ENTRY);
+  if (!json) throw invalid(`missing ${ENTRY}`);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json.toString('utf8'));
+  } catch {
+    throw invalid(`${ENTRY} is not valid JSON`);
+  }
+
+  // Older exports hold a single palette object instead of an array
+  const palette = (Array.isArray(parsed) ? parsed[0] : parsed) as { name?: unknown; swatches?: unknown } | undefined;
+  if (!palette || !Array.isArray(palette.swatches)) throw invalid('missing swatches');
+
+  const colors = (palette.swatches as Array<ProcreateSwatch | null>)
+    .filter((swatch): swatch is ProcreateSwatch => swatch !== null && typeof swatch === 'object')
+    .map((swatch) => ({
+      name: typeof swatch.name === 'string' && swatch.name ? swatch.name : null,
+      hex: rgbToHex(hsbToRgb({
+        h: channel(swatch.hue) * 360,
+        s: channel(swatch.saturation) * 100,
+        b: channel(swatch.brightness) * 100,
+      })),
+    }));
+
+  return {
+    name: typeof palette.name === 'string' && palette.name ? palette.name : undefined,
+    colors,
+    groups: [],
+  };
+};
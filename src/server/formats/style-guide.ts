@@ -0,0 +1,399 @@
+/**
+ * Printable brand style guide (PDF)
+ *
+ * Per palette: a cover with the full swatch strip, detail pages with large swatches and
+ * HEX/RGB/HSL/LAB/CMYK values, a pairwise WCAG contrast matrix, color vision deficiency
+ * previews and usage notes from the description. Collections get an extra cover page.
+ */
+
+import {
+  ColorVisionDeficiency,
+  Rgb,
+  colorVisionReport,
+  contrastRatio,
+  hexToRgb,
+  rgbToHsl,
+  rgbToLab,
+  wcagGrade
+} from '../../lib/color';
+import { rgbToCmyk } from './color-models';
+import { PAPER_SIZES, PaperSize, PdfPage, encodePdf, fitText, wrapText } from './pdf';
+
+export interface StyleGuidePalette {
+  name: string;
+  description?: string | null;
+  author?: string | null;
+  // cmyk: ink percentages separated for the document's print condition
+  colors: Array<{ hex: string; name?: string | null; cmyk?: { c: number; m: number; y: number; k: number } | null }>;
+}
+
+export interface StyleGuideDocument {
+  title: string;
+  description?: string | null;
+  palettes: StyleGuidePalette[];
+  // Adds a cover page listing every palette
+  collection?: boolean;
+  // Print condition the CMYK values were separated for, e.g. "FOGRA39 (ISO Coated v2), relative colorimetric"
+  print?: string;
+}
+
+export interface StyleGuideOptions {
+  paper: PaperSize;
+}
+
+const MARGIN = 48;
+
+const INK = hexToRgb('#111827');
+const MUTED = hexToRgb('#6B7280');
+const RULE = hexToRgb('#E5E7EB');
+const WHITE = hexToRgb('#FFFFFF');
+const BLACK = hexToRgb('#000000');
+
+const COLOR_VISION_LABELS: Record<ColorVisionDeficiency, string> = {
+  protan: 'Protanopia - no red cones (about 1% of men)',
+  deutan: 'Deuteranopia - no green cones (about 1% of men)',
+  tritan: 'Tritanopia - no blue cones (rare)',
+  achromatopsia: 'Achromatopsia - no color vision (rare)',
+};
+
+interface GuideColor {
+  hex: string;
+  name: string;
+  rgb: Rgb;
+  // Ink percentages
+  cmyk: number[];
+}
+
+// ==================== HELPERS ====================
+
+const labelColor = (rgb: Rgb) => (contrastRatio(rgb, BLACK) >= contrastRatio(rgb, WHITE) ? INK : WHITE);
+
+const round = (value: number, digits = 0) => Number(value.toFixed(digits)).toString();
+
+const colorValues = (color: GuideColor): Array<[string, string]> => {
+  const { r, g, b } = color.rgb;
+  const { h, s, l } = rgbToHsl(color.rgb);
+  const { l: lightness, a, b: bb } = rgbToLab(color.rgb);
+
+  return [
+    ['HEX', color.hex],
+    ['RGB', `${r}, ${g}, ${b}`],
+    ['HSL', `${round(h)}°, ${round(s)}%, ${round(l)}%`],
+    ['LAB (D50)', [lightness, a, bb].map((value) => round(value, 1)).join(', ')],
+    ['CMYK', color.cmyk.map((value) => `${round(value)}%`).join(', ')],
+    ['On white', `${round(contrastRatio(color.rgb, WHITE), 2)}:1  ${wcagGrade(contrastRatio(color.rgb, WHITE))}`],
+    ['On black', `${round(contrastRatio(color.rgb, BLACK), 2)}:1  ${wcagGrade(contrastRatio(color.rgb, BLACK))}`],
+  ];
+};
+
+// Horizontal run of swatches; each overlaps the next slightly so viewers show no hairline gaps
+const drawStrip = (page: PdfPage, colors: Rgb[], x: number, y: number, width: number, height: number) => {
+  colors.forEach((rgb, index) => {
+    const left = x + (index * width) / colors.length;
+    const right = x + ((index + 1) * width) / colors.length;
+    page.rect(left, y, right - left + 0.2, height, rgb);
+  });
+};
+
+// ==================== PAGES ====================
+
+class GuideBuilder {
+  readonly pages: PdfPage[] = [];
+
+  constructor(private readonly paper: { width: number; height: number }) {}
+
+  get contentWidth() {
+    return this.paper.width - MARGIN * 2;
+  }
+
+  get contentBottom() {
+    return this.paper.height - MARGIN - 24;
+  }
+
+  addPage(heading?: string, subheading?: string): PdfPage {
+    const page = new PdfPage(this.paper.width, this.paper.height);
+    this.pages.push(page);
+
+    if (heading) {
+      page.text(MARGIN, MARGIN + 20, fitText(heading, this.contentWidth, 20, true), { size: 20, bold: true, color: INK });
+      if (subheading) {
+        page.text(MARGIN, MARGIN + 40, fitText(subheading, this.contentWidth, 10), { size: 10, color: MUTED });
+      }
+      page.line(MARGIN, MARGIN + 52, MARGIN + this.contentWidth, MARGIN + 52, RULE);
+    }
+
+    return page;
+  }
+
+  // Footers need the final page count, so they are drawn last
+  addFooters(title: string) {
+    this.pages.forEach((page, index) => {
+      const y = this.paper.height - MARGIN + 8;
+      page.line(MARGIN, y - 14, MARGIN + this.contentWidth, y - 14, RULE);
+      page.text(MARGIN, y, fitText(`${title} - Style guide`, this.contentWidth - 80, 8), { size: 8, color: MUTED });
+      page.text(MARGIN + this.contentWidth, y, `${index + 1} / ${this.pages.length}`, { size: 8, color: MUTED, align: 'right' });
+    });
+  }
+
+  collectionCover(document: StyleGuideDocument) {
+    const page = this.addPage();
+    let y = MARGIN + 120;
+
+    page.text(MARGIN, y, 'BRAND STYLE GUIDE', { size: 10, bold: true, color: MUTED });
+    y += 40;
+    wrapText(document.title, this.contentWidth, 32, true).slice(0, 3).forEach((line) => {
+      page.text(MARGIN, y, line, { size: 32, bold: true, color: INK });
+      y += 40;
+    });
+
+    if (document.description) {
+      y += 8;
+      wrapText(document.description, this.contentWidth, 12).slice(0, 8).forEach((line) => {
+        page.text(MARGIN, y, line, { size: 12, color: MUTED });
+        y += 18;
+      });
+    }
+
+    y += 24;
+    page.text(MARGIN, y, `${document.palettes.length} palettes`, { size: 12, bold: true, color: INK });
+    y += 24;
+
+    document.palettes.forEach((palette) => {
+      if (y > this.contentBottom - 30) return;
+      drawStrip(page, palette.colors.map((color) => hexToRgb(color.hex)), MARGIN, y, 120, 18);
+      page.text(MARGIN + 136, y + 13, fitText(palette.name, this.contentWidth - 136, 11), { size: 11, color: INK });
+      y += 30;
+    });
+  }
+
+  paletteCover(palette: StyleGuidePalette, colors: GuideColor[]) {
+    const page = this.addPage();
+    let y = MARGIN + 60;
+
+    page.text(MARGIN, y, 'COLOR PALETTE', { size: 10, bold: true, color: MUTED });
+    y += 36;
+    wrapText(palette.name, this.contentWidth, 30, true).slice(0, 3).forEach((line) => {
+      page.text(MARGIN, y, line, { size: 30, bold: true, color: INK });
+      y += 36;
+    });
+
+    const meta = [palette.author ? `by ${palette.author}` : null, `${colors.length} colors`].filter(Boolean).join('  |  ');
+    page.text(MARGIN, y, meta, { size: 12, color: MUTED });
+    y += 30;
+
+    const stripHeight = Math.min(320, this.contentBottom - y - 40);
+    drawStrip(page, colors.map((color) => color.rgb), MARGIN, y, this.contentWidth, stripHeight);
+
+    // Hex labels inside the strip when the swatches are wide enough
+    const swatchWidth = this.contentWidth / colors.length;
+    if (swatchWidth >= 44) {
+      const size = Math.min(11, swatchWidth / 6);
+      colors.forEach((color, index) => {
+        page.text(MARGIN + index * swatchWidth + 8, y + stripHeight - 10, color.hex, {
+          size,
+          bold: true,
+          color: labelColor(color.rgb),
+        });
+      });
+    }
+  }
+
+  colorDetails(palette: StyleGuidePalette, colors: GuideColor[], print?: string) {
+    const perPage = 2;
+
+    for (let start = 0; start < colors.length; start += perPage) {
+      const page = this.addPage('Colors', `${palette.name} - ${start + 1}-${Math.min(colors.length, start + perPage)} of ${colors.length}`);
+      const top = MARGIN + 72;
+      const blockHeight = (this.contentBottom - top) / perPage;
+
+      colors.slice(start, start + perPage).forEach((color, offset) => {
+        const y = top + offset * blockHeight;
+        const swatchWidth = this.contentWidth * 0.45;
+        const swatchHeight = blockHeight - 24;
+        page.rect(MARGIN, y, swatchWidth, swatchHeight, color.rgb, RULE);
+
+        const x = MARGIN + swatchWidth + 24;
+        const width = this.contentWidth - swatchWidth - 24;
+        page.text(x, y + 20, fitText(color.name, width, 18, true), { size: 18, bold: true, color: INK });
+
+        let rowY = y + 52;
+        colorValues(color).forEach(([label, value]) => {
+          page.text(x, rowY, label, { size: 8, bold: true, color: MUTED });
+          page.text(x, rowY + 14, fitText(value, width, 11), { size: 11, color: INK });
+          rowY += 32;
+        });
+      });
+
+      const note = print
+        ? `CMYK values are separated for ${print}; proof on the actual stock before press.`
+        : 'CMYK values are an uncalibrated conversion; proof against your printer\'s profile.';
+      page.text(MARGIN, this.contentBottom + 4, note, {
+        size: 7,
+        color: MUTED,
+      });
+    }
+  }
+
+  contrastMatrix(palette: StyleGuidePalette, colors: GuideColor[]) {
+    const page = this.addPage('Contrast matrix', `${palette.name} - WCAG 2.1 ratio of each text color (column) on each background (row)`);
+    const top = MARGIN + 72;
+    const cell = Math.min(56, this.contentWidth / (colors.length + 0.5), (this.contentBottom - top - 60) / (colors.length + 0.5));
+    const header = cell * 0.5;
+    const size = Math.max(5, Math.min(10, cell / 4.5));
+
+    // Header swatches: columns are text colors, rows are backgrounds
+    colors.forEach((color, index) => {
+      page.rect(MARGIN + header + index * cell, top, cell, header, color.rgb, RULE);
+      page.rect(MARGIN, top + header + index * cell, header, cell, color.rgb, RULE);
+    });
+
+    colors.forEach((background, row) => {
+      colors.forEach((foreground, column) => {
+        const x = MARGIN + header + column * cell;
+        const y = top + header + row * cell;
+        page.rect(x, y, cell, cell, background.rgb, RULE);
+        if (row === column) return;
+
+        const ratio = contrastRatio(background.rgb, foreground.rgb);
+        page.text(x + cell / 2, y + cell / 2, round(ratio, 1), { size, bold: true, color: foreground.rgb, align: 'center' });
+        page.text(x + cell / 2, y + cell / 2 + size * 1.2, wcagGrade(ratio) === 'AA Large' ? 'AA18' : wcagGrade(ratio), {
+          size: size * 0.75,
+          color: foreground.rgb,
+          align: 'center',
+        });
+      });
+    });
+
+    let y = top + cell * (colors.length + 0.5) + 28;
+    [
+      'AAA  7:1 or more - any text',
+      'AA  4.5:1 or more - body text',
+      'AA18  3:1 or more - large text (18pt, or 14pt bold) and UI components',
+      'Fail  below 3:1 - decoration only',
+    ].forEach((line) => {
+      page.text(MARGIN, y, line, { size: 9, color: MUTED });
+      y += 14;
+    });
+  }
+
+  colorVision(palette: StyleGuidePalette, colors: GuideColor[]) {
+    const page = this.addPage('Color vision', `${palette.name} - how the palette appears with color vision deficiencies`);
+    const simulations = colorVisionReport(colors.map((color) => color.hex));
+    const rows: Array<[string, Rgb[]]> = [
+      ['Typical color vision', colors.map((color) => color.rgb)],
+      ...simulations.map((simulation): [string, Rgb[]] => [
+        COLOR_VISION_LABELS[simulation.deficiency],
+        simulation.colors.map(hexToRgb),
+      ]),
+    ];
+
+    let y = MARGIN + 80;
+    rows.forEach(([label, simulated]) => {
+      page.text(MARGIN, y, label, { size: 10, bold: true, color: INK });
+      drawStrip(page, simulated, MARGIN, y + 8, this.contentWidth, 48);
+      y += 84;
+    });
+
+    // Pairs that collapse together under a deficiency need a second cue (label, pattern, weight)
+    const confusions = simulations.flatMap(({ deficiency, confusablePairs }) => {
+      const pairs = confusablePairs.map(({ a, b }) => `${colors[a].name} / ${colors[b].name}`);
+      return pairs.length ? [`${COLOR_VISION_LABELS[deficiency].split(' - ')[0]}: ${pairs.slice(0, 6).join(', ')}${pairs.length > 6 ? ', ...' : ''}`] : [];
+    });
+
+    y += 8;
+    page.text(MARGIN, y, 'Hard to tell apart', { size: 12, bold: true, color: INK });
+    y += 18;
+    const lines = confusions.length
+      ? confusions.flatMap((line) => wrapText(line, this.contentWidth, 9))
+      : ['Every pair of colors stays distinguishable under the simulated deficiencies.'];
+    lines.forEach((line) => {
+      if (y > this.contentBottom) return;
+      page.text(MARGIN, y, line, { size: 9, color: MUTED });
+      y += 13;
+    });
+  }
+
+  usageNotes(palette: StyleGuidePalette, colors: GuideColor[]) {
+    let page = this.addPage('Usage notes', palette.name);
+    let y = MARGIN + 80;
+
+    const ensureSpace = (height: number) => {
+      if (y + height <= this.contentBottom) return;
+      page = this.addPage('Usage notes', `${palette.name} (continued)`);
+      y = MARGIN + 80;
+    };
+
+    const description = palette.description?.trim();
+    (description ? wrapText(description, this.contentWidth, 11) : ['No usage notes were written for this palette.']).forEach((line) => {
+      ensureSpace(16);
+      page.text(MARGIN, y, line, { size: 11, color: description ? INK : MUTED });
+      y += 16;
+    });
+
+    const pairs = colors.flatMap((background, i) => colors
+      .filter((_, j) => j !== i)
+      .map((foreground) => ({ background, foreground, ratio: contrastRatio(background.rgb, foreground.rgb) })))
+      .filter((pair) => pair.ratio >= 4.5)
+      .sort((a, b) => b.ratio - a.ratio)
+      .slice(0, 8);
+
+    y += 20;
+    ensureSpace(40);
+    page.text(MARGIN, y, 'Recommended text pairings', { size: 12, bold: true, color: INK });
+    y += 20;
+
+    if (!pairs.length) {
+      page.text(MARGIN, y, 'No pair reaches 4.5:1; pair these colors with black or white text.', { size: 10, color: MUTED });
+      return;
+    }
+
+    pairs.forEach(({ background, foreground, ratio }) => {
+      ensureSpace(40);
+      page.rect(MARGIN, y, 56, 32, background.rgb, RULE);
+      page.text(MARGIN + 28, y + 21, 'Aa', { size: 14, bold: true, color: foreground.rgb, align: 'center' });
+      page.text(MARGIN + 70, y + 13, fitText(`${foreground.name} on ${background.name}`, this.contentWidth - 70, 10, true), {
+        size: 10,
+        bold: true,
+        color: INK,
+      });
+      page.text(MARGIN + 70, y + 27, `${round(ratio, 2)}:1  ${wcagGrade(ratio)}`, { size: 9, color: MUTED });
+      y += 40;
+    });
+  }
+}
+
+/**
+ * Render a style guide for one palette or a collection of palettes
+ */
+export const encodeStyleGuide = (document: StyleGuideDocument, options: StyleGuideOptions): Buffer => {
+  const builder = new GuideBuilder(PAPER_SIZES[options.paper]);
+
+  if (document.collection) {
+    builder.collectionCover(document);
+  }
+
+  document.palettes.forEach((palette) => {
+    const colors = palette.colors.map((color, index) => ({
+      hex: color.hex.toUpperCase(),
+      name: color.name || `Color ${index + 1}`,
+      rgb: hexToRgb(color.hex),
+      cmyk: color.cmyk
+        ? [color.cmyk.c, color.cmyk.m, color.cmyk.y, color.cmyk.k]
+        : rgbToCmyk(hexToRgb(color.hex)).map((value) => value * 100),
+    }));
+    if (!colors.length) return;
+
+    builder.paletteCover(palette, colors);
+    builder.colorDetails(palette, colors, document.print);
+    builder.contrastMatrix(palette, colors);
+    builder.colorVision(palette, colors);
+    builder.usageNotes(palette, colors);
+  });
+
+  if (!builder.pages.length) {
+    builder.addPage(document.title, 'This palette has no colors.');
+  }
+
+  builder.addFooters(document.title);
+  return encodePdf(builder.pages, { title: `${document.title} - Style guide` });
+};
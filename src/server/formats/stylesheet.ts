@@ -0,0 +1,456 @@
+/**
+ * Color extraction from stylesheets and theme files
+ *
+ * CSS, SCSS and Less: custom properties (--name), Sass ($name) and Less (@name) variables,
+ * Sass maps, and color literals in ordinary declarations.
+ * Tailwind configs (.js/.ts) are read as text, never evaluated: string values under a
+ * `colors` key become colors named by their key path (primary.500 -> primary-500).
+ * JSON themes, including DTCG and Style Dictionary token files, are walked the same way.
+ *
+ * Literals: #rgb, #rgba, #rrggbb, #rrggbbaa, rgb()/rgba(), hsl()/hsla(), oklch() and named colors.
+ */
+
+import { createError } from '../middleware/error-handler';
+import { hslToRgb, oklchToRgb, rgbToHex } from '../../lib/color';
+import { CSS_NAMED_COLORS } from './css-named-colors';
+
+export type StylesheetSyntax = 'css' | 'scss' | 'less' | 'tailwind' | 'json';
+
+export interface ExtractedColor {
+  // Variable or token name; null for literals in ordinary declarations
+  name: string | null;
+  hex: string;
+  // Only set when the literal was translucent
+  alpha?: number;
+  // Where the color was found: the variable, property or key path
+  source: string;
+  // Not known for JSON files
+  line?: number;
+}
+
+// ==================== COLOR LITERALS ====================
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Number or percentage; `percentScale` is the value 100% stands for
+const parseNumber = (token: string, percentScale: number): number => {
+  const value = parseFloat(token);
+  return token.endsWith('%') ? (value / 100) * percentScale : value;
+};
+
+const parseHue = (token: string): number => {
+  const value = parseFloat(token);
+  const degrees = token.endsWith('turn') ? value * 360
+    : token.endsWith('grad') ? value * 0.9
+      : token.endsWith('rad') ? (value * 180) / Math.PI
+        : value;
+  return ((degrees % 360) + 360) % 360;
+};
+
+// Function arguments in comma or space syntax, with an optional "/ alpha"
+const splitArguments = (body: string): { channels: string[]; alpha?: string } => {
+  const [channels, alpha] = body.split('/');
+  return {
+    channels: channels.split(/[\s,]+/).filter(Boolean),
+    alpha: alpha?.trim(),
+  };
+};
+
+interface ParsedColor {
+  hex: string;
+  alpha: number;
+}
+
+const NUMBER = String.raw`[+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?`;
+
+const FUNCTION_PATTERN = /\b(rgba?|hsla?|oklch)\(([^()]*)\)/gi;
+const HEX_PATTERN = /#([0-9a-f]{8}|[0-9a-f]{6}|[0-9a-f]{3,4})(?![0-9a-z_-])/gi;
+const NAMED_PATTERN = /(?<![\w$@#-])([a-z]+)(?![\w-])/gi;
+const ARGUMENT_PATTERN = new RegExp(String.raw`^${NUMBER}(%|deg|rad|grad|turn)?$`, 'i');
+
+const parseHex = (digits: string): ParsedColor => {
+  const full = digits.length <= 4 ? digits.split('').map((digit) => digit + digit).join('') : digits;
+  return {
+    hex: `#${full.slice(0, 6).toUpperCase()}`,
+    alpha: full.length === 8 ? parseInt(full.slice(6, 8), 16) / 255 : 1,
+  };
+};
+
+const parseFunction = (name: string, body: string): ParsedColor | null => {
+  const { channels, alpha: slashAlpha } = splitArguments(body);
+  // Legacy rgba()/hsla() pass alpha as a fourth comma-separated argument
+  const alphaToken = slashAlpha ?? (channels.length === 4 ? channels.pop() : undefined);
+
+  // 1e999 parses to Infinity, which no channel can take
+  const valid = (token: string) => ARGUMENT_PATTERN.test(token) && Number.isFinite(parseFloat(token));
+  if (channels.length !== 3 || ![...channels, alphaToken ?? '1'].every(valid)) {
+    return null;
+  }
+
+  const alpha = alphaToken === undefined ? 1 : clamp(parseNumber(alphaToken, 1), 0, 1);
+  const fn = name.toLowerCase();
+
+  if (fn.startsWith('rgb')) {
+    const [r, g, b] = channels.map((token) => parseNumber(token, 255));
+    return { hex: rgbToHex({ r, g, b }), alpha };
+  }
+
+  if (fn.startsWith('hsl')) {
+    const s = clamp(parseNumber(channels[1], 100), 0, 100);
+    const l = clamp(parseNumber(channels[2], 100), 0, 100);
+    return { hex: rgbToHex(hslToRgb({ h: parseHue(channels[0]), s, l })), alpha };
+  }
+
+  // oklch(L C H): L as 0..1 or a percentage, C as a number or percentage of 0.4
+  const lightness = channels[0].endsWith('%') ? parseFloat(channels[0]) / 100 : parseFloat(channels[0]);
+  const chroma = parseNumber(channels[1], 0.4);
+  return { hex: rgbToHex(oklchToRgb({ l: clamp(lightness, 0, 1), c: Math.max(0, chroma), h: parseHue(channels[2]) })), alpha };
+};
+
+interface FoundLiteral extends ParsedColor {
+  index: number;
+}
+
+/**
+ * Every color literal in a value, in order of appearance.
+ * Named colors are only recognized where a bare word cannot be something else.
+ */
+export const findColorLiterals = (value: string, allowNamed: boolean): FoundLiteral[] => {
+  const found: FoundLiteral[] = [];
+
+  for (const match of value.matchAll(FUNCTION_PATTERN)) {
+    const parsed = parseFunction(match[1], match[2]);
+    if (parsed) found.push({ ...parsed, index: match.index ?? 0 });
+  }
+
+  // url(#id) and url(file#fragment) reference elements, not colors
+  const outsideUrls = value.replace(/\burl\([^()]*\)/gi, (text) => ' '.repeat(text.length));
+  for (const match of outsideUrls.matchAll(HEX_PATTERN)) {
+    found.push({ ...parseHex(match[1]), index: match.index ?? 0 });
+  }
+
+  if (allowNamed) {
+    // Words inside strings and functions such as url() or var() are not colors
+    const outsideFunctions = value.replace(/"[^"]*"|'[^']*'|(?<![\w-])\w[\w-]*\([^()]*\)/g, (text) => ' '.repeat(text.length));
+    for (const match of outsideFunctions.matchAll(NAMED_PATTERN)) {
+      const hex = CSS_NAMED_COLORS[match[1].toLowerCase()];
+      if (hex) found.push({ hex, alpha: 1, index: match.index ?? 0 });
+    }
+  }
+
+  return found.sort((a, b) => a.index - b.index);
+};
+
+// A whole string value that is a single color, as in theme files
+export const parseColorString = (value: string): ParsedColor | null => {
+  const trimmed = value.trim();
+  const [literal] = findColorLiterals(trimmed, true);
+  if (!literal) return null;
+
+  const matchesWhole = literal.index === 0
+    && (trimmed.length === trimmed.match(/^#[0-9a-f]+/i)?.[0].length
+      || /^\w+\([^()]*\)$/.test(trimmed)
+      || CSS_NAMED_COLORS[trimmed.toLowerCase()] !== undefined);
+
+  return matchesWhole ? literal : null;
+};
+
+// ==================== STYLESHEETS ====================
+
+// Properties whose bare words can be named colors
+const COLOR_PROPERTIES = /^(color|background(-color)?|border(-(top|right|bottom|left|block|inline)(-(start|end))?)?(-color)?|outline(-color)?|fill|stroke|(box|text)-shadow|caret-color|accent-color|text-decoration(-color)?|column-rule(-color)?|stop-color|flood-color|lighting-color)$/i;
+
+// Line numbers for increasing offsets, counting each character of the text once
+const lineCounter = (text: string) => {
+  let offset = 0;
+  let line = 1;
+  return (index: number) => {
+    for (; offset < index; offset++) {
+      if (text[offset] === '\n') line++;
+    }
+    return line;
+  };
+};
+
+// Replace comments with spaces so offsets and line numbers stay intact
+const blankComments = (text: string, lineComments: boolean) => {
+  const blank = (match: string) => match.replace(/[^\n]/g, ' ');
+  // An unterminated block comment runs to the end of the file
+  const withoutBlocks = text.replace(/\/\*(?:[^*]|\*(?!\/))*(?:\*\/|$)/g, blank);
+  // "//" inside url(http://...) is not a comment
+  return lineComments ? withoutBlocks.replace(/(^|[^:])\/\/[^\n]*/g, (match, prefix: string) => prefix + blank(match.slice(prefix.length))) : withoutBlocks;
+};
+
+const variableName = (property: string): string | null => {
+  if (property.startsWith('--')) return property.slice(2);
+  if (property.startsWith('$') || property.startsWith('@')) return property.slice(1);
+  return null;
+};
+
+const pushLiterals = (
+  colors: ExtractedColor[],
+  literals: FoundLiteral[],
+  name: string | null,
+  source: string,
+  line: number
+) => {
+  literals.forEach((literal, index) => {
+    colors.push({
+      // Gradients and shadows can hold several colors in one variable
+      name: name && index > 0 ? `${name}-${index + 1}` : name,
+      hex: literal.hex,
+      ...(literal.alpha < 1 ? { alpha: Number(literal.alpha.toFixed(3)) } : {}),
+      source,
+      line,
+    });
+  });
+};
+
+interface Declaration {
+  property: string;
+  value: string;
+  // Offset of the property
+  index: number;
+}
+
+const PROPERTY_PATTERN = /(^|\s)((?:--|\$|@)?[\w-]+)\s*:/;
+
+/**
+ * Declarations in one pass over the text. A statement ends at ";", "{" or "}"; within it a
+ * value also ends at a line break outside parentheses, so Sass maps and gradients can span
+ * lines. Statements ended by "{" are selectors ("a:hover") or at-rules and hold no declarations.
+ */
+const findDeclarations = (text: string): Declaration[] => {
+  const declarations: Declaration[] = [];
+  // [start, end) of the lines of the current statement
+  let pieces: [number, number][] = [];
+  let pieceStart = 0;
+  let depth = 0;
+
+  const endStatement = (end: number, delimiter: string) => {
+    pieces.push([pieceStart, end]);
+    if (delimiter !== '{') {
+      for (const [start, pieceEnd] of pieces) {
+        const piece = text.slice(start, pieceEnd);
+        const match = PROPERTY_PATTERN.exec(piece);
+        if (!match) continue;
+        const value = piece.slice(match.index + match[0].length).trim();
+        if (value) declarations.push({ property: match[2], value, index: start + match.index + match[1].length });
+      }
+    }
+    pieces = [];
+    pieceStart = end + 1;
+    depth = 0;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth = Math.max(0, depth - 1);
+    } else if (char === ';' || char === '{' || char === '}') {
+      endStatement(i, char);
+    } else if (char === '\n' && depth === 0) {
+      pieces.push([pieceStart, i]);
+      pieceStart = i + 1;
+    }
+  }
+  endStatement(text.length, '');
+
+  return declarations;
+};
+
+export const extractStylesheetColors = (text: string, syntax: 'css' | 'scss' | 'less'): ExtractedColor[] => {
+  const source = blankComments(text, syntax !== 'css');
+  const colors: ExtractedColor[] = [];
+  const lineAt = lineCounter(source);
+
+  for (const { property, value, index } of findDeclarations(source)) {
+    const line = lineAt(index);
+    const name = variableName(property);
+
+    // Sass map: $colors: (primary: #fff, secondary: #000)
+    const map = name && syntax === 'scss' ? /^\(([\s\S]*)\)$/.exec(value) : null;
+    if (map) {
+      for (const entry of map[1].matchAll(/(?<![\w-])([\w-]+)\s*:\s*((?:[^,()]|\([^()]*\))+)/g)) {
+        pushLiterals(colors, findColorLiterals(entry[2], true), `${name}-${entry[1]}`, `${property}.${entry[1]}`, line);
+      }
+      continue;
+    }
+
+    // Less mixin guards and at-rules such as @media are not variables
+    if (property.startsWith('@') && syntax !== 'less') continue;
+
+    pushLiterals(colors, findColorLiterals(value, name !== null || COLOR_PROPERTIES.test(property)), name, property, line);
+  }
+
+  return colors;
+};
+
+// ==================== THEME FILES ====================
+
+// Tokens of a JS/TS object literal, enough to follow nested keys and string values
+type Token =
+  | { type: 'string'; value: string; index: number }
+  | { type: 'word'; value: string; index: number }
+  | { type: 'punct'; value: string; index: number };
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+    } else if (char === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      i = end < 0 ? text.length : end + 2;
+    } else if (char === '"' || char === "'" || char === '`') {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < text.length && text[i] !== char) {
+        if (text[i] === '\\' && i + 1 < text.length) i++;
+        value += text[i];
+        i++;
+      }
+      i++;
+      // Template literals with ${...} are computed values
+      if (!(char === '`' && value.includes('${'))) tokens.push({ type: 'string', value, index: start });
+    } else if (/[\w$]/.test(char)) {
+      const start = i;
+      while (i < text.length && /[\w$.]/.test(text[i])) i++;
+      tokens.push({ type: 'word', value: text.slice(start, i), index: start });
+    } else {
+      tokens.push({ type: 'punct', value: char, index: i });
+      i++;
+    }
+  }
+
+  return tokens;
+};
+
+// Name from a key path below the nearest `colors` key; DEFAULT and token value keys are dropped
+const themeColorName = (path: string[]): string | null => {
+  const colorsIndex = path.lastIndexOf('colors');
+  const below = (colorsIndex >= 0 ? path.slice(colorsIndex + 1) : path)
+    .filter((key) => !['DEFAULT', '$value', 'value'].includes(key));
+  return below.length > 0 ? below.join('-') : null;
+};
+
+const collectThemeColor = (colors: ExtractedColor[], path: string[], value: string, line?: number) => {
+  const parsed = parseColorString(value);
+  if (!parsed) return;
+
+  colors.push({
+    name: themeColorName(path),
+    hex: parsed.hex,
+    ...(parsed.alpha < 1 ? { alpha: Number(parsed.alpha.toFixed(3)) } : {}),
+    source: path.join('.'),
+    ...(line ? { line } : {}),
+  });
+};
+
+// Only colors under a `colors` key, when the file has one
+const preferColorsKey = (colors: ExtractedColor[]) => {
+  const underColors = colors.filter((color) => color.source.split('.').includes('colors'));
+  return underColors.length > 0 ? underColors : colors;
+};
+
+export const extractTailwindColors = (text: string): ExtractedColor[] => {
+  const tokens = tokenize(text);
+  const colors: ExtractedColor[] = [];
+  const lineAt = lineCounter(text);
+  // Key path of the enclosing objects; unkeyed objects, arrays and calls push ''
+  const path: string[] = [];
+  let pendingKey: string | null = null;
+
+  tokens.forEach((token, index) => {
+    const next = tokens[index + 1];
+
+    if (token.type !== 'punct' && next?.type === 'punct' && next.value === ':') {
+      pendingKey = token.value;
+      return;
+    }
+
+    if (token.type === 'punct') {
+      if (token.value === '{' || token.value === '[' || token.value === '(') {
+        path.push(pendingKey ?? '');
+        pendingKey = null;
+      } else if (token.value === '}' || token.value === ']' || token.value === ')') {
+        path.pop();
+      } else if (token.value === ',') {
+        pendingKey = null;
+      }
+      return;
+    }
+
+    if (token.type === 'string' && pendingKey !== null) {
+      collectThemeColor(colors, [...path.filter(Boolean), pendingKey], token.value, lineAt(token.index));
+      pendingKey = null;
+    }
+  });
+
+  return preferColorsKey(colors);
+};
+
+export const extractJsonColors = (text: string): ExtractedColor[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw createError.validation('Invalid JSON theme file');
+  }
+
+  const colors: ExtractedColor[] = [];
+
+  const walk = (node: unknown, path: string[]) => {
+    if (typeof node === 'string') {
+      collectThemeColor(colors, path, node);
+    } else if (Array.isArray(node)) {
+      node.forEach((item, index) => walk(item, [...path, String(index)]));
+    } else if (node && typeof node === 'object') {
+      for (const [key, value] of Object.entries(node)) {
+        // DTCG and Style Dictionary metadata
+        if (['$type', '$description', 'type', 'comment', 'description'].includes(key)) continue;
+        walk(value, [...path, key]);
+      }
+    }
+  };
+
+  walk(parsed, []);
+  return preferColorsKey(colors);
+};
+
+// Syntax from the file name, or from the contents of pasted text; CSS otherwise
+export const detectStylesheetSyntax = (filename: string, text = ''): StylesheetSyntax => {
+  const lower = filename.toLowerCase();
+  if (/\.(scss|sass)$/.test(lower)) return 'scss';
+  if (lower.endsWith('.less')) return 'less';
+  if (lower.endsWith('.json')) return 'json';
+  if (/\.(c|m)?(js|ts)$/.test(lower)) return 'tailwind';
+  if (lower) return 'css';
+
+  const trimmed = text.trim();
+  if (/^[[{]/.test(trimmed) && /[\]}]$/.test(trimmed)) return 'json';
+  if (/\b(module\.exports|export\s+default|defineConfig)\b/.test(text)) return 'tailwind';
+  if (/^[ \t]*\$[\w-]+[ \t]*:/m.test(text)) return 'scss';
+  if (/^[ \t]*@[\w-]+[ \t]*:/m.test(text)) return 'less';
+  return 'css';
+};
+
+export const extractColors = (text: string, syntax: StylesheetSyntax): ExtractedColor[] => {
+  switch (syntax) {
+    case 'tailwind':
+      return extractTailwindColors(text);
+    case 'json':
+      return extractJsonColors(text);
+    default:
+      return extractStylesheetColors(text, syntax);
+  }
+};
@@ -0,0 +1,101 @@
+/**
+ * Tailwind CSS theme exports
+ *
+ * v3: a tailwind.config.ts fragment with theme.extend.colors
+ * v4: a CSS file with an @theme block of --color-* variables
+ *
+ * Every palette color becomes DEFAULT plus a 50-950 tonal scale, e.g. bg-ocean and bg-ocean-300.
+ * The scale is built from the sRGB hex; Display P3 and Rec. 2020 colors also get a "wide" key
+ * with their own value, e.g. bg-ocean-wide.
+ */
+
+import { uniqueColorKeys } from './naming';
+import { GamutColor, Oklch, TonalRampShade, formatCssColor, gamutColorToOklch, generateTonalRamp } from '../../lib/color';
+
+export interface TailwindPalette {
+  name: string;
+  colors: Array<{ hex: string; name?: string | null; wideGamut?: GamutColor | null }>;
+}
+
+export interface TailwindOptions {
+  // Optional group key, e.g. "brand" gives bg-brand-ocean-500
+  prefix?: string;
+  colorFormat: 'hex' | 'oklch';
+}
+
+const formatOklch = ({ l, c, h }: Oklch) => `oklch(${(l * 100).toFixed(1)}% ${c.toFixed(3)} ${c > 0.0005 ? h.toFixed(3) : 0})`;
+
+const formatColor = (shade: TonalRampShade, format: TailwindOptions['colorFormat']) =>
+  (format === 'hex' ? shade.hex : formatOklch(shade.oklch));
+
+// color() in hex mode, where the scale has no wide-gamut syntax of its own
+const formatWideColor = (color: GamutColor, format: TailwindOptions['colorFormat']) =>
+  (format === 'hex' ? formatCssColor(color) : formatOklch(gamutColorToOklch(color)));
+
+// Palette and color names end up in comments
+const commentText = (text: string) => text.replace(/\*\//g, '* /').replace(/\s+/g, ' ');
+
+const scales = (palette: TailwindPalette) => {
+  const keys = uniqueColorKeys(palette.colors, { ascii: true });
+
+  return palette.colors.map((color, index) => {
+    const shades = generateTonalRamp(color.hex);
+    return { key: keys[index], color, shades, base: shades.find((shade) => shade.base) || shades[5] };
+  });
+};
+
+export const encodeTailwindConfig = (palette: TailwindPalette, options: TailwindOptions): string => {
+  const colors = Object.fromEntries(scales(palette).map(({ key, color, shades, base }) => [key, {
+    DEFAULT: formatColor(base, options.colorFormat),
+    ...(color.wideGamut ? { wide: formatWideColor(color.wideGamut, options.colorFormat) } : {}),
+    ...Object.fromEntries(shades.map((shade) => [shade.step, formatColor(shade, options.colorFormat)])),
+  }]));
+
+  const body = JSON.stringify(options.prefix ? { [options.prefix]: colors } : colors, null, 2)
+    .split('\n')
+    .map((line, index) => (index === 0 ? line : `      ${line}`))
+    .join('\n')
+    // Bare keys where the key is a valid identifier, as in a hand-written config
+    .replace(/"([A-Za-z_$][\w$]*|\d+)":/g, '$1:');
+
+  return [
+    `// ${commentText(palette.name)}`,
+    'import type { Config } from "tailwindcss";',
+    '',
+    'export default {',
+    '  theme: {',
+    '    extend: {',
+    `      colors: ${body},`,
+    '    },',
+    '  },',
+    '} satisfies Partial<Config>;',
+    '',
+  ].join('\n');
+};
+
+export const encodeTailwindTheme = (palette: TailwindPalette, options: TailwindOptions): string => {
+  const namespace = options.prefix ? `--color-${options.prefix}-` : '--color-';
+  const lines: string[] = [];
+
+  for (const { key, color, shades, base } of scales(palette)) {
+    if (lines.length > 0) lines.push('');
+    lines.push(`  /* ${commentText(color.name || color.hex.toUpperCase())} */`);
+    lines.push(`  ${namespace}${key}: ${formatColor(base, options.colorFormat)};`);
+    if (color.wideGamut) {
+      lines.push(`  ${namespace}${key}-wide: ${formatWideColor(color.wideGamut, options.colorFormat)};`);
+    }
+    for (const shade of shades) {
+      lines.push(`  ${namespace}${key}-${shade.step}: ${formatColor(shade, options.colorFormat)};`);
+    }
+  }
+
+  return [
+    `/* ${commentText(palette.name)} */`,
+    '@import "tailwindcss";',
+    '',
+    '@theme {',
+    ...lines,
+    '}',
+    '',
+  ].join('\n');
+};
@@ -0,0 +1,30 @@
+/**
+ * Swatch Format Types
+ * Format-neutral representation shared by the palette file encoders and decoders
+ */
+
+export type SwatchColorModel = 'RGB' | 'HSB' | 'CMYK' | 'LAB' | 'Gray';
+
+// Global and spot colors are linked swatches in Adobe apps; process colors are not
+export type SwatchColorType = 'global' | 'spot' | 'process';
+
+export interface SwatchColor {
+  name: string | null;
+  hex: string;
+  // Original channel values as stored in the file, when the file used a non-RGB model
+  model?: SwatchColorModel;
+  values?: number[];
+  type?: SwatchColorType;
+}
+
+export interface SwatchGroup {
+  name: string;
+  colors: SwatchColor[];
+}
+
+export interface SwatchDocument {
+  name?: string;
+  // Colors that are not inside any group
+  colors: SwatchColor[];
+  groups: SwatchGroup[];
+}
@@ -0,0 +1,77 @@
+import { createZip, isZip, readZip } from './zip';
+
+// Offset of the n-th central directory record of an archive written by createZip
+const centralRecord = (zip: Buffer, index: number) => {
+  let offset = zip.readUInt32LE(zip.length - 22 + 16);
+  for (let i = 0; i < index; i++) {
+    offset += 46 + zip.readUInt16LE(offset + 28);
+  }
+  return offset;
+};
+
+describe('ZIP round trip', () => {
+  it('reads back stored and deflated entries', () => {
+    const zip = createZip([
+      { path: 'mimetype', data: 'krita/x-colorset', store: true },
+      { path: 'colors/palette.json', data: JSON.stringify({ colors: ['#FF0000'] }) },
+    ]);
+    const archive = readZip(zip);
+
+    expect(isZip(zip)).toBe(true);
+    expect(archive.paths).toEqual(['mimetype', 'colors/palette.json']);
+    expect(archive.has('colors/palette.json')).toBe(true);
+    expect(archive.read('mimetype')?.toString()).toBe('krita/x-colorset');
+    expect(JSON.parse(archive.read('colors/palette.json')!.toString())).toEqual({ colors: ['#FF0000'] });
+    expect(archive.read('missing.json')).toBeUndefined();
+  });
+
+  it('writes the same bytes for the same entries', () => {
+    const entries = [{ path: 'a.txt', data: 'hello' }];
+    expect(createZip(entries).equals(createZip(entries))).toBe(true);
+  });
+});
+
+describe('malformed ZIP archives', () => {
+  it('rejects truncated archives', () => {
+    expect(() => readZip(Buffer.alloc(10))).toThrow('truncated archive');
+    expect(() => readZip(Buffer.alloc(40))).toThrow('missing end of central directory');
+
+    const zip = createZip([{ path: 'a.txt', data: 'hello' }]);
+    expect(() => readZip(zip.subarray(20))).toThrow('Invalid ZIP archive');
+  });
+
+  it('rejects duplicate paths', () => {
+    const zip = createZip([{ path: 'a.txt', data: 'one' }, { path: 'a.txt', data: 'two' }]);
+    expect(() => readZip(zip)).toThrow('duplicate entry a.txt');
+  });
+
+  it('rejects entries that share bytes', () => {
+    const zip = createZip([{ path: 'a.txt', data: 'one' }, { path: 'b.txt', data: 'two' }]);
+    zip.writeUInt32LE(0, centralRecord(zip, 1) + 42);
+
+    expect(() => readZip(zip)).toThrow('overlapping entries');
+  });
+
+  it('rejects entries larger than a palette needs', () => {
+    const zip = createZip([{ path: 'a.txt', data: 'hello' }]);
+    zip.writeUInt32LE(6 * 1024 * 1024, centralRecord(zip, 0) + 24);
+
+    expect(() => readZip(zip)).toThrow('entry a.txt is too large');
+  });
+
+  it('stops inflating at the declared size', () => {
+    const zip = createZip([{ path: 'bomb.txt', data: Buffer.alloc(64 * 1024) }]);
+    zip.writeUInt32LE(1024, centralRecord(zip, 0) + 24);
+
+    expect(() => readZip(zip).read('bomb.txt')).toThrow('cannot decompress bomb.txt');
+  });
+
+  it('inflates only the entries that are read, up to a total budget', () => {
+    const zip = createZip(['a', 'b', 'c'].map((name) => ({ path: `${name}.bin`, data: Buffer.alloc(4 * 1024 * 1024) })));
+    const archive = readZip(zip);
+
+    expect(archive.read('a.bin')).toHaveLength(4 * 1024 * 1024);
+    expect(archive.read('b.bin')).toHaveLength(4 * 1024 * 1024);
+    expect(() => archive.read('c.bin')).toThrow('archive is too large');
+  });
+});
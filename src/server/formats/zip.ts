@@ -0,0 +1,200 @@
+/**
+ * Minimal ZIP reader and writer for archive-based palette formats and multi-file exports
+ *
+ * Written entries are stamped with a fixed DOS date (1980-01-01) so the same
+ * palette always produces the same archive bytes.
+ */
+
+import { crc32, deflateRawSync, inflateRawSync } from 'zlib';
+import { createError } from '../middleware/error-handler';
+
+export interface ZipEntry {
+  // Forward-slash separated path inside the archive
+  path: string;
+  data: Buffer | string;
+  // Store without compression, e.g. for mimetype entries that readers sniff
+  store?: boolean;
+}
+
+const VERSION = 20;
+const FLAG_UTF8 = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const DOS_DATE = (0 << 9) | (1 << 5) | 1;
+const DOS_TIME = 0;
+
+export const createZip = (entries: ZipEntry[]): Buffer => {
+  const local: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.path, 'utf8');
+    const data = typeof entry.data === 'string' ? Buffer.from(entry.data, 'utf8') : entry.data;
+    const method = entry.store ? METHOD_STORE : METHOD_DEFLATE;
+    const compressed = entry.store ? data : deflateRawSync(data);
+    const checksum = crc32(data);
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(VERSION, 4);
+    header.writeUInt16LE(FLAG_UTF8, 6);
+    header.writeUInt16LE(method, 8);
+    header.writeUInt16LE(DOS_TIME, 10);
+    header.writeUInt16LE(DOS_DATE, 12);
+    header.writeUInt32LE(checksum, 14);
+    header.writeUInt32LE(compressed.length, 18);
+    header.writeUInt32LE(data.length, 22);
+    header.writeUInt16LE(name.length, 26);
+    header.writeUInt16LE(0, 28);
+
+    const record = Buffer.alloc(46);
+    record.writeUInt32LE(0x02014b50, 0);
+    record.writeUInt16LE(VERSION, 4);
+    record.writeUInt16LE(VERSION, 6);
+    record.writeUInt16LE(FLAG_UTF8, 8);
+    record.writeUInt16LE(method, 10);
+    record.writeUInt16LE(DOS_TIME, 12);
+    record.writeUInt16LE(DOS_DATE, 14);
+    record.writeUInt32LE(checksum, 16);
+    record.writeUInt32LE(compressed.length, 20);
+    record.writeUInt32LE(data.length, 24);
+    record.writeUInt16LE(name.length, 28);
+    record.writeUInt32LE(offset, 42);
+
+    local.push(header, name, compressed);
+    central.push(record, name);
+    offset += header.length + name.length + compressed.length;
+  }
+
+  const centralSize = central.reduce((size, part) => size + part.length, 0);
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...local, ...central, end]);
+};
+
+// ==================== READING ====================
+
+// Palette archives are tiny; anything larger is refused rather than inflated
+const MAX_ENTRY_SIZE = 5 * 1024 * 1024;
+const MAX_ENTRIES = 1000;
+// Inflated bytes across all entries read from one archive
+const MAX_TOTAL_SIZE = 10 * 1024 * 1024;
+
+const invalid = (reason: string) => createError.validation(`Invalid ZIP archive: ${reason}`);
+
+export const isZip = (buffer: Buffer): boolean =>
+  buffer.length >= 4 && buffer.readUInt32LE(0) === 0x04034b50;
+
+export interface ZipArchive {
+  // File paths in central directory order
+  paths: string[];
+  has(path: string): boolean;
+  // Decompresses the entry on every call; undefined when the archive has no such file
+  read(path: string): Buffer | undefined;
+}
+
+interface CentralEntry {
+  method: number;
+  size: number;
+  // Compressed data, after the local header
+  start: number;
+  end: number;
+}
+
+/**
+ * Read the central directory of an archive. Entries are only decompressed when read,
+ * so detecting a format inflates nothing but the entry it looks for.
+ * Only stored and deflated entries are supported, which covers every palette format.
+ */
+export const readZip = (buffer: Buffer): ZipArchive => {
+  if (buffer.length < 22) throw invalid('truncated archive');
+
+  // End of central directory record, searched backwards past an optional comment
+  let end = -1;
+  for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 22 - 0xffff); offset--) {
+    if (buffer.readUInt32LE(offset) === 0x06054b50) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) throw invalid('missing end of central directory');
+
+  const count = buffer.readUInt16LE(end + 10);
+  if (count > MAX_ENTRIES) throw invalid('too many entries');
+
+  const entries = new Map<string, CentralEntry>();
+  // [local header offset, end of data] of every entry, to reject entries sharing bytes
+  const ranges: [number, number][] = [];
+  let offset = buffer.readUInt32LE(end + 16);
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== 0x02014b50) {
+      throw invalid('corrupt central directory');
+    }
+
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const size = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const path = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/')) continue;
+    if (entries.has(path)) throw invalid(`duplicate entry ${path}`);
+    if (size > MAX_ENTRY_SIZE) throw invalid(`entry ${path} is too large`);
+    if (method !== METHOD_STORE && method !== METHOD_DEFLATE) {
+      throw invalid(`unsupported compression method ${method}`);
+    }
+    if (method === METHOD_STORE && size !== compressedSize) throw invalid(`corrupt entry ${path}`);
+
+    if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== 0x04034b50) {
+      throw invalid(`corrupt entry ${path}`);
+    }
+    const start = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    if (start + compressedSize > buffer.length) throw invalid(`truncated entry ${path}`);
+
+    entries.set(path, { method, size, start, end: start + compressedSize });
+    ranges.push([localOffset, start + compressedSize]);
+  }
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  for (let i = 1; i < ranges.length; i++) {
+    if (ranges[i][0] < ranges[i - 1][1]) throw invalid('overlapping entries');
+  }
+
+  let inflated = 0;
+
+  return {
+    paths: [...entries.keys()],
+    has: (path) => entries.has(path),
+    read: (path) => {
+      const entry = entries.get(path);
+      if (!entry) return undefined;
+
+      const data = buffer.subarray(entry.start, entry.end);
+      if (entry.method === METHOD_STORE) return data;
+
+      if (inflated + entry.size > MAX_TOTAL_SIZE) throw invalid('archive is too large');
+      let output: Buffer;
+      try {
+        output = inflateRawSync(data, { maxOutputLength: Math.max(1, entry.size) });
+      } catch {
+        throw invalid(`cannot decompress ${path}`);
+      }
+      if (output.length !== entry.size) throw invalid(`cannot decompress ${path}`);
+
+      inflated += output.length;
+      return output;
+    },
+  };
+};
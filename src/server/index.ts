@@ -28,9 +28,18 @@ import {
 // Import route handlers
 import authRoutes from './routes/auth.routes';
 import simplePaletteRoutes from './routes/simple-palette.routes';
-// import paletteRoutes from './routes/palette.routes';
+import paletteRoutes from './routes/palette.routes';
+import paletteRevisionRoutes from './routes/palette-revision.routes';
+import paletteForkRoutes from './routes/palette-fork.routes';
+import paletteTrashRoutes from './routes/palette-trash.routes';
+import paletteFileRoutes from './routes/palette-file.routes';
+import paletteImageRoutes from './routes/palette-image.routes';
+import collectionRoutes from './routes/collection.routes';
+import similarityRoutes from './routes/similarity.routes';
+import colorVisionRoutes from './routes/color-vision.routes';
+import printRoutes from './routes/print.routes';
 // import userRoutes from './routes/user.routes';
-// import colorRoutes from './routes/color.routes';
+import colorRoutes from './routes/color.routes';
 // import collaborationRoutes from './routes/collaboration.routes';
 // import uploadRoutes from './routes/upload.routes';
 // import adminRoutes from './routes/admin.routes';
@@ -38,6 +47,10 @@ import simplePaletteRoutes from './routes/simple-palette.routes';
 // Import socket handlers
 import { setupSocketHandlers } from './sockets/socket-handlers';
 
+// Import background jobs
+import { startTrashPurgeJob } from './services/palette-trash.service';
+import { listPrintConditions } from './services/cmyk.service';
+
 // Import Swagger configuration
 // import { swaggerOptions } from './config/swagger.config';
 
@@ -45,6 +58,7 @@ class ChromaVaultServer {
   private app: express.Application;
   private server: http.Server;
   private io: SocketServer;
+  private stopTrashPurge?: () => void;
 
   constructor() {
     this.app = express();
@@ -84,7 +98,8 @@ class ChromaVaultServer {
       origin: apiConfig.FRONTEND_URL,
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'If-Match'],
+      exposedHeaders: ['ETag', 'Content-Disposition'],
     }));
 
     // Request parsing
@@ -122,10 +137,28 @@ class ChromaVaultServer {
     // Public routes
     apiV1.use('/auth', authRoutes);
     
+    // Trashed palettes are only visible to their owner
+    apiV1.use('/palettes/trash', authMiddleware, paletteTrashRoutes);
+
+    // Palette reads are public; writes check for an authenticated user per route
+    apiV1.use('/palettes/:id/revisions', optionalAuthMiddleware, paletteRevisionRoutes);
+    apiV1.use('/palettes', optionalAuthMiddleware, simplePaletteRoutes, paletteRoutes, paletteForkRoutes, paletteFileRoutes, paletteImageRoutes);
+
+    // Collection exports follow the same visibility rules as palettes
+    apiV1.use('/collections', optionalAuthMiddleware, collectionRoutes);
+
+    // Color math only; no stored data involved
+    apiV1.use('/similarity', similarityRoutes);
+    apiV1.use('/print', printRoutes);
+
+    // Palette simulation is public; image simulation is CPU-heavy and needs a user
+    apiV1.use('/color-vision', optionalAuthMiddleware, colorVisionRoutes);
+
+    // Names and tonal ramps are public; AI analysis and contrast tools check for a user per route
+    apiV1.use('/colors', optionalAuthMiddleware, colorRoutes);
+
     // Protected routes (require authentication)
-    apiV1.use('/palettes', optionalAuthMiddleware, simplePaletteRoutes);
     // apiV1.use('/users', authMiddleware, userRoutes);
-    // apiV1.use('/colors', authMiddleware, colorRoutes);
     // apiV1.use('/collaboration', authMiddleware, collaborationRoutes);
     // apiV1.use('/upload', authMiddleware, uploadRoutes);
     
@@ -180,6 +213,9 @@ class ChromaVaultServer {
   private async gracefulShutdown(signal: string): Promise<void> {
     logger.info(`Received ${signal}. Starting graceful shutdown...`);
 
+    // Stop background jobs
+    this.stopTrashPurge?.();
+
     // Close server
     this.server.close(async () => {
       logger.info('HTTP server closed');
@@ -216,6 +252,14 @@ class ChromaVaultServer {
       logger.info(`🏥 Health Check: http://localhost:${port}/health`);
       logger.info(`🌐 Environment: ${apiConfig.NODE_ENV}`);
     });
+
+    const approximated = listPrintConditions().filter((condition) => condition.source !== 'icc');
+    if (approximated.length > 0) {
+      logger.warn(`ICC profiles missing for ${approximated.map((condition) => condition.id).join(', ')}; `
+        + 'their CMYK values are approximated (see assets/icc/README.md)');
+    }
+
+    this.stopTrashPurge = startTrashPurgeJob();
   }
 }
 
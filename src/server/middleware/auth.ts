@@ -243,6 +243,19 @@ export const optionalAuthMiddleware = async (
   next();
 };
 
+// Require a user resolved by an earlier (optional) authentication middleware
+export const requireAuth = (req: Request, res: Response, next: NextFunction): void => {
+  if (!req.user) {
+    res.status(401).json(responseFormats.error(
+      'Authentication required',
+      'UNAUTHORIZED'
+    ));
+    return;
+  }
+
+  next();
+};
+
 // Role-based authorization middleware
 export const requireRole = (allowedRoles: string[]) => {
   return (req: Request, res: Response, next: NextFunction) => {
@@ -57,6 +57,13 @@ export class ConflictError extends ApiError {
   }
 }
 
+export class PreconditionRequiredError extends ApiError {
+  constructor(message: string = 'Precondition required', details?: any) {
+    super(message, 428, 'PRECONDITION_REQUIRED', details);
+    this.name = 'PreconditionRequiredError';
+  }
+}
+
 export class RateLimitError extends ApiError {
   constructor(retryAfter: number) {
     super('Rate limit exceeded', 429, 'RATE_LIMIT_EXCEEDED', { retryAfter });
@@ -271,6 +278,7 @@ export const createError = {
   forbidden: (message?: string) => new ForbiddenError(message),
   validation: (message: string, details?: any) => new ValidationError(message, details),
   conflict: (message: string, details?: any) => new ConflictError(message, details),
+  preconditionRequired: (message?: string, details?: any) => new PreconditionRequiredError(message, details),
   rateLimit: (retryAfter: number) => new RateLimitError(retryAfter),
   internal: (message?: string) => new ApiError(message || 'Internal server error'),
 };
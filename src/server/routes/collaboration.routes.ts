@@ -77,6 +77,7 @@ router.get('/sessions',
     // Get user's palettes that might have active sessions
     const userPalettes = await prismaClient.palette.findMany({
       where: { 
+        deletedAt: null,
         OR: [
           { userId }, // Own palettes
           { 
@@ -161,8 +162,8 @@ router.get('/sessions/:paletteId',
     const { paletteId } = req.params;
     
     // Check if palette exists and user has access
-    const palette = await prismaClient.palette.findUnique({
-      where: { id: paletteId },
+    const palette = await prismaClient.palette.findFirst({
+      where: { id: paletteId, deletedAt: null },
       select: {
         id: true,
         name: true,
@@ -252,8 +253,8 @@ router.post('/invites',
     const inviterId = req.user!.id;
 
     // Check if palette exists and user is owner
-    const palette = await prismaClient.palette.findUnique({
-      where: { id: paletteId },
+    const palette = await prismaClient.palette.findFirst({
+      where: { id: paletteId, deletedAt: null },
       select: {
         id: true,
         name: true,
@@ -432,7 +433,7 @@ router.get('/invites/sent',
     // For this implementation, we'll get palettes owned by user
     // and check for any recent activity that might indicate invites
     const userPalettes = await prismaClient.palette.findMany({
-      where: { userId },
+      where: { userId, deletedAt: null },
       select: {
         id: true,
         name: true,
@@ -486,8 +487,8 @@ router.get('/history/:paletteId',
     const { page, limit } = req.query as any;
 
     // Check palette access
-    const palette = await prismaClient.palette.findUnique({
-      where: { id: paletteId },
+    const palette = await prismaClient.palette.findFirst({
+      where: { id: paletteId, deletedAt: null },
       select: {
         id: true,
         isPublic: true,
@@ -578,8 +579,8 @@ router.post('/broadcast/:paletteId',
     const { event, data } = req.body;
 
     // Check palette access
-    const palette = await prismaClient.palette.findUnique({
-      where: { id: paletteId },
+    const palette = await prismaClient.palette.findFirst({
+      where: { id: paletteId, deletedAt: null },
       select: {
         id: true,
         isPublic: true,
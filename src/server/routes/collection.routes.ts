@@ -0,0 +1,108 @@
+/**
+ * Collection Routes
+ * Exports that span every palette in a collection
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prismaClient } from '../config/database';
+import { validationSchemas } from '../config/api.config';
+import {
+  validateRequest,
+  asyncHandler,
+  createError
+} from '../middleware/error-handler';
+import { strictRateLimit } from '../middleware/rate-limit';
+import { exportCollectionStyleGuide } from '../services/palette-export.service';
+
+const router = Router();
+
+const collectionParamsSchema = z.object({
+  id: validationSchemas.uuid,
+});
+
+const styleGuideQuerySchema = z.object({
+  paper: z.enum(['a4', 'letter']).default('a4'),
+});
+
+/**
+ * @swagger
+ * /collections/{id}/export/pdf:
+ *   get:
+ *     summary: Download a collection as a printable PDF style guide
+ *     description: |
+ *       One section per palette, in collection order: cover, color values, contrast matrix,
+ *       color vision previews and usage notes. Palettes the viewer cannot see are left out.
+ *     tags: [Collections]
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - name: paper
+ *         in: query
+ *         schema:
+ *           type: string
+ *           enum: [a4, letter]
+ *           default: a4
+ *     responses:
+ *       200:
+ *         description: PDF style guide
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/:id/export/pdf',
+  strictRateLimit(20, 60000), // 20 style guides per minute
+  validateRequest({ params: collectionParamsSchema, query: styleGuideQuerySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const collection = await prismaClient.collection.findUnique({
+      where: { id },
+      include: {
+        palettes: {
+          where: { palette: { deletedAt: null } },
+          include: {
+            palette: {
+              include: {
+                colors: { orderBy: { position: 'asc' } },
+                user: { select: { name: true } },
+              },
+            },
+          },
+          orderBy: { position: 'asc' },
+        },
+      },
+    });
+
+    if (!collection) {
+      throw createError.notFound('Collection');
+    }
+
+    if (!collection.isPublic && collection.userId !== req.user?.id && req.user?.role !== 'ADMIN') {
+      throw createError.notFound('Collection');
+    }
+
+    // A public collection can still hold another user's private palette
+    const palettes = collection.palettes
+      .map((entry) => entry.palette)
+      .filter((palette) => palette.isPublic || palette.userId === req.user?.id || req.user?.role === 'ADMIN');
+
+    const file = exportCollectionStyleGuide({ ...collection, palettes }, req.query);
+
+    res.attachment(file.filename);
+    res.type(file.contentType);
+    res.send(file.body);
+  })
+);
+
+export default router;
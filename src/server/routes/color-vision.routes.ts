@@ -0,0 +1,190 @@
+/**
+ * Color Vision Routes
+ * Color vision deficiency simulation for palettes and uploaded images
+ */
+
+import { Router, Request, Response } from 'express';
+import multer from 'multer';
+import { z } from 'zod';
+import { responseFormats, uploadConfig, validationSchemas } from '../config/api.config';
+import {
+  validateRequest,
+  asyncHandler,
+  createError
+} from '../middleware/error-handler';
+import { strictRateLimit } from '../middleware/rate-limit';
+import { requireAuth } from '../middleware/auth';
+import {
+  COLOR_VISION_DEFICIENCIES,
+  COLOR_VISION_MODELS,
+  DEFAULT_CONFUSION_THRESHOLD,
+  colorVisionReport
+} from '../../lib/color';
+import { simulateImage } from '../services/color-vision.service';
+
+const router = Router();
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: uploadConfig.maxSize,
+    files: 1,
+  },
+  fileFilter: (req, file, cb) => {
+    if (uploadConfig.allowedTypes.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(createError.validation(`File type ${file.mimetype} not allowed`));
+    }
+  },
+});
+
+const deficiencySchema = z.enum(COLOR_VISION_DEFICIENCIES as [string, ...string[]]);
+const modelSchema = z.enum(COLOR_VISION_MODELS as [string, ...string[]]);
+
+const paletteBodySchema = z.object({
+  colors: z.array(validationSchemas.colorHex).min(1).max(20),
+  deficiencies: z.array(deficiencySchema).min(1).optional(),
+  severity: z.number().min(0).max(1).default(1),
+  model: modelSchema.optional(),
+  threshold: z.number().min(0).max(100).default(DEFAULT_CONFUSION_THRESHOLD),
+});
+
+// Multipart fields arrive as strings
+const imageBodySchema = z.object({
+  deficiency: deficiencySchema,
+  severity: z.coerce.number().min(0).max(1).default(1),
+  model: modelSchema.optional(),
+});
+
+/**
+ * @swagger
+ * /color-vision/palette:
+ *   post:
+ *     summary: Simulate a palette under color vision deficiencies
+ *     description: |
+ *       Colors are simulated in linear sRGB. severity runs from 0 (typical vision) to 1
+ *       (protanopia, deuteranopia, tritanopia); values in between model anomalous trichromacy.
+ *       model defaults to machado (Machado 2009) for protan and deutan and brettel (Brettel 1997)
+ *       for tritan. confusablePairs lists palette indexes that are at least `threshold` apart
+ *       (ΔE2000) with typical vision but closer than that once simulated.
+ *     tags: [Color Vision]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [colors]
+ *             properties:
+ *               colors:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 minItems: 1
+ *                 maxItems: 20
+ *               deficiencies:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [protan, deutan, tritan, achromatopsia]
+ *                 description: All four when omitted
+ *               severity:
+ *                 type: number
+ *                 minimum: 0
+ *                 maximum: 1
+ *                 default: 1
+ *               model:
+ *                 type: string
+ *                 enum: [machado, brettel]
+ *               threshold:
+ *                 type: number
+ *                 default: 10
+ *     responses:
+ *       200:
+ *         description: Simulated palettes and confusable pairs per deficiency
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+router.post('/palette',
+  strictRateLimit(120, 60000), // 120 simulations per minute
+  validateRequest({ body: paletteBodySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { colors, deficiencies, severity, model, threshold } = req.body;
+    const simulations = colorVisionReport(colors, { deficiencies, severity, model, threshold });
+    const confusable = simulations.filter((simulation) => simulation.confusablePairs.length > 0);
+
+    res.json(responseFormats.success(
+      { colors, threshold, simulations },
+      confusable.length > 0
+        ? `Some colors become indistinguishable under ${confusable.map((simulation) => simulation.deficiency).join(', ')}`
+        : 'All colors stay distinguishable'
+    ));
+  })
+);
+
+/**
+ * @swagger
+ * /color-vision/image:
+ *   post:
+ *     summary: Simulate an uploaded image under a color vision deficiency
+ *     description: |
+ *       Returns the image as a PNG, scaled down to at most 2048x2048, with the same severity
+ *       and model options as /color-vision/palette. Images above 24 megapixels are refused.
+ *     tags: [Color Vision]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [image, deficiency]
+ *             properties:
+ *               image:
+ *                 type: string
+ *                 format: binary
+ *               deficiency:
+ *                 type: string
+ *                 enum: [protan, deutan, tritan, achromatopsia]
+ *               severity:
+ *                 type: number
+ *                 minimum: 0
+ *                 maximum: 1
+ *                 default: 1
+ *               model:
+ *                 type: string
+ *                 enum: [machado, brettel]
+ *     responses:
+ *       200:
+ *         description: Simulated image
+ *         content:
+ *           image/png:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.post('/image',
+  requireAuth,
+  strictRateLimit(20, 60000), // 20 images per minute
+  upload.single('image'),
+  validateRequest({ body: imageBodySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    if (!req.file) {
+      throw createError.validation('No image provided');
+    }
+
+    const { deficiency, severity, model } = req.body;
+    const image = await simulateImage(req.file.buffer, deficiency, { severity, model });
+
+    res.type(image.contentType);
+    res.send(image.body);
+  })
+);
+
+export default router;
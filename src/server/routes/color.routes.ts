@@ -3,7 +3,7 @@
  * AI-powered color analysis and processing endpoints
  */
 
-import { Router } from 'express';
+import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import OpenAI from 'openai';
 import { prismaClient } from '../config/database';
@@ -14,98 +14,69 @@ import {
   createError 
 } from '../middleware/error-handler';
 import { strictRateLimit } from '../middleware/rate-limit';
+import { requireAuth } from '../middleware/auth';
 import { logger } from '../utils/logger';
+import {
+  hexToRgb,
+  rgbToHex,
+  rgbToHsl,
+  hslToRgb,
+  contrastRatio,
+  apcaContrast,
+  apcaFontSizes,
+  apcaLevel,
+  apcaMinimumFontSize,
+  apcaPolarity,
+  contrastScore,
+  requiredContrast,
+  suggestContrastFixes,
+  fixPaletteContrast,
+  ContrastTarget,
+  PalettePair,
+  contrastMatrix,
+  TONAL_RAMP_PRESETS,
+  TonalRampPreset,
+  generateTonalRamp,
+  isTonalRampStep,
+  detectHarmony
+} from '../../lib/color';
+import {
+  COLOR_NAME_VOCABULARIES,
+  ColorNameVocabulary,
+  DEFAULT_COLOR_NAME_VOCABULARY,
+  nameColor,
+  nearestColorNames
+} from '../services/color-naming.service';
 
 const router = Router();
 
 // Initialize OpenAI client if available
 const openai = aiConfig ? new OpenAI({ apiKey: aiConfig.apiKey }) : null;
 
-// Color utility functions
-const hexToRgb = (hex: string) => {
-  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-  return result ? {
-    r: parseInt(result[1], 16),
-    g: parseInt(result[2], 16),
-    b: parseInt(result[3], 16)
-  } : null;
+// Routes report whole-number HSL
+const hexToHsl = (hex: string) => {
+  const { h, s, l } = rgbToHsl(hexToRgb(hex));
+  return { h: Math.round(h) % 360, s: Math.round(s), l: Math.round(l) };
 };
 
-const rgbToHsl = (r: number, g: number, b: number) => {
-  r /= 255;
-  g /= 255;
-  b /= 255;
-
-  const max = Math.max(r, g, b);
-  const min = Math.min(r, g, b);
-  let h = 0;
-  let s = 0;
-  const l = (max + min) / 2;
-
-  if (max === min) {
-    h = s = 0;
-  } else {
-    const d = max - min;
-    s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
-
-    switch (max) {
-      case r: h = (g - b) / d + (g < b ? 6 : 0); break;
-      case g: h = (b - r) / d + 2; break;
-      case b: h = (r - g) / d + 4; break;
-    }
-    h /= 6;
-  }
-
-  return {
-    h: Math.round(h * 360),
-    s: Math.round(s * 100),
-    l: Math.round(l * 100)
-  };
-};
-
-const getContrastRatio = (color1: string, color2: string): number => {
-  const getLuminance = (hex: string): number => {
-    const rgb = hexToRgb(hex);
-    if (!rgb) return 0;
-
-    const { r, g, b } = rgb;
-    const [rs, gs, bs] = [r, g, b].map(c => {
-      c = c / 255;
-      return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
-    });
-
-    return 0.2126 * rs + 0.7152 * gs + 0.0722 * bs;
-  };
-
-  const lum1 = getLuminance(color1);
-  const lum2 = getLuminance(color2);
-  const brightest = Math.max(lum1, lum2);
-  const darkest = Math.min(lum1, lum2);
-
-  return (brightest + 0.05) / (darkest + 0.05);
-};
+const getContrastRatio = (color1: string, color2: string): number =>
+  contrastRatio(hexToRgb(color1), hexToRgb(color2));
 
 // Validation schemas
 const analyzeColorSchema = z.object({
-  body: z.object({
-    color: validationSchemas.colorHex,
-    context: z.string().max(200).optional(),
-  }),
+  color: validationSchemas.colorHex,
+  context: z.string().max(200).optional(),
 });
 
 const analyzePaletteSchema = z.object({
-  body: z.object({
-    colors: z.array(validationSchemas.colorHex).min(2).max(20),
-    context: z.string().max(200).optional(),
-  }),
+  colors: z.array(validationSchemas.colorHex).min(2).max(20),
+  context: z.string().max(200).optional(),
 });
 
 const generateHarmonySchema = z.object({
-  body: z.object({
-    baseColor: validationSchemas.colorHex,
-    harmonyType: z.enum(['complementary', 'analogous', 'triadic', 'tetradic', 'monochromatic']),
-    count: z.number().int().min(2).max(10).default(5),
-  }),
+  baseColor: validationSchemas.colorHex,
+  harmonyType: z.enum(['complementary', 'analogous', 'triadic', 'tetradic', 'monochromatic']),
+  count: z.number().int().min(2).max(10).default(5),
 });
 
 const extractColorsSchema = z.object({
@@ -116,12 +87,49 @@ const extractColorsSchema = z.object({
 });
 
 const accessibilitySchema = z.object({
-  body: z.object({
-    foreground: validationSchemas.colorHex,
-    background: validationSchemas.colorHex,
-    fontSize: z.number().min(10).max(72).default(16),
-    fontWeight: z.enum(['normal', 'bold']).default('normal'),
-  }),
+  foreground: validationSchemas.colorHex,
+  background: validationSchemas.colorHex,
+  fontSize: z.number().min(10).max(72).default(16),
+  fontWeight: z.union([z.enum(['normal', 'bold']), z.number().int().min(100).max(900)]).default('normal'),
+});
+
+const colorNameParamsSchema = z.object({
+  hex: z.string().regex(/^[0-9A-Fa-f]{6}$/, 'Invalid hex color format'),
+});
+
+const colorNameQuerySchema = z.object({
+  vocabulary: z.enum(COLOR_NAME_VOCABULARIES as [ColorNameVocabulary, ...ColorNameVocabulary[]]).default(DEFAULT_COLOR_NAME_VOCABULARY),
+  alternatives: z.string().regex(/^\d+$/).transform((val) => Math.min(10, parseInt(val, 10))).default(0),
+});
+
+const contrastMatrixSchema = z.object({
+  colors: z.array(validationSchemas.colorHex).min(2).max(20),
+});
+
+const tonalRampSchema = z.object({
+  color: validationSchemas.colorHex,
+  preset: z.enum(TONAL_RAMP_PRESETS as [TonalRampPreset, ...TonalRampPreset[]]).default('tailwind'),
+  pinStep: z.number().int().optional(),
+}).refine(
+  ({ preset, pinStep }) => pinStep === undefined || isTonalRampStep(preset, pinStep),
+  { message: 'pinStep must be one of the preset steps', path: ['pinStep'] }
+);
+
+const accessibilityFixSchema = z.object({
+  foreground: validationSchemas.colorHex.optional(),
+  background: validationSchemas.colorHex.optional(),
+  colors: z.array(validationSchemas.colorHex).min(2).max(20).optional(),
+  pairs: z.array(z.object({
+    foreground: z.number().int().min(0),
+    background: z.number().int().min(0),
+  })).max(400).optional(),
+  standard: z.enum(['wcag', 'apca']).default('wcag'),
+  level: z.enum(['AA', 'AAA']).default('AA'),
+  largeText: z.boolean().default(false),
+  lc: z.number().min(15).max(106).default(75),
+  adjust: z.enum(['foreground', 'background', 'either']).optional(),
+}).refine((body) => body.colors || (body.foreground && body.background), {
+  message: 'Send foreground and background, or colors',
 });
 
 /**
@@ -166,14 +174,15 @@ const accessibilitySchema = z.object({
  *         $ref: '#/components/responses/RateLimitError'
  */
 router.post('/analyze',
+  requireAuth,
   strictRateLimit(20, 300000), // 20 analyses per 5 minutes
-  validateRequest(analyzeColorSchema),
-  asyncHandler(async (req, res) => {
+  validateRequest({ body: analyzeColorSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
     const { color, context } = req.body;
 
     // Basic color information
-    const rgb = hexToRgb(color)!;
-    const hsl = rgbToHsl(rgb.r, rgb.g, rgb.b);
+    const rgb = hexToRgb(color);
+    const hsl = hexToHsl(color);
     
     // Color temperature analysis
     const getColorTemperature = (h: number): string => {
@@ -189,7 +198,7 @@ router.post('/analyze',
       color,
       rgb,
       hsl,
-      name: await getColorName(color),
+      name: nameColor(color).name,
       temperature: getColorTemperature(hsl.h),
       brightness: Math.round((rgb.r * 299 + rgb.g * 587 + rgb.b * 114) / 1000),
       saturation: hsl.s,
@@ -242,6 +251,10 @@ Provide analysis in this JSON format:
  * /colors/analyze-palette:
  *   post:
  *     summary: Analyze a color palette with AI
+ *     description: |
+ *       harmony fits the palette hues in OKLCH against the monochromatic, analogous,
+ *       complementary, split-complementary, triadic, tetradic and square templates, with a
+ *       score per template and the colors outside it; below a score of 70 the palette is custom.
  *     tags: [Colors]
  *     security:
  *       - bearerAuth: []
@@ -277,9 +290,10 @@ Provide analysis in this JSON format:
  *                       $ref: '#/components/schemas/PaletteAnalysis'
  */
 router.post('/analyze-palette',
+  requireAuth,
   strictRateLimit(10, 300000), // 10 palette analyses per 5 minutes
-  validateRequest(analyzePaletteSchema),
-  asyncHandler(async (req, res) => {
+  validateRequest({ body: analyzePaletteSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
     const { colors, context } = req.body;
 
     // Basic palette analysis
@@ -370,13 +384,13 @@ Provide analysis in this JSON format:
  *         description: Color harmony generated
  */
 router.post('/generate-harmony',
+  requireAuth,
   strictRateLimit(30, 300000), // 30 generations per 5 minutes
-  validateRequest(generateHarmonySchema),
-  asyncHandler(async (req, res) => {
+  validateRequest({ body: generateHarmonySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
     const { baseColor, harmonyType, count } = req.body;
 
-    const rgb = hexToRgb(baseColor)!;
-    const hsl = rgbToHsl(rgb.r, rgb.g, rgb.b);
+    const hsl = hexToHsl(baseColor);
 
     const colors = generateColorHarmony(hsl, harmonyType, count);
 
@@ -425,21 +439,43 @@ router.post('/generate-harmony',
  *                 minimum: 10
  *                 maximum: 72
  *                 default: 16
+ *                 description: CSS px; APCA's minimum sizes are looked up in px
  *               fontWeight:
- *                 type: string
- *                 enum: [normal, bold]
+ *                 oneOf:
+ *                   - type: string
+ *                     enum: [normal, bold]
+ *                   - type: integer
+ *                     minimum: 100
+ *                     maximum: 900
  *                 default: normal
  *     responses:
  *       200:
- *         description: Accessibility analysis completed
+ *         description: |
+ *           WCAG 2.1 ratio and level, plus APCA: signed Lc (positive for dark text on light),
+ *           polarity, the simple APCA level, the smallest usable px size per font weight
+ *           (null where no size is readable) and whether this size and weight pass.
  */
 router.post('/accessibility',
-  validateRequest(accessibilitySchema),
-  asyncHandler(async (req, res) => {
+  requireAuth,
+  validateRequest({ body: accessibilitySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
     const { foreground, background, fontSize, fontWeight } = req.body;
 
     const contrastRatio = getContrastRatio(foreground, background);
-    const isLargeText = fontSize >= 18 || (fontSize >= 14 && fontWeight === 'bold');
+    const isBold = fontWeight === 'bold' || (typeof fontWeight === 'number' && fontWeight >= 700);
+    const isLargeText = fontSize >= 18 || (fontSize >= 14 && isBold);
+
+    // APCA (WCAG 3 draft): foreground is the text color
+    const lc = apcaContrast(foreground, background);
+    const minimumFontSize = apcaMinimumFontSize(lc, fontWeight);
+    const apca = {
+      lc: Math.round(lc * 10) / 10,
+      polarity: apcaPolarity(lc),
+      level: apcaLevel(lc),
+      minimumFontSize,
+      fontSizes: apcaFontSizes(lc),
+      passes: minimumFontSize !== null && fontSize >= minimumFontSize,
+    };
     
     // WCAG 2.1 Guidelines
     const wcagAA = isLargeText ? 3.0 : 4.5;
@@ -462,18 +498,232 @@ router.post('/accessibility',
         },
       },
       level: contrastRatio >= wcagAAA ? 'AAA' : contrastRatio >= wcagAA ? 'AA' : 'FAIL',
-      recommendations: generateAccessibilityRecommendations(foreground, background, contrastRatio),
+      apca,
+      recommendations: [
+        ...generateAccessibilityRecommendations(foreground, background, contrastRatio),
+        ...generateApcaRecommendations(contrastRatio >= wcagAA, apca, fontSize),
+      ],
     };
 
     res.json(responseFormats.success(result, 'Accessibility analysis completed'));
   })
 );
 
+/**
+ * @swagger
+ * /colors/accessibility/fix:
+ *   post:
+ *     summary: Suggest the nearest colors that reach a contrast target
+ *     description: |
+ *       Colors are moved along OKLCH lightness, keeping their hue, and the candidates closest
+ *       to the original by CIEDE2000 are returned first. With `adjust: either`, both colors are
+ *       changed only when neither alone can pass.
+ *       Send `foreground` and `background` for one pair, or `colors` to fix every failing pair of
+ *       a palette at once; `pairs` are index-based and default to every color as text on the first.
+ *     tags: [Colors]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               foreground:
+ *                 type: string
+ *               background:
+ *                 type: string
+ *               colors:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               pairs:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     foreground:
+ *                       type: integer
+ *                     background:
+ *                       type: integer
+ *               standard:
+ *                 type: string
+ *                 enum: [wcag, apca]
+ *                 default: wcag
+ *               level:
+ *                 type: string
+ *                 enum: [AA, AAA]
+ *                 default: AA
+ *               largeText:
+ *                 type: boolean
+ *                 default: false
+ *               lc:
+ *                 type: number
+ *                 default: 75
+ *                 description: APCA Lc threshold (absolute value)
+ *               adjust:
+ *                 type: string
+ *                 enum: [foreground, background, either]
+ *                 description: Defaults to either for a pair and foreground for a palette
+ *     responses:
+ *       200:
+ *         description: Suggested fixes
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+router.post('/accessibility/fix',
+  requireAuth,
+  validateRequest({ body: accessibilityFixSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { foreground, background, colors, pairs, standard, level, largeText, lc, adjust } = req.body;
+    const target: ContrastTarget = standard === 'apca'
+      ? { standard, lc }
+      : { standard, level, largeText };
+
+    if (colors) {
+      const palettePairs: PalettePair[] = pairs ?? colors.slice(1).map((_: string, i: number) => ({ foreground: i + 1, background: 0 }));
+
+      if (palettePairs.some((pair) => pair.foreground >= colors.length || pair.background >= colors.length)) {
+        throw createError.validation('Pair index out of range');
+      }
+
+      const result = fixPaletteContrast(colors, palettePairs, target, adjust ?? 'foreground');
+
+      res.json(responseFormats.success(
+        { target, required: requiredContrast(target), ...result },
+        result.unresolved.length > 0
+          ? `${result.unresolved.length} pair(s) could not reach the target`
+          : `All ${palettePairs.length} pair(s) pass`
+      ));
+      return;
+    }
+
+    const fixes = suggestContrastFixes(foreground, background, target, adjust ?? 'either');
+    const score = contrastScore(foreground, background, target);
+
+    res.json(responseFormats.success({
+      foreground,
+      background,
+      target,
+      required: requiredContrast(target),
+      score,
+      passes: score >= requiredContrast(target),
+      fixes,
+    }, fixes.length > 0 || score >= requiredContrast(target) ? 'Accessibility fixes generated' : 'No color change reaches the target'));
+  })
+);
+
+/**
+ * @swagger
+ * /colors/contrast-matrix:
+ *   post:
+ *     summary: Contrast of every color pair in a palette under WCAG 2 and APCA
+ *     description: |
+ *       cells[foreground][background] holds the WCAG ratio, the signed APCA Lc (foreground as text)
+ *       and which uses each pair passes: bodyText (4.5:1, Lc 75), largeText (3:1, Lc 45) and
+ *       uiComponents (3:1, Lc 30). pairings lists the passing pairs per standard and use;
+ *       warnings flags palettes without any accessible text color.
+ *     tags: [Colors]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - colors
+ *             properties:
+ *               colors:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   pattern: '^#[0-9A-Fa-f]{6}$'
+ *                 minItems: 2
+ *                 maxItems: 20
+ *     responses:
+ *       200:
+ *         description: Contrast matrix
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+router.post('/contrast-matrix',
+  requireAuth,
+  validateRequest({ body: contrastMatrixSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const matrix = contrastMatrix(req.body.colors);
+
+    res.json(responseFormats.success(
+      matrix,
+      matrix.warnings.length > 0 ? matrix.warnings[0] : 'Contrast matrix calculated'
+    ));
+  })
+);
+
+/**
+ * @swagger
+ * /colors/tonal-ramp:
+ *   post:
+ *     summary: Expand a color into a tonal ramp
+ *     description: |
+ *       Shades evenly spaced in OKLCH lightness, with chroma tapering towards white and black and
+ *       mapped into sRGB. Presets: tailwind (steps 50-950) and material (tones 0-100). The input
+ *       color is kept unchanged at pinStep, or at the step closest to its lightness when omitted.
+ *     tags: [Colors]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - color
+ *             properties:
+ *               color:
+ *                 type: string
+ *                 pattern: '^#[0-9A-Fa-f]{6}$'
+ *               preset:
+ *                 type: string
+ *                 enum: [tailwind, material]
+ *                 default: tailwind
+ *               pinStep:
+ *                 type: integer
+ *                 description: Step that holds the input color, e.g. 500 or 40
+ *     responses:
+ *       200:
+ *         description: Tonal ramp generated
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+router.post('/tonal-ramp',
+  validateRequest({ body: tonalRampSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { color, preset, pinStep } = req.body as z.infer<typeof tonalRampSchema>;
+    const shades = generateTonalRamp(color, { preset, pinStep });
+
+    res.json(responseFormats.success({
+      color: color.toUpperCase(),
+      preset,
+      pinnedStep: shades.find((shade) => shade.base)?.step,
+      shades,
+    }, 'Tonal ramp generated'));
+  })
+);
+
 /**
  * @swagger
  * /colors/name/{hex}:
  *   get:
  *     summary: Get the name of a color
+ *     description: |
+ *       Nearest named color by ΔE2000. Vocabularies: css (CSS keywords), xkcd (the 949 names
+ *       of the xkcd color survey, such as "dusty rose" and "bluish green") and korean (the
+ *       Korean names of the Many Languages, Many Colors survey). confidence is exact below
+ *       ΔE 1, close below 5, approximate otherwise.
  *     tags: [Colors]
  *     parameters:
  *       - name: hex
@@ -483,58 +733,48 @@ router.post('/accessibility',
  *           type: string
  *           pattern: '^[0-9A-Fa-f]{6}$'
  *         description: Hex color code without the # symbol
+ *       - name: vocabulary
+ *         in: query
+ *         schema:
+ *           type: string
+ *           enum: [css, xkcd, korean]
+ *           default: xkcd
+ *       - name: alternatives
+ *         in: query
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 10
+ *           default: 0
+ *         description: Number of next-nearest names to include
  *     responses:
  *       200:
  *         description: Color name retrieved
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
  */
 router.get('/name/:hex',
-  asyncHandler(async (req, res) => {
+  validateRequest({ params: colorNameParamsSchema, query: colorNameQuerySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
     const hex = `#${req.params.hex.toUpperCase()}`;
-    
-    if (!hex.match(/^#[0-9A-Fa-f]{6}$/)) {
-      throw createError.validation('Invalid hex color format');
-    }
+    const { vocabulary, alternatives } = req.query as unknown as z.infer<typeof colorNameQuerySchema>;
+
+    const [match, ...others] = nearestColorNames(hex, vocabulary, alternatives + 1);
 
-    const name = await getColorName(hex);
-    
     res.json(responseFormats.success({
       hex,
-      name,
+      name: match.name,
+      vocabulary,
+      match,
+      alternatives: others,
     }, 'Color name retrieved'));
   })
 );
 
 // Helper functions
-const getColorName = async (hex: string): Promise<string> => {
-  // This would typically use a color name database or API
-  // For now, returning a simplified implementation
-  const colorNames: { [key: string]: string } = {
-    '#FF0000': 'Red',
-    '#00FF00': 'Green',
-    '#0000FF': 'Blue',
-    '#FFFF00': 'Yellow',
-    '#FF00FF': 'Magenta',
-    '#00FFFF': 'Cyan',
-    '#000000': 'Black',
-    '#FFFFFF': 'White',
-    '#808080': 'Gray',
-  };
-
-  return colorNames[hex.toUpperCase()] || 'Unknown';
-};
-
-const detectHarmony = (colors: string[]): string => {
-  // Simplified harmony detection
-  if (colors.length === 2) return 'complementary';
-  if (colors.length === 3) return 'triadic';
-  if (colors.length >= 4) return 'custom';
-  return 'monochromatic';
-};
-
 const getPaletteTemperature = (colors: string[]): string => {
   const temperatures = colors.map(color => {
-    const rgb = hexToRgb(color)!;
-    const hsl = rgbToHsl(rgb.r, rgb.g, rgb.b);
+    const hsl = hexToHsl(color);
     return hsl.h >= 0 && hsl.h < 180 ? 'warm' : 'cool';
   });
 
@@ -554,17 +794,22 @@ const analyzePaletteContrast = (colors: string[]) => {
     }
   }
 
+  // Which pairs are usable for text and UI, and whether any text color exists at all
+  const matrix = contrastMatrix(colors);
+
   return {
     highest: Math.max(...contrasts),
     lowest: Math.min(...contrasts),
     average: contrasts.reduce((a, b) => a + b, 0) / contrasts.length,
+    pairings: matrix.pairings,
+    textColors: matrix.textColors,
+    warnings: matrix.warnings,
   };
 };
 
 const getAverageHue = (colors: string[]): number => {
   const hues = colors.map(color => {
-    const rgb = hexToRgb(color)!;
-    const hsl = rgbToHsl(rgb.r, rgb.g, rgb.b);
+    const hsl = hexToHsl(color);
     return hsl.h;
   });
 
@@ -573,8 +818,7 @@ const getAverageHue = (colors: string[]): number => {
 
 const getAverageSaturation = (colors: string[]): number => {
   const saturations = colors.map(color => {
-    const rgb = hexToRgb(color)!;
-    const hsl = rgbToHsl(rgb.r, rgb.g, rgb.b);
+    const hsl = hexToHsl(color);
     return hsl.s;
   });
 
@@ -583,8 +827,7 @@ const getAverageSaturation = (colors: string[]): number => {
 
 const getAverageLightness = (colors: string[]): number => {
   const lightnesses = colors.map(color => {
-    const rgb = hexToRgb(color)!;
-    const hsl = rgbToHsl(rgb.r, rgb.g, rgb.b);
+    const hsl = hexToHsl(color);
     return hsl.l;
   });
 
@@ -596,7 +839,7 @@ const generateColorHarmony = (baseHsl: any, harmonyType: string, count: number)
   
   // Add base color
   colors.push({
-    hex: hslToHex(baseHsl),
+    hex: rgbToHex(hslToRgb(baseHsl)),
     name: 'Base',
     hsl: baseHsl,
     relationship: 'base',
@@ -605,7 +848,7 @@ const generateColorHarmony = (baseHsl: any, harmonyType: string, count: number)
   switch (harmonyType) {
     case 'complementary':
       colors.push({
-        hex: hslToHex({ h: (baseHsl.h + 180) % 360, s: baseHsl.s, l: baseHsl.l }),
+        hex: rgbToHex(hslToRgb({ h: (baseHsl.h + 180) % 360, s: baseHsl.s, l: baseHsl.l })),
         name: 'Complementary',
         hsl: { h: (baseHsl.h + 180) % 360, s: baseHsl.s, l: baseHsl.l },
         relationship: 'complementary',
@@ -616,7 +859,7 @@ const generateColorHarmony = (baseHsl: any, harmonyType: string, count: number)
       for (let i = 1; i < count; i++) {
         const hue = (baseHsl.h + (i * 30)) % 360;
         colors.push({
-          hex: hslToHex({ h: hue, s: baseHsl.s, l: baseHsl.l }),
+          hex: rgbToHex(hslToRgb({ h: hue, s: baseHsl.s, l: baseHsl.l })),
           name: `Analogous ${i}`,
           hsl: { h: hue, s: baseHsl.s, l: baseHsl.l },
           relationship: 'analogous',
@@ -626,13 +869,13 @@ const generateColorHarmony = (baseHsl: any, harmonyType: string, count: number)
 
     case 'triadic':
       colors.push({
-        hex: hslToHex({ h: (baseHsl.h + 120) % 360, s: baseHsl.s, l: baseHsl.l }),
+        hex: rgbToHex(hslToRgb({ h: (baseHsl.h + 120) % 360, s: baseHsl.s, l: baseHsl.l })),
         name: 'Triadic 1',
         hsl: { h: (baseHsl.h + 120) % 360, s: baseHsl.s, l: baseHsl.l },
         relationship: 'triadic',
       });
       colors.push({
-        hex: hslToHex({ h: (baseHsl.h + 240) % 360, s: baseHsl.s, l: baseHsl.l }),
+        hex: rgbToHex(hslToRgb({ h: (baseHsl.h + 240) % 360, s: baseHsl.s, l: baseHsl.l })),
         name: 'Triadic 2',
         hsl: { h: (baseHsl.h + 240) % 360, s: baseHsl.s, l: baseHsl.l },
         relationship: 'triadic',
@@ -643,7 +886,7 @@ const generateColorHarmony = (baseHsl: any, harmonyType: string, count: number)
       for (let i = 1; i < count; i++) {
         const lightness = Math.max(10, Math.min(90, baseHsl.l + (i * 15) - 30));
         colors.push({
-          hex: hslToHex({ h: baseHsl.h, s: baseHsl.s, l: lightness }),
+          hex: rgbToHex(hslToRgb({ h: baseHsl.h, s: baseHsl.s, l: lightness })),
           name: `Monochromatic ${i}`,
           hsl: { h: baseHsl.h, s: baseHsl.s, l: lightness },
           relationship: 'monochromatic',
@@ -655,40 +898,6 @@ const generateColorHarmony = (baseHsl: any, harmonyType: string, count: number)
   return colors.slice(0, count);
 };
 
-const hslToHex = (hsl: { h: number; s: number; l: number }): string => {
-  const h = hsl.h / 360;
-  const s = hsl.s / 100;
-  const l = hsl.l / 100;
-
-  const hue2rgb = (p: number, q: number, t: number) => {
-    if (t < 0) t += 1;
-    if (t > 1) t -= 1;
-    if (t < 1/6) return p + (q - p) * 6 * t;
-    if (t < 1/2) return q;
-    if (t < 2/3) return p + (q - p) * (2/3 - t) * 6;
-    return p;
-  };
-
-  let r, g, b;
-
-  if (s === 0) {
-    r = g = b = l;
-  } else {
-    const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
-    const p = 2 * l - q;
-    r = hue2rgb(p, q, h + 1/3);
-    g = hue2rgb(p, q, h);
-    b = hue2rgb(p, q, h - 1/3);
-  }
-
-  const toHex = (c: number) => {
-    const hex = Math.round(c * 255).toString(16);
-    return hex.length === 1 ? '0' + hex : hex;
-  };
-
-  return `#${toHex(r)}${toHex(g)}${toHex(b)}`.toUpperCase();
-};
-
 const getHarmonyTheory = (harmonyType: string): string => {
   const theories = {
     complementary: 'Colors opposite each other on the color wheel create high contrast and vibrant looks.',
@@ -743,4 +952,25 @@ const generateAccessibilityRecommendations = (fg: string, bg: string, contrast:
   return recommendations;
 };
 
+const generateApcaRecommendations = (
+  passesWcag: boolean,
+  apca: { lc: number; passes: boolean; minimumFontSize: number | null },
+  fontSize: number
+): string[] => {
+  if (apca.passes) return [];
+
+  const lc = Math.abs(apca.lc);
+  const recommendations = [
+    apca.minimumFontSize === null
+      ? `APCA contrast Lc ${lc} is too low for text at this weight`
+      : `APCA contrast Lc ${lc} needs at least ${apca.minimumFontSize}px text at this weight (currently ${fontSize}px)`,
+  ];
+
+  if (passesWcag) {
+    recommendations.push('Passes WCAG 2 but falls short under APCA, which tracks perceived contrast more closely, especially for light text on dark backgrounds');
+  }
+
+  return recommendations;
+};
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,360 @@
+/**
+ * Palette File Routes
+ * Export palettes to swatch files and import swatch files as palettes
+ */
+
+import { Router, Request, Response } from 'express';
+import multer from 'multer';
+import { z } from 'zod';
+import { prismaClient } from '../config/database';
+import { responseFormats, validationSchemas, uploadConfig } from '../config/api.config';
+import {
+  validateRequest,
+  asyncHandler,
+  createError
+} from '../middleware/error-handler';
+import { requireAuth } from '../middleware/auth';
+import { strictRateLimit } from '../middleware/rate-limit';
+import { cssColorValues, toGamutColor } from '../../lib/color';
+import { StoredCmyk } from '../services/cmyk.service';
+import { exportPalette, ExportedFile } from '../services/palette-export.service';
+import { importPaletteFile, importFormats } from '../services/palette-import.service';
+import { proposePaletteFromStylesheet, DEFAULT_MERGE_DISTANCE } from '../services/stylesheet-import.service';
+
+const router = Router();
+
+// Swatch files are small binaries or text; the format is detected from contents and extension
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: uploadConfig.maxSize,
+    files: 1,
+  },
+});
+
+const exportParamsSchema = z.object({
+  id: validationSchemas.uuid,
+  format: z.string().toLowerCase(),
+});
+
+const adHocExportParamsSchema = z.object({
+  format: z.string().toLowerCase(),
+});
+
+const adHocExportBodySchema = z.object({
+  name: z.string().min(1).max(100).default('palette'),
+  description: z.string().max(500).optional(),
+  colors: z.array(z.object({
+    hex: validationSchemas.colorHex.optional(),
+    color: validationSchemas.cssColor.optional(),
+    name: z.string().max(50).optional(),
+  }).refine((color) => color.hex !== undefined || color.color !== undefined, {
+    message: 'Either hex or color is required',
+    path: ['hex'],
+  }).transform(({ hex, color, name }) => {
+    const { wideGamut, ...values } = cssColorValues(color ?? hex ?? '');
+    return { hex: values.hex, name, wideGamut };
+  })).min(1, 'At least one color is required').max(20, 'Too many colors'),
+});
+
+const importBodySchema = z.object({
+  format: z.enum(importFormats as [string, ...string[]]).optional(),
+  name: z.string().min(1).max(100).optional(),
+  isPublic: z.enum(['true', 'false']).default('false').transform((val) => val === 'true'),
+});
+
+// Stylesheets are plain text, so they may also be pasted as `content`
+const stylesheetBodySchema = z.object({
+  content: z.string().max(uploadConfig.maxSize).optional(),
+  syntax: z.enum(['css', 'scss', 'less', 'tailwind', 'json']).optional(),
+  name: z.string().min(1).max(100).optional(),
+  threshold: z.coerce.number().min(0).max(0.2).default(DEFAULT_MERGE_DISTANCE),
+});
+
+const sendExportedFile = (res: Response, file: ExportedFile) => {
+  res.attachment(file.filename);
+  res.type(file.contentType);
+  res.send(file.body);
+};
+
+/**
+ * @swagger
+ * /palettes/{id}/export/{format}:
+ *   get:
+ *     summary: Download a palette as a swatch file
+ *     description: |
+ *       Format options are passed as query parameters.
+ *       ase: model (rgb, cmyk, lab, gray), colorType (global, spot, process), group (true, false).
+ *       aco: model (rgb, hsb, cmyk, lab, gray), version (1, 2).
+ *       ase, aco with model cmyk, and pdf: condition (fogra39, gracol, swop) and intent (perceptual,
+ *       relative, saturation, absolute; default fogra39 relative) of the CMYK separation.
+ *       gpl (GIMP, Inkscape), kpl (Krita), paintnet, procreate: no options.
+ *       dtcg, style-dictionary: prefix (token group, default color),
+ *       roles (e.g. "background:0,surface,primary:3"; positions are 0-based and a role without
+ *       one takes the next color), dark (true adds light and dark token sets).
+ *       tailwind, tailwind-v4: prefix (optional color group), colorFormat (hex, oklch; v4 defaults to oklch).
+ *       android: no options.
+ *       xcassets: dark (true by default; adds a dark appearance to each color set).
+ *       flutter, compose: className (defaults to the palette name + "Colors"); compose also packageName.
+ *       pdf: paper (a4, letter); a printable style guide with values, contrast matrix and color vision previews.
+ *       Display P3 and Rec. 2020 colors are written with their sRGB fallback: as colorSpace, components
+ *       and hex in dtcg, and as separate sRGB and Display P3 gamut variants in xcassets.
+ *     tags: [Palettes]
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - name: format
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [ase, aco, gpl, kpl, paintnet, procreate, dtcg, style-dictionary, tailwind, tailwind-v4, android, xcassets, flutter, compose, pdf]
+ *     responses:
+ *       200:
+ *         description: Palette file
+ *         content:
+ *           application/octet-stream:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           application/json:
+ *             schema:
+ *               type: object
+ *           application/zip:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           text/plain:
+ *             schema:
+ *               type: string
+ *           text/css:
+ *             schema:
+ *               type: string
+ *           application/xml:
+ *             schema:
+ *               type: string
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/:id/export/:format',
+  validateRequest({ params: exportParamsSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id, format } = req.params;
+
+    const palette = await prismaClient.palette.findFirst({
+      where: { id, deletedAt: null },
+      include: {
+        colors: { orderBy: { position: 'asc' } },
+        user: { select: { name: true } },
+      },
+    });
+
+    if (!palette || (!palette.isPublic && palette.userId !== req.user?.id && req.user?.role !== 'ADMIN')) {
+      throw createError.notFound('Palette');
+    }
+
+    const file = exportPalette({
+      ...palette,
+      colors: palette.colors.map((color) => ({
+        ...color,
+        wideGamut: toGamutColor(color.wideGamut),
+        cmyk: color.cmyk as unknown as StoredCmyk | null,
+      })),
+    }, format, req.query);
+
+    if (palette.userId !== req.user?.id) {
+      await prismaClient.palette.update({
+        where: { id },
+        data: { downloadCount: { increment: 1 } },
+      });
+    }
+
+    sendExportedFile(res, file);
+  })
+);
+
+/**
+ * @swagger
+ * /palettes/export/{format}:
+ *   post:
+ *     summary: Render unsaved palette colors as a swatch file
+ *     description: Uses the same exporters and query options as GET /palettes/{id}/export/{format}.
+ *     tags: [Palettes]
+ *     parameters:
+ *       - name: format
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [ase, aco, gpl, kpl, paintnet, procreate, dtcg, style-dictionary, tailwind, tailwind-v4, android, xcassets, flutter, compose, pdf]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [colors]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *                 description: Printed as usage notes in the pdf style guide
+ *               colors:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     hex:
+ *                       type: string
+ *                     color:
+ *                       type: string
+ *                       description: CSS color such as color(display-p3 1 0.2 0.1); takes precedence over hex
+ *                     name:
+ *                       type: string
+ *     responses:
+ *       200:
+ *         description: Palette file
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+router.post('/export/:format',
+  strictRateLimit(60, 60000), // 60 exports per minute
+  validateRequest({ params: adHocExportParamsSchema, body: adHocExportBodySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { format } = req.params;
+
+    sendExportedFile(res, exportPalette(req.body, format, req.query));
+  })
+);
+
+/**
+ * @swagger
+ * /palettes/import:
+ *   post:
+ *     summary: Create palettes from a swatch file
+ *     description: |
+ *       Each color group in the file becomes its own palette, and ungrouped colors form one more.
+ *       Sets with more than 20 colors are split into numbered palettes. The palettes are saved
+ *       in one transaction: if any of them fails, none is created.
+ *     tags: [Palettes]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [file]
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *               format:
+ *                 type: string
+ *                 enum: [ase, aco, gpl, kpl, paintnet, procreate]
+ *                 description: Detected from the file when omitted
+ *               name:
+ *                 type: string
+ *               isPublic:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Palettes created
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.post('/import',
+  requireAuth,
+  strictRateLimit(10, 300000), // 10 imports per 5 minutes
+  upload.single('file'),
+  validateRequest({ body: importBodySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    if (!req.file) {
+      throw createError.validation('No palette file provided');
+    }
+
+    const { format, name, isPublic } = req.body;
+
+    const result = await importPaletteFile(req.user!.id, req.file, { format, name, isPublic });
+
+    res.status(201).json(responseFormats.success(
+      result,
+      `Imported ${result.palettes.length} palette(s) from ${result.format.toUpperCase()} file`
+    ));
+  })
+);
+
+/**
+ * @swagger
+ * /palettes/import/stylesheet:
+ *   post:
+ *     summary: Propose a palette from a stylesheet or theme file
+ *     description: |
+ *       Accepts CSS, SCSS, Less, a tailwind.config.{js,ts} or a JSON theme, uploaded as `file`
+ *       or pasted as `content`. Colors (hex, rgb(), hsl(), oklch() and named colors) are
+ *       merged when closer than `threshold` in OKLab and named after their variables.
+ *       Nothing is saved; `palette` can be sent to POST /palettes as is.
+ *     tags: [Palettes]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *               content:
+ *                 type: string
+ *               syntax:
+ *                 type: string
+ *                 enum: [css, scss, less, tailwind, json]
+ *                 description: Detected from the file extension when omitted
+ *               name:
+ *                 type: string
+ *               threshold:
+ *                 type: number
+ *                 default: 0.02
+ *     responses:
+ *       200:
+ *         description: Palette proposal
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+router.post('/import/stylesheet',
+  strictRateLimit(30, 300000), // 30 proposals per 5 minutes
+  upload.single('file'),
+  validateRequest({ body: stylesheetBodySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { content, syntax, name, threshold } = req.body;
+    const text = req.file ? req.file.buffer.toString('utf8').replace(/^\uFEFF/, '') : content;
+
+    if (!text) {
+      throw createError.validation('Upload a stylesheet as `file` or paste it as `content`');
+    }
+
+    const proposal = proposePaletteFromStylesheet(text, req.file?.originalname || '', { syntax, name, threshold });
+
+    res.json(responseFormats.success(
+      proposal,
+      `Found ${proposal.stats.unique} distinct color(s) in ${proposal.stats.found} color value(s)`
+    ));
+  })
+);
+
+export default router;
@@ -0,0 +1,249 @@
+/**
+ * Palette Fork Routes
+ * Forking public palettes and browsing their remix lineage
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prismaClient } from '../config/database';
+import { responseFormats, validationSchemas } from '../config/api.config';
+import {
+  validateRequest,
+  asyncHandler,
+  createError
+} from '../middleware/error-handler';
+import { requireAuth } from '../middleware/auth';
+import { strictRateLimit } from '../middleware/rate-limit';
+import { createPalette, formatEtag, toColorInput } from '../services/palette.service';
+import {
+  countForks,
+  getAncestors,
+  getDescendantTree,
+  getForkSource,
+} from '../services/palette-lineage.service';
+
+const router = Router();
+
+const paletteParamsSchema = z.object({
+  id: validationSchemas.uuid,
+});
+
+const forkBodySchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  isPublic: z.boolean().default(false),
+});
+
+const descendantsQuerySchema = z.object({
+  depth: z.string().regex(/^\d+$/).default('5')
+    .transform((val) => Math.min(10, Math.max(1, parseInt(val, 10)))),
+});
+
+// Forks and lineage are only exposed for palettes the viewer can see
+const findVisiblePalette = async (id: string, req: Request) => {
+  const palette = await prismaClient.palette.findFirst({
+    where: { id, deletedAt: null },
+    include: {
+      colors: { orderBy: { position: 'asc' } },
+      tags: { include: { tag: { select: { name: true } } } },
+    },
+  });
+
+  if (!palette) {
+    throw createError.notFound('Palette');
+  }
+
+  if (!palette.isPublic && palette.userId !== req.user?.id && req.user?.role !== 'ADMIN') {
+    throw createError.notFound('Palette');
+  }
+
+  return palette;
+};
+
+/**
+ * @swagger
+ * /palettes/{id}/fork:
+ *   post:
+ *     summary: Fork a palette into the current user's account
+ *     tags: [Palettes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               isPublic:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       201:
+ *         description: Fork created
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.post('/:id/fork',
+  requireAuth,
+  strictRateLimit(10, 300000), // 10 forks per 5 minutes
+  validateRequest({ params: paletteParamsSchema, body: forkBodySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { name, isPublic } = req.body;
+
+    const source = await findVisiblePalette(id, req);
+
+    const fork = await createPalette(req.user!.id, {
+      name: name || `${source.name} (remix)`.slice(0, 100),
+      description: source.description,
+      isPublic,
+      colors: source.colors.map(toColorInput),
+      tags: source.tags.map((paletteTag) => paletteTag.tag.name),
+      forkedFromId: source.id,
+    }, {
+      forkedFromId: source.id,
+      forkedFromUserId: source.userId,
+    });
+
+    res.set('ETag', formatEtag(fork.version));
+    res.status(201).json(responseFormats.success(fork, 'Palette forked successfully'));
+  })
+);
+
+/**
+ * @swagger
+ * /palettes/{id}/forks/count:
+ *   get:
+ *     summary: Number of direct forks of a palette
+ *     tags: [Palettes]
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Fork count
+ */
+router.get('/:id/forks/count',
+  validateRequest({ params: paletteParamsSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    await findVisiblePalette(id, req);
+    const count = await countForks(id, req.user);
+
+    res.json(responseFormats.success({ paletteId: id, count }, 'Fork count retrieved'));
+  })
+);
+
+/**
+ * @swagger
+ * /palettes/{id}/lineage:
+ *   get:
+ *     summary: Source palette and fork count of a palette
+ *     description: Same lineage as the palette page, without counting a view.
+ *     tags: [Palettes]
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Source palette (null when not a remix or not visible) and number of visible forks
+ */
+router.get('/:id/lineage',
+  validateRequest({ params: paletteParamsSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    await findVisiblePalette(id, req);
+    const [forkedFrom, forksCount] = await Promise.all([
+      getForkSource(id, req.user),
+      countForks(id, req.user),
+    ]);
+
+    res.json(responseFormats.success({ paletteId: id, forkedFrom, forksCount }, 'Lineage retrieved'));
+  })
+);
+
+/**
+ * @swagger
+ * /palettes/{id}/ancestors:
+ *   get:
+ *     summary: Palettes this palette was remixed from, nearest first
+ *     tags: [Palettes]
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Ancestor chain; private ancestors appear as hidden entries
+ */
+router.get('/:id/ancestors',
+  validateRequest({ params: paletteParamsSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    await findVisiblePalette(id, req);
+    const ancestors = await getAncestors(id, req.user);
+
+    res.json(responseFormats.success(ancestors, 'Ancestors retrieved'));
+  })
+);
+
+/**
+ * @swagger
+ * /palettes/{id}/descendants:
+ *   get:
+ *     summary: Tree of remixes derived from a palette
+ *     tags: [Palettes]
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - name: depth
+ *         in: query
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 10
+ *           default: 5
+ *     responses:
+ *       200:
+ *         description: Descendant tree
+ */
+router.get('/:id/descendants',
+  validateRequest({ params: paletteParamsSchema, query: descendantsQuerySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { depth } = req.query as unknown as z.infer<typeof descendantsQuerySchema>;
+
+    await findVisiblePalette(id, req);
+    const tree = await getDescendantTree(id, depth, req.user);
+
+    res.json(responseFormats.success({ paletteId: id, depth, ...tree }, 'Descendants retrieved'));
+  })
+);
+
+export default router;
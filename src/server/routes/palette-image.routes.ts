@@ -0,0 +1,135 @@
+/**
+ * Palette Image Routes
+ * Swatch strips, grids and Open Graph cards rendered as PNG or SVG
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prismaClient } from '../config/database';
+import { validationSchemas } from '../config/api.config';
+import {
+  validateRequest,
+  asyncHandler,
+  createError
+} from '../middleware/error-handler';
+import { renderPaletteImage } from '../services/palette-image.service';
+
+const router = Router();
+
+const imageParamsSchema = z.object({
+  id: validationSchemas.uuid,
+  layout: z.enum(['strip', 'grid', 'og']),
+  format: z.enum(['png', 'svg']),
+});
+
+const dimension = (min: number, max: number) => z.string().regex(/^\d+$/)
+  .transform((val) => Math.min(max, Math.max(min, parseInt(val, 10))))
+  .optional();
+
+const imageQuerySchema = z.object({
+  width: dimension(100, 2400),
+  height: dimension(50, 2400),
+  columns: dimension(1, 20),
+  labels: z.enum(['true', 'false']).default('true').transform((val) => val === 'true'),
+});
+
+/**
+ * @swagger
+ * /palettes/{id}/image/{layout}.{format}:
+ *   get:
+ *     summary: Render a palette as an image
+ *     description: |
+ *       strip: colors side by side (default 1000x200).
+ *       grid: square swatches in rows of `columns` (defaults to a near-square grid, 200px cells).
+ *       og: 1200x630 Open Graph card with the palette name, author and hex labels; size options are ignored.
+ *     tags: [Palettes]
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - name: layout
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [strip, grid, og]
+ *       - name: format
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [png, svg]
+ *       - name: width
+ *         in: query
+ *         schema:
+ *           type: integer
+ *           minimum: 100
+ *           maximum: 2400
+ *       - name: height
+ *         in: query
+ *         schema:
+ *           type: integer
+ *           minimum: 50
+ *           maximum: 2400
+ *       - name: columns
+ *         in: query
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 20
+ *       - name: labels
+ *         in: query
+ *         schema:
+ *           type: boolean
+ *           default: true
+ *     responses:
+ *       200:
+ *         description: Palette image
+ *         content:
+ *           image/png:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           image/svg+xml:
+ *             schema:
+ *               type: string
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/:id/image/:layout.:format',
+  validateRequest({ params: imageParamsSchema, query: imageQuerySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id, layout, format } = req.params as z.infer<typeof imageParamsSchema>;
+    const options = req.query as unknown as z.infer<typeof imageQuerySchema>;
+
+    const palette = await prismaClient.palette.findFirst({
+      where: { id, deletedAt: null },
+      include: {
+        colors: { orderBy: { position: 'asc' } },
+        user: { select: { name: true } },
+      },
+    });
+
+    if (!palette) {
+      throw createError.notFound('Palette');
+    }
+
+    if (!palette.isPublic && palette.userId !== req.user?.id && req.user?.role !== 'ADMIN') {
+      throw createError.notFound('Palette');
+    }
+
+    const image = await renderPaletteImage(palette, layout, format, options);
+
+    // Public images are shared by link previews and CDNs; private ones stay in the viewer's cache
+    res.set('Cache-Control', palette.isPublic ? 'public, max-age=3600' : 'private, max-age=300');
+    res.type(image.contentType);
+    res.send(image.body);
+  })
+);
+
+export default router;
@@ -0,0 +1,257 @@
+/**
+ * Palette Revision Routes
+ * Version history, diffs and restore for a palette
+ * Mounted at /palettes/:id/revisions
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prismaClient } from '../config/database';
+import { responseFormats, validationSchemas } from '../config/api.config';
+import {
+  validateRequest,
+  asyncHandler,
+  createError
+} from '../middleware/error-handler';
+import { requireAuth } from '../middleware/auth';
+import {
+  updatePalette,
+  findEditablePalette,
+  requireExpectedVersion,
+  formatEtag,
+  toColorInput,
+} from '../services/palette.service';
+import { diffRevisions, getRevisionColors } from '../services/palette-revision.service';
+
+const router = Router({ mergeParams: true });
+
+const versionSchema = z.string().regex(/^\d+$/, 'Version must be a positive integer')
+  .transform((val) => parseInt(val, 10));
+
+const paletteParamsSchema = z.object({
+  id: validationSchemas.uuid,
+});
+
+const revisionParamsSchema = paletteParamsSchema.extend({
+  version: versionSchema,
+});
+
+const diffQuerySchema = z.object({
+  from: versionSchema,
+  to: versionSchema,
+});
+
+const revisionAuthorSelect = {
+  user: {
+    select: { id: true, name: true, avatar: true }
+  },
+};
+
+// Revisions are visible to anyone who can see the palette itself
+const assertPaletteVisible = async (id: string, req: Request) => {
+  const palette = await prismaClient.palette.findFirst({
+    where: { id, deletedAt: null },
+    select: { id: true, userId: true, isPublic: true }
+  });
+
+  if (!palette) {
+    throw createError.notFound('Palette');
+  }
+
+  if (!palette.isPublic && palette.userId !== req.user?.id && req.user?.role !== 'ADMIN') {
+    throw createError.notFound('Palette');
+  }
+};
+
+const findRevision = async (paletteId: string, version: number) => {
+  const revision = await prismaClient.paletteRevision.findUnique({
+    where: { paletteId_version: { paletteId, version } },
+    include: revisionAuthorSelect,
+  });
+
+  if (!revision) {
+    throw createError.notFound(`Revision ${version}`);
+  }
+
+  return revision;
+};
+
+/**
+ * @swagger
+ * /palettes/{id}/revisions:
+ *   get:
+ *     summary: List the revision history of a palette
+ *     tags: [Palettes]
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Revisions, newest first
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/',
+  validateRequest({ params: paletteParamsSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    await assertPaletteVisible(id, req);
+
+    const revisions = await prismaClient.paletteRevision.findMany({
+      where: { paletteId: id },
+      include: revisionAuthorSelect,
+      orderBy: { version: 'desc' },
+    });
+
+    res.json(responseFormats.success(revisions, 'Revisions retrieved successfully'));
+  })
+);
+
+/**
+ * @swagger
+ * /palettes/{id}/revisions/diff:
+ *   get:
+ *     summary: Color-level diff between two revisions
+ *     tags: [Palettes]
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - name: from
+ *         in: query
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - name: to
+ *         in: query
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Added, removed, moved and changed colors plus metadata changes
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/diff',
+  validateRequest({ params: paletteParamsSchema, query: diffQuerySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { from, to } = req.query as unknown as z.infer<typeof diffQuerySchema>;
+
+    await assertPaletteVisible(id, req);
+
+    const [fromRevision, toRevision] = await Promise.all([
+      findRevision(id, from),
+      findRevision(id, to),
+    ]);
+
+    const diff = {
+      ...diffRevisions(fromRevision, toRevision),
+      fromAuthor: fromRevision.user,
+      toAuthor: toRevision.user,
+    };
+
+    res.json(responseFormats.success(diff, 'Revision diff computed'));
+  })
+);
+
+/**
+ * @swagger
+ * /palettes/{id}/revisions/{version}:
+ *   get:
+ *     summary: Get a single palette revision
+ *     tags: [Palettes]
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - name: version
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Revision snapshot
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/:version',
+  validateRequest({ params: revisionParamsSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id, version } = req.params as unknown as z.infer<typeof revisionParamsSchema>;
+
+    await assertPaletteVisible(id, req);
+
+    const revision = await findRevision(id, version);
+
+    res.json(responseFormats.success(revision, 'Revision retrieved successfully'));
+  })
+);
+
+/**
+ * @swagger
+ * /palettes/{id}/revisions/{version}/restore:
+ *   post:
+ *     summary: Restore an old revision as a new palette version
+ *     description: Requires the current palette version via If-Match header or `version` body field.
+ *     tags: [Palettes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - name: version
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Palette restored; the response carries the new version
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: Palette was modified since the expected version
+ */
+router.post('/:version/restore',
+  requireAuth,
+  validateRequest({ params: revisionParamsSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id, version } = req.params as unknown as z.infer<typeof revisionParamsSchema>;
+
+    await findEditablePalette(id, req);
+    const expectedVersion = requireExpectedVersion(req);
+    const revision = await findRevision(id, version);
+
+    const palette = await updatePalette(id, req.user!.id, expectedVersion, {
+      name: revision.name,
+      description: revision.description,
+      colors: getRevisionColors(revision).map(toColorInput),
+      tags: revision.tags,
+    }, { restoredFromVersion: version });
+
+    res.set('ETag', formatEtag(palette.version));
+    res.json(responseFormats.success(palette, `Revision ${version} restored`));
+  })
+);
+
+export default router;
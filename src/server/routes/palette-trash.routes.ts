@@ -0,0 +1,139 @@
+/**
+ * Palette Trash Routes
+ * Per-user trash of soft-deleted palettes
+ * Mounted at /palettes/trash behind authMiddleware
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { responseFormats, validationSchemas, trashConfig } from '../config/api.config';
+import {
+  validateRequest,
+  asyncHandler
+} from '../middleware/error-handler';
+import { formatEtag } from '../services/palette.service';
+import {
+  findTrashedPalette,
+  listTrash,
+  purgePalette,
+  restorePalette,
+} from '../services/palette-trash.service';
+
+const router = Router();
+
+const paletteParamsSchema = z.object({
+  id: validationSchemas.uuid,
+});
+
+const trashQuerySchema = z.object({
+  page: z.string().default('1').transform((val) => Math.max(1, parseInt(val, 10) || 1)),
+  limit: z.string().default('20').transform((val) => Math.min(100, Math.max(1, parseInt(val, 10) || 20))),
+});
+
+/**
+ * @swagger
+ * /palettes/trash:
+ *   get:
+ *     summary: List the current user's trashed palettes
+ *     description: Trashed palettes are purged permanently after the retention period.
+ *     tags: [Palettes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PageParam'
+ *       - $ref: '#/components/parameters/LimitParam'
+ *     responses:
+ *       200:
+ *         description: Trashed palettes with their purge date, most recently deleted first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PaginatedResponse'
+ */
+router.get('/',
+  validateRequest({ query: trashQuerySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { page, limit } = req.query as unknown as z.infer<typeof trashQuerySchema>;
+
+    const result = await listTrash(req.user!.id, page, limit);
+
+    res.json({
+      ...responseFormats.paginated(
+        result.data,
+        result.pagination.total,
+        result.pagination.page,
+        result.pagination.limit
+      ),
+      retentionDays: trashConfig.retentionDays,
+    });
+  })
+);
+
+/**
+ * @swagger
+ * /palettes/trash/{id}/restore:
+ *   post:
+ *     summary: Restore a palette from the trash
+ *     tags: [Palettes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Palette restored
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.post('/:id/restore',
+  validateRequest({ params: paletteParamsSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    await findTrashedPalette(id, req.user!);
+    const palette = await restorePalette(id, req.user!.id);
+
+    res.set('ETag', formatEtag(palette.version));
+    res.json(responseFormats.success(palette, 'Palette restored successfully'));
+  })
+);
+
+/**
+ * @swagger
+ * /palettes/trash/{id}:
+ *   delete:
+ *     summary: Permanently delete a trashed palette
+ *     tags: [Palettes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Palette permanently deleted
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.delete('/:id',
+  validateRequest({ params: paletteParamsSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    await findTrashedPalette(id, req.user!);
+    await purgePalette(id);
+
+    res.json(responseFormats.success(null, 'Palette permanently deleted'));
+  })
+);
+
+export default router;
@@ -0,0 +1,263 @@
+/**
+ * Palette Routes
+ * Create, update and delete operations for color palettes
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { responseFormats, validationSchemas } from '../config/api.config';
+import {
+  validateRequest,
+  asyncHandler
+} from '../middleware/error-handler';
+import { requireAuth } from '../middleware/auth';
+import { strictRateLimit } from '../middleware/rate-limit';
+import {
+  createPalette,
+  updatePalette,
+  findEditablePalette,
+  requireExpectedVersion,
+  getExpectedVersion,
+  formatEtag,
+} from '../services/palette.service';
+import { trashPalette } from '../services/palette-trash.service';
+
+const router = Router();
+
+// Validation schemas
+const colorInputSchema = z.object({
+  hex: validationSchemas.colorHex.optional(),
+  // Wide-gamut colors are written as color(display-p3 ...) or color(rec2020 ...)
+  color: validationSchemas.cssColor.optional(),
+  name: z.string().max(50).optional(),
+  position: z.number().int().min(0),
+}).refine((color) => color.hex !== undefined || color.color !== undefined, {
+  message: 'Either hex or color is required',
+  path: ['hex'],
+});
+
+// Positions order the colors, so two colors cannot share one
+const colorListSchema = z.array(colorInputSchema)
+  .min(1, 'At least one color is required')
+  .max(20, 'Too many colors')
+  .refine((colors) => new Set(colors.map((color) => color.position)).size === colors.length, {
+    message: 'Color positions must be unique',
+  });
+
+const tagListSchema = z.array(z.string().trim().min(1).max(50)).max(10);
+
+const paletteParamsSchema = z.object({
+  id: validationSchemas.uuid,
+});
+
+const createPaletteBodySchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100, 'Name too long'),
+  description: z.string().max(500, 'Description too long').optional(),
+  isPublic: z.boolean().default(false),
+  colors: colorListSchema,
+  tags: tagListSchema.optional(),
+  categoryIds: z.array(validationSchemas.uuid).max(5).optional(),
+});
+
+const replacePaletteBodySchema = createPaletteBodySchema.extend({
+  version: z.number().int().min(1).optional(),
+});
+
+const patchPaletteBodySchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  isPublic: z.boolean().optional(),
+  colors: colorListSchema.optional(),
+  tags: tagListSchema.optional(),
+  categoryIds: z.array(validationSchemas.uuid).max(5).optional(),
+  version: z.number().int().min(1).optional(),
+});
+
+/**
+ * @swagger
+ * /palettes:
+ *   post:
+ *     summary: Create a new palette
+ *     tags: [Palettes]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PaletteInput'
+ *     responses:
+ *       201:
+ *         description: Palette created successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.post('/',
+  requireAuth,
+  strictRateLimit(10, 300000), // 10 palettes per 5 minutes
+  validateRequest({ body: createPaletteBodySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const palette = await createPalette(req.user!.id, req.body);
+
+    res.set('ETag', formatEtag(palette.version));
+    res.status(201).json(responseFormats.success(palette, 'Palette created successfully'));
+  })
+);
+
+/**
+ * @swagger
+ * /palettes/{id}:
+ *   put:
+ *     summary: Replace a palette
+ *     description: Requires the expected version via If-Match header or `version` body field.
+ *     tags: [Palettes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - name: If-Match
+ *         in: header
+ *         schema:
+ *           type: string
+ *         description: Expected palette version, e.g. "3"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PaletteInput'
+ *     responses:
+ *       200:
+ *         description: Palette replaced successfully
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: Palette was modified since the expected version
+ *       428:
+ *         description: Expected version missing
+ */
+router.put('/:id',
+  requireAuth,
+  validateRequest({ params: paletteParamsSchema, body: replacePaletteBodySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { name, description, isPublic, colors, tags, categoryIds } = req.body;
+
+    await findEditablePalette(id, req);
+    const expectedVersion = requireExpectedVersion(req);
+
+    const palette = await updatePalette(id, req.user!.id, expectedVersion, {
+      name,
+      description: description ?? null,
+      isPublic,
+      colors,
+      tags: tags ?? [],
+      categoryIds: categoryIds ?? [],
+    });
+
+    res.set('ETag', formatEtag(palette.version));
+    res.json(responseFormats.success(palette, 'Palette updated successfully'));
+  })
+);
+
+/**
+ * @swagger
+ * /palettes/{id}:
+ *   patch:
+ *     summary: Partially update a palette
+ *     description: Requires the expected version via If-Match header or `version` body field.
+ *     tags: [Palettes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - name: If-Match
+ *         in: header
+ *         schema:
+ *           type: string
+ *         description: Expected palette version, e.g. "3"
+ *     responses:
+ *       200:
+ *         description: Palette updated successfully
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: Palette was modified since the expected version
+ *       428:
+ *         description: Expected version missing
+ */
+router.patch('/:id',
+  requireAuth,
+  validateRequest({ params: paletteParamsSchema, body: patchPaletteBodySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    await findEditablePalette(id, req);
+    const expectedVersion = requireExpectedVersion(req);
+
+    const palette = await updatePalette(id, req.user!.id, expectedVersion, req.body);
+
+    res.set('ETag', formatEtag(palette.version));
+    res.json(responseFormats.success(palette, 'Palette updated successfully'));
+  })
+);
+
+/**
+ * @swagger
+ * /palettes/{id}:
+ *   delete:
+ *     summary: Move a palette to the trash
+ *     description: |
+ *       The palette can be restored from /palettes/trash until it is purged after the
+ *       retention period. An optional If-Match header makes the delete conditional on the palette version.
+ *     tags: [Palettes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Palette moved to the trash; the response carries its purge date
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: Palette was modified since the expected version
+ */
+router.delete('/:id',
+  requireAuth,
+  validateRequest({ params: paletteParamsSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    await findEditablePalette(id, req);
+    const trashed = await trashPalette(id, req.user!.id, getExpectedVersion(req));
+
+    res.json(responseFormats.success(trashed, 'Palette moved to trash'));
+  })
+);
+
+export default router;
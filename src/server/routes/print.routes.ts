@@ -0,0 +1,116 @@
+/**
+ * Print Routes
+ * CMYK separation of palette colors for offset printing conditions
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { responseFormats, validationSchemas } from '../config/api.config';
+import { validateRequest, asyncHandler } from '../middleware/error-handler';
+import { strictRateLimit } from '../middleware/rate-limit';
+import {
+  CmykConversion,
+  DEFAULT_PRINT_CONDITION,
+  DEFAULT_RENDERING_INTENT,
+  PRINT_CONDITIONS,
+  PrintCondition,
+  RENDERING_INTENTS,
+  RenderingIntent,
+  convertToCmyk,
+  listPrintConditions,
+  printConditionInfo
+} from '../services/cmyk.service';
+
+const router = Router();
+
+const cmykBodySchema = z.object({
+  colors: z.array(validationSchemas.cssColor).min(1).max(20),
+  condition: z.enum(PRINT_CONDITIONS as [PrintCondition, ...PrintCondition[]]).default(DEFAULT_PRINT_CONDITION),
+  intent: z.enum(RENDERING_INTENTS as [RenderingIntent, ...RenderingIntent[]]).default(DEFAULT_RENDERING_INTENT),
+});
+
+/**
+ * @swagger
+ * /print/conditions:
+ *   get:
+ *     summary: List the supported printing conditions
+ *     description: |
+ *       source is icc when the condition's ICC output profile is installed in ICC_PROFILE_DIR,
+ *       and characterization when colors are separated with the built-in press model instead.
+ *     tags: [Print]
+ *     responses:
+ *       200:
+ *         description: Printing conditions with their total ink limit
+ */
+router.get('/conditions',
+  asyncHandler(async (req: Request, res: Response) => {
+    res.json(responseFormats.success(
+      { conditions: listPrintConditions(), intents: RENDERING_INTENTS },
+      'Print conditions retrieved successfully'
+    ));
+  })
+);
+
+/**
+ * @swagger
+ * /print/cmyk:
+ *   post:
+ *     summary: Separate colors into CMYK for a printing condition
+ *     description: |
+ *       Each color goes to CMYK with the rendering intent and back, reporting the printed color,
+ *       the ΔE2000 shift, whether it is inside the print gamut (relative colorimetric round trip
+ *       within 1.5), and warnings for out-of-gamut colors and total ink coverage over or near
+ *       the condition's limit. Display P3 and Rec. 2020 colors are separated from their own
+ *       Lab values, not from the sRGB fallback. source is characterization when the condition's
+ *       ICC profile is not installed and the values come from the built-in press model, which
+ *       approximates the profile.
+ *     tags: [Print]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [colors]
+ *             properties:
+ *               colors:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   description: '#RRGGBB or color(display-p3 | rec2020 r g b)'
+ *                 minItems: 1
+ *                 maxItems: 20
+ *               condition:
+ *                 type: string
+ *                 enum: [fogra39, gracol, swop]
+ *                 default: fogra39
+ *               intent:
+ *                 type: string
+ *                 enum: [perceptual, relative, saturation, absolute]
+ *                 default: relative
+ *     responses:
+ *       200:
+ *         description: CMYK percentages, total ink, printed color, ΔE2000 and warnings per color
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+router.post('/cmyk',
+  strictRateLimit(60, 60000), // 60 separations per minute
+  validateRequest({ body: cmykBodySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { colors, condition, intent } = req.body;
+    const separations: CmykConversion[] = colors.map((color: string) => convertToCmyk(color, { condition, intent }));
+    const flagged = separations.filter((separation) => separation.warnings.length > 0);
+    const { source, profile } = printConditionInfo(condition);
+
+    res.json(responseFormats.success(
+      { condition, intent, source, profile, colors: separations },
+      (flagged.length > 0
+        ? `${flagged.length} of ${separations.length} colors need attention before print`
+        : 'All colors print within gamut and ink limits') +
+      (source === 'characterization' ? '; values approximated without the ICC profile' : '')
+    ));
+  })
+);
+
+export default router;
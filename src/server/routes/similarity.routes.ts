@@ -0,0 +1,83 @@
+/**
+ * Similarity Routes
+ * Perceptual color difference between colors
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { responseFormats, validationSchemas } from '../config/api.config';
+import {
+  validateRequest,
+  asyncHandler
+} from '../middleware/error-handler';
+import { strictRateLimit } from '../middleware/rate-limit';
+import {
+  DELTA_E_METRICS,
+  DeltaEMetric,
+  JUST_NOTICEABLE_DIFFERENCE,
+  deltaE,
+  deltaESimilarity,
+  isVisuallyIdentical
+} from '../../lib/color';
+
+const router = Router();
+
+const distanceBodySchema = z.object({
+  color1: validationSchemas.colorHex,
+  color2: validationSchemas.colorHex,
+  metric: z.enum(DELTA_E_METRICS as [string, ...string[]]).default('ciede2000'),
+});
+
+/**
+ * @swagger
+ * /similarity/distance:
+ *   post:
+ *     summary: Perceptual difference (ΔE) between two colors
+ *     description: |
+ *       ciede2000 (default), cie94 (graphic arts weights, color1 is the reference) and cie76 use
+ *       CIELAB relative to D50 on a 0-100 scale; oklab is the Euclidean OKLab distance on a 0-1 scale.
+ *       visuallyIdentical is true below the metric's just noticeable difference
+ *       (1 for ciede2000 and cie94, 2.3 for cie76, 0.02 for oklab).
+ *     tags: [Similarity]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [color1, color2]
+ *             properties:
+ *               color1:
+ *                 type: string
+ *               color2:
+ *                 type: string
+ *               metric:
+ *                 type: string
+ *                 enum: [ciede2000, cie94, cie76, oklab]
+ *                 default: ciede2000
+ *     responses:
+ *       200:
+ *         description: Color difference
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+router.post('/distance',
+  strictRateLimit(300, 60000), // 300 comparisons per minute
+  validateRequest({ body: distanceBodySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { color1, color2, metric } = req.body;
+    const distance = deltaE(color1, color2, metric);
+
+    res.json(responseFormats.success({
+      color1,
+      color2,
+      metric,
+      distance,
+      similarity: deltaESimilarity(distance, metric),
+      justNoticeableDifference: JUST_NOTICEABLE_DIFFERENCE[metric as DeltaEMetric],
+      visuallyIdentical: isVisuallyIdentical(distance, metric),
+    }));
+  })
+);
+
+export default router;
@@ -0,0 +1,158 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import router from './simple-palette.routes';
+import { encodeCursor } from '../utils/cursor';
+
+interface Row {
+  id: string;
+  name: string;
+  createdAt: Date;
+  likeCount: number;
+  viewCount: number;
+  isPublic: boolean;
+  deletedAt: null;
+}
+
+type Where = Record<string, unknown>;
+
+const mockFindMany = jest.fn();
+
+jest.mock('../config/database', () => ({
+  prismaClient: { palette: { findMany: (args: unknown) => mockFindMany(args) } },
+}));
+
+// Palettes created in pairs at the same instant, so the sort field alone has ties
+const rows: Row[] = Array.from({ length: 7 }, (_, i) => ({
+  id: `00000000-0000-4000-8000-00000000000${i}`,
+  name: ['Sea', 'Sand', 'Dune', 'Sea', 'Moss', 'Ash', 'Sand'][i],
+  createdAt: new Date(Date.UTC(2025, 0, 1 + Math.floor(i / 2))),
+  likeCount: i % 3,
+  viewCount: 10,
+  isPublic: true,
+  deletedAt: null,
+}));
+
+const compare = (a: unknown, b: unknown) => {
+  const [x, y] = [a, b].map((value) => (value instanceof Date ? value.getTime() : value)) as [number, number];
+  return x < y ? -1 : x > y ? 1 : 0;
+};
+
+// Just enough of Prisma's where semantics for the filters this route builds
+const matches = (row: Row, where: Where): boolean => Object.entries(where).every(([key, condition]) => {
+  if (key === 'AND') return (condition as Where[]).every((part) => matches(row, part));
+  if (key === 'OR') return (condition as Where[]).some((part) => matches(row, part));
+
+  const value = row[key as keyof Row];
+  if (condition !== null && typeof condition === 'object' && !(condition instanceof Date)) {
+    const { lt, gt } = condition as { lt?: unknown; gt?: unknown };
+    return lt !== undefined ? compare(value, lt) < 0 : compare(value, gt) > 0;
+  }
+  return compare(value, condition) === 0;
+});
+
+const findMany = ({ where, orderBy, take }: { where: Where; orderBy: Record<string, 'asc' | 'desc'>[]; take: number }) =>
+  rows
+    .filter((row) => matches(row, where))
+    .sort((a, b) => {
+      for (const order of orderBy) {
+        const [[field, direction]] = Object.entries(order);
+        const result = compare(a[field as keyof Row], b[field as keyof Row]);
+        if (result !== 0) return direction === 'asc' ? result : -result;
+      }
+      return 0;
+    })
+    .slice(0, take);
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll((done) => {
+  const app = express();
+  app.use('/palettes', router);
+  server = app.listen(0, () => {
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/palettes`;
+    done();
+  });
+});
+
+afterAll((done) => {
+  server.close(done);
+});
+
+beforeEach(() => {
+  mockFindMany.mockReset();
+  mockFindMany.mockImplementation(findMany);
+});
+
+const list = async (query: Record<string, string>) => {
+  const response = await fetch(`${baseUrl}?${new URLSearchParams(query)}`);
+  return { status: response.status, body: await response.json() };
+};
+
+// Every id in page order, following nextCursor to the end
+const pageThrough = async (query: Record<string, string>) => {
+  const ids: string[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const { body } = await list(cursor ? { ...query, cursor } : query);
+    ids.push(...body.data.map((palette: Row) => palette.id));
+    cursor = body.pagination.nextCursor;
+  } while (cursor);
+
+  return ids;
+};
+
+describe('GET /palettes cursor pagination', () => {
+  it('fetches one row past the limit to detect a next page', async () => {
+    const { body } = await list({ limit: '3' });
+
+    expect(mockFindMany.mock.calls[0][0]).toMatchObject({
+      take: 4,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    });
+    expect(body.data).toHaveLength(3);
+    expect(body.pagination).toMatchObject({ limit: 3, hasNext: true });
+  });
+
+  it.each([
+    ['createdAt', 'desc'],
+    ['createdAt', 'asc'],
+    ['name', 'asc'],
+    ['likesCount', 'desc'],
+  ])('visits every palette once when sorted by %s %s', async (sortBy, sortOrder) => {
+    const all = (await list({ sortBy, sortOrder, limit: '100' })).body.data.map((palette: Row) => palette.id);
+    const paged = await pageThrough({ sortBy, sortOrder, limit: '2' });
+
+    expect(all).toHaveLength(rows.length);
+    expect(paged).toEqual(all);
+  });
+
+  it('ends with a null cursor', async () => {
+    const { body } = await list({ limit: '100' });
+    expect(body.pagination).toEqual({ limit: 100, hasNext: false, nextCursor: null });
+  });
+
+  it('does not repeat rows inserted before the cursor', async () => {
+    const first = await list({ limit: '2' });
+    rows.push({ ...rows[0], id: '00000000-0000-4000-8000-000000000009', createdAt: new Date(Date.UTC(2026, 0, 1)) });
+
+    try {
+      const second = await list({ limit: '2', cursor: first.body.pagination.nextCursor });
+      const ids = [...first.body.data, ...second.body.data].map((palette: Row) => palette.id);
+      expect(new Set(ids).size).toBe(4);
+      expect(ids).not.toContain('00000000-0000-4000-8000-000000000009');
+    } finally {
+      rows.pop();
+    }
+  });
+
+  it('rejects cursors it did not issue or for another sort field', async () => {
+    expect((await list({ cursor: 'not-a-cursor' })).status).toBe(400);
+    expect((await list({ cursor: encodeCursor('yesterday', rows[0].id) })).status).toBe(400);
+    expect((await list({ sortBy: 'name', cursor: encodeCursor(3, rows[0].id) })).status).toBe(400);
+    expect((await list({ sortBy: 'likesCount', cursor: encodeCursor('Sea', rows[0].id) })).status).toBe(400);
+    expect(mockFindMany).not.toHaveBeenCalled();
+  });
+});
@@ -3,18 +3,137 @@
  */
 
 import { Router, Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
 import { prismaClient } from '../config/database';
 import { logger } from '../utils/logger';
+import { encodeCursor, decodeCursor, CursorValue } from '../utils/cursor';
+import { formatEtag } from '../services/palette.service';
+import { visiblePaletteFilter } from '../services/palette-lineage.service';
 
 const router = Router();
 
-// GET /api/v1/palettes - Get all public palettes
+const SORT_FIELDS = {
+  createdAt: 'createdAt',
+  likesCount: 'likeCount',
+  viewsCount: 'viewCount',
+  name: 'name',
+} as const;
+
+const listQuerySchema = z.object({
+  query: z.string().trim().max(100).optional(),
+  tags: z.union([z.string(), z.array(z.string())]).optional()
+    .transform((val) => (Array.isArray(val) ? val : val ? val.split(',') : [])
+      .map((tag) => tag.trim().toLowerCase())
+      .filter(Boolean)),
+  sortBy: z.enum(['createdAt', 'likesCount', 'viewsCount', 'name']).default('createdAt'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+  colorCount: z.string().regex(/^\d+$/).transform((val) => parseInt(val, 10)).optional(),
+  userId: z.string().uuid().optional(),
+  cursor: z.string().optional(),
+  limit: z.string().regex(/^\d+$/).default('20')
+    .transform((val) => Math.min(100, Math.max(1, parseInt(val, 10)))),
+});
+
+type SortField = typeof SORT_FIELDS[keyof typeof SORT_FIELDS];
+
+// Rows strictly after the cursor in (sort field, id) order
+const afterCursor = (
+  field: SortField,
+  order: 'asc' | 'desc',
+  cursor: { v: CursorValue; id: string }
+): Prisma.PaletteWhereInput | null => {
+  let value: CursorValue | Date = cursor.v;
+
+  if (field === 'createdAt') {
+    value = new Date(String(cursor.v));
+    if (isNaN(value.getTime())) return null;
+  } else if ((field === 'name') !== (typeof cursor.v === 'string')) {
+    return null;
+  }
+
+  const op = order === 'desc' ? 'lt' : 'gt';
+
+  return {
+    OR: [
+      { [field]: { [op]: value } },
+      { [field]: value, id: { [op]: cursor.id } },
+    ],
+  };
+};
+
+// GET /api/v1/palettes - List palettes with filters, sorting and cursor pagination
 router.get('/', async (req: Request, res: Response): Promise<void> => {
   try {
+    const parsed = listQuerySchema.safeParse(req.query);
+
+    if (!parsed.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid query parameters',
+        errors: parsed.error.issues,
+      });
+      return;
+    }
+
+    const { query, tags, sortBy, sortOrder, colorCount, userId, cursor, limit } = parsed.data;
+    const sortField = SORT_FIELDS[sortBy];
+
+    // Owners also see their own private palettes when filtering by themselves
+    const where: Prisma.PaletteWhereInput = {
+      deletedAt: null,
+      ...(userId && userId === req.user?.id ? {} : { isPublic: true }),
+      ...(userId && { userId }),
+    };
+    const and: Prisma.PaletteWhereInput[] = [];
+
+    if (query) {
+      and.push({
+        OR: [
+          { name: { contains: query, mode: 'insensitive' } },
+          { description: { contains: query, mode: 'insensitive' } },
+          { tags: { some: { tag: { name: { contains: query.toLowerCase() } } } } },
+        ],
+      });
+    }
+
+    if (tags.length > 0) {
+      and.push({ tags: { some: { tag: { name: { in: tags } } } } });
+    }
+
+    // Color positions are contiguous from 0, so "n colors" means position n-1 exists and n does not
+    if (colorCount !== undefined) {
+      and.push(colorCount === 0
+        ? { colors: { none: {} } }
+        : {
+          colors: {
+            some: { position: colorCount - 1 },
+            none: { position: { gte: colorCount } },
+          },
+        });
+    }
+
+    if (cursor) {
+      const decoded = decodeCursor(cursor);
+      const cursorWhere = decoded && afterCursor(sortField, sortOrder, decoded);
+
+      if (!cursorWhere) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid cursor',
+        });
+        return;
+      }
+
+      and.push(cursorWhere);
+    }
+
+    if (and.length > 0) {
+      where.AND = and;
+    }
+
     const palettes = await prismaClient.palette.findMany({
-      where: {
-        isPublic: true,
-      },
+      where,
       include: {
         user: {
           select: {
@@ -41,15 +160,26 @@ router.get('/', async (req: Request, res: Response): Promise<void> => {
           },
         },
       },
-      orderBy: {
-        createdAt: 'desc',
-      },
-      take: 20,
+      // id breaks ties so the order is total and cursors never skip or repeat rows
+      orderBy: [
+        { [sortField]: sortOrder },
+        { id: sortOrder },
+      ],
+      take: limit + 1,
     });
 
+    const hasNext = palettes.length > limit;
+    const page = hasNext ? palettes.slice(0, limit) : palettes;
+    const last = page[page.length - 1];
+
     res.json({
       success: true,
-      data: palettes,
+      data: page,
+      pagination: {
+        limit,
+        hasNext,
+        nextCursor: hasNext && last ? encodeCursor(last[sortField], last.id) : null,
+      },
       message: 'Palettes retrieved successfully',
     });
   } catch (error) {
@@ -69,6 +199,7 @@ router.get('/featured', async (req: Request, res: Response): Promise<void> => {
       where: {
         isPublic: true,
         isFeatured: true,
+        deletedAt: null,
       },
       include: {
         user: {
@@ -122,8 +253,8 @@ router.get('/:id', async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
 
-    const palette = await prismaClient.palette.findUnique({
-      where: { id },
+    const palette = await prismaClient.palette.findFirst({
+      where: { id, deletedAt: null },
       include: {
         user: {
           select: {
@@ -142,11 +273,25 @@ router.get('/:id', async (req: Request, res: Response): Promise<void> => {
             },
           },
         },
+        forkedFrom: {
+          select: {
+            id: true,
+            name: true,
+            isPublic: true,
+            userId: true,
+            deletedAt: true,
+            user: {
+              select: { id: true, name: true },
+            },
+          },
+        },
         _count: {
           select: {
             favorites: true,
             comments: true,
             ratings: true,
+            // Same forks as /palettes/:id/forks/count
+            forks: { where: visiblePaletteFilter(req.user) },
           },
         },
       },
@@ -177,9 +322,24 @@ router.get('/:id', async (req: Request, res: Response): Promise<void> => {
       });
     }
 
+    // Only credit the source palette if the viewer may see it
+    const { forkedFrom, ...paletteData } = palette;
+    const canSeeSource = forkedFrom && !forkedFrom.deletedAt &&
+      (forkedFrom.isPublic || forkedFrom.userId === req.user?.id);
+
+    // Clients send this back as If-Match when updating
+    res.set('ETag', formatEtag(palette.version));
+
     res.json({
       success: true,
-      data: palette,
+      data: {
+        ...paletteData,
+        forkedFrom: canSeeSource ? {
+          id: forkedFrom.id,
+          name: forkedFrom.name,
+          user: forkedFrom.user,
+        } : null,
+      },
       message: 'Palette retrieved successfully',
     });
   } catch (error) {
@@ -19,6 +19,9 @@ import {
 } from '../middleware/error-handler';
 import { strictRateLimit } from '../middleware/rate-limit';
 import { logger, logFileOperation } from '../utils/logger';
+import { nameColor } from '../services/color-naming.service';
+import { storedCmyk } from '../services/cmyk.service';
+import { rgbToHex, colorValues } from '../../lib/color';
 
 const router = Router();
 
@@ -69,11 +72,11 @@ const extractColorsFromImage = async (imageBuffer: Buffer, paletteSize: number =
     
     // Add dominant color
     if (dominant) {
-      const hex = rgbToHex(dominant.r, dominant.g, dominant.b);
+      const hex = rgbToHex(dominant);
       colors.push({
         hex,
         frequency: 1.0,
-        name: await getColorName(hex),
+        name: nameColor(hex).name,
       });
     }
 
@@ -95,7 +98,7 @@ const extractColorsFromImage = async (imageBuffer: Buffer, paletteSize: number =
       const quantizedG = Math.floor(g / 32) * 32;
       const quantizedB = Math.floor(b / 32) * 32;
       
-      const hex = rgbToHex(quantizedR, quantizedG, quantizedB);
+      const hex = rgbToHex({ r: quantizedR, g: quantizedG, b: quantizedB });
       pixelColors.set(hex, (pixelColors.get(hex) || 0) + 1);
     }
 
@@ -112,7 +115,7 @@ const extractColorsFromImage = async (imageBuffer: Buffer, paletteSize: number =
       colors.push({
         hex,
         frequency: count / totalPixels,
-        name: await getColorName(hex),
+        name: nameColor(hex).name,
       });
     }
 
@@ -123,31 +126,6 @@ const extractColorsFromImage = async (imageBuffer: Buffer, paletteSize: number =
   }
 };
 
-// Helper functions
-const rgbToHex = (r: number, g: number, b: number): string => {
-  return '#' + [r, g, b].map(x => {
-    const hex = Math.round(x).toString(16);
-    return hex.length === 1 ? '0' + hex : hex;
-  }).join('').toUpperCase();
-};
-
-const getColorName = async (hex: string): Promise<string> => {
-  // Simple color naming - in production, use a comprehensive color name database
-  const colorNames: { [key: string]: string } = {
-    '#FF0000': 'Red',
-    '#00FF00': 'Green',
-    '#0000FF': 'Blue',
-    '#FFFF00': 'Yellow',
-    '#FF00FF': 'Magenta',
-    '#00FFFF': 'Cyan',
-    '#000000': 'Black',
-    '#FFFFFF': 'White',
-    '#808080': 'Gray',
-  };
-  
-  return colorNames[hex] || `Color ${hex}`;
-};
-
 // Process and save uploaded image
 const processImage = async (
   file: Express.Multer.File,
@@ -407,15 +385,15 @@ router.post('/extract-colors',
 
       // Create colors
       const colorData = colors.map(color => {
-        const rgb = hexToRgb(color.hex);
-        const hsl = rgbToHsl(rgb.r, rgb.g, rgb.b);
-        const lab = rgbToLab(rgb.r, rgb.g, rgb.b);
+        const { rgb, hsl, lab, oklch } = colorValues(color.hex);
 
         return {
           hex: color.hex,
           rgb,
           hsl,
           lab,
+          oklch,
+          cmyk: storedCmyk(color.hex),
           name: color.name,
           position: color.position,
           paletteId: palette.id,
@@ -493,61 +471,6 @@ router.post('/extract-colors',
   })
 );
 
-// Helper functions for color conversion
-const hexToRgb = (hex: string) => {
-  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-  return result ? {
-    r: parseInt(result[1], 16),
-    g: parseInt(result[2], 16),
-    b: parseInt(result[3], 16)
-  } : { r: 0, g: 0, b: 0 };
-};
-
-const rgbToHsl = (r: number, g: number, b: number) => {
-  r /= 255;
-  g /= 255;
-  b /= 255;
-
-  const max = Math.max(r, g, b);
-  const min = Math.min(r, g, b);
-  let h = 0;
-  let s = 0;
-  const l = (max + min) / 2;
-
-  if (max === min) {
-    h = s = 0;
-  } else {
-    const d = max - min;
-    s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
-
-    switch (max) {
-      case r: h = (g - b) / d + (g < b ? 6 : 0); break;
-      case g: h = (b - r) / d + 2; break;
-      case b: h = (r - g) / d + 4; break;
-    }
-    h /= 6;
-  }
-
-  return {
-    h: Math.round(h * 360),
-    s: Math.round(s * 100),
-    l: Math.round(l * 100)
-  };
-};
-
-const rgbToLab = (r: number, g: number, b: number) => {
-  // Simplified LAB conversion
-  const x = r * 0.4124 + g * 0.3576 + b * 0.1805;
-  const y = r * 0.2126 + g * 0.7152 + b * 0.0722;
-  const z = r * 0.0193 + g * 0.1192 + b * 0.9505;
-  
-  return {
-    l: Math.round(y * 100),
-    a: Math.round((x - y) * 128),
-    b: Math.round((y - z) * 128)
-  };
-};
-
 /**
  * @swagger
  * /upload/avatar:
@@ -74,7 +74,8 @@ router.get('/',
   asyncHandler(async (req, res) => {
     const { page, limit, search, role, sortBy, sortOrder } = req.query as any;
 
-    const where: any = {};
+    // Deleted accounts are never listed
+    const where: any = { deletedAt: null };
 
     if (search) {
       where.OR = [
@@ -157,8 +158,8 @@ router.get('/:id',
   asyncHandler(async (req, res) => {
     const { id } = req.params;
 
-    const user = await prismaClient.user.findUnique({
-      where: { id },
+    const user = await prismaClient.user.findFirst({
+      where: { id, deletedAt: null },
       select: {
         id: true,
         email: req.user?.id === id || req.user?.role === 'ADMIN', // Email only visible to self or admin
@@ -171,7 +172,7 @@ router.get('/:id',
         lastLogin: req.user?.id === id || req.user?.role === 'ADMIN',
         _count: {
           select: {
-            palettes: { where: { isPublic: true } },
+            palettes: { where: { isPublic: true, deletedAt: null } },
             favorites: true,
             comments: true,
           }
@@ -240,9 +241,17 @@ router.put('/:id',
     if (bio !== undefined) updateData.bio = bio;
     if (avatar !== undefined) updateData.avatar = avatar;
 
-    const user = await prismaClient.user.update({
-      where: { id },
+    const { count } = await prismaClient.user.updateMany({
+      where: { id, deletedAt: null },
       data: updateData,
+    });
+
+    if (count === 0) {
+      throw createError.notFound('User');
+    }
+
+    const user = await prismaClient.user.findUniqueOrThrow({
+      where: { id },
       select: {
         id: true,
         email: true,
@@ -302,8 +311,8 @@ router.get('/:id/palettes',
     const { page, limit, isPublic } = req.query as any;
 
     // Check if user exists
-    const userExists = await prismaClient.user.findUnique({
-      where: { id },
+    const userExists = await prismaClient.user.findFirst({
+      where: { id, deletedAt: null },
       select: { id: true }
     });
 
@@ -311,7 +320,8 @@ router.get('/:id/palettes',
       throw createError.notFound('User');
     }
 
-    const where: any = { userId: id };
+    // Trashed palettes are listed separately under /palettes/trash
+    const where: any = { userId: id, deletedAt: null };
 
     // Visibility logic
     const canSeePrivate = req.user?.id === id || req.user?.role === 'ADMIN';
@@ -401,6 +411,8 @@ router.get('/:id/favorites',
       userId: id,
       palette: {
         isPublic: true, // Only public palettes in favorites
+        deletedAt: null,
+        user: { deletedAt: null },
       }
     };
 
@@ -491,6 +503,7 @@ router.get('/:id/collections',
 
     const include = {
       palettes: {
+        where: { palette: { deletedAt: null } },
         include: {
           palette: {
             include: {
@@ -505,7 +518,7 @@ router.get('/:id/collections',
         take: 5, // Preview of first 5 palettes
       },
       _count: {
-        select: { palettes: true }
+        select: { palettes: { where: { palette: { deletedAt: null } } } }
       }
     };
 
@@ -567,7 +580,11 @@ router.get('/:id/activities',
     const { id } = req.params;
     const { page, limit, type } = req.query as any;
 
-    const where: any = { userId: id };
+    // Hide activity on palettes that are in the trash
+    const where: any = {
+      userId: id,
+      OR: [{ paletteId: null }, { palette: { deletedAt: null } }],
+    };
     if (type) where.type = type;
 
     const include = {
@@ -628,8 +645,8 @@ router.get('/:id/stats',
     const { id } = req.params;
 
     // Check if user exists
-    const user = await prismaClient.user.findUnique({
-      where: { id },
+    const user = await prismaClient.user.findFirst({
+      where: { id, deletedAt: null },
       select: { id: true, createdAt: true }
     });
 
@@ -646,16 +663,16 @@ router.get('/:id/stats',
       totalViews,
       totalDownloads
     ] = await Promise.all([
-      prismaClient.palette.count({ where: { userId: id } }),
-      prismaClient.palette.count({ where: { userId: id, isPublic: true } }),
-      prismaClient.favorite.count({ where: { userId: id } }),
+      prismaClient.palette.count({ where: { userId: id, deletedAt: null } }),
+      prismaClient.palette.count({ where: { userId: id, isPublic: true, deletedAt: null } }),
+      prismaClient.favorite.count({ where: { userId: id, palette: { deletedAt: null } } }),
       prismaClient.comment.count({ where: { userId: id } }),
       prismaClient.palette.aggregate({
-        where: { userId: id },
+        where: { userId: id, deletedAt: null },
         _sum: { viewCount: true }
       }),
       prismaClient.palette.aggregate({
-        where: { userId: id },
+        where: { userId: id, deletedAt: null },
         _sum: { downloadCount: true }
       })
     ]);
@@ -663,7 +680,7 @@ router.get('/:id/stats',
     // Get favorite received (palettes favorited by others)
     const favoritesReceived = await prismaClient.favorite.count({
       where: {
-        palette: { userId: id }
+        palette: { userId: id, deletedAt: null }
       }
     });
 
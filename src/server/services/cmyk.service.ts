@@ -0,0 +1,326 @@
+/**
+ * CMYK Service
+ * Separates colors for offset printing conditions, through the condition's ICC output profile
+ * when it is installed and through the press model of its characterization data otherwise.
+ * Reports what survives the round trip: printed color, ΔE2000, gamut and ink coverage.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  Lab,
+  Xyz,
+  WHITE_POINTS,
+  clampRgb,
+  deltaE2000,
+  gamutColorToLab,
+  hexToGamutColor,
+  labToRgb,
+  labToXyz,
+  parseCssColor,
+  rgbToHex,
+  xyzToLab
+} from '../../lib/color';
+import { printConfig } from '../config/api.config';
+import { IccLutTag, IccProfile, deviceToLab, labToDevice, parseIccProfile } from '../formats/icc';
+import { logger } from '../utils/logger';
+import { FOGRA39, GRACOL, SWOP } from './print-conditions/conditions';
+import { PressModel, buildPressModel, paperWhiteScale, separate } from './print-conditions/press-model';
+import { PrintConditionCharacterization } from './print-conditions/types';
+
+export type PrintCondition = 'fogra39' | 'gracol' | 'swop';
+
+export const PRINT_CONDITIONS: PrintCondition[] = ['fogra39', 'gracol', 'swop'];
+
+export type RenderingIntent = 'perceptual' | 'relative' | 'saturation' | 'absolute';
+
+export const RENDERING_INTENTS: RenderingIntent[] = ['perceptual', 'relative', 'saturation', 'absolute'];
+
+// Used for Color.cmyk when a color is saved
+export const DEFAULT_PRINT_CONDITION: PrintCondition = 'fogra39';
+export const DEFAULT_RENDERING_INTENT: RenderingIntent = 'relative';
+
+export type PrintWarning = 'out-of-gamut' | 'ink-limit' | 'heavy-coverage';
+
+// icc when the condition's profile is installed; characterization when the built-in press model
+// approximates it from the published characterization data
+export type PrintSource = 'icc' | 'characterization';
+
+// Ink percentages, rounded to 0.1
+export interface CmykValues {
+  c: number;
+  m: number;
+  y: number;
+  k: number;
+}
+
+// Color.cmyk
+export interface StoredCmyk extends CmykValues {
+  condition: PrintCondition;
+  intent: RenderingIntent;
+  source: PrintSource;
+}
+
+export interface CmykConversion {
+  color: string;
+  cmyk: CmykValues;
+  totalInk: number;
+  // The printed color, media-relative except for the absolute intent, and its screen preview
+  printed: { lab: Lab; hex: string };
+  // CIEDE2000 between the color and its print
+  deltaE: number;
+  inGamut: boolean;
+  warnings: PrintWarning[];
+}
+
+export interface PrintConditionInfo {
+  id: PrintCondition;
+  name: string;
+  standard: string;
+  totalInkLimit: number;
+  source: PrintSource;
+  profile: string | null;
+}
+
+export interface CmykOptions {
+  condition?: PrintCondition;
+  intent?: RenderingIntent;
+}
+
+const CHARACTERIZATIONS: Record<PrintCondition, PrintConditionCharacterization> = {
+  fogra39: FOGRA39,
+  gracol: GRACOL,
+  swop: SWOP,
+};
+
+// Relative round-trip ΔE2000 up to which a color counts as printable; leaves room for the
+// interpolation noise of 16-bit profiles
+const GAMUT_TOLERANCE = 1.5;
+
+// Coverage this close to the limit dries slowly and sets off, even when within the limit
+const HEAVY_COVERAGE_MARGIN = 20;
+
+// Lightness weight of the saturation intent's separation
+const SATURATION_LIGHTNESS_WEIGHT = 0.3;
+
+// ==================== PROFILES ====================
+
+const profiles = new Map<PrintCondition, IccProfile | null>();
+const models = new Map<PrintCondition, PressModel>();
+
+// Installed CMYK output profile of a condition, read once; null when missing or unusable
+const loadProfile = (condition: PrintCondition): IccProfile | null => {
+  if (profiles.has(condition)) return profiles.get(condition) ?? null;
+
+  const file = path.resolve(process.cwd(), printConfig.iccProfileDir, CHARACTERIZATIONS[condition].profile);
+  let profile: IccProfile | null = null;
+  if (fs.existsSync(file)) {
+    try {
+      profile = parseIccProfile(fs.readFileSync(file));
+      if (profile.colorSpace !== 'CMYK' || !profile.luts.B2A1 || !profile.luts.A2B1) {
+        throw new Error('not a CMYK output profile');
+      }
+    } catch (error) {
+      logger.warn(`Ignoring ICC profile ${file}, using the press model instead:`, error);
+      profile = null;
+    }
+  }
+
+  profiles.set(condition, profile);
+  return profile;
+};
+
+const pressModel = (condition: PrintCondition): PressModel => {
+  let model = models.get(condition);
+  if (!model) {
+    model = buildPressModel(CHARACTERIZATIONS[condition]);
+    models.set(condition, model);
+  }
+  return model;
+};
+
+export const printConditionInfo = (id: PrintCondition): PrintConditionInfo => {
+  const { name, standard, totalInkLimit } = CHARACTERIZATIONS[id];
+  const profile = loadProfile(id);
+  return {
+    id,
+    name,
+    standard,
+    totalInkLimit,
+    source: profile ? 'icc' : 'characterization',
+    profile: profile ? profile.description ?? CHARACTERIZATIONS[id].profile : null,
+  };
+};
+
+export const listPrintConditions = (): PrintConditionInfo[] => PRINT_CONDITIONS.map(printConditionInfo);
+
+const INTENT_NAMES: Record<RenderingIntent, string> = {
+  perceptual: 'perceptual',
+  relative: 'relative colorimetric',
+  saturation: 'saturation',
+  absolute: 'absolute colorimetric',
+};
+
+// "FOGRA39 (ISO Coated v2), relative colorimetric", noting when no ICC profile was used
+export const describePrint = ({ condition = DEFAULT_PRINT_CONDITION, intent = DEFAULT_RENDERING_INTENT }: CmykOptions = {}): string =>
+  `${CHARACTERIZATIONS[condition].name}, ${INTENT_NAMES[intent]}` +
+  (loadProfile(condition) ? '' : ' (approximated without the ICC profile)');
+
+// ==================== MEDIA WHITE ====================
+
+const scaleXyz = (xyz: Xyz, scale: Xyz): Xyz => ({ x: xyz.x * scale.x, y: xyz.y * scale.y, z: xyz.z * scale.z });
+
+const invertScale = (scale: Xyz): Xyz => ({ x: 1 / scale.x, y: 1 / scale.y, z: 1 / scale.z });
+
+// Absolute (as measured on the paper) to media-relative Lab, where the paper is L* 100
+const toMediaRelative = (lab: Lab, paper: Xyz): Lab => xyzToLab(scaleXyz(labToXyz(lab), invertScale(paper)));
+
+const toAbsolute = (lab: Lab, paper: Xyz): Lab => xyzToLab(scaleXyz(labToXyz(lab), paper));
+
+// Black point compensation: scales media-relative XYZ so that black lands on the press black
+const compensateBlackPoint = (lab: Lab, black: Lab): Lab => {
+  const blackY = labToXyz(black).y;
+  const xyz = labToXyz(lab);
+  const white = WHITE_POINTS.D50;
+  return xyzToLab({
+    x: xyz.x * (1 - blackY) + white.x * blackY,
+    y: xyz.y * (1 - blackY) + white.y * blackY,
+    z: xyz.z * (1 - blackY) + white.z * blackY,
+  });
+};
+
+// ==================== SEPARATION ====================
+
+interface Rendering {
+  inks: number[];
+  // In the intent's frame: media-relative, or absolute for the absolute intent
+  printed: Lab;
+  inGamut: boolean;
+}
+
+const ICC_TAGS: Record<Exclude<RenderingIntent, 'absolute'>, IccLutTag> = {
+  perceptual: 'B2A0',
+  relative: 'B2A1',
+  saturation: 'B2A2',
+};
+
+const renderWithProfile = (profile: IccProfile, source: Lab, intent: RenderingIntent): Rendering => {
+  // ICC absolute colorimetric is relative colorimetric scaled by the media white point
+  const paper = profile.mediaWhite ? scaleXyz(profile.mediaWhite, invertScale(WHITE_POINTS.D50)) : { x: 1, y: 1, z: 1 };
+  const relative = labToDevice(profile, 'B2A1', source);
+  const inGamut = deltaE2000(source, deviceToLab(profile, 'A2B1', relative)) <= GAMUT_TOLERANCE;
+
+  if (intent === 'relative') return { inks: relative, printed: deviceToLab(profile, 'A2B1', relative), inGamut };
+  if (intent === 'absolute') {
+    const inks = labToDevice(profile, 'B2A1', toMediaRelative(source, paper));
+    return { inks, printed: toAbsolute(deviceToLab(profile, 'A2B1', inks), paper), inGamut };
+  }
+
+  const inks = labToDevice(profile, profile.luts[ICC_TAGS[intent]] ? ICC_TAGS[intent] : 'B2A1', source);
+  return { inks, printed: deviceToLab(profile, 'A2B1', inks), inGamut };
+};
+
+// Mid gray the perceptual intent compresses out-of-gamut colors towards (media-relative L*)
+const COMPRESSION_ANCHOR = 50;
+
+// Closest printable color on the line towards mid gray at the same hue, so bright colors trade
+// some lightness for chroma instead of fading to pastels
+const compressTowardsGray = (model: PressModel, lab: Lab, paper: Xyz): Lab => {
+  const along = (t: number): Lab => ({
+    l: COMPRESSION_ANCHOR + (lab.l - COMPRESSION_ANCHOR) * t,
+    a: lab.a * t,
+    b: lab.b * t,
+  });
+  const printable = (t: number) => {
+    const target = toAbsolute(along(t), paper);
+    return deltaE2000(target, separate(model, target).lab) <= GAMUT_TOLERANCE;
+  };
+  if (printable(1)) return lab;
+
+  let low = 0;
+  let high = 1;
+  while (high - low > 0.01) {
+    const t = (low + high) / 2;
+    if (printable(t)) low = t;
+    else high = t;
+  }
+  return along(low);
+};
+
+const renderWithModel = (model: PressModel, source: Lab, intent: RenderingIntent): Rendering => {
+  const paper = paperWhiteScale(model);
+  const relative = (lab: Lab) => toMediaRelative(lab, paper);
+
+  // Media-relative: the source white is the paper
+  const colorimetric = separate(model, toAbsolute(source, paper));
+  const inGamut = deltaE2000(source, relative(colorimetric.lab)) <= GAMUT_TOLERANCE;
+
+  if (intent === 'relative') return { inks: colorimetric.inks, printed: relative(colorimetric.lab), inGamut };
+  if (intent === 'absolute') {
+    const separation = separate(model, source);
+    return { inks: separation.inks, printed: separation.lab, inGamut };
+  }
+
+  // Darkest black within the ink limit
+  const black = relative(separate(model, { l: 0, a: 0, b: 0 }).lab);
+  const compensated = compensateBlackPoint(source, black);
+  const separation = intent === 'perceptual'
+    ? separate(model, toAbsolute(compressTowardsGray(model, compensated, paper), paper))
+    : separate(model, toAbsolute(compensated, paper), { lightnessWeight: SATURATION_LIGHTNESS_WEIGHT });
+
+  return { inks: separation.inks, printed: relative(separation.lab), inGamut };
+};
+
+const round = (value: number, digits: number) => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor || 0;
+};
+
+// Lab of a CSS color; wide-gamut colors keep the chroma their sRGB fallback loses
+const sourceLab = (color: string): Lab => gamutColorToLab(parseCssColor(color) ?? hexToGamutColor(color));
+
+/**
+ * Separate a color (#RRGGBB or CSS color()) for a printing condition and check the result
+ */
+export const convertToCmyk = (
+  color: string,
+  { condition = DEFAULT_PRINT_CONDITION, intent = DEFAULT_RENDERING_INTENT }: CmykOptions = {}
+): CmykConversion => {
+  const source = sourceLab(color);
+  const profile = loadProfile(condition);
+  const { inks, printed, inGamut } = profile
+    ? renderWithProfile(profile, source, intent)
+    : renderWithModel(pressModel(condition), source, intent);
+
+  const percentages = inks.map((ink) => Math.min(1, Math.max(0, ink)) * 100);
+  const [c, m, y, k] = percentages.map((value) => round(value, 1));
+  // Checked before rounding, which can push a separation at the limit just over it
+  const coverage = percentages.reduce((sum, value) => sum + value, 0);
+  const { totalInkLimit } = CHARACTERIZATIONS[condition];
+
+  const warnings: PrintWarning[] = [];
+  if (!inGamut) warnings.push('out-of-gamut');
+  if (coverage > totalInkLimit + 0.01) warnings.push('ink-limit');
+  else if (coverage > totalInkLimit - HEAVY_COVERAGE_MARGIN) warnings.push('heavy-coverage');
+
+  return {
+    color,
+    cmyk: { c, m, y, k },
+    totalInk: round(coverage, 1),
+    printed: {
+      lab: { l: round(printed.l, 2), a: round(printed.a, 2), b: round(printed.b, 2) },
+      hex: rgbToHex(clampRgb(labToRgb(printed))),
+    },
+    deltaE: round(deltaE2000(source, printed), 2),
+    inGamut,
+    warnings,
+  };
+};
+
+// Color.cmyk of a color, for the default condition and intent
+export const storedCmyk = (color: string): StoredCmyk => ({
+  ...convertToCmyk(color).cmyk,
+  condition: DEFAULT_PRINT_CONDITION,
+  intent: DEFAULT_RENDERING_INTENT,
+  source: loadProfile(DEFAULT_PRINT_CONDITION) ? 'icc' : 'characterization',
+});
@@ -0,0 +1,157 @@
+/**
+ * Korean color names from the Many Languages, Many Colors survey (UW Interactive Data Lab):
+ * the names Korean speakers gave most often, each with the average color they were used for.
+ * Source: https://idl.uw.edu/color-naming-in-different-languages/ as published in the
+ * many-languages-many-colors-dataset-lists package (CC0 1.0 Public Domain Dedication)
+ */
+
+export const KOREAN_COLORS: Array<[string, string]> = [
+  ['보라색', '#8F3CC0'],
+  ['연두색', '#84E654'],
+  ['초록색', '#41B24D'],
+  ['자주색', '#B5318C'],
+  ['갈색', '#8E502F'],
+  ['하늘색', '#50CEF2'],
+  ['연보라색', '#B38BDD'],
+  ['파랑색', '#1F61E4'],
+  ['분홍색', '#ED68BB'],
+  ['청록색', '#36A297'],
+  ['남색', '#29348A'],
+  ['녹색', '#4AA148'],
+  ['파란색', '#2762DF'],
+  ['주황색', '#F47E26'],
+  ['황토색', '#C59442'],
+  ['빨강색', '#E82532'],
+  ['풀색', '#73A743'],
+  ['민트색', '#6FE9C2'],
+  ['검정색', '#221F24'],
+  ['회색', '#95999D'],
+  ['에메랄드색', '#58E6AB'],
+  ['핑크색', '#EE56BA'],
+  ['군청색', '#313F9A'],
+  ['다홍색', '#E93E50'],
+  ['진분홍색', '#E1449C'],
+  ['빨간색', '#E42633'],
+  ['노랑색', '#F4E333'],
+  ['고동색', '#6A422E'],
+  ['진보라색', '#663182'],
+  ['살구색', '#EFB08D'],
+  ['형광연두색', '#6EF658'],
+  ['진녹색', '#336633'],
+  ['카키색', '#757F41'],
+  ['연녹색', '#94DA77'],
+  ['핫핑크색', '#EF31A4'],
+  ['올리브색', '#869140'],
+  ['연분홍색', '#ECA5C6'],
+  ['노란색', '#F2DF2D'],
+  ['옥색', '#5AE1BA'],
+  ['베이지색', '#D8C59B'],
+  ['적갈색', '#88342F'],
+  ['겨자색', '#D3BC33'],
+  ['연갈색', '#B48862'],
+  ['형광보라색', '#AE36E9'],
+  ['마젠타색', '#DC36A3'],
+  ['검은색', '#202023'],
+  ['형광초록색', '#43F15E'],
+  ['진초록색', '#2F6235'],
+  ['밝은보라색', '#AC41DB'],
+  ['짙은녹색', '#406B3C'],
+  ['청색', '#2D5AC6'],
+  ['라임색', '#AEEE45'],
+  ['연초록색', '#6FE180'],
+  ['자홍색', '#D8387C'],
+  ['밝은연두색', '#8BF260'],
+  ['살색', '#EDBA9C'],
+  ['상아색', '#C9D5AD'],
+  ['연파랑색', '#4CA3EE'],
+  ['바다색', '#2E89D6'],
+  ['형광녹색', '#3AED6C'],
+  ['금색', '#CAB03D'],
+  ['쑥색', '#5C7D4A'],
+  ['벽돌색', '#A2433C'],
+  ['짙은보라색', '#602D70'],
+  ['개나리색', '#F8D036'],
+  ['진홍색', '#DD3178'],
+  ['코발트블루색', '#2955D0'],
+  ['청보라색', '#5F3ECE'],
+  ['형광하늘색', '#44EAF1'],
+  ['짙은 초록색', '#276939'],
+  ['남보라색', '#5036A3'],
+  ['진청색', '#154398'],
+  ['연노랑색', '#EAF373'],
+  ['청녹색', '#3A9691'],
+  ['황갈색', '#B07A2C'],
+  ['청회색', '#67879C'],
+  ['와인색', '#872346'],
+  ['귤색', '#F6A62E'],
+  ['형광색', '#98F560'],
+  ['꽃분홍색', '#EA44A2'],
+  ['진파랑색', '#2242C8'],
+  ['곤색', '#2E3A71'],
+  ['짙은분홍색', '#E6408D'],
+  ['황록색', '#ABBB44'],
+  ['오렌지색', '#F79126'],
+  ['짙은 하늘색', '#32A6DE'],
+  ['밝은 초록색', '#52EF71'],
+  ['진한분홍색', '#E63CA0'],
+  ['형광분홍색', '#F136CF'],
+  ['밝은 녹색', '#50E069'],
+  ['진한 보라색', '#6C2F93'],
+  ['짙은 갈색', '#5A2F22'],
+  ['국방색', '#516835'],
+  ['밝은파랑색', '#2895F7'],
+  ['감색', '#856268'],
+  ['짙은 연두색', '#6BAB39'],
+  ['아이보리색', '#D8D2C4'],
+  ['진달래색', '#EB4DAB'],
+  ['레몬색', '#F0F46D'],
+  ['붉은색', '#D12A40'],
+  ['연한갈색', '#B48460'],
+  ['소라색', '#82A9D2'],
+  ['진갈색', '#673724'],
+  ['적색', '#A12B34'],
+  ['연주황색', '#F5A565'],
+  ['자두색', '#C43C70'],
+  ['연한초록색', '#72D27F'],
+  ['바이올렛색', '#8E54CA'],
+  ['어두운 보라색', '#603B79'],
+  ['연하늘색', '#8AE6EE'],
+  ['연청록색', '#5EDABA'],
+  ['버건디색', '#952839'],
+  ['검붉은색', '#832230'],
+  ['코랄색', '#DD827F'],
+  ['주홍색', '#F35341'],
+  ['짙은파랑색', '#2446CD'],
+  ['진하늘색', '#409CE9'],
+  ['형광핑크색', '#F62FBF'],
+  ['밝은청록색', '#30D8C4'],
+  ['황색', '#CD9F2E'],
+  ['연한 보라색', '#C18DE5'],
+  ['연자주색', '#BC5BB7'],
+  ['진한초록색', '#2B6A35'],
+  ['짙은 남색', '#1F215F'],
+  ['회보라색', '#836CA0'],
+  ['탁한분홍색', '#C8889E'],
+  ['적보라색', '#94418C'],
+  ['탁한보라색', '#826096'],
+  ['인디핑크색', '#D696AF'],
+  ['올리브그린색', '#73852D'],
+  ['짙은자주색', '#892F68'],
+  ['라벤더색', '#AE80D2'],
+  ['옅은보라색', '#9F78D5'],
+  ['연한연두색', '#B0EF91'],
+  ['연청색', '#57A5C6'],
+  ['네이비색', '#27438A'],
+  ['연핑크색', '#E6ACCB'],
+  ['진회색', '#55595A'],
+  ['진한연두색', '#56DC60'],
+  ['진연두색', '#5DD149'],
+  ['선홍색', '#E0496F'],
+  ['회갈색', '#8A7A6E'],
+  ['짙은회색', '#5B6264'],
+  ['황녹색', '#A9BF42'],
+  ['녹두색', '#A5BA52'],
+  ['짙은풀색', '#42542F'],
+  // The survey list has no name for white; 흰색 is added so white is not named 아이보리색
+  ['흰색', '#FFFFFF'],
+];
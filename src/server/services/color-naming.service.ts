@@ -0,0 +1,100 @@
+/**
+ * Color Naming Service
+ * Nearest named color by CIEDE2000 in one of several bundled vocabularies: CSS keywords,
+ * the xkcd color survey names and the Korean names of the Many Languages, Many Colors survey
+ */
+
+import { Lab, deltaE2000, hexToRgb, rgbToHex, rgbToLab } from '../../lib/color';
+import { CSS_NAMED_COLORS } from '../formats/css-named-colors';
+import { XKCD_COLORS } from './color-names/xkcd';
+import { KOREAN_COLORS } from './color-names/korean';
+
+export type ColorNameVocabulary = 'css' | 'xkcd' | 'korean';
+
+export const COLOR_NAME_VOCABULARIES: ColorNameVocabulary[] = ['css', 'xkcd', 'korean'];
+
+// Used for Color.name when a color is saved without one
+export const DEFAULT_COLOR_NAME_VOCABULARY: ColorNameVocabulary = 'xkcd';
+
+export type ColorNameConfidence = 'exact' | 'close' | 'approximate';
+
+export interface ColorNameMatch {
+  name: string;
+  // The dictionary color the name belongs to
+  hex: string;
+  // ΔE2000 between the requested color and the dictionary color
+  distance: number;
+  confidence: ColorNameConfidence;
+}
+
+interface NamedColor {
+  name: string;
+  hex: string;
+  lab: Lab;
+}
+
+// ΔE2000 below which the name is as good as exact, and below which it is still a fair description
+const EXACT_DISTANCE = 1;
+const CLOSE_DISTANCE = 5;
+
+// ==================== DICTIONARY ====================
+
+// Aliases such as aqua and cyan share a color; the nearest-name sort keeps the first listed
+const buildDictionary = (entries: Array<[string, string]>): NamedColor[] =>
+  entries.map(([name, hex]) => {
+    const rgb = hexToRgb(hex);
+    return { name, hex: rgbToHex(rgb), lab: rgbToLab(rgb) };
+  });
+
+const VOCABULARY_ENTRIES: Record<ColorNameVocabulary, Array<[string, string]>> = {
+  css: Object.entries(CSS_NAMED_COLORS),
+  xkcd: XKCD_COLORS,
+  korean: KOREAN_COLORS,
+};
+
+// Built on first use per vocabulary
+const dictionaries = new Map<ColorNameVocabulary, NamedColor[]>();
+
+const getDictionary = (vocabulary: ColorNameVocabulary): NamedColor[] => {
+  let dictionary = dictionaries.get(vocabulary);
+  if (!dictionary) {
+    dictionary = buildDictionary(VOCABULARY_ENTRIES[vocabulary]);
+    dictionaries.set(vocabulary, dictionary);
+  }
+  return dictionary;
+};
+
+export const colorNameDictionarySize = (vocabulary: ColorNameVocabulary): number => getDictionary(vocabulary).length;
+
+// ==================== LOOKUP ====================
+
+const confidenceFor = (distance: number): ColorNameConfidence => {
+  if (distance < EXACT_DISTANCE) return 'exact';
+  if (distance < CLOSE_DISTANCE) return 'close';
+  return 'approximate';
+};
+
+/**
+ * The `limit` nearest names to a color, closest first
+ */
+export const nearestColorNames = (
+  hex: string,
+  vocabulary: ColorNameVocabulary = DEFAULT_COLOR_NAME_VOCABULARY,
+  limit = 1
+): ColorNameMatch[] => {
+  const lab = rgbToLab(hexToRgb(hex));
+
+  return getDictionary(vocabulary)
+    .map((entry) => ({ entry, distance: deltaE2000(lab, entry.lab) }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map(({ entry, distance }) => ({
+      name: entry.name,
+      hex: entry.hex,
+      distance: Math.round(distance * 100) / 100,
+      confidence: confidenceFor(distance),
+    }));
+};
+
+export const nameColor = (hex: string, vocabulary: ColorNameVocabulary = DEFAULT_COLOR_NAME_VOCABULARY): ColorNameMatch =>
+  nearestColorNames(hex, vocabulary, 1)[0];
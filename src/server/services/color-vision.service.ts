@@ -0,0 +1,79 @@
+/**
+ * Color Vision Service
+ * Simulates color vision deficiencies on uploaded images, pixel by pixel in linear light
+ */
+
+import sharp from 'sharp';
+import {
+  ColorVisionDeficiency,
+  ColorVisionOptions,
+  colorVisionTransform,
+  linearToSrgb,
+  srgbToLinear
+} from '../../lib/color';
+import { uploadConfig } from '../config/api.config';
+import { createError } from '../middleware/error-handler';
+
+export interface SimulatedImage {
+  contentType: string;
+  body: Buffer;
+  width: number;
+  height: number;
+}
+
+// Larger images are refused before decoding (a 24 megapixel photo is 6000x4000)
+const MAX_INPUT_PIXELS = 24_000_000;
+
+// 8-bit channel to linear light, computed once
+const LINEAR = Float64Array.from({ length: 256 }, (_, channel) => srgbToLinear(channel));
+
+// Linear light back to 8-bit, sampled finely enough to stay within one level of the exact encoding
+const ENCODE_STEPS = 65535;
+const ENCODE = Uint8Array.from({ length: ENCODE_STEPS + 1 }, (_, step) => Math.round(linearToSrgb(step / ENCODE_STEPS)));
+
+const toByte = (linear: number) => ENCODE[Math.round(Math.min(1, Math.max(0, linear)) * ENCODE_STEPS)];
+
+/**
+ * Re-encode an image as it appears with a deficiency. Large images are scaled down to the
+ * upload processing limits first; alpha is kept, and the result is always a PNG.
+ */
+export const simulateImage = async (
+  input: Buffer,
+  deficiency: ColorVisionDeficiency,
+  options: ColorVisionOptions = {}
+): Promise<SimulatedImage> => {
+  const { maxWidth, maxHeight } = uploadConfig.imageProcessing;
+
+  const { data, info } = await sharp(input, { limitInputPixels: MAX_INPUT_PIXELS })
+    .rotate()
+    .resize(maxWidth, maxHeight, { fit: 'inside', withoutEnlargement: true })
+    .toColorspace('srgb')
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+    .catch((error: Error) => {
+      throw createError.validation(/pixel limit/i.test(error.message)
+        ? `Images above ${MAX_INPUT_PIXELS / 1_000_000} megapixels are not supported`
+        : 'The image cannot be decoded');
+    });
+
+  // The matrices are computed once; per pixel it is a plane test and a matrix product
+  const { normal, positive, negative } = colorVisionTransform(deficiency, options);
+
+  for (let offset = 0; offset < data.length; offset += info.channels) {
+    const r = LINEAR[data[offset]];
+    const g = LINEAR[data[offset + 1]];
+    const b = LINEAR[data[offset + 2]];
+    const matrix = normal[0] * r + normal[1] * g + normal[2] * b >= 0 ? positive : negative;
+
+    data[offset] = toByte(matrix[0][0] * r + matrix[0][1] * g + matrix[0][2] * b);
+    data[offset + 1] = toByte(matrix[1][0] * r + matrix[1][1] * g + matrix[1][2] * b);
+    data[offset + 2] = toByte(matrix[2][0] * r + matrix[2][1] * g + matrix[2][2] * b);
+  }
+
+  const body = await sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } })
+    .png()
+    .toBuffer();
+
+  return { contentType: 'image/png', body, width: info.width, height: info.height };
+};
@@ -0,0 +1,322 @@
+/**
+ * Palette Export Service
+ * Registry of palette file exporters shared by every export endpoint
+ */
+
+import { z } from 'zod';
+import { GamutColor, formatCssColor } from '../../lib/color';
+import { createError } from '../middleware/error-handler';
+import {
+  CmykOptions,
+  CmykValues,
+  DEFAULT_PRINT_CONDITION,
+  DEFAULT_RENDERING_INTENT,
+  PRINT_CONDITIONS,
+  PrintCondition,
+  RENDERING_INTENTS,
+  RenderingIntent,
+  StoredCmyk,
+  convertToCmyk,
+  describePrint,
+  printConditionInfo,
+} from './cmyk.service';
+import { encodeAse } from '../formats/ase';
+import { encodeAco } from '../formats/aco';
+import { encodeGpl } from '../formats/gpl';
+import { encodeKpl } from '../formats/kpl';
+import { encodePaintNet } from '../formats/paintnet';
+import { encodeProcreate } from '../formats/procreate';
+import { encodeDtcg, encodeStyleDictionary, parseRoles } from '../formats/design-tokens';
+import { encodeTailwindConfig, encodeTailwindTheme } from '../formats/tailwind';
+import {
+  encodeAndroidColors,
+  encodeComposeColors,
+  encodeFlutterColors,
+  encodeXcassets,
+} from '../formats/mobile';
+import { encodeStyleGuide, StyleGuideDocument, StyleGuidePalette } from '../formats/style-guide';
+import { SwatchColor, SwatchDocument } from '../formats/types';
+
+export interface ExportablePalette {
+  name: string;
+  description?: string | null;
+  colors: Array<{ hex: string; name?: string | null; wideGamut?: GamutColor | null; cmyk?: StoredCmyk | null }>;
+  // Credited in exports that print an author, e.g. the PDF style guide
+  user?: { name: string | null } | null;
+}
+
+export interface ExportedFile {
+  filename: string;
+  contentType: string;
+  body: Buffer | string;
+}
+
+interface PaletteExporter<TOptions = unknown> {
+  extension: string;
+  contentType: string;
+  // Parses exporter options from query string values
+  options: z.ZodType<TOptions>;
+  export(palette: ExportablePalette, options: TOptions): Buffer | string;
+}
+
+const booleanParam = z.enum(['true', 'false']).transform((val) => val === 'true');
+
+type ExportableColor = ExportablePalette['colors'][number];
+
+// Inks for a print condition: the separation stored with the color when it was made for the
+// same condition and intent, otherwise separated now
+export const printCmyk = (
+  color: ExportableColor,
+  { condition = DEFAULT_PRINT_CONDITION, intent = DEFAULT_RENDERING_INTENT }: CmykOptions = {}
+): CmykValues => {
+  // Stored values are reused unless they were approximated and the ICC profile is installed since
+  const stored = color.cmyk;
+  if (stored && stored.condition === condition && stored.intent === intent && stored.source === printConditionInfo(condition).source) {
+    const { c, m, y, k } = stored;
+    return { c, m, y, k };
+  }
+  return convertToCmyk(color.wideGamut ? formatCssColor(color.wideGamut, 6) : color.hex, { condition, intent }).cmyk;
+};
+
+/**
+ * Palette colors as a swatch document, optionally wrapped in a group named after the palette.
+ * With `print`, colors carry their separation for that condition as CMYK channel values.
+ */
+export const toSwatchDocument = (palette: ExportablePalette, grouped: boolean, print?: CmykOptions): SwatchDocument => {
+  const colors = palette.colors.map((color): SwatchColor => {
+    const swatch: SwatchColor = { name: color.name || null, hex: color.hex.toUpperCase() };
+    if (!print) return swatch;
+
+    const { c, m, y, k } = printCmyk(color, print);
+    return { ...swatch, model: 'CMYK', values: [c / 100, m / 100, y / 100, k / 100] };
+  });
+
+  return grouped
+    ? { name: palette.name, colors: [], groups: [{ name: palette.name, colors }] }
+    : { name: palette.name, colors, groups: [] };
+};
+
+const COLOR_MODELS = { rgb: 'RGB', hsb: 'HSB', cmyk: 'CMYK', lab: 'LAB', gray: 'Gray' } as const;
+
+// Print condition and intent of CMYK values; ignored by other color models
+const printOptions = z.object({
+  condition: z.enum(PRINT_CONDITIONS as [PrintCondition, ...PrintCondition[]]).default(DEFAULT_PRINT_CONDITION),
+  intent: z.enum(RENDERING_INTENTS as [RenderingIntent, ...RenderingIntent[]]).default(DEFAULT_RENDERING_INTENT),
+});
+
+const aseOptions = printOptions.extend({
+  model: z.enum(['rgb', 'cmyk', 'lab', 'gray']).default('rgb')
+    .transform((val) => COLOR_MODELS[val]),
+  colorType: z.enum(['global', 'spot', 'process']).default('global'),
+  group: booleanParam.default(true),
+});
+
+const acoOptions = printOptions.extend({
+  model: z.enum(['rgb', 'hsb', 'cmyk', 'lab', 'gray']).default('rgb')
+    .transform((val) => COLOR_MODELS[val]),
+  version: z.enum(['1', '2']).default('2').transform((val) => (val === '1' ? 1 : 2)),
+});
+
+// roles: comma-separated role names, each optionally pinned to a color position ("primary:2")
+const tokenOptions = z.object({
+  prefix: z.string().regex(/^[a-z][a-z0-9-]*$/i, 'Invalid token prefix').max(50).default('color'),
+  roles: z.string().max(1000)
+    .regex(/^\s*[a-z][a-z0-9-]*(:\d+)?\s*(,\s*[a-z][a-z0-9-]*(:\d+)?\s*)*$/i, 'Invalid role list')
+    .optional()
+    .transform((val) => (val ? parseRoles(val) : [])),
+  dark: booleanParam.default(false),
+});
+
+const tailwindOptions = z.object({
+  prefix: z.string().regex(/^[a-z][a-z0-9-]*$/, 'Invalid color group').max(50).optional(),
+  colorFormat: z.enum(['hex', 'oklch']).default('hex'),
+});
+
+const tailwindThemeOptions = tailwindOptions.extend({
+  colorFormat: z.enum(['hex', 'oklch']).default('oklch'),
+});
+
+const xcassetsOptions = z.object({
+  dark: booleanParam.default(true),
+});
+
+const codeOptions = z.object({
+  className: z.string().regex(/^[A-Z][A-Za-z0-9]*$/, 'Invalid class name').max(100).optional(),
+});
+
+const composeOptions = codeOptions.extend({
+  packageName: z.string().regex(/^[a-z][a-z0-9_]*(\.[a-z][a-z0-9_]*)*$/, 'Invalid package name').max(200).optional(),
+});
+
+const styleGuideOptions = printOptions.extend({
+  paper: z.enum(['a4', 'letter']).default('a4'),
+});
+
+const toStyleGuidePalette = (palette: ExportablePalette, print: CmykOptions): StyleGuidePalette => ({
+  ...palette,
+  author: palette.user?.name,
+  colors: palette.colors.map((color) => ({ ...color, cmyk: printCmyk(color, print) })),
+});
+
+export const paletteExporters: Record<string, PaletteExporter> = {
+  ase: {
+    extension: 'ase',
+    contentType: 'application/octet-stream',
+    options: aseOptions,
+    export: (palette, options: z.infer<typeof aseOptions>) =>
+      encodeAse(toSwatchDocument(palette, options.group, options.model === 'CMYK' ? options : undefined), {
+        model: options.model,
+        colorType: options.colorType,
+      }),
+  },
+  aco: {
+    extension: 'aco',
+    contentType: 'application/octet-stream',
+    options: acoOptions,
+    export: (palette, options: z.infer<typeof acoOptions>) =>
+      encodeAco(toSwatchDocument(palette, false, options.model === 'CMYK' ? options : undefined), options),
+  },
+  gpl: {
+    extension: 'gpl',
+    contentType: 'text/plain; charset=utf-8',
+    options: z.object({}),
+    export: (palette) => encodeGpl(toSwatchDocument(palette, false)),
+  },
+  kpl: {
+    extension: 'kpl',
+    contentType: 'application/zip',
+    options: z.object({}),
+    export: (palette) => encodeKpl(toSwatchDocument(palette, false)),
+  },
+  paintnet: {
+    extension: 'txt',
+    contentType: 'text/plain; charset=utf-8',
+    options: z.object({}),
+    export: (palette) => encodePaintNet(toSwatchDocument(palette, false)),
+  },
+  procreate: {
+    extension: 'swatches',
+    contentType: 'application/zip',
+    options: z.object({}),
+    export: (palette) => encodeProcreate(toSwatchDocument(palette, false)),
+  },
+  dtcg: {
+    extension: 'tokens.json',
+    contentType: 'application/json',
+    options: tokenOptions,
+    export: (palette, options: z.infer<typeof tokenOptions>) => encodeDtcg(palette, options),
+  },
+  'style-dictionary': {
+    extension: 'style-dictionary.zip',
+    contentType: 'application/zip',
+    options: tokenOptions,
+    export: (palette, options: z.infer<typeof tokenOptions>) => encodeStyleDictionary(palette, options),
+  },
+  tailwind: {
+    extension: 'tailwind.config.ts',
+    contentType: 'text/plain; charset=utf-8',
+    options: tailwindOptions,
+    export: (palette, options: z.infer<typeof tailwindOptions>) => encodeTailwindConfig(palette, options),
+  },
+  'tailwind-v4': {
+    extension: 'theme.css',
+    contentType: 'text/css; charset=utf-8',
+    options: tailwindThemeOptions,
+    export: (palette, options: z.infer<typeof tailwindThemeOptions>) => encodeTailwindTheme(palette, options),
+  },
+  android: {
+    extension: 'colors.xml',
+    contentType: 'application/xml; charset=utf-8',
+    options: z.object({}),
+    export: (palette) => encodeAndroidColors(palette),
+  },
+  xcassets: {
+    extension: 'xcassets.zip',
+    contentType: 'application/zip',
+    options: xcassetsOptions,
+    export: (palette, options: z.infer<typeof xcassetsOptions>) => encodeXcassets(palette, options),
+  },
+  flutter: {
+    extension: 'dart',
+    contentType: 'text/plain; charset=utf-8',
+    options: codeOptions,
+    export: (palette, options: z.infer<typeof codeOptions>) => encodeFlutterColors(palette, options),
+  },
+  compose: {
+    extension: 'kt',
+    contentType: 'text/plain; charset=utf-8',
+    options: composeOptions,
+    export: (palette, options: z.infer<typeof composeOptions>) => encodeComposeColors(palette, options),
+  },
+  pdf: {
+    extension: 'style-guide.pdf',
+    contentType: 'application/pdf',
+    options: styleGuideOptions,
+    export: (palette, options: z.infer<typeof styleGuideOptions>) =>
+      encodeStyleGuide({
+        title: palette.name,
+        palettes: [toStyleGuidePalette(palette, options)],
+        print: describePrint(options),
+      }, options),
+  },
+};
+
+export const exportFormats = Object.keys(paletteExporters);
+
+// File name stem that is safe in Content-Disposition on every platform
+const fileStem = (name: string) =>
+  name.trim().replace(/[\\/:*?"<>|\s]+/g, '-').replace(/^-+|-+$/g, '') || 'palette';
+
+/**
+ * Render a palette in the given format.
+ * `rawOptions` are unparsed query parameters; invalid options are a validation error.
+ */
+export const exportPalette = (
+  palette: ExportablePalette,
+  format: string,
+  rawOptions: Record<string, unknown> = {}
+): ExportedFile => {
+  const exporter = paletteExporters[format];
+
+  if (!exporter) {
+    throw createError.validation(`Unsupported export format: ${format}`, { supported: exportFormats });
+  }
+
+  const parsed = exporter.options.safeParse(rawOptions);
+  if (!parsed.success) {
+    throw createError.validation('Invalid export options', parsed.error.issues);
+  }
+
+  return {
+    filename: `${fileStem(palette.name)}.${exporter.extension}`,
+    contentType: exporter.contentType,
+    body: exporter.export(palette, parsed.data),
+  };
+};
+
+/**
+ * Render a collection as one PDF style guide with a section per palette
+ */
+export const exportCollectionStyleGuide = (
+  collection: { name: string; description?: string | null; palettes: ExportablePalette[] },
+  rawOptions: Record<string, unknown> = {}
+): ExportedFile => {
+  const parsed = styleGuideOptions.safeParse(rawOptions);
+  if (!parsed.success) {
+    throw createError.validation('Invalid export options', parsed.error.issues);
+  }
+
+  const document: StyleGuideDocument = {
+    title: collection.name,
+    description: collection.description,
+    palettes: collection.palettes.map((palette) => toStyleGuidePalette(palette, parsed.data)),
+    collection: true,
+    print: describePrint(parsed.data),
+  };
+
+  return {
+    filename: `${fileStem(collection.name)}.style-guide.pdf`,
+    contentType: 'application/pdf',
+    body: encodeStyleGuide(document, parsed.data),
+  };
+};
@@ -0,0 +1,197 @@
+/**
+ * Palette Image Service
+ * Renders palettes as SVG, and as PNG through sharp, for swatch strips, grids and Open Graph cards
+ */
+
+import sharp from 'sharp';
+import { hexToRgb } from '../../lib/color';
+import { escapeXml } from '../formats/xml';
+
+export type PaletteImageLayout = 'strip' | 'grid' | 'og';
+export type PaletteImageFormat = 'png' | 'svg';
+
+export interface ImagePalette {
+  name: string;
+  colors: Array<{ hex: string; name?: string | null }>;
+  user?: { name: string | null } | null;
+}
+
+export interface PaletteImageOptions {
+  width?: number;
+  height?: number;
+  columns?: number;
+  labels: boolean;
+}
+
+export interface RenderedImage {
+  contentType: string;
+  body: Buffer | string;
+}
+
+// Open Graph cards are always rendered at the size social sites request
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 };
+
+const FONT_FAMILY = "Inter, 'Noto Sans KR', 'Apple SD Gothic Neo', 'Helvetica Neue', Arial, sans-serif";
+
+const BACKGROUND = '#0A0A0A';
+
+// ==================== HELPERS ====================
+
+// Black or white, whichever reads better on the swatch (WCAG relative luminance)
+const labelColor = (hex: string) => {
+  const { r, g, b } = hexToRgb(hex);
+  const [lr, lg, lb] = [r, g, b].map((channel) => {
+    const c = channel / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb > 0.179 ? '#000000' : '#FFFFFF';
+};
+
+// Character budget from the available width; glyphs average a little over half the font size
+const fitText = (text: string, width: number, fontSize: number) => {
+  const max = Math.max(1, Math.floor(width / (fontSize * 0.6)));
+  return text.length > max ? `${text.slice(0, Math.max(1, max - 1))}…` : text;
+};
+
+const text = (x: number, y: number, content: string, attributes: Record<string, string | number>) => {
+  const attrs = Object.entries(attributes).map(([key, value]) => `${key}="${value}"`).join(' ');
+  return `<text x="${x}" y="${y}" font-family="${FONT_FAMILY}" ${attrs}>${escapeXml(content)}</text>`;
+};
+
+const svgDocument = (width: number, height: number, body: string[]) => [
+  `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+  ...body,
+  '</svg>',
+].join('\n');
+
+// Hex and, when present, the color name in the bottom-left corner of a swatch
+const swatchLabels = (
+  color: ImagePalette['colors'][number],
+  x: number,
+  y: number,
+  width: number,
+  height: number
+) => {
+  const fontSize = Math.max(10, Math.min(24, Math.round(Math.min(width / 7, height / 6))));
+  const padding = Math.round(fontSize * 0.8);
+  const fill = labelColor(color.hex);
+  const labels = [text(x + padding, y + height - padding, color.hex.toUpperCase(), {
+    'font-size': fontSize,
+    'font-weight': 600,
+    fill,
+  })];
+
+  if (color.name && height >= fontSize * 4) {
+    labels.push(text(x + padding, y + height - padding - fontSize * 1.4, fitText(color.name, width - padding * 2, fontSize * 0.85), {
+      'font-size': Math.round(fontSize * 0.85),
+      fill,
+      'fill-opacity': 0.8,
+    }));
+  }
+
+  return labels;
+};
+
+// ==================== LAYOUTS ====================
+
+const renderStrip = (palette: ImagePalette, options: PaletteImageOptions) => {
+  const width = options.width || 1000;
+  const height = options.height || 200;
+  const count = Math.max(1, palette.colors.length);
+
+  const body = palette.colors.flatMap((color, index) => {
+    // Integer edges so neighbouring swatches never leave a hairline gap
+    const x = Math.round((index * width) / count);
+    const next = Math.round(((index + 1) * width) / count);
+    return [
+      `<rect x="${x}" y="0" width="${next - x}" height="${height}" fill="${color.hex}"/>`,
+      ...(options.labels ? swatchLabels(color, x, 0, next - x, height) : []),
+    ];
+  });
+
+  return svgDocument(width, height, body);
+};
+
+const renderGrid = (palette: ImagePalette, options: PaletteImageOptions) => {
+  const count = Math.max(1, palette.colors.length);
+  const columns = Math.min(count, options.columns || Math.ceil(Math.sqrt(count)));
+  const rows = Math.ceil(count / columns);
+  const requested = Math.floor((options.width || columns * 200) / columns);
+  const gap = Math.max(2, Math.round(requested / 40));
+  // Every swatch keeps at least a pixel between its gaps, so small sizes grow the image instead
+  const minCell = gap * 2 + 1;
+  const cell = Math.max(minCell, requested);
+  const cellHeight = options.height ? Math.max(minCell, Math.floor(options.height / rows)) : cell;
+
+  const body = [
+    `<rect width="100%" height="100%" fill="${BACKGROUND}"/>`,
+    ...palette.colors.flatMap((color, index) => {
+      const x = (index % columns) * cell;
+      const y = Math.floor(index / columns) * cellHeight;
+      return [
+        `<rect x="${x + gap}" y="${y + gap}" width="${cell - gap * 2}" height="${cellHeight - gap * 2}" rx="${gap * 2}" fill="${color.hex}"/>`,
+        ...(options.labels ? swatchLabels(color, x + gap, y + gap, cell - gap * 2, cellHeight - gap * 2) : []),
+      ];
+    }),
+  ];
+
+  return svgDocument(columns * cell, rows * cellHeight, body);
+};
+
+const renderOpenGraph = (palette: ImagePalette) => {
+  const { width, height } = OG_IMAGE_SIZE;
+  const margin = 64;
+  const swatchTop = 250;
+  const swatchHeight = height - swatchTop - margin;
+  const swatchWidth = width - margin * 2;
+  const count = Math.max(1, palette.colors.length);
+
+  const author = palette.user?.name;
+
+  const body = [
+    `<rect width="100%" height="100%" fill="${BACKGROUND}"/>`,
+    text(margin, 110, fitText(palette.name, swatchWidth, 64), { 'font-size': 64, 'font-weight': 700, fill: '#FFFFFF' }),
+    text(margin, 170, author ? fitText(`by ${author}`, swatchWidth - 300, 30) : `${palette.colors.length} colors`, {
+      'font-size': 30,
+      fill: '#A1A1AA',
+    }),
+    text(width - margin, 170, 'ChromaVault', { 'font-size': 30, 'font-weight': 600, fill: '#3B82F6', 'text-anchor': 'end' }),
+    `<clipPath id="swatches"><rect x="${margin}" y="${swatchTop}" width="${swatchWidth}" height="${swatchHeight}" rx="24"/></clipPath>`,
+    '<g clip-path="url(#swatches)">',
+    ...palette.colors.flatMap((color, index) => {
+      const x = margin + Math.round((index * swatchWidth) / count);
+      const next = margin + Math.round(((index + 1) * swatchWidth) / count);
+      const swatch = `<rect x="${x}" y="${swatchTop}" width="${next - x}" height="${swatchHeight}" fill="${color.hex}"/>`;
+      // Hex labels only while they fit; very wide palettes show the colors alone
+      return next - x >= 80 ? [swatch, ...swatchLabels({ hex: color.hex }, x, swatchTop, next - x, swatchHeight)] : [swatch];
+    }),
+    '</g>',
+  ];
+
+  return svgDocument(width, height, body);
+};
+
+/**
+ * Render a palette image. SVG is returned as text; PNG is rasterized from the same SVG.
+ */
+export const renderPaletteImage = async (
+  palette: ImagePalette,
+  layout: PaletteImageLayout,
+  format: PaletteImageFormat,
+  options: PaletteImageOptions
+): Promise<RenderedImage> => {
+  const svg = layout === 'og'
+    ? renderOpenGraph(palette)
+    : layout === 'grid'
+      ? renderGrid(palette, options)
+      : renderStrip(palette, options);
+
+  if (format === 'svg') {
+    return { contentType: 'image/svg+xml; charset=utf-8', body: svg };
+  }
+
+  return {
+    contentType: 'image/png',
+    body: await sharp(Buffer.from(svg)).png({ compressionLevel: 9 }).toBuffer(),
+  };
+};
@@ -0,0 +1,170 @@
+/**
+ * Palette Import Service
+ * Turns uploaded swatch files into palettes
+ */
+
+import path from 'path';
+import { createError } from '../middleware/error-handler';
+import { decodeAse, isAse } from '../formats/ase';
+import { decodeAco, isAco } from '../formats/aco';
+import { decodeGpl, isGpl } from '../formats/gpl';
+import { decodeKpl, isKpl } from '../formats/kpl';
+import { decodePaintNet, isPaintNet } from '../formats/paintnet';
+import { decodeProcreate, isProcreate } from '../formats/procreate';
+import { SwatchColor, SwatchDocument } from '../formats/types';
+import { createPalettes } from './palette.service';
+
+interface PaletteImporter {
+  extensions: string[];
+  // Recognizes the format from file contents when the extension is missing or unknown
+  detect?: (buffer: Buffer) => boolean;
+  decode: (buffer: Buffer) => SwatchDocument;
+}
+
+export const paletteImporters: Record<string, PaletteImporter> = {
+  ase: {
+    extensions: ['.ase'],
+    detect: isAse,
+    decode: decodeAse,
+  },
+  aco: {
+    extensions: ['.aco'],
+    detect: isAco,
+    decode: decodeAco,
+  },
+  gpl: {
+    extensions: ['.gpl'],
+    detect: isGpl,
+    decode: decodeGpl,
+  },
+  kpl: {
+    extensions: ['.kpl'],
+    detect: isKpl,
+    decode: decodeKpl,
+  },
+  procreate: {
+    extensions: ['.swatches'],
+    detect: isProcreate,
+    decode: decodeProcreate,
+  },
+  paintnet: {
+    extensions: ['.txt'],
+    detect: isPaintNet,
+    decode: decodePaintNet,
+  },
+};
+
+export const importFormats = Object.keys(paletteImporters);
+
+// Same limits as the palette write API
+const MAX_PALETTE_COLORS = 20;
+const MAX_NAME_LENGTH = 100;
+const MAX_COLOR_NAME_LENGTH = 50;
+
+// Upper bound on palettes created from a single file
+const MAX_IMPORTED_PALETTES = 50;
+
+export interface ImportOptions {
+  format?: string;
+  name?: string;
+  isPublic?: boolean;
+}
+
+const resolveImporter = (buffer: Buffer, filename: string, format?: string): [string, PaletteImporter] => {
+  if (format) {
+    const importer = paletteImporters[format];
+    if (!importer) {
+      throw createError.validation(`Unsupported import format: ${format}`, { supported: importFormats });
+    }
+    return [format, importer];
+  }
+
+  const extension = path.extname(filename).toLowerCase();
+  const entries = Object.entries(paletteImporters);
+
+  const match = entries.find(([, importer]) => importer.extensions.includes(extension))
+    || entries.find(([, importer]) => importer.detect?.(buffer));
+
+  if (!match) {
+    throw createError.validation('Unrecognized palette file', { supported: importFormats });
+  }
+
+  return match;
+};
+
+/**
+ * Palettes to create from a decoded file: one per group, plus one for ungrouped colors.
+ * Sets larger than a palette allows are split into numbered parts.
+ */
+export const planImportedPalettes = (
+  document: SwatchDocument,
+  fallbackName: string
+): Array<{ name: string; colors: SwatchColor[] }> => {
+  const sets = [
+    { name: document.name || fallbackName, colors: document.colors },
+    ...document.groups.map((group) => ({ name: group.name || fallbackName, colors: group.colors })),
+  ].filter((set) => set.colors.length > 0);
+
+  const palettes: Array<{ name: string; colors: SwatchColor[] }> = [];
+
+  for (const set of sets) {
+    const parts = Math.ceil(set.colors.length / MAX_PALETTE_COLORS);
+
+    for (let part = 0; part < parts; part++) {
+      const suffix = parts > 1 ? ` (${part + 1}/${parts})` : '';
+      palettes.push({
+        name: set.name.slice(0, MAX_NAME_LENGTH - suffix.length) + suffix,
+        colors: set.colors.slice(part * MAX_PALETTE_COLORS, (part + 1) * MAX_PALETTE_COLORS),
+      });
+    }
+  }
+
+  return palettes;
+};
+
+/**
+ * Decode an uploaded palette file and create its palettes for the user.
+ */
+export const importPaletteFile = async (
+  userId: string,
+  file: { buffer: Buffer; originalname: string },
+  options: ImportOptions = {}
+) => {
+  const [format, importer] = resolveImporter(file.buffer, file.originalname, options.format);
+  const document = importer.decode(file.buffer);
+
+  const fallbackName = options.name || path.basename(file.originalname, path.extname(file.originalname)) || 'Imported palette';
+  const planned = planImportedPalettes(document, fallbackName);
+
+  if (planned.length === 0) {
+    throw createError.validation('The file does not contain any colors');
+  }
+
+  if (planned.length > MAX_IMPORTED_PALETTES) {
+    throw createError.validation(`A file can create at most ${MAX_IMPORTED_PALETTES} palettes`, {
+      palettes: planned.length,
+    });
+  }
+
+  // A single palette takes the requested name as is
+  if (options.name && planned.length === 1) {
+    planned[0].name = options.name.slice(0, MAX_NAME_LENGTH);
+  }
+
+  // One transaction for the whole file, so a failing palette leaves no partial import behind
+  const palettes = await createPalettes(userId, planned.map((entry) => ({
+    name: entry.name,
+    isPublic: options.isPublic || false,
+    colors: entry.colors.map((color, index) => ({
+      hex: color.hex,
+      name: color.name ? color.name.slice(0, MAX_COLOR_NAME_LENGTH) : undefined,
+      position: index,
+    })),
+  })), {
+    source: 'file_import',
+    format,
+    filename: file.originalname,
+  });
+
+  return { format, palettes };
+};
@@ -0,0 +1,191 @@
+/**
+ * Palette Lineage Service
+ * Walks the fork graph built from Palette.forkedFromId
+ */
+
+import { Prisma } from '@prisma/client';
+import { prismaClient } from '../config/database';
+
+interface Viewer {
+  id: string;
+  role: string;
+}
+
+export interface LineageNode {
+  id: string;
+  name: string;
+  slug: string;
+  createdAt: Date;
+  user: { id: string; name: string | null; avatar: string | null };
+  colors: Array<{ hex: string }>;
+}
+
+export interface HiddenLineageNode {
+  id: null;
+  hidden: true;
+}
+
+export interface DescendantNode extends LineageNode {
+  depth: number;
+  children: DescendantNode[];
+}
+
+// Safety limits for walking user-generated graphs
+const MAX_ANCESTOR_DEPTH = 50;
+const MAX_DESCENDANT_NODES = 500;
+
+const lineageSelect = {
+  id: true,
+  name: true,
+  slug: true,
+  createdAt: true,
+  isPublic: true,
+  userId: true,
+  deletedAt: true,
+  forkedFromId: true,
+  user: {
+    select: { id: true, name: true, avatar: true }
+  },
+  colors: {
+    orderBy: { position: 'asc' as const },
+    select: { hex: true },
+  },
+};
+
+// Palettes the viewer is allowed to see; trashed palettes are hidden from everyone
+export const visiblePaletteFilter = (viewer?: Viewer): Prisma.PaletteWhereInput => {
+  if (viewer?.role === 'ADMIN') return { deletedAt: null };
+  if (viewer) return { deletedAt: null, OR: [{ isPublic: true }, { userId: viewer.id }] };
+  return { deletedAt: null, isPublic: true };
+};
+
+const canView = (
+  palette: { isPublic: boolean; userId: string; deletedAt: Date | null },
+  viewer?: Viewer
+) => !palette.deletedAt &&
+  (palette.isPublic || viewer?.role === 'ADMIN' || palette.userId === viewer?.id);
+
+const toNode = (palette: LineageNode): LineageNode => ({
+  id: palette.id,
+  name: palette.name,
+  slug: palette.slug,
+  createdAt: palette.createdAt,
+  user: palette.user,
+  colors: palette.colors,
+});
+
+export const countForks = async (paletteId: string, viewer?: Viewer): Promise<number> => {
+  return prismaClient.palette.count({
+    where: {
+      forkedFromId: paletteId,
+      ...visiblePaletteFilter(viewer),
+    },
+  });
+};
+
+// Direct source of a remix, or null when there is none or the viewer cannot see it
+export const getForkSource = async (
+  paletteId: string,
+  viewer?: Viewer
+): Promise<{ id: string; name: string; user: { id: string; name: string | null } } | null> => {
+  const palette = await prismaClient.palette.findUnique({
+    where: { id: paletteId },
+    select: {
+      forkedFrom: {
+        select: {
+          id: true,
+          name: true,
+          isPublic: true,
+          userId: true,
+          deletedAt: true,
+          user: { select: { id: true, name: true } },
+        },
+      },
+    },
+  });
+
+  const source = palette?.forkedFrom;
+  if (!source || !canView(source, viewer)) return null;
+  return { id: source.id, name: source.name, user: source.user };
+};
+
+/**
+ * Ancestors from the direct parent up to the original palette.
+ * Private ancestors keep their place in the chain but are masked.
+ */
+export const getAncestors = async (
+  paletteId: string,
+  viewer?: Viewer
+): Promise<Array<LineageNode | HiddenLineageNode>> => {
+  const ancestors: Array<LineageNode | HiddenLineageNode> = [];
+  const seen = new Set<string>([paletteId]);
+
+  const start = await prismaClient.palette.findUnique({
+    where: { id: paletteId },
+    select: { forkedFromId: true },
+  });
+
+  let parentId = start?.forkedFromId || null;
+
+  while (parentId && !seen.has(parentId) && ancestors.length < MAX_ANCESTOR_DEPTH) {
+    seen.add(parentId);
+
+    const parent = await prismaClient.palette.findUnique({
+      where: { id: parentId },
+      select: lineageSelect,
+    });
+
+    if (!parent) break;
+
+    ancestors.push(canView(parent, viewer) ? toNode(parent) : { id: null, hidden: true });
+    parentId = parent.forkedFromId;
+  }
+
+  return ancestors;
+};
+
+/**
+ * Descendant tree of a palette, loaded breadth-first one level per query.
+ */
+export const getDescendantTree = async (
+  paletteId: string,
+  maxDepth: number,
+  viewer?: Viewer
+): Promise<{ children: DescendantNode[]; total: number; truncated: boolean }> => {
+  const root = { children: [] as DescendantNode[] };
+  const nodesById = new Map<string, { children: DescendantNode[] }>([[paletteId, root]]);
+
+  let frontier = [paletteId];
+  let total = 0;
+  let truncated = false;
+
+  for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+    const forks = await prismaClient.palette.findMany({
+      where: {
+        forkedFromId: { in: frontier },
+        ...visiblePaletteFilter(viewer),
+      },
+      select: lineageSelect,
+      orderBy: { createdAt: 'asc' },
+      take: MAX_DESCENDANT_NODES - total + 1,
+    });
+
+    if (total + forks.length > MAX_DESCENDANT_NODES) {
+      forks.length = MAX_DESCENDANT_NODES - total;
+      truncated = true;
+    }
+
+    frontier = [];
+    for (const fork of forks) {
+      const node: DescendantNode = { ...toNode(fork), depth, children: [] };
+      nodesById.get(fork.forkedFromId!)!.children.push(node);
+      nodesById.set(fork.id, node);
+      frontier.push(fork.id);
+    }
+
+    total += forks.length;
+    if (truncated) break;
+  }
+
+  return { children: root.children, total, truncated };
+};
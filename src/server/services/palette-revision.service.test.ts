@@ -0,0 +1,119 @@
+import { Prisma } from '@prisma/client';
+import { RevisionColor, diffRevisions, getRevisionColors } from './palette-revision.service';
+
+const revision = (version: number, colors: RevisionColor[], overrides: { name?: string; description?: string | null; tags?: string[] } = {}) => ({
+  version,
+  name: 'Coast',
+  description: null,
+  tags: ['sea'],
+  ...overrides,
+  colors: colors as unknown as Prisma.JsonValue,
+});
+
+const color = (hex: string, position: number, name: string | null = null): RevisionColor => ({ hex, name, position });
+
+const BASE = [color('#0B3C5D', 0, 'Navy'), color('#328CC1', 1, 'Sky'), color('#D9B310', 2, 'Sand')];
+
+describe('getRevisionColors', () => {
+  it('orders stored colors by position', () => {
+    const stored = revision(1, [BASE[2], BASE[0], BASE[1]]);
+    expect(getRevisionColors(stored).map((c) => c.position)).toEqual([0, 1, 2]);
+  });
+
+  it('treats missing colors as empty', () => {
+    expect(getRevisionColors({ colors: null })).toEqual([]);
+  });
+});
+
+describe('diffRevisions', () => {
+  it('reports nothing for identical revisions', () => {
+    const diff = diffRevisions(revision(1, BASE), revision(2, BASE));
+
+    expect(diff).toEqual({
+      fromVersion: 1,
+      toVersion: 2,
+      colors: { added: [], removed: [], moved: [], changed: [], unchanged: 3 },
+      tags: { added: [], removed: [] },
+    });
+  });
+
+  it('matches hex case-insensitively', () => {
+    const lower = BASE.map((c) => ({ ...c, hex: c.hex.toLowerCase() }));
+    expect(diffRevisions(revision(1, BASE), revision(2, lower)).colors.unchanged).toBe(3);
+  });
+
+  it('detects moved colors', () => {
+    const swapped = [color('#328CC1', 0, 'Sky'), color('#0B3C5D', 1, 'Navy'), BASE[2]];
+    const { colors } = diffRevisions(revision(1, BASE), revision(2, swapped));
+
+    expect(colors.moved).toEqual([
+      { hex: '#328CC1', name: 'Sky', fromPosition: 1, toPosition: 0 },
+      { hex: '#0B3C5D', name: 'Navy', fromPosition: 0, toPosition: 1 },
+    ]);
+    expect(colors.changed).toEqual([]);
+    expect(colors.unchanged).toBe(1);
+  });
+
+  it('reports a renamed color as changed', () => {
+    const renamed = [BASE[0], color('#328CC1', 1, 'Azure'), BASE[2]];
+    const { colors } = diffRevisions(revision(1, BASE), revision(2, renamed));
+
+    expect(colors.changed).toEqual([
+      { fromPosition: 1, toPosition: 1, fromHex: '#328CC1', toHex: '#328CC1', fromName: 'Sky', toName: 'Azure' },
+    ]);
+    expect(colors.unchanged).toBe(2);
+  });
+
+  it('pairs a recolored swatch by name before position', () => {
+    // Sand was recolored and moved into Navy's slot; matching by position first would pair Navy with it
+    const edited = [color('#E4C441', 0, 'Sand'), BASE[1], color('#FFFFFF', 2)];
+    const { colors } = diffRevisions(revision(1, BASE), revision(2, edited));
+
+    expect(colors.changed).toEqual([
+      { fromPosition: 2, toPosition: 0, fromHex: '#D9B310', toHex: '#E4C441', fromName: 'Sand', toName: 'Sand' },
+    ]);
+    expect(colors.added).toEqual([edited[2]]);
+    expect(colors.removed).toEqual([BASE[0]]);
+  });
+
+  it('pairs a recolored swatch at the same position', () => {
+    const edited = [BASE[0], color('#5DA9E9', 1), BASE[2]];
+    const { colors } = diffRevisions(revision(1, BASE), revision(2, edited));
+
+    expect(colors.changed).toEqual([
+      { fromPosition: 1, toPosition: 1, fromHex: '#328CC1', toHex: '#5DA9E9', fromName: 'Sky', toName: null },
+    ]);
+    expect(colors.unchanged).toBe(2);
+  });
+
+  it('reports unmatched colors as added and removed', () => {
+    const grown = [...BASE, color('#F2F2F2', 3, 'Foam')];
+    expect(diffRevisions(revision(1, BASE), revision(2, grown)).colors.added).toEqual([grown[3]]);
+
+    const shrunk = BASE.slice(0, 2);
+    expect(diffRevisions(revision(1, BASE), revision(2, shrunk)).colors.removed).toEqual([BASE[2]]);
+  });
+
+  it('keeps duplicate hexes apart', () => {
+    const twice = [color('#328CC1', 0), color('#328CC1', 1)];
+    const { colors } = diffRevisions(revision(1, twice), revision(2, [color('#328CC1', 1)]));
+
+    expect(colors.unchanged).toBe(1);
+    expect(colors.removed).toEqual([twice[0]]);
+  });
+
+  it('diffs the name, description and tags', () => {
+    const from = revision(1, BASE, { tags: ['sea', 'blue'] });
+    const to = revision(2, BASE, { name: 'Harbor', description: 'Evening', tags: ['blue', 'dusk'] });
+    const diff = diffRevisions(from, to);
+
+    expect(diff.name).toEqual({ from: 'Coast', to: 'Harbor' });
+    expect(diff.description).toEqual({ from: null, to: 'Evening' });
+    expect(diff.tags).toEqual({ added: ['dusk'], removed: ['sea'] });
+  });
+
+  it('treats an empty description like a missing one', () => {
+    const diff = diffRevisions(revision(1, BASE, { description: '' }), revision(2, BASE));
+    expect(diff.description).toBeUndefined();
+  });
+});
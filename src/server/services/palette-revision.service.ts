@@ -0,0 +1,201 @@
+/**
+ * Palette Revision Service
+ * Version snapshots of palettes and color-level diffs between them
+ */
+
+import { Prisma } from '@prisma/client';
+import { GamutColor } from '../../lib/color';
+
+export interface RevisionColor {
+  hex: string;
+  name: string | null;
+  position: number;
+  // Only present for Display P3 and Rec. 2020 colors
+  wideGamut?: GamutColor;
+}
+
+// Minimal palette shape needed to take a snapshot (matches paletteInclude)
+interface SnapshotSource {
+  id: string;
+  version: number;
+  name: string;
+  description: string | null;
+  colors: Array<{ hex: string; name: string | null; position: number; wideGamut?: Prisma.JsonValue }>;
+  tags: Array<{ tag: { name: string } }>;
+}
+
+interface DiffableRevision {
+  version: number;
+  name: string;
+  description: string | null;
+  colors: Prisma.JsonValue;
+  tags: string[];
+}
+
+export interface ColorMove {
+  hex: string;
+  name: string | null;
+  fromPosition: number;
+  toPosition: number;
+}
+
+export interface ColorChange {
+  fromPosition: number;
+  toPosition: number;
+  fromHex: string;
+  toHex: string;
+  fromName: string | null;
+  toName: string | null;
+}
+
+export interface RevisionDiff {
+  fromVersion: number;
+  toVersion: number;
+  colors: {
+    added: RevisionColor[];
+    removed: RevisionColor[];
+    moved: ColorMove[];
+    changed: ColorChange[];
+    unchanged: number;
+  };
+  name?: { from: string; to: string };
+  description?: { from: string | null; to: string | null };
+  tags: {
+    added: string[];
+    removed: string[];
+  };
+}
+
+/**
+ * Store a snapshot of the palette at its current version.
+ * Must run inside the same transaction that bumped the version.
+ */
+export const recordRevision = async (
+  tx: Prisma.TransactionClient,
+  palette: SnapshotSource,
+  userId: string
+) => {
+  return tx.paletteRevision.create({
+    data: {
+      paletteId: palette.id,
+      userId,
+      version: palette.version,
+      name: palette.name,
+      description: palette.description,
+      colors: palette.colors.map((color) => ({
+        hex: color.hex,
+        name: color.name,
+        position: color.position,
+        ...(color.wideGamut ? { wideGamut: color.wideGamut } : {}),
+      })),
+      tags: palette.tags.map((paletteTag) => paletteTag.tag.name),
+    },
+  });
+};
+
+export const getRevisionColors = (revision: { colors: Prisma.JsonValue }): RevisionColor[] => {
+  const colors = (revision.colors as unknown as RevisionColor[]) || [];
+  return [...colors].sort((a, b) => a.position - b.position);
+};
+
+/**
+ * Color-level diff between two revisions.
+ *
+ * Colors have no stable identity across versions, so they are matched in
+ * passes: first by identical hex (same position = unchanged, otherwise
+ * moved), then leftovers sharing a color name or a position are reported
+ * as changed. Whatever is still unmatched was added or removed.
+ */
+export const diffRevisions = (from: DiffableRevision, to: DiffableRevision): RevisionDiff => {
+  const fromColors = getRevisionColors(from);
+  const toColors = getRevisionColors(to);
+
+  const unmatchedFrom = new Set(fromColors);
+  const unmatchedTo = new Set(toColors);
+
+  const moved: ColorMove[] = [];
+  const changed: ColorChange[] = [];
+  let unchanged = 0;
+
+  // Pass 1: identical hex, preferring a partner at the same position
+  for (const toColor of toColors) {
+    const candidates = Array.from(unmatchedFrom).filter(
+      (fromColor) => fromColor.hex.toUpperCase() === toColor.hex.toUpperCase()
+    );
+    if (candidates.length === 0) continue;
+
+    const partner = candidates.find((c) => c.position === toColor.position) || candidates[0];
+    unmatchedFrom.delete(partner);
+    unmatchedTo.delete(toColor);
+
+    if (partner.position !== toColor.position) {
+      moved.push({
+        hex: toColor.hex,
+        name: toColor.name,
+        fromPosition: partner.position,
+        toPosition: toColor.position,
+      });
+    } else if ((partner.name || null) !== (toColor.name || null)) {
+      changed.push({
+        fromPosition: partner.position,
+        toPosition: toColor.position,
+        fromHex: partner.hex,
+        toHex: toColor.hex,
+        fromName: partner.name || null,
+        toName: toColor.name || null,
+      });
+    } else {
+      unchanged++;
+    }
+  }
+
+  // Pass 2: different hex under the same color name, then at the same position
+  const matchers: Array<(fromColor: RevisionColor, toColor: RevisionColor) => boolean> = [
+    (fromColor, toColor) => !!toColor.name && fromColor.name === toColor.name,
+    (fromColor, toColor) => fromColor.position === toColor.position,
+  ];
+
+  for (const matches of matchers) {
+    for (const toColor of Array.from(unmatchedTo)) {
+      const partner = Array.from(unmatchedFrom).find((fromColor) => matches(fromColor, toColor));
+      if (!partner) continue;
+
+      unmatchedFrom.delete(partner);
+      unmatchedTo.delete(toColor);
+      changed.push({
+        fromPosition: partner.position,
+        toPosition: toColor.position,
+        fromHex: partner.hex,
+        toHex: toColor.hex,
+        fromName: partner.name || null,
+        toName: toColor.name || null,
+      });
+    }
+  }
+
+  const diff: RevisionDiff = {
+    fromVersion: from.version,
+    toVersion: to.version,
+    colors: {
+      added: Array.from(unmatchedTo),
+      removed: Array.from(unmatchedFrom),
+      moved,
+      changed: changed.sort((a, b) => a.toPosition - b.toPosition),
+      unchanged,
+    },
+    tags: {
+      added: to.tags.filter((tag) => !from.tags.includes(tag)),
+      removed: from.tags.filter((tag) => !to.tags.includes(tag)),
+    },
+  };
+
+  if (from.name !== to.name) {
+    diff.name = { from: from.name, to: to.name };
+  }
+
+  if ((from.description || null) !== (to.description || null)) {
+    diff.description = { from: from.description, to: to.description };
+  }
+
+  return diff;
+};
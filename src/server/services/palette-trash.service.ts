@@ -0,0 +1,218 @@
+/**
+ * Palette Trash Service
+ * Soft deletion through Palette.deletedAt, restore, and scheduled purge
+ */
+
+import { prismaClient } from '../config/database';
+import { trashConfig } from '../config/api.config';
+import { createError } from '../middleware/error-handler';
+import { logger } from '../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// When a palette trashed at `deletedAt` will be purged
+export const getPurgeDate = (deletedAt: Date): Date =>
+  new Date(deletedAt.getTime() + trashConfig.retentionDays * DAY_MS);
+
+/**
+ * Move a palette to its owner's trash.
+ * With an expected version the move only happens if nobody changed the palette in between.
+ */
+export const trashPalette = async (
+  id: string,
+  userId: string,
+  expectedVersion?: number
+) => {
+  const { count } = await prismaClient.palette.updateMany({
+    where: {
+      id,
+      deletedAt: null,
+      ...(expectedVersion !== undefined && { version: expectedVersion }),
+    },
+    data: { deletedAt: new Date() },
+  });
+
+  if (count === 0) {
+    const current = await prismaClient.palette.findUnique({
+      where: { id },
+      select: { version: true, deletedAt: true }
+    });
+
+    if (!current || current.deletedAt) {
+      throw createError.notFound('Palette');
+    }
+
+    throw createError.conflict('Palette was modified by someone else', {
+      expectedVersion,
+      currentVersion: current.version,
+    });
+  }
+
+  const palette = await prismaClient.palette.findUniqueOrThrow({
+    where: { id },
+    select: { id: true, name: true, deletedAt: true }
+  });
+
+  await prismaClient.activity.create({
+    data: {
+      type: 'PALETTE_UPDATED',
+      userId,
+      paletteId: id,
+      metadata: {
+        action: 'trashed',
+        paletteName: palette.name,
+      },
+    },
+  });
+
+  return {
+    ...palette,
+    purgeAt: getPurgeDate(palette.deletedAt!),
+  };
+};
+
+// Load a trashed palette and make sure the user may restore or purge it
+export const findTrashedPalette = async (id: string, user: { id: string; role: string }) => {
+  const palette = await prismaClient.palette.findFirst({
+    where: { id, deletedAt: { not: null } },
+    select: { id: true, userId: true, name: true }
+  });
+
+  // Someone else's trash is not disclosed
+  if (!palette || (palette.userId !== user.id && user.role !== 'ADMIN')) {
+    throw createError.notFound('Trashed palette');
+  }
+
+  return palette;
+};
+
+export const restorePalette = async (id: string, userId: string) => {
+  const { count } = await prismaClient.palette.updateMany({
+    where: { id, deletedAt: { not: null } },
+    data: { deletedAt: null },
+  });
+
+  if (count === 0) {
+    throw createError.notFound('Trashed palette');
+  }
+
+  const palette = await prismaClient.palette.findUniqueOrThrow({
+    where: { id },
+    include: {
+      colors: { orderBy: { position: 'asc' } },
+    },
+  });
+
+  await prismaClient.activity.create({
+    data: {
+      type: 'PALETTE_UPDATED',
+      userId,
+      paletteId: id,
+      metadata: {
+        action: 'restored',
+        paletteName: palette.name,
+      },
+    },
+  });
+
+  return palette;
+};
+
+// Trashed palettes of a user, most recently deleted first
+export const listTrash = async (userId: string, page: number, limit: number) => {
+  const result = await prismaClient.paginate<{ deletedAt: Date }>('palette', {
+    page,
+    limit,
+    where: { userId, deletedAt: { not: null } },
+    orderBy: { deletedAt: 'desc' },
+    include: {
+      colors: {
+        orderBy: { position: 'asc' },
+        take: 5, // Only first 5 colors for preview
+      },
+    },
+  });
+
+  return {
+    ...result,
+    data: result.data.map((palette) => ({
+      ...palette,
+      purgeAt: getPurgeDate(palette.deletedAt),
+    })),
+  };
+};
+
+// Permanently delete a trashed palette; colors, tags, revisions etc. cascade
+export const purgePalette = async (id: string) => {
+  const { count } = await prismaClient.palette.deleteMany({
+    where: { id, deletedAt: { not: null } },
+  });
+
+  if (count === 0) {
+    throw createError.notFound('Trashed palette');
+  }
+};
+
+/**
+ * Hard-delete palettes that have been in the trash longer than the retention period.
+ * Deletes in batches so a large backlog does not hold one long transaction.
+ */
+export const purgeExpiredPalettes = async (now: Date = new Date()): Promise<number> => {
+  const cutoff = new Date(now.getTime() - trashConfig.retentionDays * DAY_MS);
+  let purged = 0;
+
+  for (;;) {
+    const expired = await prismaClient.palette.findMany({
+      where: { deletedAt: { lt: cutoff } },
+      select: { id: true },
+      take: trashConfig.purgeBatchSize,
+    });
+
+    if (expired.length === 0) break;
+
+    const { count } = await prismaClient.palette.deleteMany({
+      where: {
+        id: { in: expired.map((palette) => palette.id) },
+        deletedAt: { lt: cutoff },
+      },
+    });
+
+    purged += count;
+    if (expired.length < trashConfig.purgeBatchSize) break;
+  }
+
+  return purged;
+};
+
+/**
+ * Run the purge on an interval. Returns a function that stops the job.
+ */
+export const startTrashPurgeJob = (): (() => void) => {
+  let running = false;
+
+  const run = async () => {
+    // Skip a tick rather than overlap with a slow previous run
+    if (running) return;
+    running = true;
+
+    try {
+      const purged = await purgeExpiredPalettes();
+      if (purged > 0) {
+        logger.info('Purged expired palettes from trash', {
+          purged,
+          retentionDays: trashConfig.retentionDays,
+        });
+      }
+    } catch (error) {
+      logger.error('Trash purge failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(run, trashConfig.purgeIntervalMs);
+  timer.unref();
+  void run();
+
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,422 @@
+/**
+ * Palette Service
+ * Shared palette persistence with optimistic concurrency on Palette.version
+ */
+
+import { Request } from 'express';
+import { Prisma } from '@prisma/client';
+import { prismaClient, dbUtils } from '../config/database';
+import { createError } from '../middleware/error-handler';
+import { GamutColor, cssColorValues, formatCssColor, toGamutColor } from '../../lib/color';
+import { recordRevision } from './palette-revision.service';
+import { nameColor } from './color-naming.service';
+import { storedCmyk } from './cmyk.service';
+
+export interface PaletteColorInput {
+  // sRGB hex; ignored when `color` is given
+  hex?: string;
+  // CSS color, e.g. color(display-p3 1 0.2 0.1) for colors outside sRGB
+  color?: string;
+  name?: string;
+  position: number;
+}
+
+export interface PaletteWriteInput {
+  name?: string;
+  description?: string | null;
+  isPublic?: boolean;
+  colors?: PaletteColorInput[];
+  tags?: string[];
+  categoryIds?: string[];
+}
+
+export interface PaletteCreateInput extends PaletteWriteInput {
+  name: string;
+  colors: PaletteColorInput[];
+  forkedFromId?: string;
+}
+
+// Relations returned with every palette from the write API
+export const paletteInclude = {
+  user: {
+    select: { id: true, name: true, avatar: true }
+  },
+  colors: {
+    orderBy: { position: 'asc' as const }
+  },
+  tags: {
+    include: {
+      tag: { select: { name: true, slug: true } }
+    }
+  },
+  categories: {
+    include: {
+      category: { select: { name: true, slug: true, icon: true } }
+    }
+  },
+};
+
+// Build Color rows (with derived rgb/hsl/lab/oklch) for a palette.
+// Positions are normalized to 0..n-1 so the color count filter can rely on them.
+// Wide-gamut colors keep their channels in wideGamut and store the sRGB fallback as hex.
+// cmyk is separated from the color itself, so wide-gamut colors print from their true Lab.
+export const buildColorData = (colors: PaletteColorInput[], paletteId: string) => {
+  return [...colors]
+    .sort((a, b) => a.position - b.position)
+    .map((color, index) => {
+      const source = color.color ?? color.hex ?? '';
+      const { hex, rgb, hsl, lab, oklch, wideGamut } = cssColorValues(source);
+
+      return {
+        hex,
+        rgb,
+        hsl,
+        lab,
+        oklch,
+        wideGamut: wideGamut ?? Prisma.DbNull,
+        cmyk: storedCmyk(wideGamut ? source : hex),
+        name: color.name || nameColor(hex).name,
+        position: index,
+        paletteId,
+      };
+    });
+};
+
+// A stored color or revision snapshot as write input, keeping wide-gamut channels
+export const toColorInput = (color: {
+  hex: string;
+  name?: string | null;
+  position: number;
+  wideGamut?: Prisma.JsonValue | GamutColor;
+}): PaletteColorInput => {
+  const wideGamut = toGamutColor(color.wideGamut);
+  return {
+    hex: color.hex,
+    color: wideGamut ? formatCssColor(wideGamut, 6) : undefined,
+    name: color.name || undefined,
+    position: color.position,
+  };
+};
+
+const toBaseSlug = (name: string): string =>
+  name.toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, '')
+    .replace(/\s+/g, '-')
+    .substring(0, 50) || 'palette';
+
+// Generate a unique slug from a palette name
+export const generatePaletteSlug = async (name: string): Promise<string> => {
+  return dbUtils.generateUniqueSlug('palette', toBaseSlug(name));
+};
+
+// Slugs for palettes saved together; generateUniqueSlug only sees palettes already stored
+const generatePaletteSlugs = async (names: string[]): Promise<string[]> => {
+  const slugs: string[] = [];
+
+  for (const name of names) {
+    const baseSlug = toBaseSlug(name);
+    let slug = await dbUtils.generateUniqueSlug('palette', baseSlug);
+
+    for (let counter = 1; slugs.includes(slug); counter++) {
+      slug = await dbUtils.generateUniqueSlug('palette', `${baseSlug}-${counter}`);
+    }
+
+    slugs.push(slug);
+  }
+
+  return slugs;
+};
+
+// Tag names are stored lower-cased; duplicates within one request collapse to one link
+const normalizeTagNames = (tags: string[]): string[] =>
+  [...new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+
+// Make a palette's tag links match `tags`, creating missing tags. usageCount only changes
+// for tags that are actually linked or unlinked, so rewriting the same tags is a no-op.
+const syncTags = async (tx: Prisma.TransactionClient, paletteId: string, tags: string[]) => {
+  const names = normalizeTagNames(tags);
+
+  const existing = await tx.paletteTag.findMany({
+    where: { paletteId },
+    select: { tagId: true, tag: { select: { name: true } } },
+  });
+  const linked = new Set(existing.map((link) => link.tag.name));
+  const removed = existing.filter((link) => !names.includes(link.tag.name)).map((link) => link.tagId);
+
+  if (removed.length > 0) {
+    await tx.paletteTag.deleteMany({
+      where: { paletteId, tagId: { in: removed } },
+    });
+
+    await tx.tag.updateMany({
+      where: { id: { in: removed }, usageCount: { gt: 0 } },
+      data: { usageCount: { decrement: 1 } },
+    });
+  }
+
+  for (const name of names.filter((name) => !linked.has(name))) {
+    const tag = await tx.tag.upsert({
+      where: { name },
+      create: {
+        name,
+        slug: name.replace(/[^a-z0-9-]/g, '-'),
+        usageCount: 1,
+      },
+      update: {
+        usageCount: { increment: 1 },
+      },
+    });
+
+    await tx.paletteTag.create({
+      data: {
+        paletteId,
+        tagId: tag.id,
+      },
+    });
+  }
+};
+
+// ETag value for a palette version
+export const formatEtag = (version: number): string => `"${version}"`;
+
+// Expected version from an If-Match header (`"3"` or `W/"3"`) or a `version` body field
+export const getExpectedVersion = (req: Request): number | undefined => {
+  const ifMatch = req.headers['if-match'];
+
+  if (ifMatch) {
+    const match = /^(?:W\/)?"?(\d+)"?$/.exec(ifMatch.trim());
+    if (!match) {
+      throw createError.validation('Invalid If-Match header', { ifMatch });
+    }
+    return parseInt(match[1], 10);
+  }
+
+  if (typeof req.body?.version === 'number') {
+    return req.body.version;
+  }
+
+  return undefined;
+};
+
+// Load a palette and make sure the current user may modify it; trashed palettes must be restored first
+export const findEditablePalette = async (id: string, req: Request) => {
+  const palette = await prismaClient.palette.findFirst({
+    where: { id, deletedAt: null },
+    select: { id: true, userId: true, name: true, version: true }
+  });
+
+  if (!palette) {
+    throw createError.notFound('Palette');
+  }
+
+  if (palette.userId !== req.user!.id && req.user!.role !== 'ADMIN') {
+    throw createError.forbidden('Cannot modify this palette');
+  }
+
+  return palette;
+};
+
+// Expected version is mandatory for updates so that stale editors cannot overwrite newer work
+export const requireExpectedVersion = (req: Request): number => {
+  const expectedVersion = getExpectedVersion(req);
+
+  if (expectedVersion === undefined) {
+    throw createError.preconditionRequired(
+      'Palette version required. Send an If-Match header or a version field.'
+    );
+  }
+
+  return expectedVersion;
+};
+
+// Insert a palette with its colors, tags, categories, activity and first revision
+const insertPalette = async (
+  tx: Prisma.TransactionClient,
+  userId: string,
+  input: PaletteCreateInput,
+  slug: string,
+  activityMetadata: Record<string, unknown>
+) => {
+  const palette = await tx.palette.create({
+    data: {
+      name: input.name,
+      description: input.description,
+      slug,
+      isPublic: input.isPublic || false,
+      forkedFromId: input.forkedFromId,
+      userId,
+    }
+  });
+
+  await tx.color.createMany({
+    data: buildColorData(input.colors, palette.id),
+  });
+
+  if (input.tags && input.tags.length > 0) {
+    await syncTags(tx, palette.id, input.tags);
+  }
+
+  if (input.categoryIds && input.categoryIds.length > 0) {
+    await tx.paletteCategory.createMany({
+      data: input.categoryIds.map((categoryId) => ({
+        paletteId: palette.id,
+        categoryId,
+      })),
+    });
+  }
+
+  await tx.activity.create({
+    data: {
+      type: 'PALETTE_CREATED',
+      userId,
+      paletteId: palette.id,
+      metadata: {
+        paletteName: input.name,
+        colorCount: input.colors.length,
+        ...activityMetadata,
+      } as Prisma.InputJsonObject,
+    },
+  });
+
+  const created = await tx.palette.findUniqueOrThrow({
+    where: { id: palette.id },
+    include: paletteInclude,
+  });
+
+  await recordRevision(tx, created, userId);
+
+  return created;
+};
+
+/**
+ * Create a palette with its colors, tags and categories in one transaction.
+ */
+export const createPalette = async (
+  userId: string,
+  input: PaletteCreateInput,
+  activityMetadata: Record<string, unknown> = {}
+) => {
+  const slug = await generatePaletteSlug(input.name);
+
+  return prismaClient.$transaction((tx) => insertPalette(tx, userId, input, slug, activityMetadata));
+};
+
+/**
+ * Create several palettes in one transaction, so either all of them are saved or none.
+ */
+export const createPalettes = async (
+  userId: string,
+  inputs: PaletteCreateInput[],
+  activityMetadata: Record<string, unknown> = {}
+) => {
+  const slugs = await generatePaletteSlugs(inputs.map((input) => input.name));
+
+  return prismaClient.$transaction(async (tx) => {
+    const palettes = [];
+
+    for (const [index, input] of inputs.entries()) {
+      palettes.push(await insertPalette(tx, userId, input, slugs[index], activityMetadata));
+    }
+
+    return palettes;
+  }, {
+    // Prisma's 5 s default is sized for a single palette
+    timeout: 5000 + 1000 * inputs.length,
+  });
+};
+
+/**
+ * Apply an update only if the stored version still equals `expectedVersion`.
+ * The version check and increment happen in a single conditional UPDATE, so
+ * concurrent writers cannot both succeed; the loser gets a 409 with the
+ * current version. Every successful update is snapshotted as a revision.
+ */
+export const updatePalette = async (
+  id: string,
+  userId: string,
+  expectedVersion: number,
+  input: PaletteWriteInput,
+  activityMetadata: Record<string, unknown> = {}
+) => {
+  return prismaClient.$transaction(async (tx) => {
+    const data: Prisma.PaletteUpdateManyMutationInput = {
+      version: { increment: 1 },
+    };
+
+    if (input.name !== undefined) data.name = input.name;
+    if (input.description !== undefined) data.description = input.description;
+    if (input.isPublic !== undefined) data.isPublic = input.isPublic;
+
+    const { count } = await tx.palette.updateMany({
+      where: { id, version: expectedVersion, deletedAt: null },
+      data,
+    });
+
+    if (count === 0) {
+      const current = await tx.palette.findUnique({
+        where: { id },
+        select: { version: true, deletedAt: true }
+      });
+
+      if (!current || current.deletedAt) {
+        throw createError.notFound('Palette');
+      }
+
+      throw createError.conflict('Palette was modified by someone else', {
+        expectedVersion,
+        currentVersion: current.version,
+      });
+    }
+
+    if (input.colors) {
+      await tx.color.deleteMany({
+        where: { paletteId: id }
+      });
+
+      await tx.color.createMany({
+        data: buildColorData(input.colors, id),
+      });
+    }
+
+    if (input.tags) {
+      await syncTags(tx, id, input.tags);
+    }
+
+    if (input.categoryIds) {
+      await tx.paletteCategory.deleteMany({
+        where: { paletteId: id }
+      });
+
+      if (input.categoryIds.length > 0) {
+        await tx.paletteCategory.createMany({
+          data: input.categoryIds.map((categoryId) => ({
+            paletteId: id,
+            categoryId,
+          })),
+        });
+      }
+    }
+
+    const palette = await tx.palette.findUniqueOrThrow({
+      where: { id },
+      include: paletteInclude,
+    });
+
+    await recordRevision(tx, palette, userId);
+
+    await tx.activity.create({
+      data: {
+        type: 'PALETTE_UPDATED',
+        userId,
+        paletteId: id,
+        metadata: {
+          paletteName: palette.name,
+          version: palette.version,
+          ...activityMetadata,
+        } as Prisma.InputJsonObject,
+      },
+    });
+
+    return palette;
+  });
+};
@@ -0,0 +1,70 @@
+/**
+ * Reference printing conditions
+ * Solid and overprint aims of the published characterization data sets, rounded to whole
+ * Lab units; close enough to drive the press model when the ICC profile is not installed.
+ */
+
+import { PrintConditionCharacterization } from './types';
+
+// ISO 12647-2 offset on PT1/2 coated paper (FOGRA39L, ISO Coated v2)
+export const FOGRA39: PrintConditionCharacterization = {
+  name: 'FOGRA39 (ISO Coated v2)',
+  standard: 'ISO 12647-2:2004, paper type 1/2',
+  profile: 'ISOcoated_v2_eci.icc',
+  totalInkLimit: 330,
+  toneValueIncrease: { cmy: 0.14, k: 0.17 },
+  primaries: {
+    paper: { l: 95, a: 0, b: -2 },
+    c: { l: 55, a: -37, b: -50 },
+    m: { l: 48, a: 74, b: -3 },
+    y: { l: 89, a: -5, b: 93 },
+    cm: { l: 24, a: 22, b: -46 },
+    cy: { l: 50, a: -65, b: 27 },
+    my: { l: 47, a: 68, b: 48 },
+    cmy: { l: 23, a: 0, b: 0 },
+    k: { l: 16, a: 0, b: 0 },
+    cmyk: { l: 10, a: 0, b: 0 },
+  },
+};
+
+// US sheetfed on grade 1 coated paper (CGATS TR 006, CRPC6)
+export const GRACOL: PrintConditionCharacterization = {
+  name: 'GRACoL 2013 (CRPC6)',
+  standard: 'CGATS.21-2, CRPC6',
+  profile: 'GRACoL2013_CRPC6.icc',
+  totalInkLimit: 320,
+  toneValueIncrease: { cmy: 0.16, k: 0.18 },
+  primaries: {
+    paper: { l: 95, a: 1, b: -4 },
+    c: { l: 56, a: -37, b: -50 },
+    m: { l: 48, a: 75, b: -4 },
+    y: { l: 89, a: -4, b: 93 },
+    cm: { l: 24, a: 22, b: -46 },
+    cy: { l: 50, a: -66, b: 24 },
+    my: { l: 47, a: 68, b: 48 },
+    cmy: { l: 23, a: 0, b: 0 },
+    k: { l: 16, a: 0, b: 0 },
+    cmyk: { l: 10, a: 0, b: 0 },
+  },
+};
+
+// US web offset publication printing on grade 3 paper (CGATS TR 003)
+export const SWOP: PrintConditionCharacterization = {
+  name: 'SWOP 2006 Coated #3',
+  standard: 'CGATS TR 003',
+  profile: 'SWOP2006_Coated3v2.icc',
+  totalInkLimit: 300,
+  toneValueIncrease: { cmy: 0.2, k: 0.22 },
+  primaries: {
+    paper: { l: 93, a: 0, b: -3 },
+    c: { l: 55, a: -37, b: -42 },
+    m: { l: 46, a: 70, b: -3 },
+    y: { l: 86, a: -4, b: 85 },
+    cm: { l: 25, a: 20, b: -43 },
+    cy: { l: 50, a: -62, b: 22 },
+    my: { l: 46, a: 66, b: 44 },
+    cmy: { l: 25, a: 0, b: 0 },
+    k: { l: 19, a: 1, b: 1 },
+    cmyk: { l: 14, a: 0, b: 0 },
+  },
+};
@@ -0,0 +1,203 @@
+/**
+ * Press model for a printing condition without an ICC profile
+ * Forward: Yule-Nielsen modified Neugebauer over the 16 solid/overprint combinations, with a
+ * parabolic tone value increase. Inverse: damped Gauss-Newton on C, M and Y at a fixed black,
+ * with black chosen by a medium GCR and searched when the GCR black cannot reach the color.
+ */
+
+import { Lab, WHITE_POINTS, Xyz, labToXyz, xyzToLab } from '../../../lib/color';
+import { PrintConditionCharacterization, PrintPrimary } from './types';
+
+// C, M, Y, K area coverage, 0..1
+export type Inks = [number, number, number, number];
+
+export interface PressModel {
+  characterization: PrintConditionCharacterization;
+  paper: Xyz;
+  // XYZ^(1/n) of the 16 Neugebauer primaries, indexed by ink bits (C = 1, M = 2, Y = 4, K = 8)
+  primaries: number[][];
+}
+
+export interface Separation {
+  inks: Inks;
+  lab: Lab;
+  // Distance left between the printed and the requested color (lightness-weighted ΔE*ab)
+  error: number;
+}
+
+export interface SeparationOptions {
+  // Below 1 trades lightness for chroma, as the saturation intent does
+  lightnessWeight?: number;
+}
+
+const YULE_NIELSEN_N = 2;
+
+const CMY_PRIMARIES: PrintPrimary[] = ['paper', 'c', 'm', 'cm', 'y', 'cy', 'my', 'cmy'];
+
+// Black starts replacing the gray component above this share of C, M and Y
+const GCR_START = 0.2;
+
+// Residual at which a separation counts as a match
+const MATCH_ERROR = 0.5;
+
+const toArray = ({ x, y, z }: Xyz) => [x, y, z];
+
+export const buildPressModel = (characterization: PrintConditionCharacterization): PressModel => {
+  const xyz = (primary: PrintPrimary) => toArray(labToXyz(characterization.primaries[primary]));
+  const paper = xyz('paper');
+  const black = xyz('k');
+
+  // Black over a chromatic overprint: its filtering, softened by the exponent that reproduces
+  // the measured four-color black from the three-color one
+  const cmy = xyz('cmy');
+  const cmyk = xyz('cmyk');
+  const strength = Math.log(cmyk[1] / black[1]) / Math.log(cmy[1] / paper[1]);
+
+  const primaries = Array.from({ length: 16 }, (_, bits) => {
+    const base = xyz(CMY_PRIMARIES[bits & 7]);
+    let value = base;
+    if (bits === 15) value = cmyk;
+    else if (bits === 8) value = black;
+    else if (bits & 8) value = base.map((channel, i) => black[i] * (channel / paper[i]) ** strength);
+    return value.map((channel) => channel ** (1 / YULE_NIELSEN_N));
+  });
+
+  return { characterization, paper: { x: paper[0], y: paper[1], z: paper[2] }, primaries };
+};
+
+// Printed area of a nominal tone value; tvi is the increase at 50%
+const effectiveCoverage = (value: number, tvi: number) => {
+  const area = Math.min(1, Math.max(0, value));
+  return area + 4 * tvi * area * (1 - area);
+};
+
+export const printInks = (model: PressModel, inks: Inks): Lab => {
+  const { cmy, k } = model.characterization.toneValueIncrease;
+  const areas = inks.map((value, i) => effectiveCoverage(value, i === 3 ? k : cmy));
+
+  const sum = [0, 0, 0];
+  model.primaries.forEach((primary, bits) => {
+    // Demichel weight: share of the area covered by exactly these inks
+    const weight = areas.reduce((product, area, i) => product * (bits & (1 << i) ? area : 1 - area), 1);
+    if (weight === 0) return;
+    primary.forEach((channel, i) => { sum[i] += weight * channel; });
+  });
+
+  const [x, y, z] = sum.map((channel) => channel ** YULE_NIELSEN_N);
+  return xyzToLab({ x, y, z });
+};
+
+// ==================== SEPARATION ====================
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const residual = (lab: Lab, target: Lab, lightnessWeight: number) =>
+  [(lab.l - target.l) * lightnessWeight, lab.a - target.a, lab.b - target.b];
+
+const norm = (vector: number[]) => Math.hypot(...vector);
+
+// Solves A x = b for a 3x3 system by Cramer's rule; null when singular
+const solve3 = (a: number[][], b: number[]): number[] | null => {
+  const det = (m: number[][]) =>
+    m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1])
+    - m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0])
+    + m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0]);
+
+  const determinant = det(a);
+  if (Math.abs(determinant) < 1e-12) return null;
+  return [0, 1, 2].map((column) => det(a.map((row, i) => row.map((value, j) => (j === column ? b[i] : value)))) / determinant);
+};
+
+// Closest C, M, Y at a fixed black (Levenberg-Marquardt, clamped to 0..1)
+const solveCmy = (model: PressModel, target: Lab, k: number, lightnessWeight: number, start: number[]): Separation => {
+  const evaluate = (cmy: number[]) => {
+    const lab = printInks(model, [cmy[0], cmy[1], cmy[2], k]);
+    return { lab, error: norm(residual(lab, target, lightnessWeight)) };
+  };
+
+  let cmy = start.map(clamp01);
+  let current = evaluate(cmy);
+  let damping = 0.01;
+
+  for (let iteration = 0; iteration < 50 && current.error > 0.01; iteration++) {
+    const f = residual(current.lab, target, lightnessWeight);
+    const jacobian = [0, 1, 2].map((ink) => {
+      const step = cmy[ink] > 0.999 ? -1e-4 : 1e-4;
+      const moved = [...cmy];
+      moved[ink] += step;
+      const g = residual(printInks(model, [moved[0], moved[1], moved[2], k]), target, lightnessWeight);
+      return g.map((value, i) => (value - f[i]) / step);
+    });
+
+    // Normal equations: (JᵀJ + λ·diag(JᵀJ)) δ = -Jᵀf, with the jacobian stored per ink
+    const normal = [0, 1, 2].map((i) => [0, 1, 2].map((j) =>
+      jacobian[i].reduce((sum, value, row) => sum + value * jacobian[j][row], 0)));
+    const gradient = [0, 1, 2].map((i) => jacobian[i].reduce((sum, value, row) => sum + value * f[row], 0));
+    const damped = normal.map((row, i) => row.map((value, j) => (i === j ? value * (1 + damping) + 1e-9 : value)));
+    const delta = solve3(damped, gradient.map((value) => -value));
+
+    const candidate = delta ? cmy.map((value, i) => clamp01(value + delta[i])) : cmy;
+    const next = evaluate(candidate);
+    if (next.error < current.error - 1e-6) {
+      const gain = current.error - next.error;
+      cmy = candidate;
+      current = next;
+      damping = Math.max(1e-6, damping / 3);
+      if (gain < 1e-4) break;
+    } else {
+      damping *= 4;
+      if (damping > 1e6) break;
+    }
+  }
+
+  return { inks: [cmy[0], cmy[1], cmy[2], k], lab: current.lab, error: current.error };
+};
+
+const totalInk = (inks: Inks) => inks.reduce((sum, value) => sum + value, 0) * 100;
+
+// Medium GCR: black takes over the gray component of a three-color separation
+const gcrBlack = (cmy: Inks) => clamp01((Math.min(cmy[0], cmy[1], cmy[2]) - GCR_START) / (1 - GCR_START));
+
+/**
+ * Separate a CIELAB (D50) color into inks. Colors the press cannot print come out as the
+ * closest printable color; the total ink limit is kept by trading C, M and Y for black.
+ */
+export const separate = (model: PressModel, target: Lab, { lightnessWeight = 1 }: SeparationOptions = {}): Separation => {
+  const start = [0.3, 0.3, 0.3];
+  const threeColor = solveCmy(model, target, 0, lightnessWeight, start);
+  let best = solveCmy(model, target, gcrBlack(threeColor.inks), lightnessWeight, threeColor.inks);
+
+  // Dark or dirty colors may need a different black than the GCR suggests
+  if (best.error > MATCH_ERROR) {
+    for (let k = 0; k <= 1.0001; k += 0.1) {
+      const candidate = solveCmy(model, target, Math.min(1, k), lightnessWeight, best.inks);
+      if (candidate.error < best.error - 0.01) best = candidate;
+    }
+    for (const offset of [-0.05, -0.025, 0.025, 0.05]) {
+      const candidate = solveCmy(model, target, clamp01(best.inks[3] + offset), lightnessWeight, best.inks);
+      if (candidate.error < best.error - 0.01) best = candidate;
+    }
+  }
+
+  const limit = model.characterization.totalInkLimit;
+  if (totalInk(best.inks) <= limit) return best;
+
+  for (let k = best.inks[3] + 0.05; k <= 1.0001; k += 0.05) {
+    const candidate = solveCmy(model, target, Math.min(1, k), lightnessWeight, best.inks);
+    if (totalInk(candidate.inks) <= limit) return candidate;
+  }
+
+  // Still over the limit at full black: cut C, M and Y evenly
+  const [c, m, y] = best.inks;
+  const scale = Math.max(0, (limit / 100 - 1) / (c + m + y));
+  const inks: Inks = [c * scale, m * scale, y * scale, 1];
+  const lab = printInks(model, inks);
+  return { inks, lab, error: norm(residual(lab, target, lightnessWeight)) };
+};
+
+// XYZ of the paper relative to the D50 white, for media-relative rendering
+export const paperWhiteScale = (model: PressModel): Xyz => ({
+  x: model.paper.x / WHITE_POINTS.D50.x,
+  y: model.paper.y / WHITE_POINTS.D50.y,
+  z: model.paper.z / WHITE_POINTS.D50.z,
+});
@@ -0,0 +1,17 @@
+import { Lab } from '../../../lib/color';
+
+// Solid inks and their overprints, named by the inks printed on top of each other
+export type PrintPrimary = 'paper' | 'c' | 'm' | 'y' | 'cm' | 'cy' | 'my' | 'cmy' | 'k' | 'cmyk';
+
+export interface PrintConditionCharacterization {
+  name: string;
+  standard: string;
+  // ICC output profile for this condition, looked up in the print profile directory
+  profile: string;
+  // Maximum total area coverage in percent (C + M + Y + K)
+  totalInkLimit: number;
+  // Tone value increase at 50% as a fraction, for the chromatic inks and for black
+  toneValueIncrease: { cmy: number; k: number };
+  // Characterization aims, CIELAB D50 (M1 measurement, white backing)
+  primaries: Record<PrintPrimary, Lab>;
+}
@@ -0,0 +1,151 @@
+/**
+ * Stylesheet Import Service
+ * Proposes a palette from the colors used in a stylesheet or theme file
+ */
+
+import path from 'path';
+import { hexToRgb, rgbToOklab } from '../../lib/color';
+import {
+  detectStylesheetSyntax,
+  extractColors,
+  ExtractedColor,
+  StylesheetSyntax,
+} from '../formats/stylesheet';
+import { createError } from '../middleware/error-handler';
+
+// Same limits as the palette write API
+const MAX_PALETTE_COLORS = 20;
+const MAX_NAME_LENGTH = 100;
+const MAX_COLOR_NAME_LENGTH = 50;
+
+// Colors closer than this in OKLab are treated as the same color (about one just-noticeable difference)
+export const DEFAULT_MERGE_DISTANCE = 0.02;
+
+export interface StylesheetImportOptions {
+  syntax?: StylesheetSyntax;
+  name?: string;
+  // OKLab distance below which colors are merged
+  threshold?: number;
+}
+
+export interface ProposedColor {
+  hex: string;
+  name: string | null;
+  alpha?: number;
+  // Other variable names whose color was merged into this one
+  aliases: string[];
+  // Variables, properties or key paths the color was found in
+  sources: string[];
+  occurrences: number;
+}
+
+interface Cluster extends ProposedColor {
+  lab: [number, number, number];
+  order: number;
+}
+
+const toOklab = (hex: string): [number, number, number] => {
+  const { l, a, b } = rgbToOklab(hexToRgb(hex));
+  return [l, a, b];
+};
+
+const distance = (a: [number, number, number], b: [number, number, number]) =>
+  Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+/**
+ * Merge colors that are perceptually near-identical. The first named occurrence
+ * names the merged color; later names become aliases.
+ */
+export const mergeSimilarColors = (colors: ExtractedColor[], threshold: number): ProposedColor[] => {
+  const clusters: Cluster[] = [];
+
+  for (const color of colors) {
+    const lab = toOklab(color.hex);
+    const cluster = clusters.find((candidate) => distance(candidate.lab, lab) < threshold);
+
+    if (!cluster) {
+      clusters.push({
+        hex: color.hex,
+        name: color.name,
+        ...(color.alpha !== undefined ? { alpha: color.alpha } : {}),
+        aliases: [],
+        sources: [color.source],
+        occurrences: 1,
+        lab,
+        order: clusters.length,
+      });
+      continue;
+    }
+
+    cluster.occurrences++;
+    if (!cluster.sources.includes(color.source)) cluster.sources.push(color.source);
+
+    if (color.name && color.name !== cluster.name && !cluster.aliases.includes(color.name)) {
+      if (cluster.name) cluster.aliases.push(color.name);
+      else cluster.name = color.name;
+    }
+  }
+
+  // Named colors keep their source order; unnamed literals follow, most used first
+  return clusters
+    .sort((a, b) => Number(!a.name) - Number(!b.name)
+      || (a.name ? a.order - b.order : b.occurrences - a.occurrences || a.order - b.order))
+    .map((cluster) => ({
+      hex: cluster.hex,
+      name: cluster.name,
+      ...(cluster.alpha !== undefined ? { alpha: cluster.alpha } : {}),
+      aliases: cluster.aliases,
+      sources: cluster.sources,
+      occurrences: cluster.occurrences,
+    }));
+};
+
+/**
+ * Extract, merge and propose. The palette part is ready to send to POST /palettes;
+ * `variables` maps every variable name found to its merged color.
+ */
+export const proposePaletteFromStylesheet = (
+  text: string,
+  filename: string,
+  options: StylesheetImportOptions = {}
+) => {
+  const syntax = options.syntax || detectStylesheetSyntax(filename, text);
+  const extracted = extractColors(text, syntax);
+
+  if (extracted.length === 0) {
+    throw createError.validation('No colors found in the file', { syntax });
+  }
+
+  const colors = mergeSimilarColors(extracted, options.threshold ?? DEFAULT_MERGE_DISTANCE);
+
+  const variables: Record<string, string> = {};
+  for (const color of colors) {
+    for (const name of [color.name, ...color.aliases]) {
+      if (name) variables[name] = color.hex;
+    }
+  }
+
+  const name = options.name
+    || (filename ? path.basename(filename, path.extname(filename)) : '')
+    || 'Imported styles';
+
+  return {
+    syntax,
+    palette: {
+      name: name.slice(0, MAX_NAME_LENGTH),
+      colors: colors.slice(0, MAX_PALETTE_COLORS).map((color, position) => ({
+        hex: color.hex,
+        name: color.name ? color.name.slice(0, MAX_COLOR_NAME_LENGTH) : undefined,
+        position,
+      })),
+    },
+    colors,
+    variables,
+    stats: {
+      found: extracted.length,
+      unique: colors.length,
+      merged: extracted.length - colors.length,
+      truncated: Math.max(0, colors.length - MAX_PALETTE_COLORS),
+    },
+  };
+};
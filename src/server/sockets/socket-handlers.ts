@@ -119,8 +119,8 @@ const authenticateSocket = async (socket: AuthenticatedSocket, next: Function) =
 
 // Check if user has access to palette
 const checkPaletteAccess = async (paletteId: string, userId: string): Promise<boolean> => {
-  const palette = await prismaClient.palette.findUnique({
-    where: { id: paletteId },
+  const palette = await prismaClient.palette.findFirst({
+    where: { id: paletteId, deletedAt: null },
     select: {
       id: true,
       isPublic: true,
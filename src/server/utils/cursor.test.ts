@@ -0,0 +1,30 @@
+import { decodeCursor, encodeCursor } from './cursor';
+
+const ID = '3f1c2a9e-8b7d-4e6f-9a0b-1c2d3e4f5a6b';
+
+describe('cursor', () => {
+  it('round-trips string and numeric sort values', () => {
+    expect(decodeCursor(encodeCursor('Sea', ID))).toEqual({ v: 'Sea', id: ID });
+    expect(decodeCursor(encodeCursor(42, ID))).toEqual({ v: 42, id: ID });
+  });
+
+  it('stores dates as ISO strings', () => {
+    const date = new Date(Date.UTC(2025, 0, 2, 3, 4, 5, 6));
+    expect(decodeCursor(encodeCursor(date, ID))).toEqual({ v: '2025-01-02T03:04:05.006Z', id: ID });
+  });
+
+  it('is URL safe', () => {
+    expect(encodeCursor('?/+=~'.repeat(10), ID)).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it('rejects anything it did not issue', () => {
+    const encode = (payload: unknown) => Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+    expect(decodeCursor('not a cursor')).toBeNull();
+    expect(decodeCursor('')).toBeNull();
+    expect(decodeCursor(encode(null))).toBeNull();
+    expect(decodeCursor(encode({ v: 1 }))).toBeNull();
+    expect(decodeCursor(encode({ v: { lt: 1 }, id: ID }))).toBeNull();
+    expect(decodeCursor(encode({ v: 1, id: 7 }))).toBeNull();
+  });
+});
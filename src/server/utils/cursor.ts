@@ -0,0 +1,40 @@
+/**
+ * Opaque keyset pagination cursors
+ * A cursor carries the sort value and id of the last row on a page, so the
+ * next page starts right after it no matter how many rows were inserted since.
+ */
+
+export type CursorValue = string | number;
+
+interface CursorPayload {
+  v: CursorValue;
+  id: string;
+}
+
+export const encodeCursor = (value: CursorValue | Date, id: string): string => {
+  const payload: CursorPayload = {
+    v: value instanceof Date ? value.toISOString() : value,
+    id,
+  };
+
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+};
+
+// Returns null for anything that was not produced by encodeCursor
+export const decodeCursor = (cursor: string): CursorPayload | null => {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+
+    if (
+      !payload ||
+      typeof payload.id !== 'string' ||
+      (typeof payload.v !== 'string' && typeof payload.v !== 'number')
+    ) {
+      return null;
+    }
+
+    return { v: payload.v, id: payload.id };
+  } catch {
+    return null;
+  }
+};
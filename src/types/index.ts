@@ -25,6 +25,15 @@ export interface PaginatedResponse<T> {
   };
 }
 
+export interface CursorPaginatedResponse<T> {
+  data: T[];
+  pagination: {
+    limit: number;
+    hasNext: boolean;
+    nextCursor: string | null;
+  };
+}
+
 export interface UploadProgress {
   progress: number;
   isUploading: boolean;
@@ -11,6 +11,34 @@ export interface Color {
     s: number;
     l: number;
   };
+  lab?: {
+    l: number;
+    a: number;
+    b: number;
+  };
+  oklch?: {
+    l: number;
+    c: number;
+    h: number;
+  };
+  // Display P3 or Rec. 2020 channels (0..1); hex is then the gamut-mapped sRGB fallback
+  wideGamut?: {
+    space: 'srgb' | 'display-p3' | 'rec2020';
+    r: number;
+    g: number;
+    b: number;
+  } | null;
+  // Ink percentages for the print condition the server separated the color for
+  cmyk?: {
+    c: number;
+    m: number;
+    y: number;
+    k: number;
+    condition: 'fogra39' | 'gracol' | 'swop';
+    intent: 'perceptual' | 'relative' | 'saturation' | 'absolute';
+    // characterization when approximated without the condition's ICC profile
+    source?: 'icc' | 'characterization';
+  } | null;
   name?: string;
 }
 
@@ -27,6 +55,17 @@ export interface Palette {
   likesCount: number;
   viewsCount: number;
   shareUrl?: string;
+  forkedFrom?: PaletteForkSource | null;
+  forksCount?: number;
+}
+
+export interface PaletteForkSource {
+  id: string;
+  name: string;
+  user?: {
+    id: string;
+    name?: string;
+  };
 }
 
 export interface PaletteSearchFilter {
@@ -38,6 +77,11 @@ export interface PaletteSearchFilter {
   userId?: string;
 }
 
+export interface PaletteSearchParams extends PaletteSearchFilter {
+  cursor?: string;
+  limit?: number;
+}
+
 export interface ColorHarmony {
   type: 'monochromatic' | 'analogous' | 'complementary' | 'triadic' | 'tetradic' | 'splitComplementary';
   baseColor: Color;